@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // next lint は既定では src などだけを見るので、テストも対象にする
+  eslint: { dirs: ["src", "tests"] },
 };
 
 export default nextConfig;
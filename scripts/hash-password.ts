@@ -0,0 +1,36 @@
+/**
+ * ローカル認証（AUTH_MODE=local）の設定ファイルに書くパスワードのハッシュを作る。
+ *
+ *   npm run hash-password            標準入力からパスワードを読む（シェルの履歴に残らない）
+ *   npm run hash-password -- <pw>    引数で渡す
+ *
+ * 出力された「scrypt$…」を AUTH_CONFIG_FILE の利用者の password に書く。
+ */
+import { createInterface } from "readline";
+import { hashPassword } from "../src/lib/auth/password";
+
+async function readPassword(): Promise<string> {
+  const arg = process.argv[2];
+  if (arg !== undefined) return arg;
+  if (process.stdin.isTTY) process.stderr.write("パスワード: ");
+  const rl = createInterface({ input: process.stdin });
+  for await (const line of rl) {
+    rl.close();
+    return line;
+  }
+  return "";
+}
+
+async function main() {
+  const password = await readPassword();
+  if (!password) {
+    console.error("パスワードが空です");
+    process.exit(2);
+  }
+  console.log(await hashPassword(password));
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
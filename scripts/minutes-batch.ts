@@ -0,0 +1,136 @@
+/**
+ * 文字起こしのフォルダか zip から議事録をまとめて作る CLI。件ごとの .docx と report.json / report.csv を書き出す。
+ *
+ *   npm run batch -- <フォルダ | .zip> [オプション]
+ *
+ *   --out <dir>            出力先（既定 ./<入力名>-minutes）。件ごとの .json / .docx と report.json / report.csv を書く
+ *   --profile <id|名前>     共有する文体プロファイル
+ *   --style <file>         過去の議事録（複数可。.docx / .pdf / .txt / .md / .html / .rtf / .eml / .msg）。プロファイルと併用すると変更があればプロファイルを更新する
+ *   --template <id>        会議の種類（prompts/*.md、既定 general）
+ *   --provider <name>      LLM プロバイダー（openai / openai-compatible / azure / mock）
+ *   --concurrency <n>      同時に処理する件数（既定 BATCH_CONCURRENCY）
+ *   --retries <n>          レート制限で失敗したときの再試行回数（既定 BATCH_MAX_RETRIES）
+ *   --redact               個人情報を伏せ字にして送信する
+ *   --redact-terms <file>  追加で伏せる語（1行1語）
+ *   --no-glossary          用語集を使わない
+ *   --source-language <l>  書き起こしの言語（auto / ja / en、既定 auto）
+ *   --language <l>         議事録の言語（ja / en / bilingual、既定 ja）。bilingual は翻訳を <名前>.<言語>.docx にも書く
+ *   --workspace <id>       履歴を保存するワークスペース（既定 default）。--profile もこのワークスペースから探す
+ *
+ * 設定（.env / .env.local）は Next.js と同じように読み込む。1件でも失敗すると終了コード 1 になる。
+ */
+import { mkdir, readFile, stat, writeFile } from "fs/promises";
+import { basename, dirname, join, resolve } from "path";
+import { parseArgs } from "util";
+import { loadEnvConfig } from "@next/env";
+import { readSourceFolder, readSourceZip, resolveBatchConfig, runMinutesBatch } from "../src/lib/batch";
+import { isProviderName, resolveProvider } from "../src/lib/llm";
+import { isMinutesLanguage, isOutputLanguage } from "../src/lib/minutes/language";
+import { getPromptTemplate } from "../src/lib/prompts";
+import { loadRedactionTerms } from "../src/lib/redaction";
+import { DEFAULT_WORKSPACE_ID, getStyleProfileStore, inWorkspace, type StyleProfile } from "../src/lib/storage";
+
+class UsageError extends Error {}
+
+const USAGE = "使い方: npm run batch -- <フォルダ | .zip> [--out dir] [--profile id|名前] [--style file ...] [--template id] " +
+  "[--provider name] [--concurrency n] [--retries n] [--redact] [--redact-terms file] [--no-glossary] " +
+  "[--source-language auto|ja|en] [--language ja|en|bilingual] [--workspace id]";
+
+function parseCli() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: "string" },
+      profile: { type: "string" },
+      style: { type: "string", multiple: true },
+      template: { type: "string" },
+      provider: { type: "string" },
+      concurrency: { type: "string" },
+      retries: { type: "string" },
+      redact: { type: "boolean" },
+      "redact-terms": { type: "string" },
+      "no-glossary": { type: "boolean" },
+      "source-language": { type: "string" },
+      language: { type: "string" },
+      workspace: { type: "string" },
+    },
+  });
+  if (positionals.length !== 1) throw new UsageError(USAGE);
+  return { input: resolve(positionals[0]), ...values };
+}
+
+function optionalNumber(value: string | undefined, name: string): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 0) throw new UsageError(`--${name} には 0 以上の整数を指定してください`);
+  return n;
+}
+
+async function findProfile(key: string, workspaceId: string): Promise<StyleProfile> {
+  const profiles = (await getStyleProfileStore().all()).filter((p) => inWorkspace(p, workspaceId));
+  const profile = profiles.find((p) => p.id === key) ?? profiles.find((p) => p.name === key);
+  if (!profile) throw new UsageError(`文体プロファイルが見つかりません: ${key}`);
+  return profile;
+}
+
+async function main(): Promise<number> {
+  loadEnvConfig(process.cwd());
+  const args = parseCli();
+
+  const sources = (await stat(args.input)).isDirectory()
+    ? await readSourceFolder(args.input)
+    : readSourceZip(await readFile(args.input));
+  if (sources.length === 0) throw new UsageError(`文字起こしファイル（.txt / .vtt / .srt）がありません: ${args.input}`);
+
+  if (args.provider && !isProviderName(args.provider)) throw new UsageError(`provider が不正です: ${args.provider}`);
+  const template = await getPromptTemplate(args.template);
+  if (!template) throw new UsageError(`会議の種類（template）が不正です: ${args.template}`);
+
+  const styleFiles = await Promise.all(
+    (args.style ?? []).map(async (path) => new File([new Uint8Array(await readFile(path))], basename(path)))
+  );
+  const redactTerms = args.redact
+    ? await loadRedactionTerms(args["redact-terms"] ? await readFile(args["redact-terms"], "utf8") : null)
+    : null;
+  const source = args["source-language"] ?? "auto";
+  const output = args.language ?? "ja";
+  if (source !== "auto" && !isMinutesLanguage(source)) throw new UsageError(`--source-language が不正です: ${source}`);
+  if (!isOutputLanguage(output)) throw new UsageError(`--language が不正です: ${output}`);
+  const provider = resolveProvider({ provider: isProviderName(args.provider) ? args.provider : undefined });
+  const workspaceId = args.workspace ?? DEFAULT_WORKSPACE_ID;
+  const out = resolve(args.out ?? `${basename(args.input).replace(/\.zip$/i, "")}-minutes`);
+
+  const { report, files } = await runMinutesBatch(sources, {
+    ...resolveBatchConfig({
+      concurrency: optionalNumber(args.concurrency, "concurrency"),
+      retries: optionalNumber(args.retries, "retries"),
+    }),
+    provider,
+    template,
+    styleProfile: args.profile ? await findProfile(args.profile, workspaceId) : null,
+    styleFiles,
+    redactTerms,
+    glossary: !args["no-glossary"],
+    language: { source, output },
+    workspaceId,
+    onItem: (item, done, total) =>
+      console.log(`[${done}/${total}] ${item.status === "done" ? "成功" : "失敗"} ${item.file}${item.error ? `: ${item.error}` : ""}`),
+  });
+
+  for (const file of files) {
+    const path = join(out, file.path);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, file.data);
+  }
+  for (const warning of report.styleWarnings) console.warn(`スタイルファイル ${warning.file}: ${warning.message}`);
+  console.log(`完了: ${report.succeeded}/${report.total} 件成功。出力先: ${out}`);
+  return report.failed > 0 ? 1 : 0;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (e) => {
+    console.error(e instanceof UsageError ? e.message : e);
+    process.exit(e instanceof UsageError ? 2 : 1);
+  }
+);
@@ -0,0 +1,49 @@
+/**
+ * Slack / Teams の Incoming Webhook の代わりに受信内容を表示するだけのスタブサーバー。
+ * 開発中に「Slack/Teams に送信」を試すときに使う。
+ *
+ *   npm run webhook-stub -- [--port n] [--fail]
+ *
+ *   --port <n>   待ち受けるポート（既定 4010）。WEBHOOK_URL=http://localhost:<n> を設定して使う
+ *   --fail       常に HTTP 500 を返す（送信失敗時の表示を確かめる）
+ */
+import { createServer } from "http";
+import { parseArgs } from "util";
+
+const { values } = parseArgs({
+  options: {
+    port: { type: "string" },
+    fail: { type: "boolean" },
+  },
+});
+
+const port = Number(values.port ?? 4010);
+if (!Number.isInteger(port) || port <= 0) {
+  console.error(`--port が不正です: ${values.port}`);
+  process.exit(2);
+}
+
+let received = 0;
+
+createServer((req, res) => {
+  const chunks: Buffer[] = [];
+  req.on("data", (chunk: Buffer) => chunks.push(chunk));
+  req.on("end", () => {
+    received++;
+    const body = Buffer.concat(chunks).toString("utf8");
+    console.log(`=== #${received} ${req.method} ${req.url} (${req.headers["content-type"] ?? "-"}) ===`);
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+    } catch {
+      console.log(body);
+    }
+    if (values.fail) {
+      res.writeHead(500, { "content-type": "text/plain" }).end("stub failure");
+      return;
+    }
+    // Slack は "ok"、Teams（Workflows）は 202 を返すが、どちらも 2xx なので区別しない
+    res.writeHead(200, { "content-type": "text/plain" }).end("ok");
+  });
+}).listen(port, () => {
+  console.log(`Webhook スタブ: http://localhost:${port}${values.fail ? "（常に失敗を返す）" : ""}`);
+});
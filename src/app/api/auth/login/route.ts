@@ -0,0 +1,74 @@
+import { NextRequest } from "next/server";
+import {
+  AuthConfigError,
+  checkRequestSize,
+  clientAddress,
+  consumeRateLimit,
+  getAuthMode,
+  isProxyTrusted,
+  loadAuthConfig,
+  sessionCookie,
+  verifyPassword,
+  verifyUnknownUser,
+} from "@/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function json(body: unknown, status: number, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json", ...headers } });
+}
+
+/** ローカル認証（AUTH_MODE=local）のログイン。JSON: { username, password } */
+export async function POST(req: NextRequest) {
+  try {
+    const sizeError = checkRequestSize(req);
+    if (sizeError) return json({ error: sizeError.error }, sizeError.status);
+
+    let body: Record<string, unknown>;
+    try {
+      body = await req.json();
+    } catch {
+      return json({ error: "JSON の形式が不正です" }, 400);
+    }
+    const username = typeof body?.username === "string" ? body.username.trim() : "";
+    const password = typeof body?.password === "string" ? body.password : "";
+    if (!username || !password) return json({ error: "ログイン名とパスワードを入力してください" }, 400);
+
+    let config;
+    try {
+      if (getAuthMode() !== "local") return json({ error: "パスワードでのログインは有効になっていません" }, 400);
+      config = await loadAuthConfig();
+    } catch (e) {
+      if (!(e instanceof AuthConfigError)) throw e;
+      console.error("認証の設定エラー:", e.message);
+      return json({ error: e.message }, 500);
+    }
+
+    // パスワードの総当たりを防ぐため、ログイン名と接続元の組ごとに試行回数を数える
+    // （ほかの接続元からの試行で本人がログインできなくならないように）。
+    // 接続元ごとの合計も数えるのは、信頼できるプロキシの後ろにいる（接続元のヘッダーを偽れない）場合だけ。
+    // そうでなければ接続元はすべて同じ（clientAddress が "local"）なので、ログイン名ごとに数えることになる
+    const address = clientAddress(req);
+    const retryAfter =
+      consumeRateLimit(`login:user:${address}:${username.toLowerCase()}`, { login: true }) ??
+      (isProxyTrusted() ? consumeRateLimit(`login:ip:${address}`, { login: true }) : null);
+    if (retryAfter !== null) {
+      return json({ error: `ログインの試行が多すぎます。${retryAfter} 秒ほど待ってください` }, 429, { "retry-after": String(retryAfter) });
+    }
+
+    const user = config.users.find((u) => u.id === username);
+    const ok = user?.password ? await verifyPassword(password, user.password) : await verifyUnknownUser(password);
+    if (!user || !ok) {
+      console.log("ログイン失敗:", username);
+      return json({ error: "ログイン名またはパスワードが違います" }, 401);
+    }
+
+    const sessionUser = { id: user.id, name: user.name || user.id };
+    console.log("ログイン:", user.id);
+    return json({ user: sessionUser }, 200, { "set-cookie": sessionCookie(req, sessionUser, "local") });
+  } catch (e) {
+    console.error("=== /api/auth/login エラー ===", e);
+    return json({ error: e instanceof Error ? e.message : "Unknown error" }, 500);
+  }
+}
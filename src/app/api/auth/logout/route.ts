@@ -0,0 +1,12 @@
+import { NextRequest } from "next/server";
+import { SESSION_COOKIE, clearCookie } from "@/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(req: NextRequest) {
+  return new Response(JSON.stringify({ loggedOut: true }), {
+    status: 200,
+    headers: { "content-type": "application/json", "set-cookie": clearCookie(req, SESSION_COOKIE) },
+  });
+}
@@ -0,0 +1,47 @@
+import { NextRequest } from "next/server";
+import {
+  AuthConfigError,
+  OIDC_COOKIE,
+  OidcError,
+  clearCookie,
+  completeOidcLogin,
+  getAuthMode,
+  loadAuthConfig,
+  membershipsOf,
+  sessionCookie,
+} from "@/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** 画面に戻し、失敗した場合は理由を authError で渡す */
+function redirectHome(req: NextRequest, cookies: string[], error?: string) {
+  const url = new URL("/", req.nextUrl.origin);
+  if (error) url.searchParams.set("authError", error);
+  const headers = new Headers({ location: url.toString() });
+  for (const cookie of cookies) headers.append("set-cookie", cookie);
+  return new Response(null, { status: 302, headers });
+}
+
+/** 発行者のログイン画面から戻ってくる先（OIDC_REDIRECT_URI） */
+export async function GET(req: NextRequest) {
+  const clearPending = clearCookie(req, OIDC_COOKIE);
+  try {
+    // OIDC を無効にしたあとも、発行者から戻ってきた認可コードでセッションを作らせない
+    if (getAuthMode() !== "oidc") return redirectHome(req, [clearPending], "OIDC でのログインは有効になっていません");
+    const user = await completeOidcLogin(req, req.cookies.get(OIDC_COOKIE)?.value);
+    if (membershipsOf(await loadAuthConfig(), user.id, "oidc").length === 0) {
+      console.log("OIDC ログイン拒否（ワークスペースなし）:", user.id);
+      return redirectHome(req, [clearPending], `${user.id} はどのワークスペースにも参加していません`);
+    }
+    console.log("ログイン（OIDC）:", user.id);
+    return redirectHome(req, [clearPending, sessionCookie(req, user, "oidc")]);
+  } catch (e) {
+    if (e instanceof AuthConfigError || e instanceof OidcError) {
+      console.error("OIDC ログイン失敗:", e.message);
+      return redirectHome(req, [clearPending], e.message);
+    }
+    console.error("=== /api/auth/oidc/callback エラー ===", e);
+    return redirectHome(req, [clearPending], "ログインに失敗しました");
+  }
+}
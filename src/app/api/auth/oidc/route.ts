@@ -0,0 +1,28 @@
+import { NextRequest } from "next/server";
+import { AuthConfigError, OIDC_COOKIE, OidcError, getAuthMode, isSecureRequest, serializeCookie, startOidcLogin } from "@/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function json(body: unknown, status: number) {
+  return new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json" } });
+}
+
+/** OIDC（AUTH_MODE=oidc）のログインを始める。発行者のログイン画面にリダイレクトする */
+export async function GET(req: NextRequest) {
+  try {
+    if (getAuthMode() !== "oidc") return json({ error: "OIDC でのログインは有効になっていません" }, 400);
+    const { url, pending, maxAge } = await startOidcLogin(req);
+    return new Response(null, {
+      status: 302,
+      headers: { location: url, "set-cookie": serializeCookie(OIDC_COOKIE, pending, { maxAge, secure: isSecureRequest(req) }) },
+    });
+  } catch (e) {
+    if (e instanceof AuthConfigError || e instanceof OidcError) {
+      console.error("OIDC のログインを開始できません:", e.message);
+      return json({ error: e.message }, e instanceof OidcError ? 502 : 500);
+    }
+    console.error("=== /api/auth/oidc エラー ===", e);
+    return json({ error: e instanceof Error ? e.message : "Unknown error" }, 500);
+  }
+}
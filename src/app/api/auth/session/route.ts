@@ -0,0 +1,27 @@
+import { NextRequest } from "next/server";
+import { authorize } from "@/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function json(body: unknown, status: number) {
+  return new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json" } });
+}
+
+/**
+ * ログイン中の利用者と選択中のワークスペース・権限。
+ * ログインしていなければ 401（{ error, mode }。mode で画面に出すログイン方法を決める）
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await authorize(req, "viewer");
+    if (auth instanceof Response) return auth;
+    return json(
+      { mode: auth.mode, user: auth.user, workspace: auth.workspace, role: auth.role, memberships: auth.memberships },
+      200
+    );
+  } catch (e) {
+    console.error("=== /api/auth/session エラー ===", e);
+    return json({ error: e instanceof Error ? e.message : "Unknown error" }, 500);
+  }
+}
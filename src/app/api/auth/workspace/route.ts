@@ -0,0 +1,34 @@
+import { NextRequest } from "next/server";
+import { authorize, workspaceCookie } from "@/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function json(body: unknown, status: number, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json", ...headers } });
+}
+
+/** 画面で操作するワークスペースを切り替える。JSON: { workspaceId } */
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await authorize(req, "viewer");
+    if (auth instanceof Response) return auth;
+
+    let body: Record<string, unknown>;
+    try {
+      body = await req.json();
+    } catch {
+      return json({ error: "JSON の形式が不正です" }, 400);
+    }
+    const membership = auth.memberships.find((m) => m.id === body?.workspaceId);
+    if (!membership) return json({ error: "このワークスペースへのアクセス権がありません" }, 403);
+
+    console.log("ワークスペースを切り替え:", auth.user.id, "→", membership.id);
+    return json({ workspace: { id: membership.id, name: membership.name }, role: membership.role }, 200, {
+      "set-cookie": workspaceCookie(req, membership.id),
+    });
+  } catch (e) {
+    console.error("=== /api/auth/workspace エラー ===", e);
+    return json({ error: e instanceof Error ? e.message : "Unknown error" }, 500);
+  }
+}
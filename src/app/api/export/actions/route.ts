@@ -0,0 +1,70 @@
+import { NextRequest } from "next/server";
+import { authorize } from "@/lib/auth";
+import { extractActionPlan } from "@/lib/export/actions";
+import { readMinutesDocument } from "@/lib/export/document";
+import { ICS_CONTENT_TYPE, renderActionPlanIcs } from "@/lib/export/ics";
+import { actionPlanToCsv, isTrackerFormat, toTrackerPayload, TRACKER_FORMATS } from "@/lib/export/tracker";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function json(body: unknown, status: number) {
+  return new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json" } });
+}
+
+function attachment(body: string, contentType: string, filename: string, headers: Record<string, string> = {}) {
+  const ext = filename.slice(filename.lastIndexOf("."));
+  return new Response(body, {
+    status: 200,
+    headers: {
+      "content-type": contentType,
+      "content-disposition": `attachment; filename="actions${ext}"; filename*=UTF-8''${encodeURIComponent(filename)}`,
+      ...headers,
+    },
+  });
+}
+
+/**
+ * 宿題事項（と次回の会議）を書き出す。
+ * フォーム: document（議事録の JSON）, format（ics / csv / backlog / jira / github）, project（Backlog の projectId・Jira のプロジェクトキー）
+ * ics は期限を日付として読めた宿題事項だけを載せ、載せなかった件数を x-skipped-items で返す。
+ */
+export async function POST(req: NextRequest) {
+  try {
+    console.log("=== /api/export/actions 開始 ===");
+
+    const auth = await authorize(req, "viewer");
+    if (auth instanceof Response) return auth;
+
+    const form = await req.formData();
+    const doc = readMinutesDocument(form.get("document"));
+    const format = form.get("format");
+    if (!doc) return json({ error: "議事録データ（document）が必要です" }, 400);
+    if (format !== "ics" && format !== "csv" && !isTrackerFormat(format)) {
+      return json({ error: `format が不正です（ics / csv / ${TRACKER_FORMATS.join(" / ")}）: ${format}` }, 400);
+    }
+
+    const plan = extractActionPlan(doc);
+    const base = `${doc.meeting.title || "minutes"}_${doc.meeting.date || Date.now()}_actions`;
+    console.log("宿題事項:", plan.items.length, "件, 次回:", plan.nextMeeting?.date ?? "なし", "形式:", format);
+
+    if (format === "ics") {
+      const { ics, events, skipped } = renderActionPlanIcs(plan);
+      if (events === 0) return json({ error: "予定表に載せられる期限・次回の日時がありません", skipped }, 422);
+      console.log("=== /api/export/actions 成功 === 予定", events, "件, 期限不明", skipped, "件");
+      return attachment(ics, ICS_CONTENT_TYPE, `${base}.ics`, { "x-skipped-items": String(skipped) });
+    }
+    if (plan.items.length === 0) return json({ error: "宿題事項がありません" }, 422);
+    if (format === "csv") {
+      console.log("=== /api/export/actions 成功 === CSV");
+      return attachment(actionPlanToCsv(plan), "text/csv; charset=utf-8", `${base}.csv`);
+    }
+    const project = form.get("project");
+    const payload = toTrackerPayload(plan, format, { project: typeof project === "string" ? project.trim() : "" });
+    console.log("=== /api/export/actions 成功 ===", format);
+    return attachment(JSON.stringify(payload, null, 2), "application/json", `${base}_${format}.json`);
+  } catch (e) {
+    console.error("=== /api/export/actions エラー ===", e);
+    return json({ error: e instanceof Error ? e.message : "Unknown error" }, 500);
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest } from "next/server";
+import { authorize } from "@/lib/auth";
+import { DocxTemplateError, fillDocxTemplate, renderMinutesDocx } from "@/lib/export/docx";
+import { readMinutesDocument } from "@/lib/export/document";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const DOCX_CONTENT_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+function json(body: unknown, status: number) {
+  return new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json" } });
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    console.log("=== /api/export/docx 開始 ===");
+
+    const auth = await authorize(req, "viewer");
+    if (auth instanceof Response) return auth;
+
+    const form = await req.formData();
+    const doc = readMinutesDocument(form.get("document"));
+    const template = form.get("template");
+
+    if (!doc) {
+      console.log("エラー: 議事録データが不正");
+      return json({ error: "議事録データ（document）が必要です" }, 400);
+    }
+    if (template instanceof File && !template.name.toLowerCase().endsWith(".docx")) {
+      return json({ error: "テンプレートは .docx ファイルを指定してください" }, 400);
+    }
+
+    let buffer: Buffer;
+    if (template instanceof File) {
+      console.log("テンプレート差し込み:", template.name);
+      try {
+        buffer = fillDocxTemplate(Buffer.from(await template.arrayBuffer()), doc);
+      } catch (e) {
+        if (!(e instanceof DocxTemplateError)) throw e;
+        console.log("エラー:", e.message);
+        return json({ error: e.message }, 400);
+      }
+    } else {
+      buffer = await renderMinutesDocx(doc);
+    }
+
+    const filename = `${doc.meeting.title || "minutes"}_${doc.meeting.date || Date.now()}.docx`;
+    console.log("=== /api/export/docx 成功 ===", filename, buffer.length);
+    return new Response(new Uint8Array(buffer), {
+      status: 200,
+      headers: {
+        "content-type": DOCX_CONTENT_TYPE,
+        "content-disposition": `attachment; filename="minutes.docx"; filename*=UTF-8''${encodeURIComponent(filename)}`,
+      },
+    });
+  } catch (e) {
+    console.error("=== /api/export/docx エラー ===", e);
+    return json({ error: e instanceof Error ? e.message : "Unknown error" }, 500);
+  }
+}
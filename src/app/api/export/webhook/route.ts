@@ -0,0 +1,75 @@
+import { NextRequest } from "next/server";
+import { authorize } from "@/lib/auth";
+import { readMinutesDocument } from "@/lib/export/document";
+import { WebhookError, buildWebhookPayload, resolveWebhookConfig, sendWebhook } from "@/lib/export/webhook";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function json(body: unknown, status: number) {
+  return new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json" } });
+}
+
+/** 投稿先が設定されているか（画面でボタンを出すかどうかに使う）。URL そのものは返さない */
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await authorize(req, "viewer");
+    if (auth instanceof Response) return auth;
+
+    const config = resolveWebhookConfig();
+    return json({ configured: config !== null, format: config?.format ?? null }, 200);
+  } catch (e) {
+    if (e instanceof WebhookError) {
+      console.error("Webhook の設定エラー:", e.message);
+      return json({ configured: false, format: null, error: e.message }, 200);
+    }
+    console.error("=== /api/export/webhook GET エラー ===", e);
+    return json({ error: e instanceof Error ? e.message : "Unknown error" }, 500);
+  }
+}
+
+/**
+ * 議事録を WEBHOOK_URL（Slack / Teams の Incoming Webhook）に投稿する。
+ * JSON: { document }
+ * 返り値: { sent: true, format, status }
+ */
+export async function POST(req: NextRequest) {
+  try {
+    console.log("=== /api/export/webhook 開始 ===");
+
+    const auth = await authorize(req, "editor");
+    if (auth instanceof Response) return auth;
+
+    let body: Record<string, unknown>;
+    try {
+      body = await req.json();
+    } catch {
+      return json({ error: "JSON の形式が不正です" }, 400);
+    }
+    const doc = readMinutesDocument(body?.document);
+    if (!doc) return json({ error: "議事録データ（document）が必要です" }, 400);
+
+    let config;
+    try {
+      config = resolveWebhookConfig();
+    } catch (e) {
+      if (!(e instanceof WebhookError)) throw e;
+      console.error("Webhook の設定エラー:", e.message);
+      return json({ error: e.message }, 400);
+    }
+    if (!config) return json({ error: "Webhook の投稿先（WEBHOOK_URL）が設定されていません" }, 400);
+
+    try {
+      const status = await sendWebhook(config, buildWebhookPayload(doc, config.format), req.signal);
+      console.log("=== /api/export/webhook 成功 ===", config.format, status);
+      return json({ sent: true, format: config.format, status }, 200);
+    } catch (e) {
+      if (!(e instanceof WebhookError)) throw e;
+      console.error("=== /api/export/webhook 送信エラー ===", e.message);
+      return json({ error: e.message }, 502);
+    }
+  } catch (e) {
+    console.error("=== /api/export/webhook エラー ===", e);
+    return json({ error: e instanceof Error ? e.message : "Unknown error" }, 500);
+  }
+}
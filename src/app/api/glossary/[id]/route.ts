@@ -0,0 +1,74 @@
+import { NextRequest } from "next/server";
+import { authorize } from "@/lib/auth";
+import { GlossaryError, readGlossaryInput, type GlossaryEntry } from "@/lib/glossary";
+import { getGlossaryStore, inWorkspace, isValidRecordId } from "@/lib/storage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Params = { params: Promise<{ id: string }> };
+
+function json(body: unknown, status: number) {
+  return new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json" } });
+}
+
+/** 用語の編集。JSON の形は POST /api/glossary と同じ（省略した項目は空になる） */
+export async function PUT(req: NextRequest, { params }: Params) {
+  try {
+    const auth = await authorize(req, "admin");
+    if (auth instanceof Response) return auth;
+
+    const { id } = await params;
+    if (!isValidRecordId(id)) return json({ error: "用語 ID が不正です" }, 400);
+
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return json({ error: "JSON の形式が不正です" }, 400);
+    }
+
+    const store = getGlossaryStore();
+    const found = await store.get(id);
+    if (!found || !inWorkspace(found, auth.workspace.id)) return json({ error: "用語が見つかりません" }, 404);
+
+    let updated: GlossaryEntry;
+    try {
+      updated = { ...found, ...readGlossaryInput(body), updatedAt: new Date().toISOString() };
+    } catch (e) {
+      if (!(e instanceof GlossaryError)) throw e;
+      return json({ error: e.message }, 400);
+    }
+    const entries = (await store.all()).filter((e) => inWorkspace(e, auth.workspace.id));
+    if (entries.some((e) => e.id !== id && e.term === updated.term)) {
+      return json({ error: `「${updated.term}」はすでに登録されています` }, 409);
+    }
+
+    await store.save(updated);
+    console.log("用語を更新:", updated.term);
+    return json(updated, 200);
+  } catch (e) {
+    console.error("=== /api/glossary/[id] PUT エラー ===", e);
+    return json({ error: e instanceof Error ? e.message : "Unknown error" }, 500);
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  try {
+    const auth = await authorize(req, "admin");
+    if (auth instanceof Response) return auth;
+
+    const { id } = await params;
+    if (!isValidRecordId(id)) return json({ error: "用語 ID が不正です" }, 400);
+    const store = getGlossaryStore();
+    const found = await store.get(id);
+    if (!found || !inWorkspace(found, auth.workspace.id) || !(await store.delete(id))) {
+      return json({ error: "用語が見つかりません" }, 404);
+    }
+    console.log("用語を削除:", id);
+    return json({ deleted: true }, 200);
+  } catch (e) {
+    console.error("=== /api/glossary/[id] DELETE エラー ===", e);
+    return json({ error: e instanceof Error ? e.message : "Unknown error" }, 500);
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest } from "next/server";
+import { randomUUID } from "crypto";
+import { authorize } from "@/lib/auth";
+import { parseGlossaryCsv, sortGlossary, toGlossaryCsv } from "@/lib/glossary";
+import { getGlossaryStore, inWorkspace } from "@/lib/storage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function json(body: unknown, status: number) {
+  return new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json" } });
+}
+
+/** ワークスペースの用語集を CSV で書き出す */
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await authorize(req, "viewer");
+    if (auth instanceof Response) return auth;
+
+    const entries = (await getGlossaryStore().all()).filter((e) => inWorkspace(e, auth.workspace.id));
+    const csv = toGlossaryCsv(sortGlossary(entries));
+    return new Response(csv, {
+      status: 200,
+      headers: {
+        "content-type": "text/csv; charset=utf-8",
+        "content-disposition": `attachment; filename="glossary.csv"`,
+      },
+    });
+  } catch (e) {
+    console.error("=== /api/glossary/csv GET エラー ===", e);
+    return json({ error: e instanceof Error ? e.message : "Unknown error" }, 500);
+  }
+}
+
+/**
+ * CSV を読み込む。フォーム: file, mode（merge: 同じ用語は上書きして追加（既定） / replace: 用語集を入れ替える）。
+ * 返り値: { added, updated, removed, skipped（用語が空の行番号） }
+ */
+export async function POST(req: NextRequest) {
+  try {
+    console.log("=== /api/glossary/csv 開始 ===");
+
+    const auth = await authorize(req, "admin");
+    if (auth instanceof Response) return auth;
+
+    const form = await req.formData();
+    const file = form.get("file");
+    const mode = form.get("mode") === "replace" ? "replace" : "merge";
+    if (!(file instanceof File)) return json({ error: "CSV ファイル（file）が必要です" }, 400);
+
+    const { entries, skipped } = parseGlossaryCsv(await file.text());
+    if (entries.length === 0) return json({ error: "CSV に用語がありません" }, 400);
+
+    const store = getGlossaryStore();
+    const existing = new Map(
+      (await store.all()).filter((e) => inWorkspace(e, auth.workspace.id)).map((e) => [e.term, e])
+    );
+    const now = new Date().toISOString();
+    let added = 0;
+    let updated = 0;
+    const imported = new Set<string>();
+    for (const input of entries) {
+      const current = existing.get(input.term);
+      if (current) updated++;
+      else added++;
+      imported.add(input.term);
+      const entry = { ...input, id: current?.id ?? randomUUID(), workspaceId: auth.workspace.id, updatedAt: now };
+      await store.save(entry);
+      // CSV の中で同じ用語が繰り返された場合は後の行で上書きする
+      existing.set(entry.term, entry);
+    }
+
+    let removed = 0;
+    if (mode === "replace") {
+      for (const entry of existing.values()) {
+        if (!imported.has(entry.term) && (await store.delete(entry.id))) removed++;
+      }
+    }
+
+    console.log("=== /api/glossary/csv 成功 ===", mode, { added, updated, removed, skipped: skipped.length });
+    return json({ added, updated, removed, skipped }, 200);
+  } catch (e) {
+    console.error("=== /api/glossary/csv POST エラー ===", e);
+    return json({ error: e instanceof Error ? e.message : "Unknown error" }, 500);
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest } from "next/server";
+import { randomUUID } from "crypto";
+import { authorize } from "@/lib/auth";
+import { GlossaryError, readGlossaryInput, sortGlossary, type GlossaryEntry } from "@/lib/glossary";
+import { getGlossaryStore, inWorkspace } from "@/lib/storage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function json(body: unknown, status: number) {
+  return new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json" } });
+}
+
+/** ワークスペースの用語集の一覧（読み順） */
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await authorize(req, "viewer");
+    if (auth instanceof Response) return auth;
+
+    const entries = (await getGlossaryStore().all()).filter((e) => inWorkspace(e, auth.workspace.id));
+    return json({ entries: sortGlossary(entries) }, 200);
+  } catch (e) {
+    console.error("=== /api/glossary エラー ===", e);
+    return json({ error: e instanceof Error ? e.message : "Unknown error" }, 500);
+  }
+}
+
+/** 用語を追加する。JSON: { term, yomi?, variants?（配列か「|」区切り）, note? } */
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await authorize(req, "admin");
+    if (auth instanceof Response) return auth;
+
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return json({ error: "JSON の形式が不正です" }, 400);
+    }
+
+    let entry: GlossaryEntry;
+    try {
+      entry = { ...readGlossaryInput(body), id: randomUUID(), workspaceId: auth.workspace.id, updatedAt: new Date().toISOString() };
+    } catch (e) {
+      if (!(e instanceof GlossaryError)) throw e;
+      return json({ error: e.message }, 400);
+    }
+    const existing = (await getGlossaryStore().all()).filter((e) => inWorkspace(e, auth.workspace.id));
+    if (existing.some((e) => e.term === entry.term)) {
+      return json({ error: `「${entry.term}」はすでに登録されています` }, 409);
+    }
+
+    await getGlossaryStore().save(entry);
+    console.log("用語を追加:", entry.term);
+    return json(entry, 201);
+  } catch (e) {
+    console.error("=== /api/glossary エラー ===", e);
+    return json({ error: e instanceof Error ? e.message : "Unknown error" }, 500);
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest } from "next/server";
+import { authorize } from "@/lib/auth";
+import { JobStateError, retryMinutesJob, toJobView } from "@/lib/jobs";
+import { getJobStore, inWorkspace, isValidRecordId, type MinutesJob } from "@/lib/storage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Params = { params: Promise<{ id: string }> };
+
+function json(body: unknown, status: number) {
+  return new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json" } });
+}
+
+/** 失敗・中止したジョブを再実行する。完了したチャンクなどはやり直さない */
+export async function POST(req: NextRequest, { params }: Params) {
+  try {
+    const auth = await authorize(req, "editor", { rateLimit: true });
+    if (auth instanceof Response) return auth;
+
+    const { id } = await params;
+    if (!isValidRecordId(id)) return json({ error: "ジョブ ID が不正です" }, 400);
+    const found = await getJobStore().get(id);
+    if (!found || !inWorkspace(found.input, auth.workspace.id)) return json({ error: "ジョブが見つかりません" }, 404);
+    let job: MinutesJob | null;
+    try {
+      job = await retryMinutesJob(id);
+    } catch (e) {
+      if (!(e instanceof JobStateError)) throw e;
+      return json({ error: e.message }, 409);
+    }
+    if (!job) return json({ error: "ジョブが見つかりません" }, 404);
+    return json(toJobView(job), 202);
+  } catch (e) {
+    console.error("=== /api/jobs/[id]/retry エラー ===", e);
+    return json({ error: e instanceof Error ? e.message : "Unknown error" }, 500);
+  }
+}
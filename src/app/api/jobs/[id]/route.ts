@@ -0,0 +1,56 @@
+import { NextRequest } from "next/server";
+import { authorize } from "@/lib/auth";
+import { JobStateError, cancelMinutesJob, toJobView } from "@/lib/jobs";
+import { getJobStore, inWorkspace, isValidRecordId, type MinutesJob } from "@/lib/storage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Params = { params: Promise<{ id: string }> };
+
+function json(body: unknown, status: number) {
+  return new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json" } });
+}
+
+/** ジョブの状態・進捗。完了していれば result に POST /api/minutes と同じ形の結果が入る */
+export async function GET(req: NextRequest, { params }: Params) {
+  try {
+    const auth = await authorize(req, "viewer");
+    if (auth instanceof Response) return auth;
+
+    const { id } = await params;
+    if (!isValidRecordId(id)) return json({ error: "ジョブ ID が不正です" }, 400);
+    const job = await getJobStore().get(id);
+    if (!job || !inWorkspace(job.input, auth.workspace.id)) return json({ error: "ジョブが見つかりません" }, 404);
+    return json(toJobView(job), 200);
+  } catch (e) {
+    console.error("=== /api/jobs/[id] GET エラー ===", e);
+    return json({ error: e instanceof Error ? e.message : "Unknown error" }, 500);
+  }
+}
+
+/** 待機中・実行中のジョブを中止する。完了した段階は残るので、再試行すれば続きから実行する */
+export async function DELETE(req: NextRequest, { params }: Params) {
+  try {
+    const auth = await authorize(req, "editor");
+    if (auth instanceof Response) return auth;
+
+    const { id } = await params;
+    if (!isValidRecordId(id)) return json({ error: "ジョブ ID が不正です" }, 400);
+    const found = await getJobStore().get(id);
+    if (!found || !inWorkspace(found.input, auth.workspace.id)) return json({ error: "ジョブが見つかりません" }, 404);
+    let job: MinutesJob | null;
+    try {
+      job = await cancelMinutesJob(id);
+    } catch (e) {
+      if (!(e instanceof JobStateError)) throw e;
+      return json({ error: e.message }, 409);
+    }
+    if (!job) return json({ error: "ジョブが見つかりません" }, 404);
+    console.log("ジョブを中止:", id);
+    return json(toJobView(job), 200);
+  } catch (e) {
+    console.error("=== /api/jobs/[id] DELETE エラー ===", e);
+    return json({ error: e instanceof Error ? e.message : "Unknown error" }, 500);
+  }
+}
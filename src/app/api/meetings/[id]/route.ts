@@ -0,0 +1,88 @@
+import { NextRequest } from "next/server";
+import { authorize } from "@/lib/auth";
+import { normalizeMinutesContent } from "@/lib/minutes/schema";
+import { getMeetingStore, inWorkspace, isValidRecordId, type MeetingRecord } from "@/lib/storage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Params = { params: Promise<{ id: string }> };
+
+function json(body: unknown, status: number) {
+  return new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json" } });
+}
+
+/** ほかのワークスペースの会議は見つからないものとする */
+async function findMeeting(params: Params["params"], workspaceId: string): Promise<MeetingRecord | Response> {
+  const { id } = await params;
+  if (!isValidRecordId(id)) return json({ error: "会議 ID が不正です" }, 400);
+  const record = await getMeetingStore().get(id);
+  return record && inWorkspace(record, workspaceId) ? record : json({ error: "会議が見つかりません" }, 404);
+}
+
+export async function GET(req: NextRequest, { params }: Params) {
+  try {
+    const auth = await authorize(req, "viewer");
+    if (auth instanceof Response) return auth;
+
+    const found = await findMeeting(params, auth.workspace.id);
+    if (found instanceof Response) return found;
+    return json(found, 200);
+  } catch (e) {
+    console.error("=== /api/meetings/[id] GET エラー ===", e);
+    return json({ error: e instanceof Error ? e.message : "Unknown error" }, 500);
+  }
+}
+
+/** 編集結果の保存。会議情報と議事録の各フィールドだけを更新できる */
+export async function PATCH(req: NextRequest, { params }: Params) {
+  try {
+    const auth = await authorize(req, "editor");
+    if (auth instanceof Response) return auth;
+
+    const found = await findMeeting(params, auth.workspace.id);
+    if (found instanceof Response) return found;
+
+    let patch: Record<string, unknown>;
+    try {
+      patch = await req.json();
+    } catch {
+      return json({ error: "JSON の形式が不正です" }, 400);
+    }
+    if (typeof patch !== "object" || patch === null) return json({ error: "JSON の形式が不正です" }, 400);
+
+    const meeting = (patch.meeting ?? {}) as Record<string, unknown>;
+    const updated: MeetingRecord = {
+      ...found,
+      ...normalizeMinutesContent({ ...found, ...patch }),
+      meeting: {
+        title: typeof meeting.title === "string" ? meeting.title : found.meeting.title,
+        date: typeof meeting.date === "string" ? meeting.date : found.meeting.date,
+      },
+      updatedAt: new Date().toISOString(),
+    };
+    await getMeetingStore().save(updated);
+    console.log("履歴を更新:", updated.id);
+    return json(updated, 200);
+  } catch (e) {
+    console.error("=== /api/meetings/[id] PATCH エラー ===", e);
+    return json({ error: e instanceof Error ? e.message : "Unknown error" }, 500);
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  try {
+    const auth = await authorize(req, "admin");
+    if (auth instanceof Response) return auth;
+
+    const found = await findMeeting(params, auth.workspace.id);
+    if (found instanceof Response) return found;
+    const deleted = await getMeetingStore().delete(found.id);
+    if (!deleted) return json({ error: "会議が見つかりません" }, 404);
+    console.log("履歴を削除:", found.id);
+    return json({ deleted: true }, 200);
+  } catch (e) {
+    console.error("=== /api/meetings/[id] DELETE エラー ===", e);
+    return json({ error: e instanceof Error ? e.message : "Unknown error" }, 500);
+  }
+}
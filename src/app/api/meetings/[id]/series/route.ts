@@ -0,0 +1,33 @@
+import { NextRequest } from "next/server";
+import { authorize } from "@/lib/auth";
+import { seriesIdOf, summarizeSeries } from "@/lib/minutes/series";
+import { getMeetingStore, inWorkspace, isValidRecordId } from "@/lib/storage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Params = { params: Promise<{ id: string }> };
+
+function json(body: unknown, status: number) {
+  return new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json" } });
+}
+
+/** 会議が属する定例会議のシリーズの、宿題事項・未決事項ごとの経過 */
+export async function GET(req: NextRequest, { params }: Params) {
+  try {
+    const auth = await authorize(req, "viewer");
+    if (auth instanceof Response) return auth;
+
+    const { id } = await params;
+    if (!isValidRecordId(id)) return json({ error: "会議 ID が不正です" }, 400);
+    const record = await getMeetingStore().get(id);
+    if (!record || !inWorkspace(record, auth.workspace.id)) return json({ error: "会議が見つかりません" }, 404);
+
+    const seriesId = seriesIdOf(record);
+    const records = await getMeetingStore().series(seriesId, auth.workspace.id);
+    return json(summarizeSeries(seriesId, records), 200);
+  } catch (e) {
+    console.error("=== /api/meetings/[id]/series エラー ===", e);
+    return json({ error: e instanceof Error ? e.message : "Unknown error" }, 500);
+  }
+}
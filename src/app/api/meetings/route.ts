@@ -0,0 +1,26 @@
+import { NextRequest } from "next/server";
+import { authorize } from "@/lib/auth";
+import { getMeetingStore } from "@/lib/storage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function json(body: unknown, status: number) {
+  return new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json" } });
+}
+
+/** 選択中のワークスペースの履歴の一覧。?q= で会議名・要約・議事録などを検索（空白区切りで AND。書き起こしは対象外）、?limit= で件数を指定する */
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await authorize(req, "viewer");
+    if (auth instanceof Response) return auth;
+
+    const query = req.nextUrl.searchParams.get("q") ?? undefined;
+    const limit = Number(req.nextUrl.searchParams.get("limit")) || undefined;
+    const meetings = await getMeetingStore().list({ query, limit, workspaceId: auth.workspace.id });
+    return json({ meetings }, 200);
+  } catch (e) {
+    console.error("=== /api/meetings エラー ===", e);
+    return json({ error: e instanceof Error ? e.message : "Unknown error" }, 500);
+  }
+}
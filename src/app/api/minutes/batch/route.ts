@@ -0,0 +1,88 @@
+import { NextRequest } from "next/server";
+import { authorize } from "@/lib/auth";
+import { ProviderConfigError, resolveProvider } from "@/lib/llm";
+import { BatchSourceError, meetingFromFileName, readSourceUploads } from "@/lib/batch";
+import { createMinutesJob } from "@/lib/jobs";
+import { BadRequestError, readLanguage, readProviderOverrides, readStyleProfile, readTemplate } from "@/lib/minutes/form";
+import { isRedactionRequested, loadRedactionTerms } from "@/lib/redaction";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function json(body: unknown, status: number) {
+  return new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json" } });
+}
+
+/**
+ * 複数の文字起こしを、件ごとの議事録生成ジョブにして登録する。202 でファイルごとのジョブ ID を返す
+ * （状態と結果は GET /api/jobs/[id]。生成はジョブのキューで JOB_CONCURRENCY 件ずつ行う）。
+ * フォーム: files（.txt / .vtt / .srt / .zip、複数可、合計 BATCH_MAX_FILES 件まで）, style, styleProfileId, template,
+ * provider, styleModel, minutesModel, redact, redactTerms, glossary（0 で使わない）,
+ * sourceLanguage（auto / ja / en）, outputLanguage（ja / en / bilingual）
+ * 会議名と開催日はファイル名から推測する（「2024-05-10_定例.vtt」→ 定例 / 2024-05-10）。
+ */
+export async function POST(req: NextRequest) {
+  try {
+    console.log("=== /api/minutes/batch 開始 ===");
+
+    // 件数によらずリクエスト1回として数える（件数は BATCH_MAX_FILES で制限する）
+    const auth = await authorize(req, "editor", { rateLimit: true });
+    if (auth instanceof Response) return auth;
+
+    const form = await req.formData();
+    const uploads = form.getAll("files").filter((v): v is File => v instanceof File);
+    const styleFiles = form.getAll("style").filter((v): v is File => v instanceof File);
+
+    let sources;
+    try {
+      sources = await readSourceUploads(uploads);
+    } catch (e) {
+      if (!(e instanceof BatchSourceError)) throw e;
+      console.log("エラー:", e.message);
+      return json({ error: e.message }, e.status);
+    }
+    if (sources.length === 0) {
+      console.log("エラー: 文字起こしファイルが不足");
+      return json({ error: "文字起こしファイル（.txt / .vtt / .srt、またはそれらを含む .zip）が必要です" }, 400);
+    }
+    console.log("文字起こし:", sources.length, "件");
+
+    const jobs: { file: string; jobId: string; status: string }[] = [];
+    try {
+      const overrides = readProviderOverrides(form);
+      const llm = resolveProvider(overrides);
+      console.log("LLM プロバイダー:", llm.name, "モデル:", llm.modelFor("minutes"));
+      const styleProfile = await readStyleProfile(form, auth.workspace.id);
+      const template = await readTemplate(form);
+      const redactTerms = isRedactionRequested(form.get("redact")) ? await loadRedactionTerms(form.get("redactTerms")) : null;
+      const language = readLanguage(form);
+      for (const source of sources) {
+        const job = await createMinutesJob(
+          {
+            transcript: source.text,
+            styleFiles,
+            styleProfile,
+            template,
+            meeting: meetingFromFileName(source.name),
+            redactTerms,
+            glossary: form.get("glossary") !== "0",
+            language,
+            workspaceId: auth.workspace.id,
+          },
+          overrides
+        );
+        jobs.push({ file: source.name, jobId: job.id, status: job.status });
+      }
+    } catch (e) {
+      if (!(e instanceof ProviderConfigError || e instanceof BadRequestError)) throw e;
+      console.log("エラー: リクエスト不正", e.message);
+      return json({ error: e.message }, 400);
+    }
+
+    console.log("=== /api/minutes/batch ジョブ登録 ===", jobs.length, "件");
+    return json({ jobs }, 202);
+  } catch (e) {
+    console.error("=== /api/minutes/batch エラー ===", e);
+    return json({ error: e instanceof Error ? e.message : "Unknown error" }, 500);
+  }
+}
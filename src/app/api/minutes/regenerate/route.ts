@@ -0,0 +1,102 @@
+import { NextRequest } from "next/server";
+import { authorize } from "@/lib/auth";
+import { ProviderConfigError, allowedOverrides, isProviderName, resolveProvider, type LLMProvider } from "@/lib/llm";
+import { selectGlossary } from "@/lib/glossary";
+import { getPromptTemplate } from "@/lib/prompts";
+import { isMinutesLanguage } from "@/lib/minutes/language";
+import { RegenerateError, parseRegenerateTarget, regenerateSection } from "@/lib/minutes/regenerate";
+import { normalizeMinutesContent } from "@/lib/minutes/schema";
+import { createRedactor, isRedactionRequested, loadRedactionTerms, withRedaction } from "@/lib/redaction";
+import { getGlossaryStore, inWorkspace } from "@/lib/storage";
+import { listSpeakers, parseTranscript } from "@/lib/transcript/parse";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function json(body: unknown, status: number) {
+  return new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json" } });
+}
+
+const text = (value: unknown) => (typeof value === "string" ? value : "");
+
+/**
+ * 議事録の一部だけを追加の指示つきで作り直す。
+ * JSON: { target: { field } | { heading }, instruction, document, transcript, template?, styleGuidelines?, glossary?, language?, provider?, redact?, redactTerms? }
+ * language: 議事録の言語（ja / en、既定 ja）
+ * glossary: false で用語集の表記指定を使わない
+ * 返り値: { target, value }（value は対象フィールドの新しい値、見出しの場合はその本文）
+ */
+export async function POST(req: NextRequest) {
+  try {
+    console.log("=== /api/minutes/regenerate 開始 ===");
+
+    const auth = await authorize(req, "editor", { rateLimit: true });
+    if (auth instanceof Response) return auth;
+
+    let body: Record<string, unknown>;
+    try {
+      body = await req.json();
+    } catch {
+      return json({ error: "JSON の形式が不正です" }, 400);
+    }
+    if (typeof body !== "object" || body === null) return json({ error: "JSON の形式が不正です" }, 400);
+
+    const target = parseRegenerateTarget(body.target);
+    if (!target) return json({ error: "再生成する箇所（target）が不正です" }, 400);
+    const transcript = text(body.transcript);
+    if (!transcript.trim()) return json({ error: "文字起こしテキストが必要です" }, 400);
+    if (typeof body.document !== "object" || body.document === null) {
+      return json({ error: "議事録データ（document）が必要です" }, 400);
+    }
+    const document = body.document as Record<string, unknown>;
+    const meeting = (document.meeting ?? {}) as Record<string, unknown>;
+
+    const template = await getPromptTemplate(text(body.template) || undefined);
+    if (!template) return json({ error: `会議の種類（template）が不正です: ${body.template}` }, 400);
+
+    const parsed = parseTranscript(transcript);
+    const participants = parsed.format === "plain" ? [] : listSpeakers(parsed.utterances).map((s) => s.speaker);
+
+    let llm: LLMProvider;
+    try {
+      if (body.provider !== undefined && !isProviderName(body.provider)) {
+        throw new ProviderConfigError(`provider が不正です: ${body.provider}`);
+      }
+      llm = resolveProvider(allowedOverrides({ provider: isProviderName(body.provider) ? body.provider : undefined }));
+      if (isRedactionRequested(body.redact)) {
+        llm = withRedaction(llm, createRedactor({ names: participants, terms: await loadRedactionTerms(body.redactTerms) }));
+      }
+    } catch (e) {
+      if (!(e instanceof ProviderConfigError)) throw e;
+      return json({ error: e.message }, 400);
+    }
+    console.log("再生成:", JSON.stringify(target), "指示:", text(body.instruction));
+
+    const value = await regenerateSection(
+      llm,
+      {
+        transcript,
+        document: normalizeMinutesContent(document),
+        target,
+        instruction: text(body.instruction).trim(),
+        template,
+        meeting: { title: text(meeting.title), date: text(meeting.date) },
+        participants,
+        styleGuidelines: text(body.styleGuidelines),
+        glossary: body.glossary === false ? [] : selectGlossary((await getGlossaryStore().all()).filter((e) => inWorkspace(e, auth.workspace.id)), transcript),
+        language: isMinutesLanguage(body.language) ? body.language : "ja",
+      },
+      req.signal
+    );
+
+    console.log("=== /api/minutes/regenerate 成功 ===");
+    return json({ target, value }, 200);
+  } catch (e) {
+    if (e instanceof RegenerateError) {
+      console.error("=== /api/minutes/regenerate 応答エラー ===", e.message);
+      return json({ error: e.message }, 502);
+    }
+    console.error("=== /api/minutes/regenerate エラー ===", e);
+    return json({ error: e instanceof Error ? e.message : "Unknown error" }, 500);
+  }
+}
@@ -1,150 +1,79 @@
 import { NextRequest } from "next/server";
-import OpenAI from "openai";
-import mammoth from "mammoth";
-import { readFileSync } from "fs";
-import { join } from "path";
+import { authorize } from "@/lib/auth";
+import { ProviderConfigError, resolveProvider, type LLMProvider } from "@/lib/llm";
+import {
+  BadRequestError,
+  readLanguage,
+  readMeetingInfo,
+  readPreviousMeeting,
+  readProviderOverrides,
+  readSpeakerNames,
+  readStyleProfile,
+  readTemplate,
+} from "@/lib/minutes/form";
+import { createMinutesJob } from "@/lib/jobs";
+import {
+  generateMinutes,
+  prepareMinutesInput,
+  type MinutesInput,
+  type MinutesRequest,
+} from "@/lib/minutes/pipeline";
+import { NDJSON_CONTENT_TYPE, encodeEvent, type EmitEvent, type MinutesResponse } from "@/lib/minutes/stream";
+import { MinutesValidationError } from "@/lib/minutes/validate";
+import { isRedactionRequested, loadRedactionTerms } from "@/lib/redaction";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-type MinutesResult = {
-  transcript: string;
-  summary: string;
-  minutes: string;
-};
-
-function getOpenAI() {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) return null;
-  return new OpenAI({ apiKey });
-}
-
-function loadPrompt(): string {
-  try {
-    const promptPath = join(process.cwd(), "prompts", "meeting-minutes.txt");
-    const prompt = readFileSync(promptPath, "utf-8");
-    return prompt;
-  } catch (error) {
-    console.error("プロンプトファイルの読み込みエラー:", error);
-    // フォールバック用のデフォルトプロンプト
-    return "あなたは日本語の議事録作成アシスタントです。入力された文字起こしテキストから、要約と議事録本文を作成してください。";
-  }
-}
-
-async function readStyleFiles(styleFiles: File[]): Promise<string> {
-  const chunks: string[] = [];
-  for (const f of styleFiles) {
-    const name = f.name.toLowerCase();
-    const buf = Buffer.from(await f.arrayBuffer());
-    if (name.endsWith(".docx")) {
+/** 進捗イベントを NDJSON で逐次返す。クライアントが切断したら生成も中断する */
+function streamMinutes(req: NextRequest, llm: LLMProvider, input: MinutesInput): Response {
+  const controller = new AbortController();
+  req.signal.addEventListener("abort", () => controller.abort());
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(out) {
+      const emit: EmitEvent = (event) => {
+        if (!controller.signal.aborted) out.enqueue(encoder.encode(encodeEvent(event)));
+      };
       try {
-        const { value } = await mammoth.extractRawText({ buffer: buf });
-        if (value) chunks.push(value);
-      } catch {}
-    } else if (name.endsWith(".txt") || name.endsWith(".md")) {
-      chunks.push(buf.toString("utf8"));
-    } else if (name.endsWith(".html") || name.endsWith(".htm")) {
-      const text = buf
-        .toString("utf8")
-        .replace(/<script[\s\S]*?<\/script>/gi, " ")
-        .replace(/<style[\s\S]*?<\/style>/gi, " ")
-        .replace(/<[^>]+>/g, " ")
-        .replace(/\s+/g, " ")
-        .trim();
-      chunks.push(text);
-    }
-  }
-  return chunks.join("\n\n");
-}
-
-async function buildStyleGuidelines(openai: OpenAI | null, corpus: string): Promise<string> {
-  if (!corpus || corpus.length < 200) return "";
-  if (!openai) {
-    return ""; // fallback: no special style when no API key
-  }
-  const prompt = `以下は過去の議事録の一部です。文体・言い回し・構成上の特徴を抽出し、今後の生成に使える日本語ガイドラインを箇条書きで10項目前後に要約してください。\n\n---\n${corpus.slice(0, 15000)}\n---`;
-  const resp = await openai.chat.completions.create({
-    model: "gpt-4o-mini",
-    temperature: 0.2,
-    messages: [
-      { role: "system", content: "あなたはプロのテクニカルライターです。文章スタイルを抽出し、具体的で再現可能な指針にまとめます。" },
-      { role: "user", content: prompt },
-    ],
-  });
-  return resp.choices[0]?.message?.content ?? "";
-}
-
-async function summarize(openai: OpenAI | null, transcript: string, styleGuidelines: string): Promise<MinutesResult> {
-  if (!openai) {
-    // fallback mock
-    return {
-      transcript: transcript || "【モック転記】AIキー未設定のためダミー本文。",
-      summary: "【モック要約】主要論点と次回アクションを整理しました。",
-      minutes: "【モック議事録】AIキー未設定のためダミー本文。",
-    };
-  }
-
-  // 外部プロンプトファイルを読み込み
-  const externalPrompt = loadPrompt();
-  
-  const system = [
-    externalPrompt,
-    styleGuidelines ? `以下のスタイル指針に合わせて記述してください:\n${styleGuidelines}` : "",
-  ]
-    .filter(Boolean)
-    .join("\n\n");
-
-  const resp = await openai.chat.completions.create({
-    model: "gpt-4o-mini",
-    temperature: 0.2,
-    response_format: {
-      type: "json_schema",
-      json_schema: {
-        name: "MinutesSchema",
-        schema: {
-          type: "object",
-          properties: {
-            summary: { type: "string" },
-            minutes: { type: "string" },
-          },
-          required: ["summary", "minutes"],
-          additionalProperties: false,
-        },
-        strict: true,
-      },
+        const data = await generateMinutes(llm, input, emit, controller.signal);
+        emit({ type: "result", data });
+        console.log("=== /api/minutes 成功（stream） ===");
+      } catch (e) {
+        if (controller.signal.aborted) {
+          console.log("=== /api/minutes 中断（stream） ===");
+        } else {
+          console.error("=== /api/minutes エラー（stream） ===", e);
+          emit({
+            type: "error",
+            error: e instanceof Error ? e.message : "Unknown error",
+            code: e instanceof MinutesValidationError ? e.issues[0].code : undefined,
+          });
+        }
+      } finally {
+        if (!controller.signal.aborted) out.close();
+      }
+    },
+    cancel() {
+      controller.abort();
     },
-    messages: [
-      { role: "system", content: system },
-      {
-        role: "user",
-        content:
-          "次の書き起こしから議事録を作成してください。要約は段落1つ、本文は見出し・箇条書き中心で。\n\n" +
-          transcript.slice(0, 120000),
-      },
-    ],
   });
 
-  const content = resp.choices[0]?.message?.content ?? "{}";
-  try {
-    const parsed = JSON.parse(content);
-    return { 
-      transcript: transcript, 
-      summary: parsed.summary ?? "",
-      minutes: parsed.minutes ?? ""  // 議事録本文を追加
-    };
-  } catch {
-    return { 
-      transcript: transcript, 
-      summary: "要約の解析に失敗しました。",
-      minutes: "議事録本文の解析に失敗しました。"
-    };
-  }
+  return new Response(stream, {
+    status: 200,
+    headers: { "content-type": NDJSON_CONTENT_TYPE, "cache-control": "no-cache" },
+  });
 }
 
 export async function POST(req: NextRequest) {
   try {
     console.log("=== /api/minutes 開始 ===");
-    
+
+    const auth = await authorize(req, "editor", { rateLimit: true });
+    if (auth instanceof Response) return auth;
+    console.log("利用者:", auth.user.id, "ワークスペース:", auth.workspace.id);
+
     const form = await req.formData();
     const transcript = form.get("transcript") as string;
     const styleFiles = form.getAll("style").filter((v): v is File => v instanceof File);
@@ -160,50 +89,72 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    console.log("OpenAI 初期化開始");
-    const openai = getOpenAI();
-    console.log("OpenAI 初期化完了:", !!openai);
-
-    console.log("スタイルファイル読み込み開始");
-    const styleCorpus = await readStyleFiles(styleFiles);
-    console.log("スタイルファイル読み込み完了, 長さ:", styleCorpus.length);
+    let llm: LLMProvider;
+    let input: MinutesInput;
+    try {
+      const overrides = readProviderOverrides(form);
+      llm = resolveProvider(overrides);
+      const request: MinutesRequest = {
+        transcript,
+        speakerNames: readSpeakerNames(form),
+        styleFiles,
+        styleProfile: await readStyleProfile(form, auth.workspace.id),
+        template: await readTemplate(form),
+        meeting: readMeetingInfo(form),
+        redactTerms: isRedactionRequested(form.get("redact")) ? await loadRedactionTerms(form.get("redactTerms")) : null,
+        glossary: form.get("glossary") !== "0",
+        language: readLanguage(form),
+        workspaceId: auth.workspace.id,
+        previousMeeting: await readPreviousMeeting(form, auth.workspace.id),
+      };
+      // async=1: バックグラウンドのジョブにして ID だけ返す（GET /api/jobs/[id] で状態と結果を取得する）
+      if (req.nextUrl.searchParams.get("async") === "1") {
+        const job = await createMinutesJob(request, overrides);
+        console.log("=== /api/minutes ジョブ登録 ===", job.id);
+        return new Response(
+          JSON.stringify({ jobId: job.id, status: job.status }),
+          { status: 202, headers: { "content-type": "application/json", location: `/api/jobs/${job.id}` } }
+        );
+      }
+      input = await prepareMinutesInput(request);
+    } catch (e) {
+      if (!(e instanceof ProviderConfigError || e instanceof BadRequestError)) throw e;
+      console.log("エラー: リクエスト不正", e.message);
+      return new Response(
+        JSON.stringify({ error: e.message }),
+        { status: 400, headers: { "content-type": "application/json" } }
+      );
+    }
+    console.log("LLM プロバイダー:", llm.name, "モデル:", llm.modelFor("minutes"));
 
-    console.log("スタイルガイドライン生成開始");
-    const styleGuidelines = await buildStyleGuidelines(openai, styleCorpus);
-    console.log("スタイルガイドライン生成完了, 長さ:", styleGuidelines.length);
+    if (req.nextUrl.searchParams.get("stream") === "1") {
+      return streamMinutes(req, llm, input);
+    }
 
-    console.log("議事録生成開始");
-    const result = await summarize(openai, transcript, styleGuidelines);
-    console.log("議事録生成完了");
-    console.log("要約長さ:", result.summary.length);
-    console.log("議事録本文長さ:", result.minutes.length);
+    let data: MinutesResponse;
+    try {
+      data = await generateMinutes(llm, input, () => {}, req.signal);
+    } catch (e) {
+      if (!(e instanceof MinutesValidationError)) throw e;
+      // 修正を依頼しても直らなかった LLM の出力。問題の種類を返して画面で対処を示せるようにする
+      console.log("エラー: 出力の検証", e.message);
+      return new Response(
+        JSON.stringify({ error: e.message, code: e.issues[0].code, issues: e.issues }),
+        { status: 502, headers: { "content-type": "application/json" } }
+      );
+    }
 
     console.log("=== /api/minutes 成功 ===");
     return new Response(
-      JSON.stringify({
-        transcript: result.transcript,
-        summary: result.summary,
-        minutes: result.minutes, // 議事録本文を正しく返す
-        styleGuidelines,
-        usedAI: Boolean(openai),
-      }),
+      JSON.stringify(data),
       { status: 200, headers: { "content-type": "application/json" } }
     );
-  } catch (e: any) {
-    console.error("=== /api/minutes エラー ===");
-    console.error("エラータイプ:", e.constructor.name);
-    console.error("エラーメッセージ:", e.message);
-    console.error("エラースタック:", e.stack);
-    console.error("エラー詳細:", e);
-    
+  } catch (e) {
+    // スタックトレースはサーバーのログにだけ残し、クライアントには返さない
+    console.error("=== /api/minutes エラー ===", e);
     return new Response(
-      JSON.stringify({ 
-        error: e?.message || "Unknown error",
-        details: e?.stack || "No stack trace"
-      }),
+      JSON.stringify({ error: e instanceof Error ? e.message : "Unknown error" }),
       { status: 500, headers: { "content-type": "application/json" } }
     );
   }
 }
-
-
@@ -0,0 +1,112 @@
+import { NextRequest } from "next/server";
+import { authorize } from "@/lib/auth";
+import { ProviderConfigError, allowedOverrides, isProviderName, resolveProvider, type LLMProvider } from "@/lib/llm";
+import { selectGlossary } from "@/lib/glossary";
+import { getPromptTemplate, templateSections } from "@/lib/prompts";
+import { detectLanguage, isMinutesLanguage, otherLanguage } from "@/lib/minutes/language";
+import { normalizeMinutesContent } from "@/lib/minutes/schema";
+import { TranslateError, translateMinutes } from "@/lib/minutes/translate";
+import { createRedactor, isRedactionRequested, loadRedactionTerms, withRedaction } from "@/lib/redaction";
+import { getGlossaryStore, getMeetingStore, inWorkspace, isValidRecordId } from "@/lib/storage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function json(body: unknown, status: number) {
+  return new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json" } });
+}
+
+const text = (value: unknown) => (typeof value === "string" ? value : "");
+
+/**
+ * 作成済みの議事録を日本語⇔英語に翻訳する。
+ * JSON: { document, from?, to?, template?, glossary?, provider?, redact?, redactTerms?, meetingId? }
+ * from を省略すると document から判定し、to を省略するともう一方の言語にする。
+ * meetingId を指定すると、翻訳を履歴の translation に保存する。
+ * 返り値: { language, content }
+ */
+export async function POST(req: NextRequest) {
+  try {
+    console.log("=== /api/minutes/translate 開始 ===");
+
+    const auth = await authorize(req, "editor", { rateLimit: true });
+    if (auth instanceof Response) return auth;
+
+    let body: Record<string, unknown>;
+    try {
+      body = await req.json();
+    } catch {
+      return json({ error: "JSON の形式が不正です" }, 400);
+    }
+    if (typeof body !== "object" || body === null) return json({ error: "JSON の形式が不正です" }, 400);
+
+    if (typeof body.document !== "object" || body.document === null) {
+      return json({ error: "議事録データ（document）が必要です" }, 400);
+    }
+    const content = normalizeMinutesContent(body.document as Record<string, unknown>);
+    if (!content.summary.trim() && !content.minutes.trim()) return json({ error: "翻訳する議事録が空です" }, 400);
+
+    if (body.from !== undefined && !isMinutesLanguage(body.from)) return json({ error: `from が不正です: ${body.from}` }, 400);
+    if (body.to !== undefined && !isMinutesLanguage(body.to)) return json({ error: `to が不正です: ${body.to}` }, 400);
+    const from = isMinutesLanguage(body.from) ? body.from : detectLanguage(`${content.summary}\n${content.minutes}`);
+    const to = isMinutesLanguage(body.to) ? body.to : otherLanguage(from);
+    if (from === to) return json({ error: "翻訳元と翻訳先の言語が同じです" }, 400);
+
+    const meetingId = text(body.meetingId);
+    if (meetingId && !isValidRecordId(meetingId)) return json({ error: "会議 ID が不正です" }, 400);
+    const found = meetingId ? await getMeetingStore().get(meetingId) : null;
+    const record = found && inWorkspace(found, auth.workspace.id) ? found : null;
+    if (meetingId && !record) return json({ error: "会議が見つかりません" }, 404);
+
+    const template = await getPromptTemplate(text(body.template) || undefined);
+    if (!template) return json({ error: `会議の種類（template）が不正です: ${body.template}` }, 400);
+
+    let llm: LLMProvider;
+    try {
+      if (body.provider !== undefined && !isProviderName(body.provider)) {
+        throw new ProviderConfigError(`provider が不正です: ${body.provider}`);
+      }
+      llm = resolveProvider(allowedOverrides({ provider: isProviderName(body.provider) ? body.provider : undefined }));
+      if (isRedactionRequested(body.redact)) {
+        // 書き起こしがないので、出席者と担当者の名前を伏せる
+        const names = [...content.attendees, ...content.actionItems.map((a) => a.owner)].filter((n) => n.trim());
+        llm = withRedaction(llm, createRedactor({ names, terms: await loadRedactionTerms(body.redactTerms) }));
+      }
+    } catch (e) {
+      if (!(e instanceof ProviderConfigError)) throw e;
+      return json({ error: e.message }, 400);
+    }
+    console.log("翻訳:", from, "→", to);
+
+    const entries = body.glossary === false ? [] : (await getGlossaryStore().all()).filter((e) => inWorkspace(e, auth.workspace.id));
+    const glossary = selectGlossary(entries, JSON.stringify(content));
+    const translation = await translateMinutes(
+      llm,
+      {
+        content,
+        from,
+        to,
+        headings: { from: templateSections(template, from), to: templateSections(template, to) },
+        keepTerms: glossary.map((e) => e.term),
+      },
+      req.signal
+    );
+
+    if (record) {
+      // 翻訳している間に画面で保存された編集を消さないよう読み直す
+      const latest = (await getMeetingStore().get(record.id)) ?? record;
+      await getMeetingStore().save({ ...latest, translation, updatedAt: new Date().toISOString() });
+      console.log("翻訳を履歴に保存:", record.id);
+    }
+
+    console.log("=== /api/minutes/translate 成功 ===");
+    return json(translation, 200);
+  } catch (e) {
+    if (e instanceof TranslateError) {
+      console.error("=== /api/minutes/translate 応答エラー ===", e.message);
+      return json({ error: e.message }, 502);
+    }
+    console.error("=== /api/minutes/translate エラー ===", e);
+    return json({ error: e instanceof Error ? e.message : "Unknown error" }, 500);
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest } from "next/server";
+import { authorize } from "@/lib/auth";
+import { ProviderConfigError, findPrice, loadPriceTable, resolveProvider } from "@/lib/llm";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function json(body: unknown, status: number) {
+  return new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json" } });
+}
+
+/** 既定のプロバイダーで使うモデルと料金（画面での生成前の見積もりに使う） */
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await authorize(req, "viewer");
+    if (auth instanceof Response) return auth;
+
+    const llm = resolveProvider();
+    const prices = loadPriceTable();
+    const models = { style: llm.modelFor("style"), minutes: llm.modelFor("minutes") };
+    return json(
+      {
+        provider: llm.name,
+        models,
+        prices: { style: findPrice(prices, models.style), minutes: findPrice(prices, models.minutes) },
+      },
+      200
+    );
+  } catch (e) {
+    if (e instanceof ProviderConfigError) return json({ error: e.message }, 400);
+    console.error("=== /api/pricing エラー ===", e);
+    return json({ error: e instanceof Error ? e.message : "Unknown error" }, 500);
+  }
+}
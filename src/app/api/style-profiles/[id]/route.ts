@@ -0,0 +1,86 @@
+import { NextRequest } from "next/server";
+import { authorize } from "@/lib/auth";
+import { getStyleProfileStore, inWorkspace, isValidRecordId, type StyleProfile } from "@/lib/storage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Params = { params: Promise<{ id: string }> };
+
+function json(body: unknown, status: number) {
+  return new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json" } });
+}
+
+/** ほかのワークスペースのプロファイルは見つからないものとする */
+async function findProfile(params: Params["params"], workspaceId: string): Promise<StyleProfile | Response> {
+  const { id } = await params;
+  if (!isValidRecordId(id)) return json({ error: "プロファイル ID が不正です" }, 400);
+  const profile = await getStyleProfileStore().get(id);
+  return profile && inWorkspace(profile, workspaceId) ? profile : json({ error: "文体プロファイルが見つかりません" }, 404);
+}
+
+export async function GET(req: NextRequest, { params }: Params) {
+  try {
+    const auth = await authorize(req, "viewer");
+    if (auth instanceof Response) return auth;
+
+    const found = await findProfile(params, auth.workspace.id);
+    if (found instanceof Response) return found;
+    return json(found, 200);
+  } catch (e) {
+    console.error("=== /api/style-profiles/[id] GET エラー ===", e);
+    return json({ error: e instanceof Error ? e.message : "Unknown error" }, 500);
+  }
+}
+
+/** 名前とガイドラインの編集。ガイドラインを変えた場合は手で編集したものとして扱う */
+export async function PATCH(req: NextRequest, { params }: Params) {
+  try {
+    const auth = await authorize(req, "editor");
+    if (auth instanceof Response) return auth;
+
+    const found = await findProfile(params, auth.workspace.id);
+    if (found instanceof Response) return found;
+
+    let patch: Record<string, unknown>;
+    try {
+      patch = await req.json();
+    } catch {
+      return json({ error: "JSON の形式が不正です" }, 400);
+    }
+    if (typeof patch !== "object" || patch === null) return json({ error: "JSON の形式が不正です" }, 400);
+
+    const name = typeof patch.name === "string" && patch.name.trim() ? patch.name.trim() : found.name;
+    const guidelines = typeof patch.guidelines === "string" ? patch.guidelines : found.guidelines;
+    const updated: StyleProfile = {
+      ...found,
+      name,
+      guidelines,
+      edited: found.edited || guidelines !== found.guidelines,
+      updatedAt: new Date().toISOString(),
+    };
+    await getStyleProfileStore().save(updated);
+    console.log("文体プロファイルを更新:", updated.name);
+    return json(updated, 200);
+  } catch (e) {
+    console.error("=== /api/style-profiles/[id] PATCH エラー ===", e);
+    return json({ error: e instanceof Error ? e.message : "Unknown error" }, 500);
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  try {
+    const auth = await authorize(req, "admin");
+    if (auth instanceof Response) return auth;
+
+    const found = await findProfile(params, auth.workspace.id);
+    if (found instanceof Response) return found;
+    const deleted = await getStyleProfileStore().delete(found.id);
+    if (!deleted) return json({ error: "文体プロファイルが見つかりません" }, 404);
+    console.log("文体プロファイルを削除:", found.id);
+    return json({ deleted: true }, 200);
+  } catch (e) {
+    console.error("=== /api/style-profiles/[id] DELETE エラー ===", e);
+    return json({ error: e instanceof Error ? e.message : "Unknown error" }, 500);
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest } from "next/server";
+import { randomUUID } from "crypto";
+import { authorize } from "@/lib/auth";
+import { ProviderConfigError, resolveProvider, type LLMProvider } from "@/lib/llm";
+import { createRedactor, isRedactionRequested, loadRedactionTerms, withRedaction } from "@/lib/redaction";
+import type { IngestWarning } from "@/lib/ingest";
+import { buildStyleGuidelines, hashStyleFiles, readStyleFiles } from "@/lib/minutes/style";
+import { getStyleProfileStore, inWorkspace, type StyleProfile } from "@/lib/storage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function json(body: unknown, status: number) {
+  return new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json" } });
+}
+
+/** 文体プロファイルの一覧（選択中のワークスペースのもの、名前順） */
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await authorize(req, "viewer");
+    if (auth instanceof Response) return auth;
+
+    const profiles = (await getStyleProfileStore().all()).filter((p) => inWorkspace(p, auth.workspace.id));
+    profiles.sort((a, b) => a.name.localeCompare(b.name, "ja"));
+    return json({ profiles }, 200);
+  } catch (e) {
+    console.error("=== /api/style-profiles エラー ===", e);
+    return json({ error: e instanceof Error ? e.message : "Unknown error" }, 500);
+  }
+}
+
+/**
+ * 文体プロファイルを作る。フォーム: name, style（過去の議事録、複数可）, guidelines（任意）, redact, redactTerms。
+ * guidelines を指定した場合はそれを手で書いたガイドラインとして使い、抽出は行わない。
+ * 応答にはプロファイルと、読めなかったファイルの警告（warnings）を含める。
+ */
+export async function POST(req: NextRequest) {
+  try {
+    console.log("=== /api/style-profiles 開始 ===");
+
+    const auth = await authorize(req, "editor", { rateLimit: true });
+    if (auth instanceof Response) return auth;
+
+    const form = await req.formData();
+    const name = form.get("name");
+    const guidelines = form.get("guidelines");
+    const styleFiles = form.getAll("style").filter((v): v is File => v instanceof File);
+
+    if (typeof name !== "string" || !name.trim()) {
+      return json({ error: "プロファイル名が必要です" }, 400);
+    }
+    const written = typeof guidelines === "string" ? guidelines.trim() : "";
+    if (!written && styleFiles.length === 0) {
+      return json({ error: "過去の議事録ファイルかガイドラインが必要です" }, 400);
+    }
+
+    let extracted = "";
+    let warnings: IngestWarning[] = [];
+    if (!written) {
+      try {
+        let llm: LLMProvider = resolveProvider();
+        if (isRedactionRequested(form.get("redact"))) {
+          llm = withRedaction(llm, createRedactor({ terms: await loadRedactionTerms(form.get("redactTerms")) }));
+        }
+        const { corpus, warnings: fileWarnings } = await readStyleFiles(styleFiles);
+        warnings = fileWarnings;
+        extracted = await buildStyleGuidelines(llm, corpus, req.signal);
+      } catch (e) {
+        if (!(e instanceof ProviderConfigError)) throw e;
+        return json({ error: e.message }, 400);
+      }
+      // 本文が短いなど抽出できなかった場合も作成し、ガイドラインは画面で書いてもらう
+      if (!extracted) console.log("文体ガイドラインを抽出できませんでした");
+    }
+
+    const now = new Date().toISOString();
+    const profile: StyleProfile = {
+      id: randomUUID(),
+      workspaceId: auth.workspace.id,
+      name: name.trim(),
+      guidelines: written || extracted,
+      sourceHash: styleFiles.length ? await hashStyleFiles(styleFiles) : "",
+      sourceFiles: styleFiles.map((f) => f.name),
+      edited: Boolean(written),
+      createdAt: now,
+      updatedAt: now,
+    };
+    await getStyleProfileStore().save(profile);
+
+    console.log("=== /api/style-profiles 成功 ===", profile.name, profile.id);
+    return json({ ...profile, warnings }, 201);
+  } catch (e) {
+    console.error("=== /api/style-profiles エラー ===", e);
+    return json({ error: e instanceof Error ? e.message : "Unknown error" }, 500);
+  }
+}
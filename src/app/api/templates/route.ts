@@ -0,0 +1,24 @@
+import { NextRequest } from "next/server";
+import { authorize } from "@/lib/auth";
+import { DEFAULT_TEMPLATE_ID, loadPromptTemplates, summarizeTemplate } from "@/lib/prompts";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function json(body: unknown, status: number) {
+  return new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json" } });
+}
+
+/** 会議の種類（プロンプトテンプレート）の一覧 */
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await authorize(req, "viewer");
+    if (auth instanceof Response) return auth;
+
+    const templates = (await loadPromptTemplates()).map(summarizeTemplate);
+    return json({ templates, defaultId: DEFAULT_TEMPLATE_ID }, 200);
+  } catch (e) {
+    console.error("=== /api/templates エラー ===", e);
+    return json({ error: e instanceof Error ? e.message : "Unknown error" }, 500);
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest } from "next/server";
+import { authorize } from "@/lib/auth";
+import {
+  AUDIO_EXTENSIONS,
+  TranscriptionConfigError,
+  formatTranscript,
+  isAudioFile,
+  resolveTranscriber,
+  transcribeAudio,
+  type Transcriber,
+} from "@/lib/transcription";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function json(body: unknown, status: number) {
+  return new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json" } });
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    console.log("=== /api/transcribe 開始 ===");
+
+    const auth = await authorize(req, "editor", { rateLimit: true });
+    if (auth instanceof Response) return auth;
+
+    const form = await req.formData();
+    const audio = form.get("audio");
+    const language = form.get("language");
+
+    if (!(audio instanceof File) || !isAudioFile(audio.name)) {
+      console.log("エラー: 音声ファイルが不足");
+      return json({ error: `音声ファイル（${AUDIO_EXTENSIONS.join(" / ")}）が必要です` }, 400);
+    }
+    console.log("audio:", audio.name, "size:", audio.size);
+
+    let transcriber: Transcriber;
+    try {
+      transcriber = resolveTranscriber();
+    } catch (e) {
+      if (!(e instanceof TranscriptionConfigError)) throw e;
+      console.log("エラー: 文字起こし設定", e.message);
+      return json({ error: e.message }, 400);
+    }
+    console.log("文字起こしバックエンド:", transcriber.name);
+
+    const segments = await transcribeAudio(transcriber, audio, {
+      language: typeof language === "string" && language ? language : undefined,
+      signal: req.signal,
+      onSegment: (i, total) => console.log(`文字起こし ${i + 1}/${total}`),
+    });
+    console.log("文字起こし完了, 区間数:", segments.length);
+
+    console.log("=== /api/transcribe 成功 ===");
+    return json({ transcript: formatTranscript(segments), segments, backend: transcriber.name }, 200);
+  } catch (e) {
+    console.error("=== /api/transcribe エラー ===", e);
+    return json({ error: e instanceof Error ? e.message : "Unknown error" }, 500);
+  }
+}
@@ -1,17 +1,81 @@
 "use client";
 
-import React, { useMemo, useRef, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import {
+  Coins,
   Notebook,
-  Upload,
   FileText,
-  FileAudio,
-  Mic,
   AlertCircle,
   CheckCircle2,
   Loader2,
   Info,
+  Languages,
+  RefreshCw,
+  Save,
+  ShieldCheck,
+  XCircle,
 } from "lucide-react";
+import { pickMinutesContent, type MeetingInfo, type MinutesContent } from "@/lib/minutes/schema";
+import type { MeetingRecord } from "@/lib/storage/types";
+import type { PromptTemplateSummary } from "@/lib/prompts/types";
+import { applySpeakerNames, listSpeakers, parseTranscript, renderTranscript } from "@/lib/transcript/parse";
+import { DOCUMENT_EXTENSIONS } from "@/lib/ingest/document-files";
+import { readEvents, type MinutesResponse } from "@/lib/minutes/stream";
+import { replaceMarkdownSection, splitMarkdownSections } from "@/lib/minutes/markdown";
+import type { GroundedClaim } from "@/lib/minutes/grounding";
+import type { RedactionReport } from "@/lib/redaction/types";
+import type { GlossaryCorrection } from "@/lib/glossary";
+import type { JobView } from "@/lib/jobs";
+import { calculateCost, formatCostUSD, type ModelPrice, type UsageSummary } from "@/lib/llm/cost";
+import { estimateMinutesUsage } from "@/lib/minutes/estimate";
+import {
+  LANGUAGE_LABELS,
+  OUTPUT_LANGUAGE_LABELS,
+  detectLanguage,
+  otherLanguage,
+  type MinutesLanguage,
+  type MinutesTranslation,
+  type OutputLanguage,
+} from "@/lib/minutes/language";
+import type { AuthMode } from "@/lib/auth/types";
+import type { MinutesValidation } from "@/lib/minutes/validate";
+import type { CarryOverResult, SeriesView } from "@/lib/minutes/series";
+import { Button, Card, Pill } from "@/components/ui";
+import { Header } from "@/components/header";
+import { SpeakerMapper, UploadArea } from "@/components/upload-area";
+import {
+  ActionItemsEditor,
+  DraftDiffPanel,
+  EMPTY_SECTIONS,
+  LIST_SECTIONS,
+  ListEditor,
+  MinutesEditor,
+  RegeneratePanel,
+  type MinutesSections,
+  type MinutesView,
+  type RegenerateTarget,
+} from "@/components/minutes-editor";
+import { GroundingPanel } from "@/components/grounding";
+import { describeError, describeEvent } from "@/components/messages";
+import { StyleProfilePanel, useStyleProfiles } from "@/components/style-profiles";
+import { GlossaryCorrectionsCard, GlossaryPanel } from "@/components/glossary";
+import { RedactionReportCard, TranslationCard, UsageCard, ValidationCard } from "@/components/result-cards";
+import { CarryOverCard, SeriesCard } from "@/components/series";
+import { HistorySidebar, useMeetingHistory } from "@/components/history";
+import { AccountBar, LoginScreen, type AuthSession } from "@/components/auth";
+import { ExportButtons } from "@/components/export";
+import { UsageGuide } from "@/components/guide";
+
+/** GET /api/pricing の応答 */
+type PricingInfo = {
+  provider: string;
+  models: { style: string; minutes: string };
+  prices: { style: ModelPrice | null; minutes: ModelPrice | null };
+};
+
+// バックグラウンド生成中のジョブ ID。画面を閉じても開き直したときに続きから結果を待つ
+const JOB_STORAGE_KEY = "minutes-studio:job";
+const JOB_POLL_MS = 2000;
 
 /**
  * Minutes Studio — AI議事録生成ツール
@@ -24,222 +88,491 @@ import {
  */
 
 // ---------------------------
-// UI Primitives (Tailwind)
-// ---------------------------
-function Card({ className = "", children }: React.PropsWithChildren<{ className?: string }>) {
-  return (
-    <div className={`rounded-2xl border border-white/10 bg-white/5 shadow-[0_10px_30px_-10px_rgba(0,0,0,0.6)] backdrop-blur ${className}`}>
-      {children}
-    </div>
-  );
-}
-
-function Pill({ tone = "info", children }: React.PropsWithChildren<{ tone?: "info" | "ok" | "warn" }>) {
-  const styles = {
-    info: "bg-cyan-500/10 text-cyan-200 ring-1 ring-cyan-400/20",
-    ok: "bg-emerald-500/10 text-emerald-200 ring-1 ring-emerald-400/20",
-    warn: "bg-amber-500/10 text-amber-200 ring-1 ring-amber-400/20",
-  } as const;
-  return <span className={`inline-flex items-center gap-1 rounded-full px-2.5 py-1 text-xs ${styles[tone]}`}>{children}</span>;
-}
-
-function Button({
-  children,
-  onClick,
-  icon: Icon,
-  variant = "primary",
-  disabled,
-}: React.PropsWithChildren<{ onClick?: () => void; icon?: any; variant?: "primary" | "ghost"; disabled?: boolean }>) {
-  const base = "group inline-flex items-center gap-2 rounded-xl px-4 py-2 text-sm transition-all duration-200";
-  const styles =
-    variant === "primary"
-      ? "bg-gradient-to-br from-cyan-500 to-indigo-600 text-white hover:brightness-110 disabled:opacity-50"
-      : "bg-white/5 text-white/80 ring-1 ring-white/10 hover:bg-white/10 disabled:opacity-50";
-  return (
-    <button onClick={onClick} disabled={disabled} className={`${base} ${styles}`}>
-      {Icon ? <Icon className="h-4 w-4 opacity-80 group-hover:opacity-100" /> : null}
-      <span>{children}</span>
-    </button>
-  );
-}
-
-// ---------------------------
-// Header (brand switched to minutes)
+// Main component
 // ---------------------------
-function Header() {
-  return (
-    <div className="flex items-center justify-between">
-      <div className="flex items-center gap-3">
-        <div className="relative">
-          <div className="absolute -inset-2 rounded-2xl bg-gradient-to-br from-cyan-500/30 to-indigo-500/30 blur-xl" />
-          <div className="relative grid h-12 w-12 place-items-center rounded-2xl bg-black/40 ring-1 ring-white/10">
-            <Notebook className="h-6 w-6 text-white/90" />
-          </div>
-        </div>
-        <div>
-          <h1 className="text-xl font-semibold tracking-tight text-white">Minutes Studio</h1>
-          <p className="text-xs text-white/60">AI議事録生成ツール</p>
-        </div>
-      </div>
-      <div className="hidden md:flex items-center gap-2 text-xs text-white/60">
-        <Pill tone="info"><Mic className="h-3.5 w-3.5" /> 音声から自動要約</Pill>
-        <Pill tone="ok"><CheckCircle2 className="h-3.5 w-3.5" /> TXT / HTML</Pill>
-      </div>
-    </div>
-  );
-}
+export default function MinutesStudioMock() {
+  const [session, setSession] = useState<AuthSession | null>(null);
+  const [login, setLogin] = useState<{ mode: AuthMode; error: string } | null>(null);
 
-// ---------------------------
-// Upload Area (文字起こしテキストファイル)
-// ---------------------------
-function UploadArea({ onTextContent, onStyleFiles }: { onTextContent: (content: string) => void; onStyleFiles: (files: File[]) => void }) {
-  const inputRef = useRef<HTMLInputElement | null>(null);
-  const [over, setOver] = useState(false);
-  const [textContent, setTextContent] = useState<string>("");
-
-  async function handleFileUpload(files: File[]) {
-    for (const file of files) {
-      if (file.type === "text/plain" || file.name.endsWith('.txt')) {
-        try {
-          const content = await file.text();
-          setTextContent(content);
-          onTextContent(content);
-        } catch (error) {
-          console.error('ファイル読み込みエラー:', error);
-        }
+  async function loadSession() {
+    try {
+      const res = await fetch("/api/auth/session");
+      const data = await res.json().catch(() => ({}));
+      if (res.ok) {
+        setSession(data);
+        setLogin(null);
+        return;
       }
+      // OIDC のログインに失敗すると authError をつけて戻ってくる
+      const params = new URLSearchParams(location.search);
+      const authError = params.get("authError");
+      if (authError) window.history.replaceState(null, "", location.pathname);
+      setLogin({ mode: data.mode ?? "local", error: authError ?? (res.status === 401 ? "" : data.error || `HTTP ${res.status}`) });
+    } catch (e) {
+      console.error("ログイン状態の確認エラー:", e);
+      setLogin({ mode: "local", error: "サーバーに接続できません" });
     }
   }
 
-  return (
-    <Card>
-      <div
-        onDragOver={(e) => { e.preventDefault(); setOver(true); }}
-        onDragLeave={() => setOver(false)}
-        onDrop={(e) => {
-          e.preventDefault(); setOver(false);
-          const files = Array.from(e.dataTransfer.files || []);
-          if (files.length) handleFileUpload(files);
-        }}
-        className={`relative grid place-items-center rounded-2xl px-6 py-14 transition ${over ? "ring-2 ring-cyan-400/50 bg-white/10" : "ring-1 ring-white/10 bg-white/5"}`}
-      >
-        <div className="pointer-events-none absolute inset-0 rounded-2xl bg-[radial-gradient(ellipse_at_top,rgba(34,211,238,0.12),transparent_50%),radial-gradient(ellipse_at_bottom,rgba(79,70,229,0.12),transparent_50%)]" />
-        <div className="relative z-10 flex flex-col items-center gap-4 text-center">
-          <div className="grid h-12 w-12 place-items-center rounded-xl bg-black/40 ring-1 ring-white/10">
-            <FileText className="h-6 w-6 text-white/80" />
-          </div>
-          <div className="space-y-1">
-            <p className="text-white/90">
-              ここに文字起こしテキストファイルをドラッグ＆ドロップ
-              <span className="mx-2 text-white/50">または</span>
-              <button
-                onClick={() => inputRef.current?.click()}
-                className="underline decoration-cyan-400/60 underline-offset-4 hover:decoration-cyan-300"
-              >ファイルを選択</button>
-            </p>
-            <p className="text-xs text-white/60">
-              対応形式：.txt ファイル（UTF-8エンコーディング推奨）
-            </p>
-          </div>
-        </div>
-        <input
-          ref={inputRef}
-          type="file"
-          accept=".txt"
-          className="hidden"
-          onChange={(e) => {
-            const files = Array.from(e.target.files || []);
-            if (files.length) handleFileUpload(files);
-            e.currentTarget.value = "";
-          }}
-        />
-        {textContent && (
-          <div className="absolute top-3 right-3 text-[10px] text-white/60">
-            テキスト読み込み済み: {textContent.length}文字
-          </div>
+  useEffect(() => {
+    loadSession();
+  }, []);
+
+  return session ? (
+    <MinutesStudio session={session} />
+  ) : (
+    <div className="min-h-[100dvh] bg-black text-white">
+      <div className="relative mx-auto w-full max-w-6xl px-6 py-8">
+        <Header />
+        {login ? (
+          <LoginScreen mode={login.mode} error={login.error} onLoggedIn={loadSession} />
+        ) : (
+          <div className="mt-12 flex justify-center text-white/60"><Loader2 className="h-5 w-5 animate-spin" /></div>
         )}
       </div>
-    </Card>
+    </div>
   );
 }
 
-// ---------------------------
-// Main component
-// ---------------------------
-export default function MinutesStudioMock() {
+function MinutesStudio({ session }: { session: AuthSession }) {
+  // 閲覧者は生成できない（サーバー側でも拒否する）
+  const canEdit = session.role !== "viewer";
   const [transcript, setTranscript] = useState<string>("");
   const [styleFiles, setStyleFiles] = useState<File[]>([]);
+  const styleProfiles = useStyleProfiles();
+  const [styleProfileId, setStyleProfileId] = useState("");
+  const [redact, setRedact] = useState(false);
+  const [redactTerms, setRedactTerms] = useState("");
+  const [redactionReport, setRedactionReport] = useState<RedactionReport | null>(null);
+  const [useGlossary, setUseGlossary] = useState(true);
+  const [glossaryCorrections, setGlossaryCorrections] = useState<GlossaryCorrection[]>([]);
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+  const [validation, setValidation] = useState<MinutesValidation | null>(null);
+  const [sourceLanguage, setSourceLanguage] = useState<MinutesLanguage | "auto">("auto");
+  const [outputLanguage, setOutputLanguage] = useState<OutputLanguage>("ja");
+  // 表示中の議事録の言語と、もう一方の言語への翻訳
+  const [minutesLanguage, setMinutesLanguage] = useState<MinutesLanguage>("ja");
+  const [translation, setTranslation] = useState<MinutesTranslation | null>(null);
+  const [translating, setTranslating] = useState(false);
+  const [pricing, setPricing] = useState<PricingInfo | null>(null);
+  const [speakerNames, setSpeakerNames] = useState<Record<string, string>>({});
+  const [meeting, setMeeting] = useState<MeetingInfo>(() => ({ title: "", date: new Date().toISOString().slice(0, 10) }));
+  const [docxTemplate, setDocxTemplate] = useState<File | null>(null);
+  const [templates, setTemplates] = useState<PromptTemplateSummary[]>([]);
+  const [templateId, setTemplateId] = useState("");
+  const [meetingId, setMeetingId] = useState<string | null>(null);
+  // 定例会議: 前回の会議を指定すると未完了の宿題事項・未決事項を持ち越す
+  const [previousMeetingId, setPreviousMeetingId] = useState("");
+  const [carryOver, setCarryOver] = useState<CarryOverResult[]>([]);
+  const [series, setSeries] = useState<SeriesView | null>(null);
+  const history = useMeetingHistory();
+  const [savingEdits, setSavingEdits] = useState(false);
   const [status, setStatus] = useState<"idle" | "processing" | "done">("idle");
   const [summary, setSummary] = useState<string>("");
   const [generatedMinutes, setGeneratedMinutes] = useState<string>("");
+  const [sections, setSections] = useState<MinutesSections>(EMPTY_SECTIONS);
+  // 生成直後の内容。編集後との差分表示に使う
+  const [aiDraft, setAiDraft] = useState<MinutesContent | null>(null);
+  const [styleGuidelines, setStyleGuidelines] = useState("");
+  const [minutesView, setMinutesView] = useState<MinutesView>("edit");
+  const [regenerating, setRegenerating] = useState(false);
+  // 根拠の位置は生成時に正規化された書き起こし（groundedTranscript）に対するもの
+  const [grounding, setGrounding] = useState<GroundedClaim[]>([]);
+  const [groundedTranscript, setGroundedTranscript] = useState("");
+  const [selectedClaim, setSelectedClaim] = useState<GroundedClaim | null>(null);
+  const [progress, setProgress] = useState<string[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+  const [background, setBackground] = useState(false);
+  const jobRef = useRef<string | null>(null);
+  const [failedJobId, setFailedJobId] = useState<string | null>(null);
+  const [chunking, setChunking] = useState<{ chunkCount: number; truncated: boolean; droppedChars: number } | null>(null);
+
+  const parsedTranscript = useMemo(() => parseTranscript(transcript), [transcript]);
+  const speakers = useMemo(() => listSpeakers(parsedTranscript.utterances), [parsedTranscript]);
+  // プレビューには話者名の割り当てを反映した形を表示する（サーバー側でも同じ正規化を行う）
+  const previewText = useMemo(
+    () => (parsedTranscript.format === "plain" ? transcript : renderTranscript(applySpeakerNames(parsedTranscript.utterances, speakerNames))),
+    [parsedTranscript, speakerNames, transcript]
+  );
+  // 生成前の見積もり（送信するのと同じ正規化後の書き起こしで数える）
+  const estimate = useMemo(
+    () => (previewText.trim() ? estimateMinutesUsage(previewText, { bilingual: outputLanguage === "bilingual" }) : null),
+    [previewText, outputLanguage]
+  );
+  const detectedLanguage = useMemo(() => detectLanguage(previewText), [previewText]);
+  const estimatedCost = estimate && pricing ? calculateCost(pricing.prices.minutes, estimate.promptTokens, estimate.completionTokens) : null;
+
+  // 会議の種類（プロンプトテンプレート）の選択肢
+  useEffect(() => {
+    fetch("/api/templates")
+      .then((res) => (res.ok ? res.json() : Promise.reject(new Error(`HTTP ${res.status}`))))
+      .then((data) => {
+        setTemplates(data.templates ?? []);
+        setTemplateId((current) => current || data.defaultId || "");
+      })
+      .catch((e) => console.error("テンプレートの読み込みエラー:", e));
+  }, []);
+
+  // 見積もりに使うモデルと料金
+  useEffect(() => {
+    fetch("/api/pricing")
+      .then((res) => (res.ok ? res.json() : Promise.reject(new Error(`HTTP ${res.status}`))))
+      .then((data: PricingInfo) => setPricing(data))
+      .catch((e) => console.error("料金の読み込みエラー:", e));
+  }, []);
+
+  // 表示中の会議が定例会議のシリーズに含まれていれば経過を読む（会議が1回だけなら表示しない）
+  useEffect(() => {
+    if (!meetingId) {
+      setSeries(null);
+      return;
+    }
+    fetch(`/api/meetings/${meetingId}/series`)
+      .then((res) => (res.ok ? res.json() : Promise.reject(new Error(`HTTP ${res.status}`))))
+      .then((data: SeriesView) => setSeries(data.meetings.length > 1 ? data : null))
+      .catch((e) => console.error("シリーズの読み込みエラー:", e));
+  }, [meetingId, history.meetings]);
+
+  const selectedTemplate = templates.find((t) => t.id === templateId);
+
+  async function openMeeting(id: string) {
+    try {
+      const res = await fetch(`/api/meetings/${id}`);
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const record: MeetingRecord = await res.json();
+      setTranscript(record.transcript);
+      setSpeakerNames({});
+      setMeeting(record.meeting);
+      if (record.templateId) setTemplateId(record.templateId);
+      setMeetingId(record.id);
+      setSummary(record.summary);
+      setGeneratedMinutes(record.minutes);
+      setSections({
+        attendees: record.attendees,
+        agenda: record.agenda,
+        decisions: record.decisions,
+        actionItems: record.actionItems,
+        openQuestions: record.openQuestions,
+      });
+      setAiDraft(record.aiDraft ?? null);
+      setGrounding(record.grounding ?? []);
+      setRedactionReport(record.redaction ?? null);
+      setGlossaryCorrections(record.glossaryCorrections ?? []);
+      setUsage(record.usage ?? null);
+      setValidation(record.validation ?? null);
+      setMinutesLanguage(record.language ?? "ja");
+      setTranslation(record.translation ?? null);
+      setCarryOver(record.carryOver ?? []);
+      setGroundedTranscript(record.transcript);
+      setSelectedClaim(null);
+      setStyleGuidelines(record.styleGuidelines);
+      setChunking(null);
+      setProgress([]);
+      setStatus("done");
+    } catch (e) {
+      console.error("履歴を開けませんでした:", e);
+    }
+  }
+
+  async function deleteMeeting(id: string) {
+    if (!confirm("この議事録を履歴から削除しますか？")) return;
+    try {
+      const res = await fetch(`/api/meetings/${id}`, { method: "DELETE" });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      if (id === meetingId) setMeetingId(null);
+      await history.reload();
+    } catch (e) {
+      console.error("履歴の削除エラー:", e);
+    }
+  }
+
+  // 画面で編集した内容を履歴に反映する
+  async function saveEdits() {
+    if (!meetingId) return;
+    setSavingEdits(true);
+    try {
+      const res = await fetch(`/api/meetings/${meetingId}`, {
+        method: "PATCH",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ meeting, summary, minutes: generatedMinutes, ...sections }),
+      });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      await history.reload();
+    } catch (e) {
+      console.error("履歴の更新エラー:", e);
+      alert("変更を保存できませんでした");
+    } finally {
+      setSavingEdits(false);
+    }
+  }
+
+  function applyResult(data: MinutesResponse) {
+    setMeetingId(data.meetingId);
+    setSummary(data.summary || "");
+    setGeneratedMinutes(data.minutes || "");
+    setSections({
+      attendees: data.attendees ?? [],
+      agenda: data.agenda ?? [],
+      decisions: data.decisions ?? [],
+      actionItems: data.actionItems ?? [],
+      openQuestions: data.openQuestions ?? [],
+    });
+    setAiDraft(pickMinutesContent(data));
+    setGrounding(data.grounding ?? []);
+    setRedactionReport(data.redaction ?? null);
+    setGlossaryCorrections(data.glossaryCorrections ?? []);
+    setUsage(data.usage ?? null);
+    setValidation(data.validation ?? null);
+    setMinutesLanguage(data.language ?? "ja");
+    setTranslation(data.translation ?? null);
+    setCarryOver(data.carryOver ?? []);
+    setGroundedTranscript(data.transcript);
+    setSelectedClaim(null);
+    setStyleGuidelines(data.styleGuidelines);
+    setChunking(data.chunking ?? null);
+    history.reload();
+    // 生成時にガイドラインを作り直した場合に備えて読み直す
+    if (data.styleProfileId) styleProfiles.reload();
+  }
+
+  // 生成の実行（ストリーミング・バックグラウンドのジョブ共通）。キャンセル・エラー時の表示をそろえる
+  async function runGeneration(task: (signal: AbortSignal) => Promise<void>) {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setStatus("processing");
+    setFailedJobId(null);
+    try {
+      await task(controller.signal);
+      setStatus("done");
+    } catch (e) {
+      if (controller.signal.aborted) {
+        setProgress((prev) => [...prev, "生成をキャンセルしました"]);
+      } else {
+        console.error("議事録生成エラー:", e);
+        setSummary("処理中にエラーが発生しました。");
+      }
+      setStatus("done");
+    } finally {
+      abortRef.current = null;
+    }
+  }
+
+  // ジョブが終わるまで状態を問い合わせ、進捗を表示する
+  async function followJob(jobId: string, signal: AbortSignal) {
+    jobRef.current = jobId;
+    localStorage.setItem(JOB_STORAGE_KEY, jobId);
+    try {
+      while (true) {
+        const res = await fetch(`/api/jobs/${jobId}`, { signal });
+        if (res.status === 404) localStorage.removeItem(JOB_STORAGE_KEY);
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        const job: JobView = await res.json();
+        const messages = job.events.map(describeEvent).filter((m): m is string => m !== null);
+        setProgress([`バックグラウンドで生成中（ジョブ ${jobId.slice(0, 8)}）`, ...messages]);
+        if (job.status === "succeeded" && job.result) {
+          localStorage.removeItem(JOB_STORAGE_KEY);
+          applyResult(job.result);
+          return;
+        }
+        if (job.status === "failed") {
+          localStorage.removeItem(JOB_STORAGE_KEY);
+          setFailedJobId(jobId);
+          setProgress((prev) => [
+            ...prev,
+            `${describeError(job.error ?? "ジョブが失敗しました", job.errorCode)}（完了した段階は保存されているので、続きから再試行できます）`,
+          ]);
+          throw new Error(job.error ?? "ジョブが失敗しました");
+        }
+        if (job.status === "cancelled") {
+          localStorage.removeItem(JOB_STORAGE_KEY);
+          setProgress((prev) => [...prev, "生成をキャンセルしました"]);
+          return;
+        }
+        await new Promise((resolve) => setTimeout(resolve, JOB_POLL_MS));
+        signal.throwIfAborted();
+      }
+    } finally {
+      jobRef.current = null;
+    }
+  }
+
+  // 前回バックグラウンドで生成中だったジョブがあれば、結果を待ち直す
+  useEffect(() => {
+    const jobId = localStorage.getItem(JOB_STORAGE_KEY);
+    if (jobId) runGeneration((signal) => followJob(jobId, signal));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  async function retryJob() {
+    if (!failedJobId) return;
+    const jobId = failedJobId;
+    await runGeneration(async (signal) => {
+      const res = await fetch(`/api/jobs/${jobId}/retry`, { method: "POST", signal });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+      await followJob(jobId, signal);
+    });
+  }
 
   async function processWithAI() {
     if (!transcript.trim()) return;
-    setStatus("processing");
+    setMeetingId(null);
     setSummary("");
     setGeneratedMinutes("");
-    
-    try {
-      const formData = new FormData();
-      formData.append("transcript", transcript);
-      for (const styleFile of styleFiles) {
-        formData.append("style", styleFile);
+    setSections(EMPTY_SECTIONS);
+    setAiDraft(null);
+    setGrounding([]);
+    setRedactionReport(null);
+    setGlossaryCorrections([]);
+    setUsage(null);
+    setValidation(null);
+    setTranslation(null);
+    setSelectedClaim(null);
+    setMinutesView("edit");
+    setChunking(null);
+    setProgress([]);
+
+    const formData = new FormData();
+    formData.append("transcript", transcript);
+    formData.append("speakerNames", JSON.stringify(speakerNames));
+    formData.append("title", meeting.title);
+    formData.append("date", meeting.date);
+    if (styleProfileId) formData.append("styleProfileId", styleProfileId);
+    if (templateId) formData.append("template", templateId);
+    formData.append("redact", redact ? "1" : "0");
+    formData.append("redactTerms", redactTerms);
+    formData.append("glossary", useGlossary ? "1" : "0");
+    formData.append("sourceLanguage", sourceLanguage);
+    formData.append("outputLanguage", outputLanguage);
+    if (previousMeetingId) formData.append("previousMeetingId", previousMeetingId);
+    for (const styleFile of styleFiles) {
+      formData.append("style", styleFile);
+    }
+
+    await runGeneration(async (signal) => {
+      if (background) {
+        const res = await fetch("/api/minutes?async=1", { method: "POST", body: formData, signal });
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+        await followJob(data.jobId, signal);
+        return;
+      }
+
+      const res = await fetch("/api/minutes?stream=1", { method: "POST", body: formData, signal });
+      if (!res.ok || !res.body) throw new Error(`HTTP ${res.status}`);
+      for await (const event of readEvents(res.body)) {
+        const message = describeEvent(event);
+        if (message) setProgress((prev) => [...prev, message]);
+        if (event.type === "partial") {
+          setGeneratedMinutes(event.minutes);
+        } else if (event.type === "result") {
+          applyResult(event.data);
+        } else if (event.type === "error") {
+          throw new Error(event.error);
+        }
       }
-      
-      const res = await fetch("/api/minutes", { 
-        method: "POST", 
-        body: formData 
+    });
+  }
+
+  // 指定した箇所だけを作り直して、編集中の内容に反映する
+  async function regenerate(target: RegenerateTarget, instruction: string) {
+    setRegenerating(true);
+    try {
+      const res = await fetch("/api/minutes/regenerate", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          target,
+          instruction,
+          transcript: previewText,
+          template: templateId,
+          styleGuidelines,
+          redact,
+          redactTerms,
+          glossary: useGlossary,
+          language: minutesLanguage,
+          document: { summary, minutes: generatedMinutes, ...sections, meeting },
+        }),
       });
-      
-      if (!res.ok) throw new Error(`HTTP ${res.status}`);
-      const data = await res.json();
-      setSummary(data.summary || "");
-      setGeneratedMinutes(data.minutes || "");
-      setStatus("done");
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+      if ("heading" in target) {
+        setGeneratedMinutes((prev) => replaceMarkdownSection(prev, target.heading, data.value));
+      } else if (target.field === "summary") {
+        setSummary(data.value);
+      } else if (target.field === "minutes") {
+        setGeneratedMinutes(data.value);
+      } else {
+        setSections((prev) => ({ ...prev, [target.field]: data.value }));
+      }
     } catch (e) {
-      setSummary("処理中にエラーが発生しました。");
-      setStatus("done");
+      console.error("再生成エラー:", e);
+      alert(`再生成に失敗しました: ${e instanceof Error ? e.message : e}`);
+    } finally {
+      setRegenerating(false);
     }
   }
 
-  function exportText() {
-    const content = `${summary ? `要約\n${summary}\n\n` : ""}議事録本文\n${generatedMinutes || ""}`;
-    downloadFile(
-      new Blob([content], { type: "text/plain;charset=utf-8" }), 
-      `minutes_${Date.now()}.txt`
-    );
+  // 編集中の議事録をもう一方の言語に訳す（履歴がある場合はそこにも保存される）
+  async function translateCurrent() {
+    setTranslating(true);
+    try {
+      const res = await fetch("/api/minutes/translate", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          document: { summary, minutes: generatedMinutes, ...sections },
+          from: minutesLanguage,
+          to: otherLanguage(minutesLanguage),
+          template: templateId,
+          redact,
+          redactTerms,
+          glossary: useGlossary,
+          meetingId,
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+      setTranslation(data);
+    } catch (e) {
+      console.error("翻訳エラー:", e);
+      alert(`翻訳に失敗しました: ${e instanceof Error ? e.message : e}`);
+    } finally {
+      setTranslating(false);
+    }
   }
 
-  function exportHTML() {
-    const html = `<!doctype html><html lang="ja"><meta charset="utf-8"><title>Minutes Studio — 議事録</title><body style="font-family:-apple-system,BlinkMacSystemFont,Segoe UI,Roboto,Helvetica,Arial,\"Noto Sans JP\",\"Hiragino Kaku Gothic ProN\",Meiryo,sans-serif;line-height:1.7;padding:40px;max-width:900px;margin:auto">`+
-      `<h1>議事録（AI生成）</h1>`+
-      `<h3>要約</h3><p>${escapeHtml(summary || "（未作成）")}</p>`+
-      `<h3>議事録本文</h3><pre style="white-space:pre-wrap">${escapeHtml(generatedMinutes || "（未作成）")}</pre>`+
-      `</body></html>`;
-    downloadFile(new Blob([html], { type: "text/html;charset=utf-8" }), `minutes_${Date.now()}.html`);
+  function cancelProcessing() {
+    // バックグラウンドのジョブはサーバー側でも止める
+    if (jobRef.current) {
+      fetch(`/api/jobs/${jobRef.current}`, { method: "DELETE" }).catch((e) => console.error("ジョブの中止エラー:", e));
+      localStorage.removeItem(JOB_STORAGE_KEY);
+    }
+    abortRef.current?.abort();
   }
 
   return (
     <div className="min-h-[100dvh] bg-black text-white">
       <div className="relative mx-auto w-full max-w-6xl px-6 py-8">
         <Header />
+        <AccountBar session={session} />
 
         <div className="mt-8 grid grid-cols-1 gap-6 lg:grid-cols-3">
           <div className="lg:col-span-2 space-y-6">
-            <UploadArea onTextContent={(content) => setTranscript(content)} onStyleFiles={(files) => setStyleFiles(files)} />
+            <UploadArea onTextContent={(content) => { setTranscript(content); setSpeakerNames({}); setMeetingId(null); }} />
 
             {/* Style samples (optional) */}
             <Card>
               <div className="p-5">
                 <div className="flex items-center gap-2 text-sm text-white/70">
                   <FileText className="h-4 w-4" />
-                  <span>過去の議事録ファイル（任意・.docx / .txt / .md / .html）</span>
+                  <span>過去の議事録ファイル（任意・{DOCUMENT_EXTENSIONS.join(" / ")}）</span>
                 </div>
                 <div className="mt-3 flex flex-wrap items-center gap-3">
                   <input
                     type="file"
                     multiple
-                    accept=".docx,.txt,.md,.html,.htm"
+                    accept={DOCUMENT_EXTENSIONS.join(",")}
                     className="text-xs"
                     onChange={(e) => setStyleFiles(Array.from(e.target.files || []))}
                   />
@@ -247,9 +580,54 @@ export default function MinutesStudioMock() {
                     <span className="text-xs text-white/60">{styleFiles.length} 件を使用して文体を合わせます</span>
                   )}
                 </div>
+                <div className="mt-4 flex items-center gap-2 text-sm text-white/70">
+                  <FileText className="h-4 w-4" />
+                  <span>Word テンプレート（任意・.docx）</span>
+                </div>
+                <div className="mt-3 flex flex-wrap items-center gap-3">
+                  <input
+                    type="file"
+                    accept=".docx"
+                    className="text-xs"
+                    onChange={(e) => setDocxTemplate(e.target.files?.[0] ?? null)}
+                  />
+                  {docxTemplate && (
+                    <span className="text-xs text-white/60">Word 出力時に {docxTemplate.name} の書式へ差し込みます</span>
+                  )}
+                </div>
+                <label className="mt-4 flex items-center gap-2 text-sm text-white/70">
+                  <input type="checkbox" checked={redact} onChange={(e) => setRedact(e.target.checked)} />
+                  <ShieldCheck className="h-4 w-4" />
+                  <span>AI に送る前に個人情報（氏名・電話番号・メール・個人番号・金額）を伏せ字にする</span>
+                </label>
+                {redact && (
+                  <textarea
+                    value={redactTerms}
+                    onChange={(e) => setRedactTerms(e.target.value)}
+                    rows={3}
+                    placeholder="追加で伏せる語（顧客名・NG ワードなど、1行に1語）"
+                    className="mt-2 w-full rounded-md bg-white/5 p-2 text-xs text-white/90 ring-1 ring-white/10 focus:outline-none focus:ring-cyan-400/50"
+                  />
+                )}
               </div>
             </Card>
 
+            <StyleProfilePanel
+              profiles={styleProfiles.profiles}
+              selectedId={styleProfileId}
+              styleFiles={styleFiles}
+              redaction={{ redact, terms: redactTerms }}
+              onSelect={setStyleProfileId}
+              onChanged={styleProfiles.reload}
+            />
+
+            <GlossaryPanel enabled={useGlossary} onToggle={setUseGlossary} />
+
+            {/* Speaker mapping */}
+            {speakers.length > 0 && (
+              <SpeakerMapper speakers={speakers} names={speakerNames} onChange={setSpeakerNames} />
+            )}
+
             {/* Text content preview */}
             {transcript && (
               <Card className="p-5">
@@ -260,11 +638,77 @@ export default function MinutesStudioMock() {
                 <div className="mt-3 p-3 bg-white/5 rounded-lg">
                   <p className="text-xs text-white/60 mb-2">プレビュー（最初の200文字）:</p>
                   <p className="text-sm text-white/80 whitespace-pre-wrap">
-                    {transcript.length > 200 ? transcript.slice(0, 200) + "..." : transcript}
+                    {previewText.length > 200 ? previewText.slice(0, 200) + "..." : previewText}
                   </p>
                   <p className="text-xs text-white/50 mt-2">総文字数: {transcript.length}文字</p>
                 </div>
 
+                <div className="mt-4 grid grid-cols-1 gap-2 md:grid-cols-[2fr_1fr_1fr]">
+                  <input
+                    value={meeting.title}
+                    onChange={(e) => setMeeting((prev) => ({ ...prev, title: e.target.value }))}
+                    placeholder="会議名（出力のタイトル・ヘッダーに使用）"
+                    className="rounded-md bg-white/5 px-3 py-2 text-sm text-white/90 ring-1 ring-white/10 focus:outline-none focus:ring-cyan-400/50"
+                  />
+                  <input
+                    type="date"
+                    value={meeting.date}
+                    onChange={(e) => setMeeting((prev) => ({ ...prev, date: e.target.value }))}
+                    className="rounded-md bg-white/5 px-3 py-2 text-sm text-white/90 ring-1 ring-white/10 focus:outline-none focus:ring-cyan-400/50"
+                  />
+                  <select
+                    value={templateId}
+                    onChange={(e) => setTemplateId(e.target.value)}
+                    aria-label="会議の種類"
+                    className="rounded-md bg-white/5 px-3 py-2 text-sm text-white/90 ring-1 ring-white/10 focus:outline-none focus:ring-cyan-400/50"
+                  >
+                    {templates.map((t) => (
+                      <option key={t.id} value={t.id}>{t.label}</option>
+                    ))}
+                  </select>
+                </div>
+                {selectedTemplate && (
+                  <p className="mt-2 text-xs text-white/50">
+                    {selectedTemplate.description}（構成: {selectedTemplate.sections.join(" / ")}）
+                  </p>
+                )}
+                <div className="mt-2 grid grid-cols-1 gap-2 md:grid-cols-2">
+                  <select
+                    value={sourceLanguage}
+                    onChange={(e) => setSourceLanguage(e.target.value as MinutesLanguage | "auto")}
+                    aria-label="書き起こしの言語"
+                    className="rounded-md bg-white/5 px-3 py-2 text-sm text-white/90 ring-1 ring-white/10 focus:outline-none focus:ring-cyan-400/50"
+                  >
+                    <option value="auto">書き起こしの言語: 自動判定{previewText.trim() ? `（${LANGUAGE_LABELS[detectedLanguage]}）` : ""}</option>
+                    {(["ja", "en"] as const).map((l) => (
+                      <option key={l} value={l}>書き起こしの言語: {LANGUAGE_LABELS[l]}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={outputLanguage}
+                    onChange={(e) => setOutputLanguage(e.target.value as OutputLanguage)}
+                    aria-label="議事録の言語"
+                    className="rounded-md bg-white/5 px-3 py-2 text-sm text-white/90 ring-1 ring-white/10 focus:outline-none focus:ring-cyan-400/50"
+                  >
+                    {(["ja", "en", "bilingual"] as const).map((l) => (
+                      <option key={l} value={l}>議事録の言語: {OUTPUT_LANGUAGE_LABELS[l]}</option>
+                    ))}
+                  </select>
+                </div>
+                <select
+                  value={previousMeetingId}
+                  onChange={(e) => setPreviousMeetingId(e.target.value)}
+                  aria-label="前回の会議"
+                  className="mt-2 w-full rounded-md bg-white/5 px-3 py-2 text-sm text-white/90 ring-1 ring-white/10 focus:outline-none focus:ring-cyan-400/50"
+                >
+                  <option value="">前回の会議: なし（宿題事項を持ち越さない）</option>
+                  {history.meetings.map((m) => (
+                    <option key={m.id} value={m.id}>
+                      前回の会議: {m.meeting.title || "（無題）"}（{m.meeting.date || m.createdAt.slice(0, 10)}）
+                    </option>
+                  ))}
+                </select>
+
                 <div className="mt-5 flex flex-wrap gap-3">
                   <Button 
                     icon={FileText} 
@@ -281,80 +725,171 @@ export default function MinutesStudioMock() {
                   >
                     コピー
                   </Button>
-                  <Button icon={FileText} variant="ghost" onClick={exportHTML} disabled={status === "processing"}>
-                    HTMLとして保存
-                  </Button>
-                  <Button icon={FileText} variant="ghost" onClick={exportText} disabled={status === "processing"}>
-                    TXTとして保存
+                  <Button
+                    icon={translating ? Loader2 : Languages}
+                    variant="ghost"
+                    onClick={translateCurrent}
+                    disabled={status === "processing" || translating || (!summary && !generatedMinutes)}
+                  >
+                    {translating ? "翻訳中…" : `${LANGUAGE_LABELS[otherLanguage(minutesLanguage)]}に翻訳`}
                   </Button>
-                  <Button icon={Notebook} onClick={processWithAI} disabled={!transcript.trim() || status === "processing"}>
+                  <ExportButtons
+                    doc={{ summary, minutes: generatedMinutes, ...sections, meeting }}
+                    language={minutesLanguage}
+                    translation={translation}
+                    docxTemplate={docxTemplate}
+                    disabled={status === "processing"}
+                  />
+                  <Button icon={Notebook} onClick={processWithAI} disabled={!canEdit || !transcript.trim() || status === "processing"}>
                     {status === "processing" ? (
                       <span className="inline-flex items-center gap-2"><Loader2 className="h-4 w-4 animate-spin" /> 生成中…</span>
                     ) : (
                       <span>AIで議事録を作成</span>
                     )}
                   </Button>
+                  {status === "processing" && (
+                    <Button icon={XCircle} variant="ghost" onClick={cancelProcessing}>
+                      キャンセル
+                    </Button>
+                  )}
+                  {failedJobId && status === "done" && (
+                    <Button icon={RefreshCw} variant="ghost" onClick={retryJob}>
+                      続きから再試行
+                    </Button>
+                  )}
                 </div>
+                <label className="mt-3 flex items-center gap-2 text-xs text-white/60">
+                  <input
+                    type="checkbox"
+                    checked={background}
+                    onChange={(e) => setBackground(e.target.checked)}
+                    disabled={status === "processing"}
+                  />
+                  <span>バックグラウンドで生成する（画面を閉じても処理を続け、開き直すと結果を表示します）</span>
+                </label>
+                {estimate && (
+                  <p className="mt-2 flex flex-wrap items-center gap-1 text-xs text-white/50">
+                    <Coins className="h-3.5 w-3.5" />
+                    <span>
+                      生成前の見積もり: LLM 呼び出し {estimate.calls} 回・入力 約{estimate.promptTokens.toLocaleString()} / 出力 約
+                      {estimate.completionTokens.toLocaleString()} トークン
+                    </span>
+                    {pricing && (
+                      <span>
+                        ・{estimatedCost === null ? "費用は不明（料金表にないモデル）" : `費用 約${formatCostUSD(estimatedCost)}`}（{pricing.models.minutes}）
+                      </span>
+                    )}
+                  </p>
+                )}
+
+                {progress.length > 0 && (
+                  <ul className="mt-4 space-y-1 text-xs text-white/60">
+                    {progress.map((message, i) => (
+                      <li key={i} className="flex items-center gap-2">
+                        {status === "processing" && i === progress.length - 1 ? (
+                          <Loader2 className="h-3 w-3 animate-spin" />
+                        ) : (
+                          <CheckCircle2 className="h-3 w-3" />
+                        )}
+                        {message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
               </Card>
             )}
 
             {/* Results */}
             {status !== "idle" && (
               <div className="space-y-6">
-                <Card className="p-5">
-                  <div className="mb-2 flex items-center gap-2 text-sm text-white/70">
-                    <CheckCircle2 className="h-4 w-4" />
-                    <span>要約</span>
-                  </div>
-                  <p className="text-white/90">{summary || "（生成を待機中）"}</p>
-                </Card>
-                <Card className="p-5">
-                  <div className="mb-2 flex items-center gap-2 text-sm text-white/70">
-                    <FileText className="h-4 w-4" />
-                    <span>議事録本文</span>
+                {chunking && chunking.chunkCount > 1 && (
+                  <div className="flex flex-wrap gap-2">
+                    <Pill tone="info"><Info className="h-3.5 w-3.5" /> {chunking.chunkCount} 分割で要約しました</Pill>
+                    {chunking.truncated && (
+                      <Pill tone="warn"><AlertCircle className="h-3.5 w-3.5" /> 上限超過のため末尾 {chunking.droppedChars} 文字は未処理です</Pill>
+                    )}
                   </div>
-                  <pre className="whitespace-pre-wrap text-white/90">{generatedMinutes || "（生成を待機中）"}</pre>
-                </Card>
+                )}
+                <MinutesEditor
+                  done={status === "done"}
+                  summary={summary}
+                  minutes={generatedMinutes}
+                  view={minutesView}
+                  aiDraft={aiDraft}
+                  claims={grounding}
+                  onSummaryChange={setSummary}
+                  onMinutesChange={setGeneratedMinutes}
+                  onViewChange={setMinutesView}
+                  onSelectClaim={setSelectedClaim}
+                />
+                {status === "done" && (
+                  <>
+                    {redactionReport && <RedactionReportCard report={redactionReport} />}
+                    {translation && <TranslationCard translation={translation} />}
+                    {carryOver.length > 0 && <CarryOverCard items={carryOver} />}
+                    {series && <SeriesCard series={series} activeId={meetingId} onOpen={openMeeting} />}
+                    {validation && (validation.repairs > 0 || validation.issues.length > 0) && (
+                      <ValidationCard validation={validation} />
+                    )}
+                    {usage && <UsageCard usage={usage} />}
+                    {glossaryCorrections.length > 0 && <GlossaryCorrectionsCard corrections={glossaryCorrections} />}
+                    {grounding.length > 0 && (
+                      <GroundingPanel
+                        claims={grounding}
+                        transcript={groundedTranscript}
+                        selected={selectedClaim}
+                        onSelect={setSelectedClaim}
+                      />
+                    )}
+                    {meetingId && (
+                      <div className="flex justify-end">
+                        <Button icon={savingEdits ? Loader2 : Save} variant="ghost" onClick={saveEdits} disabled={savingEdits}>
+                          変更を履歴に保存
+                        </Button>
+                      </div>
+                    )}
+                    {LIST_SECTIONS.map(({ key, label }) => (
+                      <ListEditor
+                        key={key}
+                        label={label}
+                        items={sections[key]}
+                        onChange={(items) => setSections((prev) => ({ ...prev, [key]: items }))}
+                      />
+                    ))}
+                    <ActionItemsEditor
+                      items={sections.actionItems}
+                      onChange={(actionItems) => setSections((prev) => ({ ...prev, actionItems }))}
+                    />
+                    {transcript.trim() && (
+                      <RegeneratePanel
+                        headings={splitMarkdownSections(generatedMinutes).map((s) => s.heading).filter(Boolean)}
+                        busy={regenerating}
+                        onRegenerate={regenerate}
+                      />
+                    )}
+                    {aiDraft && (
+                      <DraftDiffPanel draft={aiDraft} current={{ summary, minutes: generatedMinutes, ...sections }} />
+                    )}
+                  </>
+                )}
               </div>
             )}
           </div>
 
-          {/* Right rail: guidance */}
+          {/* Right rail: history + guidance */}
           <div className="space-y-6">
-            <Card className="p-5">
-              <div className="mb-3 flex items-center gap-2 text-white/80">
-                <AlertCircle className="h-4 w-4" />
-                <span className="text-sm">利用ガイド</span>
-              </div>
-              <ul className="list-disc space-y-2 pl-5 text-sm text-white/70">
-                <li>文字起こしテキストファイル（.txt）をアップロードしてください。</li>
-                <li>過去の議事録ファイルを追加すると、AIが文体を学習します。</li>
-                <li>「AIで議事録を作成」を押すと要約と本文が生成されます。</li>
-                <li>生成後は テキスト(.txt) または HTML で保存できます。</li>
-              </ul>
-            </Card>
+            <HistorySidebar
+              meetings={history.meetings}
+              activeId={meetingId}
+              query={history.query}
+              onQueryChange={history.setQuery}
+              onOpen={openMeeting}
+              onDelete={deleteMeeting}
+            />
+            <UsageGuide />
           </div>
         </div>
       </div>
     </div>
   );
 }
-
-// ---------------------------
-// Helpers
-// ---------------------------
-function downloadFile(blob: Blob, filename: string) {
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement("a");
-  a.href = url; a.download = filename; a.click();
-  setTimeout(() => URL.revokeObjectURL(url), 1000);
-}
-
-function escapeHtml(str: string) {
-  return str
-    .replaceAll("&", "&amp;")
-    .replaceAll("<", "&lt;")
-    .replaceAll(">", "&gt;")
-    .replaceAll('"', "&quot;")
-    .replaceAll("'", "&#39;");
-}
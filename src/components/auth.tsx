@@ -0,0 +1,129 @@
+"use client";
+
+import React, { useState } from "react";
+import { AlertCircle, LogIn, LogOut, Users } from "lucide-react";
+import type { AuthContext, AuthMode } from "@/lib/auth/types";
+import { ROLE_LABELS } from "@/lib/auth/labels";
+import { Card, Pill } from "@/components/ui";
+
+// ---------------------------
+// Sign-in (AUTH_MODE が local / oidc のとき)
+// ---------------------------
+/** GET /api/auth/session の応答 */
+export type AuthSession = Pick<AuthContext, "mode" | "user" | "workspace" | "role" | "memberships">;
+
+export function LoginScreen({ mode, error, onLoggedIn }: { mode: AuthMode; error: string; onLoggedIn: () => void }) {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [message, setMessage] = useState(error);
+  const [submitting, setSubmitting] = useState(false);
+
+  async function login(e: React.FormEvent) {
+    e.preventDefault();
+    setSubmitting(true);
+    try {
+      const res = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ username, password }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+      onLoggedIn();
+    } catch (e) {
+      setMessage(e instanceof Error ? e.message : String(e));
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  const inputClass = "w-full rounded-md bg-white/5 px-3 py-2 text-sm text-white/90 ring-1 ring-white/10 focus:outline-none focus:ring-cyan-400/50";
+  return (
+    <Card className="mx-auto mt-12 max-w-sm p-6">
+      <div className="mb-4 flex items-center gap-2 text-white/90">
+        <LogIn className="h-4 w-4" /> ログイン
+      </div>
+      {mode === "oidc" ? (
+        <a
+          href="/api/auth/oidc"
+          className="inline-flex w-full items-center justify-center gap-2 rounded-xl bg-gradient-to-br from-cyan-500 to-indigo-600 px-4 py-2 text-sm text-white hover:brightness-110"
+        >
+          <LogIn className="h-4 w-4" /> 組織のアカウントでログイン
+        </a>
+      ) : (
+        <form onSubmit={login} className="space-y-3">
+          <input value={username} onChange={(e) => setUsername(e.target.value)} placeholder="ログイン名" autoComplete="username" className={inputClass} />
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="パスワード"
+            autoComplete="current-password"
+            className={inputClass}
+          />
+          <button
+            type="submit"
+            disabled={submitting || !username || !password}
+            className="w-full rounded-xl bg-gradient-to-br from-cyan-500 to-indigo-600 px-4 py-2 text-sm text-white hover:brightness-110 disabled:opacity-50"
+          >
+            {submitting ? "ログイン中…" : "ログイン"}
+          </button>
+        </form>
+      )}
+      {message && (
+        <p className="mt-3 flex items-start gap-1.5 text-xs text-amber-300">
+          <AlertCircle className="mt-0.5 h-3.5 w-3.5 shrink-0" /> {message}
+        </p>
+      )}
+    </Card>
+  );
+}
+
+/** ログイン中の利用者・ワークスペースの切り替え・ログアウト（認証なしのときは出さない） */
+export function AccountBar({ session }: { session: AuthSession }) {
+  async function switchWorkspace(workspaceId: string) {
+    try {
+      const res = await fetch("/api/auth/workspace", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ workspaceId }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+      // 履歴・文体プロファイルをすべて読み直す
+      location.reload();
+    } catch (e) {
+      alert(`ワークスペースを切り替えられませんでした: ${e instanceof Error ? e.message : e}`);
+    }
+  }
+
+  async function logout() {
+    await fetch("/api/auth/logout", { method: "POST" }).catch((e) => console.error("ログアウトエラー:", e));
+    location.reload();
+  }
+
+  if (session.mode === "none") return null;
+  return (
+    <div className="mt-4 flex flex-wrap items-center justify-end gap-2 text-xs text-white/70">
+      <span className="inline-flex items-center gap-1"><Users className="h-3.5 w-3.5" /> {session.user.name}</span>
+      {session.memberships.length > 1 ? (
+        <select
+          value={session.workspace.id}
+          onChange={(e) => switchWorkspace(e.target.value)}
+          aria-label="ワークスペース"
+          className="rounded-md bg-white/5 px-2 py-1 text-xs text-white/90 ring-1 ring-white/10"
+        >
+          {session.memberships.map((m) => (
+            <option key={m.id} value={m.id}>{m.name}</option>
+          ))}
+        </select>
+      ) : (
+        <span>{session.workspace.name}</span>
+      )}
+      <Pill tone={session.role === "viewer" ? "warn" : "info"}>{ROLE_LABELS[session.role]}</Pill>
+      <button onClick={logout} className="inline-flex items-center gap-1 text-white/50 hover:text-white/80">
+        <LogOut className="h-3.5 w-3.5" /> ログアウト
+      </button>
+    </div>
+  );
+}
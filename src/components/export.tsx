@@ -0,0 +1,274 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { CalendarPlus, FileText, ListChecks, Loader2, Send } from "lucide-react";
+import type { ActionItem, MinutesContent, MinutesDocument } from "@/lib/minutes/schema";
+import { splitMarkdownSections } from "@/lib/minutes/markdown";
+import { EXPORT_LABELS, LANGUAGE_LABELS, type MinutesLanguage, type MinutesTranslation } from "@/lib/minutes/language";
+import { TRACKER_FORMATS, TRACKER_LABELS, type TrackerFormat } from "@/lib/export/tracker";
+import { Button } from "@/components/ui";
+import { LIST_SECTIONS } from "@/components/minutes-editor";
+
+// ---------------------------
+// Export（Word / HTML / TXT・宿題事項・Webhook）
+// ---------------------------
+export function ExportButtons({
+  doc,
+  language,
+  translation,
+  docxTemplate,
+  disabled,
+}: {
+  doc: MinutesDocument;
+  language: MinutesLanguage;
+  translation: MinutesTranslation | null;
+  docxTemplate: File | null;
+  disabled: boolean;
+}) {
+  const [exportingDocx, setExportingDocx] = useState(false);
+  const [exportingActions, setExportingActions] = useState(false);
+  // Webhook の投稿先（サーバーの WEBHOOK_URL）が設定されていれば送信ボタンを出す
+  const [webhookFormat, setWebhookFormat] = useState<"slack" | "teams" | null>(null);
+  const [sendingWebhook, setSendingWebhook] = useState(false);
+  const { meeting, ...current } = doc;
+
+  useEffect(() => {
+    fetch("/api/export/webhook")
+      .then((res) => (res.ok ? res.json() : Promise.reject(new Error(`HTTP ${res.status}`))))
+      .then((data) => setWebhookFormat(data.configured ? data.format : null))
+      .catch((e) => console.error("Webhook 設定の読み込みエラー:", e));
+  }, []);
+
+  function exportText() {
+    const header = [meeting.title, meeting.date].filter(Boolean).join("　");
+    const body = translation
+      ? pairBlocks(exportBlocks(current, language, true), exportBlocks(translation.content, translation.language, true))
+          .map(([a, b]) => `${[a?.label, b?.label].filter(Boolean).join(" / ")}\n${a?.text ?? ""}\n\n${b?.text ?? ""}\n\n`)
+          .join("")
+      : exportBlocks(current, language, false)
+          .map((b) => `${b.label}\n${b.text}\n\n`)
+          .join("");
+    const content = `${header ? `${header}\n\n` : ""}${body}`;
+    downloadFile(
+      new Blob([content], { type: "text/plain;charset=utf-8" }), 
+      `minutes_${Date.now()}.txt`
+    );
+  }
+
+  // Word はサーバーで生成する（テンプレート指定時はそこに差し込む）
+  async function exportDocx() {
+    setExportingDocx(true);
+    try {
+      const formData = new FormData();
+      formData.append("document", JSON.stringify(doc));
+      if (docxTemplate) formData.append("template", docxTemplate);
+
+      const res = await fetch("/api/export/docx", { method: "POST", body: formData });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || `HTTP ${res.status}`);
+      }
+      downloadFile(await res.blob(), `minutes_${Date.now()}.docx`);
+    } catch (e) {
+      console.error("Word 出力エラー:", e);
+      alert(`Word の出力に失敗しました: ${e instanceof Error ? e.message : e}`);
+    } finally {
+      setExportingDocx(false);
+    }
+  }
+
+  // 宿題事項を予定表（.ics）・CSV・課題管理ツールの JSON にする
+  async function exportActions(format: "ics" | "csv" | TrackerFormat) {
+    setExportingActions(true);
+    try {
+      const formData = new FormData();
+      formData.append("document", JSON.stringify(doc));
+      formData.append("format", format);
+
+      const res = await fetch("/api/export/actions", { method: "POST", body: formData });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || `HTTP ${res.status}`);
+      }
+      const extension = format === "ics" ? "ics" : format === "csv" ? "csv" : `${format}.json`;
+      downloadFile(await res.blob(), `actions_${Date.now()}.${extension}`);
+      const skipped = Number(res.headers.get("x-skipped-items") ?? 0);
+      if (skipped > 0) alert(`期限を日付として読めなかった宿題事項 ${skipped} 件は予定表に含めていません。`);
+    } catch (e) {
+      console.error("宿題事項の書き出しエラー:", e);
+      alert(`宿題事項の書き出しに失敗しました: ${e instanceof Error ? e.message : e}`);
+    } finally {
+      setExportingActions(false);
+    }
+  }
+
+  async function sendToWebhook() {
+    setSendingWebhook(true);
+    try {
+      const res = await fetch("/api/export/webhook", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ document: doc }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+      alert(`${data.format === "teams" ? "Teams" : "Slack"} に送信しました。`);
+    } catch (e) {
+      console.error("Webhook 送信エラー:", e);
+      alert(`送信に失敗しました: ${e instanceof Error ? e.message : e}`);
+    } finally {
+      setSendingWebhook(false);
+    }
+  }
+
+  function exportHTML() {
+    const labels = EXPORT_LABELS[language];
+    const cell = (block: ExportBlock | undefined) =>
+      `<td style="vertical-align:top;padding:8px 12px;border-top:1px solid #ddd">${block ? `<h3>${escapeHtml(block.label)}</h3>${block.html}` : ""}</td>`;
+    // 日英併記は左右2列にし、同じ項目（本文は同じ位置の見出し）を横に並べる
+    const body = translation
+      ? `<table style="width:100%;border-collapse:collapse;table-layout:fixed">` +
+        `<tr><th style="text-align:left;padding:8px 12px">${LANGUAGE_LABELS[language]}</th><th style="text-align:left;padding:8px 12px">${LANGUAGE_LABELS[translation.language]}</th></tr>` +
+        pairBlocks(exportBlocks(current, language, true), exportBlocks(translation.content, translation.language, true))
+          .map(([a, b]) => `<tr>${cell(a)}${cell(b)}</tr>`)
+          .join("") +
+        `</table>`
+      : exportBlocks(current, language, false)
+          .map((b) => `<h3>${escapeHtml(b.label)}</h3>${b.html}`)
+          .join("");
+    const title = meeting.title || (language === "en" ? "Minutes (AI-generated)" : "議事録（AI生成）");
+    const html = `<!doctype html><html lang="${language}"><meta charset="utf-8"><title>Minutes Studio — ${escapeHtml(labels.title)}</title><body style="font-family:-apple-system,BlinkMacSystemFont,Segoe UI,Roboto,Helvetica,Arial,\"Noto Sans JP\",\"Hiragino Kaku Gothic ProN\",Meiryo,sans-serif;line-height:1.7;padding:40px;max-width:${translation ? 1200 : 900}px;margin:auto">`+
+      `<h1>${escapeHtml(title)}</h1>`+
+      (meeting.date ? `<p>${escapeHtml(labels.date)}: ${escapeHtml(meeting.date)}</p>` : "")+
+      body+
+      `</body></html>`;
+    downloadFile(new Blob([html], { type: "text/html;charset=utf-8" }), `minutes_${Date.now()}.html`);
+  }
+
+  return (
+    <>
+      <Button icon={FileText} variant="ghost" onClick={exportDocx} disabled={disabled || exportingDocx}>
+        {exportingDocx ? "Word 作成中…" : "Wordとして保存"}
+      </Button>
+      <Button icon={FileText} variant="ghost" onClick={exportHTML} disabled={disabled}>
+        HTMLとして保存
+      </Button>
+      <Button icon={FileText} variant="ghost" onClick={exportText} disabled={disabled}>
+        TXTとして保存
+      </Button>
+      <Button
+        icon={CalendarPlus}
+        variant="ghost"
+        onClick={() => exportActions("ics")}
+        disabled={disabled || exportingActions}
+      >
+        予定表(.ics)
+      </Button>
+      <Button
+        icon={ListChecks}
+        variant="ghost"
+        onClick={() => exportActions("csv")}
+        disabled={disabled || exportingActions || doc.actionItems.length === 0}
+      >
+        宿題CSV
+      </Button>
+      <select
+        value=""
+        onChange={(e) => exportActions(e.target.value as TrackerFormat)}
+        disabled={disabled || exportingActions || doc.actionItems.length === 0}
+        aria-label="課題管理ツールに書き出し"
+        className="rounded-md bg-white/5 px-2 py-1.5 text-sm text-white/90 ring-1 ring-white/10 focus:outline-none focus:ring-cyan-400/50 disabled:opacity-50"
+      >
+        <option value="" disabled>課題管理に書き出し…</option>
+        {TRACKER_FORMATS.map((format) => (
+          <option key={format} value={format}>{TRACKER_LABELS[format]}(.json)</option>
+        ))}
+      </select>
+      {webhookFormat && (
+        <Button
+          icon={sendingWebhook ? Loader2 : Send}
+          variant="ghost"
+          onClick={sendToWebhook}
+          disabled={disabled || sendingWebhook || (!doc.summary && !doc.minutes)}
+        >
+          {sendingWebhook ? "送信中…" : `${webhookFormat === "teams" ? "Teams" : "Slack"} に送信`}
+        </Button>
+      )}
+    </>
+  );
+}
+
+// ---------------------------
+// Helpers
+// ---------------------------
+function downloadFile(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url; a.download = filename; a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+function nonEmpty(items: string[]) {
+  return items.map((v) => v.trim()).filter(Boolean);
+}
+
+// TXT / HTML に書き出す1項目。日英併記では同じ key の項目を並べる
+type ExportBlock = { key: string; label: string; text: string; html: string };
+
+// splitMinutes: 本文を見出しごとの項目に分ける（併記で見出しの位置をそろえるため）
+function exportBlocks(content: MinutesContent, language: MinutesLanguage, splitMinutes: boolean): ExportBlock[] {
+  const labels = EXPORT_LABELS[language];
+  const empty = language === "en" ? "(not created)" : "（未作成）";
+  const blocks: ExportBlock[] = [
+    { key: "summary", label: labels.summary, text: content.summary, html: `<p>${escapeHtml(content.summary || empty)}</p>` },
+  ];
+  for (const { key } of LIST_SECTIONS) {
+    const items = nonEmpty(content[key]);
+    if (items.length === 0) continue;
+    blocks.push({
+      key,
+      label: labels[key],
+      text: items.map((v) => `・${v}`).join("\n"),
+      html: `<ul>${items.map((v) => `<li>${escapeHtml(v)}</li>`).join("")}</ul>`,
+    });
+  }
+  const actions = content.actionItems.filter((a) => a.task.trim());
+  if (actions.length) {
+    const owner = (a: ActionItem) => a.owner || labels.undecided;
+    const due = (a: ActionItem) => a.dueDate || labels.undecided;
+    blocks.push({
+      key: "actionItems",
+      label: labels.actionItems,
+      text: actions.map((a) => `・${a.task}（${labels.owner}: ${owner(a)} / ${labels.dueDate}: ${due(a)}）`).join("\n"),
+      html:
+        `<table border="1" cellpadding="6" style="border-collapse:collapse;width:100%"><tr><th>${labels.task}</th><th>${labels.owner}</th><th>${labels.dueDate}</th></tr>` +
+        actions.map((a) => `<tr><td>${escapeHtml(a.task)}</td><td>${escapeHtml(owner(a))}</td><td>${escapeHtml(due(a))}</td></tr>`).join("") +
+        `</table>`,
+    });
+  }
+  const pre = (text: string) => `<pre style="white-space:pre-wrap">${escapeHtml(text || empty)}</pre>`;
+  if (!splitMinutes || !content.minutes.trim()) {
+    blocks.push({ key: "minutes", label: labels.minutes, text: content.minutes, html: pre(content.minutes) });
+    return blocks;
+  }
+  splitMarkdownSections(content.minutes).forEach((section, i) => {
+    const label = section.heading ? `${labels.minutes}: ${section.heading}` : labels.minutes;
+    blocks.push({ key: `minutes-${i}`, label, text: section.body.trim(), html: pre(section.body.trim()) });
+  });
+  return blocks;
+}
+
+// 原文の順に並べ、訳文にしかない項目は最後に加える
+function pairBlocks(primary: ExportBlock[], translated: ExportBlock[]): [ExportBlock | undefined, ExportBlock | undefined][] {
+  const keys = [...new Set([...primary.map((b) => b.key), ...translated.map((b) => b.key)])];
+  return keys.map((key) => [primary.find((b) => b.key === key), translated.find((b) => b.key === key)]);
+}
+
+function escapeHtml(str: string) {
+  return str
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#39;");
+}
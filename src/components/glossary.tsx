@@ -0,0 +1,230 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { BookOpen, Plus, Trash2, Save } from "lucide-react";
+import type { GlossaryCorrection, GlossaryEntry } from "@/lib/glossary";
+import { Card, Pill } from "@/components/ui";
+
+// ---------------------------
+// Glossary（社内用語の登録・CSV 入出力）
+// ---------------------------
+const GLOSSARY_INPUT =
+  "min-w-0 rounded-md bg-white/5 px-2 py-1 text-xs text-white/90 ring-1 ring-white/10 focus:outline-none focus:ring-cyan-400/50";
+
+type GlossaryDraft = { term: string; yomi: string; variants: string; note: string };
+
+const EMPTY_GLOSSARY_DRAFT: GlossaryDraft = { term: "", yomi: "", variants: "", note: "" };
+
+function toGlossaryDraft(entry: GlossaryEntry): GlossaryDraft {
+  return { term: entry.term, yomi: entry.yomi, variants: entry.variants.join("|"), note: entry.note };
+}
+
+function GlossaryRow({
+  entry,
+  busy,
+  onSave,
+  onDelete,
+}: {
+  entry: GlossaryEntry;
+  busy: boolean;
+  onSave: (draft: GlossaryDraft) => void;
+  onDelete: () => void;
+}) {
+  const [draft, setDraft] = useState(() => toGlossaryDraft(entry));
+  useEffect(() => setDraft(toGlossaryDraft(entry)), [entry]);
+  const changed = JSON.stringify(draft) !== JSON.stringify(toGlossaryDraft(entry));
+  return (
+    <div className="grid grid-cols-[1fr_1fr_2fr_auto_auto] items-center gap-1">
+      <input value={draft.term} onChange={(e) => setDraft({ ...draft, term: e.target.value })} className={GLOSSARY_INPUT} />
+      <input value={draft.yomi} onChange={(e) => setDraft({ ...draft, yomi: e.target.value })} className={GLOSSARY_INPUT} />
+      <input value={draft.variants} onChange={(e) => setDraft({ ...draft, variants: e.target.value })} className={GLOSSARY_INPUT} />
+      <button
+        onClick={() => onSave(draft)}
+        disabled={busy || !changed || !draft.term.trim()}
+        title="保存"
+        className="rounded p-1 text-white/60 hover:bg-white/10 disabled:opacity-30"
+      >
+        <Save className="h-3.5 w-3.5" />
+      </button>
+      <button onClick={onDelete} disabled={busy} title="削除" className="rounded p-1 text-white/60 hover:bg-white/10 disabled:opacity-30">
+        <Trash2 className="h-3.5 w-3.5" />
+      </button>
+    </div>
+  );
+}
+
+/** 社内用語の用語集。書き起こしの誤変換の修正と、AI への表記の指示に使う */
+export function GlossaryPanel({ enabled, onToggle }: { enabled: boolean; onToggle: (enabled: boolean) => void }) {
+  const [entries, setEntries] = useState<GlossaryEntry[]>([]);
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [draft, setDraft] = useState<GlossaryDraft>(EMPTY_GLOSSARY_DRAFT);
+  const [importMode, setImportMode] = useState<"merge" | "replace">("merge");
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState("");
+
+  async function load() {
+    try {
+      const res = await fetch("/api/glossary");
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const data: { entries: GlossaryEntry[] } = await res.json();
+      setEntries(data.entries);
+    } catch (e) {
+      console.error("用語集の取得エラー:", e);
+    }
+  }
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  async function request(url: string, init: RequestInit): Promise<Record<string, unknown> | null> {
+    setBusy(true);
+    setMessage("");
+    try {
+      const res = await fetch(url, init);
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+      await load();
+      return data;
+    } catch (e) {
+      console.error("用語集の更新エラー:", e);
+      setMessage(e instanceof Error ? e.message : String(e));
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const jsonInit = (method: string, body: GlossaryDraft): RequestInit => ({
+    method,
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+  async function add() {
+    if (await request("/api/glossary", jsonInit("POST", draft))) setDraft(EMPTY_GLOSSARY_DRAFT);
+  }
+
+  async function importCsv(file: File) {
+    if (importMode === "replace" && !confirm("用語集を CSV の内容で置き換えます。CSV にない用語は削除されます。よろしいですか？")) return;
+    const formData = new FormData();
+    formData.append("file", file);
+    formData.append("mode", importMode);
+    const result = await request("/api/glossary/csv", { method: "POST", body: formData });
+    if (result) {
+      const skipped = (result.skipped as number[]) ?? [];
+      setMessage(
+        `追加 ${result.added} 件・更新 ${result.updated} 件` +
+          (importMode === "replace" ? `・削除 ${result.removed} 件` : "") +
+          (skipped.length ? `（用語が空の行 ${skipped.join(", ")} 行目は読み飛ばしました）` : "")
+      );
+    }
+  }
+
+  const filtered = query.trim()
+    ? entries.filter((e) => [e.term, e.yomi, ...e.variants].some((v) => v.includes(query.trim())))
+    : entries;
+
+  return (
+    <Card className="p-5">
+      <div className="flex flex-wrap items-center gap-2 text-sm text-white/70">
+        <BookOpen className="h-4 w-4" />
+        <span>用語集</span>
+        <Pill tone="info">{entries.length} 語</Pill>
+        <label className="ml-auto flex items-center gap-2 text-xs">
+          <input type="checkbox" checked={enabled} onChange={(e) => onToggle(e.target.checked)} />
+          <span>書き起こしの誤変換を直し、表記をそろえる</span>
+        </label>
+        <button onClick={() => setOpen(!open)} className="text-xs text-cyan-300 hover:underline">
+          {open ? "閉じる" : "編集"}
+        </button>
+      </div>
+      {open && (
+        <div className="mt-3 space-y-3">
+          <p className="text-xs text-white/50">
+            誤変換は「|」区切りで複数指定できます。生成前に書き起こしの誤変換を正しい表記に置き換え、AI にも表記を指示します。
+          </p>
+          <div className="grid grid-cols-[1fr_1fr_2fr_auto] items-center gap-1">
+            <input value={draft.term} onChange={(e) => setDraft({ ...draft, term: e.target.value })} placeholder="正しい表記" className={GLOSSARY_INPUT} />
+            <input value={draft.yomi} onChange={(e) => setDraft({ ...draft, yomi: e.target.value })} placeholder="読み" className={GLOSSARY_INPUT} />
+            <input
+              value={draft.variants}
+              onChange={(e) => setDraft({ ...draft, variants: e.target.value })}
+              placeholder="誤変換（例: 見積もり君|ミツモリくん）"
+              className={GLOSSARY_INPUT}
+            />
+            <button
+              onClick={add}
+              disabled={busy || !draft.term.trim()}
+              title="追加"
+              className="rounded p-1 text-white/60 hover:bg-white/10 disabled:opacity-30"
+            >
+              <Plus className="h-3.5 w-3.5" />
+            </button>
+          </div>
+          {entries.length > 0 && (
+            <input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="用語を検索" className={`${GLOSSARY_INPUT} w-full`} />
+          )}
+          <div className="max-h-72 space-y-1 overflow-y-auto">
+            {filtered.map((entry) => (
+              <GlossaryRow
+                key={entry.id}
+                entry={entry}
+                busy={busy}
+                onSave={(next) => request(`/api/glossary/${entry.id}`, jsonInit("PUT", { ...next, note: entry.note }))}
+                onDelete={() => request(`/api/glossary/${entry.id}`, { method: "DELETE" })}
+              />
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-2 text-xs text-white/70">
+            <a href="/api/glossary/csv" download className="rounded-md bg-white/5 px-2 py-1 ring-1 ring-white/10 hover:bg-white/10">
+              CSV を書き出す
+            </a>
+            <label className="cursor-pointer rounded-md bg-white/5 px-2 py-1 ring-1 ring-white/10 hover:bg-white/10">
+              CSV を読み込む
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = "";
+                  if (file) importCsv(file);
+                }}
+              />
+            </label>
+            <select
+              value={importMode}
+              onChange={(e) => setImportMode(e.target.value as "merge" | "replace")}
+              className="rounded-md bg-white/5 px-2 py-1 text-xs text-white/90 ring-1 ring-white/10"
+            >
+              <option value="merge">追加・上書き</option>
+              <option value="replace">すべて置き換え</option>
+            </select>
+          </div>
+        </div>
+      )}
+      {message && <p className="mt-2 text-xs text-amber-300">{message}</p>}
+    </Card>
+  );
+}
+
+export function GlossaryCorrectionsCard({ corrections }: { corrections: GlossaryCorrection[] }) {
+  return (
+    <Card className="p-5">
+      <div className="mb-3 flex items-center gap-2 text-sm text-white/70">
+        <BookOpen className="h-4 w-4" />
+        <span>用語集で直した表記</span>
+        <Pill tone="info">{corrections.reduce((sum, c) => sum + c.count, 0)} 箇所</Pill>
+      </div>
+      <ul className="grid grid-cols-1 gap-1 text-xs text-white/70 md:grid-cols-2">
+        {corrections.map((c) => (
+          <li key={c.variant}>
+            <span className="text-white/40 line-through">{c.variant}</span> → {c.term} <span className="text-white/40">×{c.count}</span>
+          </li>
+        ))}
+      </ul>
+    </Card>
+  );
+}
@@ -0,0 +1,95 @@
+"use client";
+
+import React, { useEffect, useRef } from "react";
+import { AlertCircle, CheckCircle2, Quote } from "lucide-react";
+import type { GroundedClaim } from "@/lib/minutes/grounding";
+import { formatTimestamp } from "@/lib/transcript/parse";
+import { Card, Pill } from "@/components/ui";
+
+// ---------------------------
+// Grounding（議事録の各行の根拠となる発言）
+// ---------------------------
+const GROUNDED_SECTION_LABELS = { minutes: "本文", decisions: "決定事項", actionItems: "宿題事項" } as const;
+
+// 書き起こし全文を表示し、選択中の行の根拠を強調する
+function TranscriptHighlighter({ transcript, claim }: { transcript: string; claim: GroundedClaim | null }) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const markRef = useRef<HTMLElement>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    const mark = markRef.current;
+    if (container && mark) container.scrollTop = mark.offsetTop - container.clientHeight / 3;
+  }, [claim]);
+
+  const spans = [...(claim?.sources ?? [])].sort((a, b) => a.start - b.start);
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  spans.forEach((span, i) => {
+    if (span.start < cursor) return;
+    parts.push(transcript.slice(cursor, span.start));
+    parts.push(
+      <mark key={i} ref={i === 0 ? markRef : undefined} className="rounded bg-cyan-400/30 text-white">
+        {transcript.slice(span.start, span.end)}
+      </mark>
+    );
+    cursor = span.end;
+  });
+  parts.push(transcript.slice(cursor));
+
+  return (
+    <div ref={containerRef} className="relative max-h-72 overflow-y-auto whitespace-pre-wrap rounded-lg bg-white/5 p-3 text-xs text-white/70 ring-1 ring-white/10">
+      {parts}
+    </div>
+  );
+}
+
+export function GroundingPanel({
+  claims,
+  transcript,
+  selected,
+  onSelect,
+}: {
+  claims: GroundedClaim[];
+  transcript: string;
+  selected: GroundedClaim | null;
+  onSelect: (claim: GroundedClaim) => void;
+}) {
+  const unsupported = claims.filter((c) => !c.supported).length;
+  return (
+    <Card className="p-5">
+      <div className="mb-3 flex flex-wrap items-center gap-2 text-sm text-white/70">
+        <Quote className="h-4 w-4" />
+        <span>根拠の確認</span>
+        {unsupported > 0 ? (
+          <Pill tone="warn"><AlertCircle className="h-3.5 w-3.5" /> 根拠が見つからない行が {unsupported} 件あります</Pill>
+        ) : (
+          <Pill tone="ok"><CheckCircle2 className="h-3.5 w-3.5" /> すべての行に根拠があります</Pill>
+        )}
+      </div>
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+        <ul className="max-h-72 space-y-1 overflow-y-auto pr-1 text-sm">
+          {claims.map((claim, i) => (
+            <li key={i}>
+              <button
+                onClick={() => onSelect(claim)}
+                className={`w-full rounded-md px-2 py-1 text-left ring-1 transition ${claim === selected ? "bg-white/10 ring-cyan-400/40" : "ring-transparent hover:bg-white/5"}`}
+              >
+                <span className="mr-1 text-[10px] text-white/40">{GROUNDED_SECTION_LABELS[claim.section]}</span>
+                <span className={claim.supported ? "text-white/90" : "text-amber-200"}>{claim.text}</span>
+                {claim.supported ? (
+                  claim.sources[0].time !== undefined && (
+                    <span className="ml-1 text-[10px] text-cyan-300">[{formatTimestamp(claim.sources[0].time)}]</span>
+                  )
+                ) : (
+                  <span className="ml-1 text-[10px] text-amber-300">根拠なし</span>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+        <TranscriptHighlighter transcript={transcript} claim={selected} />
+      </div>
+    </Card>
+  );
+}
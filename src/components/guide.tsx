@@ -0,0 +1,37 @@
+"use client";
+
+import { AlertCircle } from "lucide-react";
+import { Card } from "@/components/ui";
+
+// ---------------------------
+// Usage guide（右側の利用ガイド）
+// ---------------------------
+export function UsageGuide() {
+  return (
+    <Card className="p-5">
+      <div className="mb-3 flex items-center gap-2 text-white/80">
+        <AlertCircle className="h-4 w-4" />
+        <span className="text-sm">利用ガイド</span>
+      </div>
+      <ul className="list-disc space-y-2 pl-5 text-sm text-white/70">
+        <li>文字起こしテキストファイル（.txt）または会議の録音（.mp3 / .m4a / .wav / .webm）をアップロードしてください。</li>
+        <li>過去の議事録ファイルを追加すると、AIが文体を学習します。Word・PDF・RTF・HTML・メール（.eml / .msg）に対応し、見出しや箇条書きの構成も参考にします。読み込めなかったファイルは進捗欄に表示されます。</li>
+        <li>「AIで議事録を作成」を押すと要約と本文が生成されます。ボタンの下に、書き起こしの長さから見積もったトークン数と費用が表示されます（料金表は LLM_PRICES で設定できます）。</li>
+        <li>生成後は要約・本文をその場で編集でき、決定事項や本文の見出しごとに指示をつけて作り直せます。</li>
+        <li>「AI 下書きとの差分」で、生成直後からどこを直したかを確認できます。</li>
+        <li>個人情報を伏せ字にして送信すると、生成後に手元で元の語へ戻します。伏せた内容は結果の一覧で確認できます。</li>
+        <li>用語集に社内用語と誤変換を登録すると、生成前に書き起こしの表記を直します。CSV で一括登録・書き出しができます。</li>
+        <li>長い会議はバックグラウンドで生成すると、画面を閉じても処理が続きます。途中で失敗した場合は完了した部分から再試行できます。</li>
+        <li>AI の出力は形式・見出し・担当者・途中切れを確認し、問題があれば自動で修正を依頼します。直らなかった問題は「出力の検証」に表示されます。</li>
+        <li>「根拠の確認」で各行の根拠となる発言を確認できます。根拠が見つからない行は黄色で表示されます。</li>
+        <li>生成後は Word(.docx)・テキスト(.txt)・HTML で保存できます。</li>
+        <li>宿題事項の期限と次回の会議は予定表(.ics)に、宿題事項は CSV や Backlog・Jira・GitHub の課題作成用 JSON に書き出せます。サーバーに WEBHOOK_URL を設定すると Slack / Teams に議事録を送信できます。</li>
+        <li>議事録の言語は日本語・英語・日英併記から選べます。作成後の議事録も「英語に翻訳」などで訳せ、訳があると TXT・HTML は左右（TXT は上下）に併記して保存します。</li>
+        <li>生成した議事録は履歴に自動保存され、検索して開き直せます。</li>
+        <li>定例会議は「前回の会議」を選ぶと、前回までの未完了の宿題事項・未決事項を持ち越し、今回の状況（完了・対応中・言及なし）を判定します。シリーズ全体の経過も表で確認できます。</li>
+        <li>ログインが有効な場合、履歴と文体プロファイルはワークスペースごとに分かれます。閲覧者は閲覧と書き出しのみ、編集者は生成と編集、管理者は削除と用語集の管理ができます。</li>
+        <li>Word テンプレートには {"{title}"} {"{date}"} {"{summary}"} {"{minutes}"} {"{#actionItems}…{/actionItems}"} などのタグを書いておくと差し込まれます。</li>
+      </ul>
+    </Card>
+  );
+}
@@ -0,0 +1,30 @@
+"use client";
+
+import { Notebook, Mic, CheckCircle2 } from "lucide-react";
+import { Pill } from "@/components/ui";
+
+// ---------------------------
+// Header (brand switched to minutes)
+// ---------------------------
+export function Header() {
+  return (
+    <div className="flex items-center justify-between">
+      <div className="flex items-center gap-3">
+        <div className="relative">
+          <div className="absolute -inset-2 rounded-2xl bg-gradient-to-br from-cyan-500/30 to-indigo-500/30 blur-xl" />
+          <div className="relative grid h-12 w-12 place-items-center rounded-2xl bg-black/40 ring-1 ring-white/10">
+            <Notebook className="h-6 w-6 text-white/90" />
+          </div>
+        </div>
+        <div>
+          <h1 className="text-xl font-semibold tracking-tight text-white">Minutes Studio</h1>
+          <p className="text-xs text-white/60">AI議事録生成ツール</p>
+        </div>
+      </div>
+      <div className="hidden md:flex items-center gap-2 text-xs text-white/60">
+        <Pill tone="info"><Mic className="h-3.5 w-3.5" /> 音声から自動要約</Pill>
+        <Pill tone="ok"><CheckCircle2 className="h-3.5 w-3.5" /> Word / TXT / HTML</Pill>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Trash2, History, Search } from "lucide-react";
+import type { MeetingSummary } from "@/lib/storage/types";
+import { Card } from "@/components/ui";
+
+// ---------------------------
+// History sidebar (保存済みの会議)
+// ---------------------------
+export function HistorySidebar({
+  meetings,
+  activeId,
+  query,
+  onQueryChange,
+  onOpen,
+  onDelete,
+}: {
+  meetings: MeetingSummary[];
+  activeId: string | null;
+  query: string;
+  onQueryChange: (query: string) => void;
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+}) {
+  return (
+    <Card className="p-5">
+      <div className="mb-3 flex items-center gap-2 text-white/80">
+        <History className="h-4 w-4" />
+        <span className="text-sm">履歴</span>
+      </div>
+      <div className="relative mb-3">
+        <Search className="pointer-events-none absolute left-2 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-white/40" />
+        <input
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+          placeholder="議事録を検索"
+          className="w-full rounded-md bg-white/5 py-1.5 pl-7 pr-2 text-sm text-white/90 ring-1 ring-white/10 focus:outline-none focus:ring-cyan-400/50"
+        />
+      </div>
+      {meetings.length === 0 ? (
+        <p className="text-xs text-white/50">{query ? "該当する議事録はありません" : "まだ保存された議事録はありません"}</p>
+      ) : (
+        <ul className="max-h-[420px] space-y-2 overflow-y-auto pr-1">
+          {meetings.map((m) => (
+            <li
+              key={m.id}
+              className={`group rounded-lg p-2 ring-1 transition ${m.id === activeId ? "bg-white/10 ring-cyan-400/40" : "bg-white/5 ring-white/10 hover:bg-white/10"}`}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <button onClick={() => onOpen(m.id)} className="min-w-0 flex-1 text-left">
+                  <p className="truncate text-sm text-white/90">{m.meeting.title || "（無題の会議）"}</p>
+                  <p className="text-[10px] text-white/50">{m.meeting.date || m.createdAt.slice(0, 10)}</p>
+                  {m.snippet && <p className="mt-1 line-clamp-2 text-xs text-white/60">{m.snippet}</p>}
+                </button>
+                <button
+                  onClick={() => onDelete(m.id)}
+                  className="shrink-0 text-white/30 opacity-0 transition hover:text-white/80 group-hover:opacity-100"
+                  aria-label="削除"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+}
+
+/** 履歴の一覧と検索語。検索語の入力中は少し待ってから問い合わせる */
+export function useMeetingHistory() {
+  const [meetings, setMeetings] = useState<MeetingSummary[]>([]);
+  const [query, setQuery] = useState("");
+
+  async function reload(q = query) {
+    try {
+      const res = await fetch(`/api/meetings?q=${encodeURIComponent(q)}`);
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const data = await res.json();
+      setMeetings(data.meetings ?? []);
+    } catch (e) {
+      console.error("履歴の読み込みエラー:", e);
+    }
+  }
+
+  useEffect(() => {
+    const timer = setTimeout(() => reload(query), 300);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [query]);
+
+  return { meetings, query, setQuery, reload };
+}
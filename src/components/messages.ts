@@ -0,0 +1,46 @@
+import type { IngestWarning } from "@/lib/ingest";
+import type { MinutesStreamEvent } from "@/lib/minutes/stream";
+import { LANGUAGE_LABELS } from "@/lib/minutes/language";
+import { ISSUE_HINTS, ISSUE_LABELS, type MinutesIssueCode } from "@/lib/minutes/validate";
+
+// ---------------------------
+// Progress messages（進捗・エラーの表示文言）
+// ---------------------------
+// 読めなかった過去の議事録ファイルを1行にまとめる
+export function describeIngestWarnings(warnings: IngestWarning[]): string {
+  return `注意: ${warnings.map((w) => `${w.file}（${w.message}）`).join("、")}`;
+}
+
+// 生成の失敗を、問題の種類がわかる場合は対処とあわせて表示する
+export function describeError(error: string, code?: MinutesIssueCode | null): string {
+  return code ? `エラー（${ISSUE_LABELS[code]}）: ${error}。${ISSUE_HINTS[code]}` : `エラー: ${error}`;
+}
+
+// 進捗イベントを画面表示用の文言にする（partial / result は別途反映するので対象外）
+export function describeEvent(event: MinutesStreamEvent): string | null {
+  switch (event.type) {
+    case "style_parsed": {
+      if (!event.files) return "過去の議事録の指定はありません";
+      const loaded = `過去の議事録 ${event.files} 件を読み込みました（${event.chars}文字）`;
+      return event.warnings?.length ? `${loaded}。${describeIngestWarnings(event.warnings)}` : loaded;
+    }
+    case "guidelines_built":
+      if (event.reused) return `文体プロファイル「${event.profile}」のガイドラインを使用します`;
+      if (!event.chars) return "文体ガイドラインなしで生成します";
+      return event.profile ? `文体ガイドラインを作成し、プロファイル「${event.profile}」を更新しました` : "文体ガイドラインを作成しました";
+    case "chunk":
+      return `長文のため分割して要約中… ${event.index + 1} / ${event.total}`;
+    case "merging":
+      return `${event.total} 件の部分議事録を統合中…`;
+    case "carry_over":
+      return `前回からの持ち越し事項 ${event.items} 件の状況を確認中…`;
+    case "translating":
+      return `日英併記のため${LANGUAGE_LABELS[event.language]}に翻訳中…`;
+    case "repairing":
+      return `出力に問題があったため修正を依頼しています（${event.attempt}回目）: ${event.issues.map((i) => ISSUE_LABELS[i.code]).join("、")}`;
+    case "error":
+      return describeError(event.error, event.code);
+    default:
+      return null;
+  }
+}
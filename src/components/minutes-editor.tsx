@@ -0,0 +1,331 @@
+"use client";
+
+import { useState } from "react";
+import { AlertCircle, CheckCircle2, FileText, GitCompare, ListChecks, Loader2, Plus, RefreshCw, Trash2 } from "lucide-react";
+import type { ActionItem, MinutesContent } from "@/lib/minutes/schema";
+import { diffLines, hasChanges } from "@/lib/minutes/diff";
+import { findClaim, type GroundedClaim } from "@/lib/minutes/grounding";
+import { Card, Button } from "@/components/ui";
+
+export type MinutesSections = Omit<MinutesContent, "summary" | "minutes">;
+
+export const EMPTY_SECTIONS: MinutesSections = { attendees: [], agenda: [], decisions: [], actionItems: [], openQuestions: [] };
+
+export const LIST_SECTIONS = [
+  { key: "attendees", label: "出席者" },
+  { key: "agenda", label: "議題" },
+  { key: "decisions", label: "決定事項" },
+  { key: "openQuestions", label: "未決事項" },
+] as const;
+
+export type MinutesView = "edit" | "preview" | "diff";
+
+// ---------------------------
+// Structured sections (編集可能)
+// ---------------------------
+export function ListEditor({ label, items, onChange }: { label: string; items: string[]; onChange: (items: string[]) => void }) {
+  return (
+    <Card className="p-5">
+      <div className="mb-2 flex items-center gap-2 text-sm text-white/70">
+        <ListChecks className="h-4 w-4" />
+        <span>{label}</span>
+        <span className="text-xs text-white/40">（1行に1項目）</span>
+      </div>
+      <textarea
+        value={items.join("\n")}
+        onChange={(e) => onChange(e.target.value.split("\n"))}
+        rows={Math.max(3, items.length + 1)}
+        className="w-full resize-y rounded-lg bg-white/5 p-3 text-sm text-white/90 ring-1 ring-white/10 focus:outline-none focus:ring-cyan-400/50"
+      />
+    </Card>
+  );
+}
+
+export function ActionItemsEditor({ items, onChange }: { items: ActionItem[]; onChange: (items: ActionItem[]) => void }) {
+  const inputClass = "w-full rounded-md bg-white/5 px-2 py-1 text-sm text-white/90 ring-1 ring-white/10 focus:outline-none focus:ring-cyan-400/50";
+
+  function update(index: number, patch: Partial<ActionItem>) {
+    onChange(items.map((item, i) => (i === index ? { ...item, ...patch } : item)));
+  }
+
+  return (
+    <Card className="p-5">
+      <div className="mb-3 flex items-center justify-between">
+        <div className="flex items-center gap-2 text-sm text-white/70">
+          <ListChecks className="h-4 w-4" />
+          <span>宿題事項</span>
+        </div>
+        <Button icon={Plus} variant="ghost" onClick={() => onChange([...items, { task: "", owner: "", dueDate: "", sourceQuote: "" }])}>
+          追加
+        </Button>
+      </div>
+      {items.length === 0 ? (
+        <p className="text-sm text-white/50">（なし）</p>
+      ) : (
+        <div className="space-y-3">
+          {items.map((item, i) => (
+            <div key={i} className="grid grid-cols-1 gap-2 rounded-lg bg-white/5 p-3 ring-1 ring-white/10 md:grid-cols-[2fr_1fr_1fr_auto]">
+              <input className={inputClass} placeholder="内容" value={item.task} onChange={(e) => update(i, { task: e.target.value })} />
+              <input className={inputClass} placeholder="担当者" value={item.owner} onChange={(e) => update(i, { owner: e.target.value })} />
+              <input className={inputClass} type="date" value={item.dueDate} onChange={(e) => update(i, { dueDate: e.target.value })} />
+              <button
+                onClick={() => onChange(items.filter((_, j) => j !== i))}
+                className="grid place-items-center rounded-md px-2 text-white/50 hover:text-white/90"
+                aria-label="削除"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+              {item.sourceQuote && (
+                <p className="text-xs text-white/50 md:col-span-4">根拠：「{item.sourceQuote}」</p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
+
+// ---------------------------
+// Markdown editor / regenerate / diff
+// ---------------------------
+const FIELD_OPTIONS = [
+  { field: "summary", label: "要約" },
+  { field: "minutes", label: "議事録本文（全体）" },
+  { field: "attendees", label: "出席者" },
+  { field: "agenda", label: "議題" },
+  { field: "decisions", label: "決定事項" },
+  { field: "actionItems", label: "宿題事項" },
+  { field: "openQuestions", label: "未決事項" },
+] as const;
+
+export type RegenerateTarget = { field: keyof MinutesContent } | { heading: string };
+
+// 見出し・箇条書き程度の Markdown を表示する。箇条書きをクリックすると根拠を表示する
+export function MarkdownPreview({
+  markdown,
+  claims = [],
+  onSelectClaim,
+}: {
+  markdown: string;
+  claims?: GroundedClaim[];
+  onSelectClaim?: (claim: GroundedClaim) => void;
+}) {
+  const lines = markdown.split(/\r?\n/).filter((line) => line.trim());
+  if (lines.length === 0) return <p className="text-sm text-white/50">（本文なし）</p>;
+  return (
+    <div className="space-y-1.5 text-sm text-white/90">
+      {lines.map((line, i) => {
+        const heading = /^(#{1,3})\s+(.*)$/.exec(line.trim());
+        if (heading) {
+          const size = ["text-lg", "text-base", "text-sm"][heading[1].length - 1];
+          return <p key={i} className={`${size} pt-2 font-semibold text-white`}>{heading[2]}</p>;
+        }
+        const bullet = /^(\s*)[-・*]\s+(.*)$/.exec(line);
+        if (bullet) {
+          const claim = findClaim(claims, bullet[2]);
+          return (
+            <p
+              key={i}
+              style={{ paddingLeft: `${Math.min(Math.floor(bullet[1].length / 2), 3) + 1}rem` }}
+              onClick={claim && onSelectClaim ? () => onSelectClaim(claim) : undefined}
+              className={`-indent-3 ${claim ? "cursor-pointer rounded hover:bg-white/5" : ""} ${claim && !claim.supported ? "text-amber-200" : ""}`}
+              title={claim ? (claim.supported ? "クリックで根拠を表示" : "根拠となる発言が見つかりません") : undefined}
+            >
+              ・{bullet[2]}
+              {claim && !claim.supported && <AlertCircle className="ml-1 inline h-3.5 w-3.5 text-amber-300" />}
+            </p>
+          );
+        }
+        return <p key={i}>{line.trim()}</p>;
+      })}
+    </div>
+  );
+}
+
+function DiffView({ before, after }: { before: string; after: string }) {
+  const lines = diffLines(before, after);
+  if (!hasChanges(lines)) return <p className="text-xs text-white/50">変更はありません</p>;
+  const styles = {
+    same: "text-white/50",
+    added: "bg-emerald-500/15 text-emerald-200",
+    removed: "bg-rose-500/15 text-rose-200 line-through",
+  };
+  return (
+    <div className="overflow-x-auto rounded-lg bg-white/5 p-3 font-mono text-xs ring-1 ring-white/10">
+      {lines.map((line, i) => (
+        <div key={i} className={`whitespace-pre-wrap ${styles[line.type]}`}>
+          {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}
+          {line.text}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// 比較用に各フィールドを行の並びにする
+function contentLines(content: MinutesContent, field: keyof MinutesContent): string {
+  if (field === "actionItems") {
+    return content.actionItems.map((a) => `${a.task}（担当: ${a.owner || "未定"} / 期限: ${a.dueDate || "未定"}）`).join("\n");
+  }
+  const value = content[field];
+  return Array.isArray(value) ? value.join("\n") : value;
+}
+
+export function DraftDiffPanel({ draft, current }: { draft: MinutesContent; current: MinutesContent }) {
+  const changed = FIELD_OPTIONS.filter(({ field }) => contentLines(draft, field) !== contentLines(current, field));
+  return (
+    <Card className="p-5">
+      <div className="mb-3 flex items-center gap-2 text-sm text-white/70">
+        <GitCompare className="h-4 w-4" />
+        <span>AI の下書きからの変更</span>
+      </div>
+      {changed.length === 0 ? (
+        <p className="text-xs text-white/50">AI の下書きから変更はありません</p>
+      ) : (
+        <div className="space-y-4">
+          {changed.map(({ field, label }) => (
+            <div key={field}>
+              <p className="mb-1 text-xs text-white/70">{label}</p>
+              <DiffView before={contentLines(draft, field)} after={contentLines(current, field)} />
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
+
+export function RegeneratePanel({
+  headings,
+  busy,
+  onRegenerate,
+}: {
+  headings: string[];
+  busy: boolean;
+  onRegenerate: (target: RegenerateTarget, instruction: string) => void;
+}) {
+  const [target, setTarget] = useState("field:decisions");
+  const [instruction, setInstruction] = useState("");
+  const controlClass = "rounded-md bg-white/5 px-2 py-1.5 text-sm text-white/90 ring-1 ring-white/10 focus:outline-none focus:ring-cyan-400/50";
+
+  function submit() {
+    const [kind, ...rest] = target.split(":");
+    const value = rest.join(":");
+    onRegenerate(kind === "heading" ? { heading: value } : { field: value as keyof MinutesContent }, instruction);
+  }
+
+  return (
+    <Card className="p-5">
+      <div className="mb-3 flex items-center gap-2 text-sm text-white/70">
+        <RefreshCw className="h-4 w-4" />
+        <span>一部だけ作り直す</span>
+      </div>
+      <div className="grid grid-cols-1 gap-2 md:grid-cols-[1fr_2fr_auto]">
+        <select value={target} onChange={(e) => setTarget(e.target.value)} className={controlClass}>
+          {FIELD_OPTIONS.map(({ field, label }) => (
+            <option key={field} value={`field:${field}`}>{label}</option>
+          ))}
+          {headings.map((heading) => (
+            <option key={heading} value={`heading:${heading}`}>本文「{heading}」</option>
+          ))}
+        </select>
+        <input
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          placeholder="追加の指示（例: 決定事項をもっと具体的に）"
+          className={controlClass}
+        />
+        <Button icon={busy ? Loader2 : RefreshCw} onClick={submit} disabled={busy}>
+          {busy ? "作成中…" : "再生成"}
+        </Button>
+      </div>
+    </Card>
+  );
+}
+
+/** 要約と議事録本文。生成後は編集・プレビュー・AI 下書きとの差分を切り替える */
+export function MinutesEditor({
+  done,
+  summary,
+  minutes,
+  view,
+  aiDraft,
+  claims,
+  onSummaryChange,
+  onMinutesChange,
+  onViewChange,
+  onSelectClaim,
+}: {
+  done: boolean;
+  summary: string;
+  minutes: string;
+  view: MinutesView;
+  aiDraft: MinutesContent | null;
+  claims: GroundedClaim[];
+  onSummaryChange: (summary: string) => void;
+  onMinutesChange: (minutes: string) => void;
+  onViewChange: (view: MinutesView) => void;
+  onSelectClaim: (claim: GroundedClaim) => void;
+}) {
+  return (
+    <>
+      <Card className="p-5">
+        <div className="mb-2 flex items-center gap-2 text-sm text-white/70">
+          <CheckCircle2 className="h-4 w-4" />
+          <span>要約</span>
+        </div>
+        {done ? (
+          <textarea
+            value={summary}
+            onChange={(e) => onSummaryChange(e.target.value)}
+            rows={4}
+            className="w-full resize-y rounded-lg bg-white/5 p-3 text-sm text-white/90 ring-1 ring-white/10 focus:outline-none focus:ring-cyan-400/50"
+          />
+        ) : (
+          <p className="text-white/90">{summary || "（生成を待機中）"}</p>
+        )}
+      </Card>
+      <Card className="p-5">
+        <div className="mb-2 flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2 text-sm text-white/70">
+            <FileText className="h-4 w-4" />
+            <span>議事録本文</span>
+          </div>
+          {done && (
+            <div className="flex gap-1 text-xs">
+              {([
+                ["edit", "編集"],
+                ["preview", "プレビュー"],
+                ["diff", "AI 下書きとの差分"],
+              ] as const).map(([v, label]) => (
+                <button
+                  key={v}
+                  onClick={() => onViewChange(v)}
+                  disabled={v === "diff" && !aiDraft}
+                  className={`rounded-md px-2 py-1 ring-1 disabled:opacity-40 ${view === v ? "bg-white/15 ring-cyan-400/40" : "bg-white/5 ring-white/10 hover:bg-white/10"}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+        {!done ? (
+          <pre className="whitespace-pre-wrap text-white/90">{minutes || "（生成を待機中）"}</pre>
+        ) : view === "edit" ? (
+          <textarea
+            value={minutes}
+            onChange={(e) => onMinutesChange(e.target.value)}
+            rows={Math.min(30, Math.max(10, minutes.split("\n").length + 2))}
+            className="w-full resize-y rounded-lg bg-white/5 p-3 font-mono text-sm text-white/90 ring-1 ring-white/10 focus:outline-none focus:ring-cyan-400/50"
+          />
+        ) : view === "preview" ? (
+          <MarkdownPreview markdown={minutes} claims={claims} onSelectClaim={onSelectClaim} />
+        ) : (
+          <DiffView before={aiDraft?.minutes ?? ""} after={minutes} />
+        )}
+      </Card>
+    </>
+  );
+}
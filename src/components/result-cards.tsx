@@ -0,0 +1,128 @@
+"use client";
+
+import { ClipboardCheck, Coins, Languages, ShieldCheck } from "lucide-react";
+import type { RedactionCategory, RedactionReport } from "@/lib/redaction/types";
+import { REDACTION_LABELS } from "@/lib/redaction/labels";
+import { formatCostUSD, type UsageSummary } from "@/lib/llm/cost";
+import { EXPORT_LABELS, LANGUAGE_LABELS, type MinutesTranslation } from "@/lib/minutes/language";
+import { ISSUE_HINTS, ISSUE_LABELS, type MinutesValidation } from "@/lib/minutes/validate";
+import { Card, Pill } from "@/components/ui";
+import { MarkdownPreview } from "@/components/minutes-editor";
+
+// ---------------------------
+// Result cards（翻訳・出力の検証・使用量・伏せ字）
+// ---------------------------
+export function TranslationCard({ translation }: { translation: MinutesTranslation }) {
+  const labels = EXPORT_LABELS[translation.language];
+  return (
+    <Card className="p-5">
+      <div className="mb-3 flex flex-wrap items-center gap-2 text-sm text-white/70">
+        <Languages className="h-4 w-4" />
+        <span>翻訳（{LANGUAGE_LABELS[translation.language]}）</span>
+        <Pill tone="info">TXT・HTML の保存で併記されます</Pill>
+      </div>
+      <h4 className="text-xs text-white/50">{labels.summary}</h4>
+      <p className="mb-3 whitespace-pre-wrap text-sm text-white/80">{translation.content.summary}</p>
+      <h4 className="text-xs text-white/50">{labels.minutes}</h4>
+      <MarkdownPreview markdown={translation.content.minutes} />
+    </Card>
+  );
+}
+
+export function ValidationCard({ validation }: { validation: MinutesValidation }) {
+  return (
+    <Card className="p-5">
+      <div className="mb-3 flex flex-wrap items-center gap-2 text-sm text-white/70">
+        <ClipboardCheck className="h-4 w-4" />
+        <span>出力の検証</span>
+        {validation.repairs > 0 && <Pill tone="info">修正を依頼 {validation.repairs} 回</Pill>}
+        <Pill tone={validation.issues.length ? "warn" : "ok"}>
+          {validation.issues.length ? `${validation.issues.length} 件の問題が残っています` : "問題なし"}
+        </Pill>
+      </div>
+      {validation.issues.length > 0 && (
+        <ul className="space-y-1 text-xs text-white/70">
+          {validation.issues.map((issue, i) => (
+            <li key={i}>
+              <span className="text-amber-200">{ISSUE_LABELS[issue.code]}</span>: {issue.message}
+              <span className="block text-white/40">{ISSUE_HINTS[issue.code]}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+}
+
+export function UsageCard({ usage }: { usage: UsageSummary }) {
+  return (
+    <Card className="p-5">
+      <div className="mb-3 flex flex-wrap items-center gap-2 text-sm text-white/70">
+        <Coins className="h-4 w-4" />
+        <span>LLM の使用量</span>
+        <Pill tone="info">入力 {usage.promptTokens.toLocaleString()} / 出力 {usage.completionTokens.toLocaleString()} トークン</Pill>
+        <Pill tone={usage.costUSD === null ? "warn" : "info"}>
+          {usage.costUSD === null ? "費用不明（料金表にないモデル）" : formatCostUSD(usage.costUSD)}
+        </Pill>
+        <Pill tone="info">{(usage.latencyMs / 1000).toFixed(1)} 秒</Pill>
+      </div>
+      {usage.calls.length === 0 ? (
+        <p className="text-xs text-white/50">LLM は呼び出していません</p>
+      ) : (
+        <table className="w-full text-left text-xs text-white/70">
+          <thead className="text-white/40">
+            <tr>
+              <th className="py-1 font-normal">呼び出し</th>
+              <th className="py-1 font-normal">モデル</th>
+              <th className="py-1 text-right font-normal">入力</th>
+              <th className="py-1 text-right font-normal">出力</th>
+              <th className="py-1 text-right font-normal">費用</th>
+              <th className="py-1 text-right font-normal">時間</th>
+            </tr>
+          </thead>
+          <tbody>
+            {usage.calls.map((c, i) => (
+              <tr key={i}>
+                <td className="py-1">{c.label}</td>
+                <td className="py-1">{c.model}</td>
+                <td className="py-1 text-right">{c.promptTokens.toLocaleString()}</td>
+                <td className="py-1 text-right">{c.completionTokens.toLocaleString()}</td>
+                <td className="py-1 text-right">{c.costUSD === null ? "—" : formatCostUSD(c.costUSD)}</td>
+                <td className="py-1 text-right">{(c.latencyMs / 1000).toFixed(1)} 秒</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {usage.calls.some((c) => c.estimated) && (
+        <p className="mt-2 text-[10px] text-white/40">トークン数を返さないプロバイダーの呼び出しは、文字数から見積もっています。</p>
+      )}
+    </Card>
+  );
+}
+
+export function RedactionReportCard({ report }: { report: RedactionReport }) {
+  return (
+    <Card className="p-5">
+      <div className="mb-3 flex flex-wrap items-center gap-2 text-sm text-white/70">
+        <ShieldCheck className="h-4 w-4" />
+        <span>伏せ字にして送信した内容</span>
+        {(Object.entries(report.byCategory) as [RedactionCategory, number][]).map(([category, count]) => (
+          <Pill key={category} tone="info">{REDACTION_LABELS[category]} {count}</Pill>
+        ))}
+      </div>
+      {report.entries.length === 0 ? (
+        <p className="text-xs text-white/50">伏せ字にした箇所はありません</p>
+      ) : (
+        <ul className="grid max-h-48 grid-cols-1 gap-1 overflow-y-auto text-xs text-white/70 md:grid-cols-2">
+          {report.entries.map((e) => (
+            <li key={e.placeholder}>
+              <span className="text-cyan-300">{e.placeholder}</span> ← {e.original}
+            </li>
+          ))}
+        </ul>
+      )}
+      <p className="mt-2 text-[10px] text-white/40">生成結果の伏せ字は、この画面に返す前に元の語へ戻しています。</p>
+    </Card>
+  );
+}
@@ -0,0 +1,118 @@
+"use client";
+
+import { Repeat } from "lucide-react";
+import {
+  CARRY_OVER_STATUS_LABELS,
+  SERIES_ITEM_STATUS_LABELS,
+  type CarryOverResult,
+  type CarryOverStatus,
+  type SeriesItemStatus,
+  type SeriesView,
+} from "@/lib/minutes/series";
+import { Card, Pill } from "@/components/ui";
+
+// ---------------------------
+// Series（定例会議の持ち越し事項と経過）
+// ---------------------------
+const STATUS_TONES: Record<SeriesItemStatus, "info" | "ok" | "warn"> = {
+  done: "ok",
+  in_progress: "info",
+  not_mentioned: "warn",
+  open: "info",
+};
+
+export function CarryOverCard({ items }: { items: CarryOverResult[] }) {
+  const counts = items.reduce<Partial<Record<CarryOverStatus, number>>>(
+    (acc, item) => ({ ...acc, [item.status]: (acc[item.status] ?? 0) + 1 }),
+    {}
+  );
+  return (
+    <Card className="p-5">
+      <div className="mb-3 flex flex-wrap items-center gap-2 text-sm text-white/70">
+        <Repeat className="h-4 w-4" />
+        <span>前回からの持ち越し事項</span>
+        {(Object.entries(counts) as [CarryOverStatus, number][]).map(([status, count]) => (
+          <Pill key={status} tone={STATUS_TONES[status]}>{CARRY_OVER_STATUS_LABELS[status]} {count}</Pill>
+        ))}
+      </div>
+      <ul className="space-y-2 text-xs text-white/70">
+        {items.map((item, i) => (
+          <li key={i}>
+            <div className="flex flex-wrap items-center gap-2">
+              <Pill tone={STATUS_TONES[item.status]}>{CARRY_OVER_STATUS_LABELS[item.status]}</Pill>
+              <span className="text-white/90">{item.task}</span>
+              <span className="text-white/40">
+                {item.kind === "action" ? "宿題" : "未決"}
+                {item.owner && `・${item.owner}`}
+                {item.dueDate && `・期限 ${item.dueDate}`}・{item.fromDate} から
+              </span>
+            </div>
+            {item.note && <p className="mt-1 pl-2 text-white/60">{item.note}</p>}
+            {item.sourceQuote && <p className="mt-1 pl-2 text-white/40">「{item.sourceQuote}」</p>}
+          </li>
+        ))}
+      </ul>
+    </Card>
+  );
+}
+
+/** 定例会議のシリーズの宿題事項・未決事項の経過（会議ごとの状況を横に並べる） */
+export function SeriesCard({ series, activeId, onOpen }: { series: SeriesView; activeId: string | null; onOpen: (id: string) => void }) {
+  const remaining = series.items.filter((item) => item.status !== "done").length;
+  return (
+    <Card className="p-5">
+      <div className="mb-3 flex flex-wrap items-center gap-2 text-sm text-white/70">
+        <Repeat className="h-4 w-4" />
+        <span>シリーズの宿題事項の経過</span>
+        <Pill tone="info">{series.meetings.length} 回の会議</Pill>
+        <Pill tone={remaining ? "warn" : "ok"}>{remaining ? `未完了 ${remaining} 件` : "すべて完了"}</Pill>
+      </div>
+      {series.items.length === 0 ? (
+        <p className="text-xs text-white/50">宿題事項・未決事項はありません</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-xs text-white/70">
+            <thead className="text-white/40">
+              <tr>
+                <th className="py-1 font-normal">事項</th>
+                <th className="py-1 font-normal">担当</th>
+                <th className="py-1 font-normal">期限</th>
+                {series.meetings.map((m) => (
+                  <th key={m.id} className="py-1 text-center font-normal">
+                    <button
+                      onClick={() => onOpen(m.id)}
+                      title={m.title}
+                      className={`hover:underline ${m.id === activeId ? "text-cyan-200" : ""}`}
+                    >
+                      {m.date}
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {series.items.map((item, i) => (
+                <tr key={i} className="align-top">
+                  <td className="py-1 pr-2 text-white/90">
+                    {item.task}
+                    {item.kind === "question" && <span className="ml-1 text-white/40">（未決）</span>}
+                  </td>
+                  <td className="py-1 pr-2">{item.owner || "—"}</td>
+                  <td className="py-1 pr-2">{item.dueDate || "—"}</td>
+                  {series.meetings.map((m) => {
+                    const entry = item.history.find((h) => h.meetingId === m.id);
+                    return (
+                      <td key={m.id} className="py-1 text-center" title={entry?.note}>
+                        {entry ? <Pill tone={STATUS_TONES[entry.status]}>{SERIES_ITEM_STATUS_LABELS[entry.status]}</Pill> : ""}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </Card>
+  );
+}
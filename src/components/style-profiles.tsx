@@ -0,0 +1,160 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Palette, Trash2, Save } from "lucide-react";
+import type { StyleProfile } from "@/lib/storage/types";
+import type { IngestWarning } from "@/lib/ingest";
+import { Card, Button } from "@/components/ui";
+import { describeIngestWarnings } from "@/components/messages";
+
+// ---------------------------
+// Style profiles（文体ガイドラインの保存・編集）
+// ---------------------------
+export function StyleProfilePanel({
+  profiles,
+  selectedId,
+  styleFiles,
+  redaction,
+  onSelect,
+  onChanged,
+}: {
+  profiles: StyleProfile[];
+  selectedId: string;
+  styleFiles: File[];
+  redaction: { redact: boolean; terms: string };
+  onSelect: (id: string) => void;
+  onChanged: () => Promise<void>;
+}) {
+  const selected = profiles.find((p) => p.id === selectedId) ?? null;
+  const [draft, setDraft] = useState("");
+  const [newName, setNewName] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    setDraft(selected?.guidelines ?? "");
+  }, [selected?.id, selected?.guidelines]);
+
+  async function request(url: string, init: RequestInit): Promise<StyleProfile | null> {
+    setBusy(true);
+    setError("");
+    try {
+      const res = await fetch(url, init);
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+      await onChanged();
+      return data;
+    } catch (e) {
+      console.error("文体プロファイルの更新エラー:", e);
+      setError(e instanceof Error ? e.message : String(e));
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function create() {
+    const formData = new FormData();
+    formData.append("name", newName);
+    formData.append("redact", redaction.redact ? "1" : "0");
+    formData.append("redactTerms", redaction.terms);
+    for (const f of styleFiles) formData.append("style", f);
+    const created = await request("/api/style-profiles", { method: "POST", body: formData });
+    if (created) {
+      setNewName("");
+      onSelect(created.id);
+      const { warnings } = created as StyleProfile & { warnings?: IngestWarning[] };
+      if (warnings?.length) setError(describeIngestWarnings(warnings));
+    }
+  }
+
+  async function saveGuidelines() {
+    if (!selected) return;
+    await request(`/api/style-profiles/${selected.id}`, {
+      method: "PATCH",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ guidelines: draft }),
+    });
+  }
+
+  async function remove() {
+    if (!selected || !confirm(`文体プロファイル「${selected.name}」を削除しますか？`)) return;
+    if (await request(`/api/style-profiles/${selected.id}`, { method: "DELETE" })) onSelect("");
+  }
+
+  return (
+    <Card className="p-5">
+      <div className="mb-3 flex items-center gap-2 text-sm text-white/70">
+        <Palette className="h-4 w-4" />
+        <span>文体プロファイル（任意）</span>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={selectedId}
+          onChange={(e) => onSelect(e.target.value)}
+          className="rounded-md bg-white/5 px-2 py-1.5 text-sm text-white/90 ring-1 ring-white/10 focus:outline-none focus:ring-cyan-400/50"
+        >
+          <option value="">プロファイルを使わない</option>
+          {profiles.map((p) => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="新しいプロファイル名（例: 取締役会）"
+          className="min-w-0 flex-1 rounded-md bg-white/5 px-2 py-1.5 text-sm text-white/90 ring-1 ring-white/10 focus:outline-none focus:ring-cyan-400/50"
+        />
+        <Button onClick={create} disabled={busy || !newName.trim() || styleFiles.length === 0} variant="ghost">
+          過去の議事録から作成
+        </Button>
+      </div>
+      {selected && (
+        <div className="mt-4 space-y-2">
+          <p className="text-xs text-white/50">
+            抽出元: {selected.sourceFiles.length ? selected.sourceFiles.join("、") : "なし（手入力）"}
+            {selected.edited && " ・手動で編集済み"}
+            。過去の議事録ファイルを指定して生成すると、内容が変わっている場合だけガイドラインを作り直します。
+          </p>
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={8}
+            className="w-full rounded-md bg-white/5 p-2 text-xs text-white/90 ring-1 ring-white/10 focus:outline-none focus:ring-cyan-400/50"
+          />
+          <div className="flex gap-2">
+            <Button icon={Save} onClick={saveGuidelines} disabled={busy || draft === selected.guidelines} variant="ghost">
+              ガイドラインを保存
+            </Button>
+            <Button icon={Trash2} onClick={remove} disabled={busy} variant="ghost">
+              削除
+            </Button>
+          </div>
+        </div>
+      )}
+      {error && <p className="mt-2 text-xs text-amber-300">{error}</p>}
+    </Card>
+  );
+}
+
+/** 保存済みの文体プロファイル。生成時にガイドラインを作り直した場合は reload で読み直す */
+export function useStyleProfiles() {
+  const [profiles, setProfiles] = useState<StyleProfile[]>([]);
+
+  async function reload() {
+    try {
+      const res = await fetch("/api/style-profiles");
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const data = await res.json();
+      setProfiles(data.profiles ?? []);
+    } catch (e) {
+      console.error("文体プロファイルの読み込みエラー:", e);
+    }
+  }
+
+  useEffect(() => {
+    reload();
+  }, []);
+
+  return { profiles, reload };
+}
@@ -0,0 +1,44 @@
+"use client";
+
+import React from "react";
+import type { LucideIcon } from "lucide-react";
+
+// ---------------------------
+// UI Primitives (Tailwind)
+// ---------------------------
+export function Card({ className = "", children }: React.PropsWithChildren<{ className?: string }>) {
+  return (
+    <div className={`rounded-2xl border border-white/10 bg-white/5 shadow-[0_10px_30px_-10px_rgba(0,0,0,0.6)] backdrop-blur ${className}`}>
+      {children}
+    </div>
+  );
+}
+
+export function Pill({ tone = "info", children }: React.PropsWithChildren<{ tone?: "info" | "ok" | "warn" }>) {
+  const styles = {
+    info: "bg-cyan-500/10 text-cyan-200 ring-1 ring-cyan-400/20",
+    ok: "bg-emerald-500/10 text-emerald-200 ring-1 ring-emerald-400/20",
+    warn: "bg-amber-500/10 text-amber-200 ring-1 ring-amber-400/20",
+  } as const;
+  return <span className={`inline-flex items-center gap-1 rounded-full px-2.5 py-1 text-xs ${styles[tone]}`}>{children}</span>;
+}
+
+export function Button({
+  children,
+  onClick,
+  icon: Icon,
+  variant = "primary",
+  disabled,
+}: React.PropsWithChildren<{ onClick?: () => void; icon?: LucideIcon; variant?: "primary" | "ghost"; disabled?: boolean }>) {
+  const base = "group inline-flex items-center gap-2 rounded-xl px-4 py-2 text-sm transition-all duration-200";
+  const styles =
+    variant === "primary"
+      ? "bg-gradient-to-br from-cyan-500 to-indigo-600 text-white hover:brightness-110 disabled:opacity-50"
+      : "bg-white/5 text-white/80 ring-1 ring-white/10 hover:bg-white/10 disabled:opacity-50";
+  return (
+    <button onClick={onClick} disabled={disabled} className={`${base} ${styles}`}>
+      {Icon ? <Icon className="h-4 w-4 opacity-80 group-hover:opacity-100" /> : null}
+      <span>{children}</span>
+    </button>
+  );
+}
@@ -0,0 +1,159 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { AlertCircle, FileAudio, Loader2, Users } from "lucide-react";
+import type { SpeakerStat } from "@/lib/transcript/parse";
+import { AUDIO_EXTENSIONS, isAudioFile } from "@/lib/transcription/audio-files";
+import { TRANSCRIPT_EXTENSIONS, isTranscriptFile } from "@/lib/transcript/transcript-files";
+import { Card, Pill } from "@/components/ui";
+
+// ---------------------------
+// Upload Area (文字起こしテキストファイル / 音声ファイル)
+// ---------------------------
+export function UploadArea({ onTextContent }: { onTextContent: (content: string) => void }) {
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const [over, setOver] = useState(false);
+  const [textContent, setTextContent] = useState<string>("");
+  const [transcribing, setTranscribing] = useState<string | null>(null);
+  const [uploadError, setUploadError] = useState<string>("");
+
+  // 音声はサーバーで文字起こしし、結果をテキストファイルと同じ扱いにする
+  async function transcribe(file: File) {
+    setTranscribing(file.name);
+    setUploadError("");
+    try {
+      const formData = new FormData();
+      formData.append("audio", file);
+      const res = await fetch("/api/transcribe", { method: "POST", body: formData });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+      setTextContent(data.transcript);
+      onTextContent(data.transcript);
+    } catch (error) {
+      console.error('文字起こしエラー:', error);
+      setUploadError(error instanceof Error ? error.message : "文字起こしに失敗しました");
+    } finally {
+      setTranscribing(null);
+    }
+  }
+
+  async function handleFileUpload(files: File[]) {
+    for (const file of files) {
+      if (isAudioFile(file.name)) {
+        await transcribe(file);
+      } else if (file.type === "text/plain" || isTranscriptFile(file.name)) {
+        try {
+          const content = await file.text();
+          setTextContent(content);
+          onTextContent(content);
+        } catch (error) {
+          console.error('ファイル読み込みエラー:', error);
+        }
+      }
+    }
+  }
+
+  return (
+    <Card>
+      <div
+        onDragOver={(e) => { e.preventDefault(); setOver(true); }}
+        onDragLeave={() => setOver(false)}
+        onDrop={(e) => {
+          e.preventDefault(); setOver(false);
+          const files = Array.from(e.dataTransfer.files || []);
+          if (files.length) handleFileUpload(files);
+        }}
+        className={`relative grid place-items-center rounded-2xl px-6 py-14 transition ${over ? "ring-2 ring-cyan-400/50 bg-white/10" : "ring-1 ring-white/10 bg-white/5"}`}
+      >
+        <div className="pointer-events-none absolute inset-0 rounded-2xl bg-[radial-gradient(ellipse_at_top,rgba(34,211,238,0.12),transparent_50%),radial-gradient(ellipse_at_bottom,rgba(79,70,229,0.12),transparent_50%)]" />
+        <div className="relative z-10 flex flex-col items-center gap-4 text-center">
+          <div className="grid h-12 w-12 place-items-center rounded-xl bg-black/40 ring-1 ring-white/10">
+            {transcribing ? (
+              <Loader2 className="h-6 w-6 animate-spin text-white/80" />
+            ) : (
+              <FileAudio className="h-6 w-6 text-white/80" />
+            )}
+          </div>
+          <div className="space-y-1">
+            <p className="text-white/90">
+              ここに文字起こしテキスト・音声ファイルをドラッグ＆ドロップ
+              <span className="mx-2 text-white/50">または</span>
+              <button
+                onClick={() => inputRef.current?.click()}
+                className="underline decoration-cyan-400/60 underline-offset-4 hover:decoration-cyan-300"
+              >ファイルを選択</button>
+            </p>
+            <p className="text-xs text-white/60">
+              対応形式：{TRANSCRIPT_EXTENSIONS.join(" ")} ファイル（UTF-8エンコーディング推奨）／音声 {AUDIO_EXTENSIONS.join(" ")}
+            </p>
+            {transcribing && <p className="text-xs text-cyan-200">{transcribing} を文字起こし中…（長い音声は数分かかります）</p>}
+            {uploadError && <p className="text-xs text-amber-200">{uploadError}</p>}
+          </div>
+        </div>
+        <input
+          ref={inputRef}
+          type="file"
+          accept={[...TRANSCRIPT_EXTENSIONS, ...AUDIO_EXTENSIONS].join(",")}
+          className="hidden"
+          onChange={(e) => {
+            const files = Array.from(e.target.files || []);
+            if (files.length) handleFileUpload(files);
+            e.currentTarget.value = "";
+          }}
+        />
+        {textContent && (
+          <div className="absolute top-3 right-3 text-[10px] text-white/60">
+            テキスト読み込み済み: {textContent.length}文字
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
+
+// ---------------------------
+// Speaker mapping (「Speaker 1」→ 実名)
+// ---------------------------
+export function SpeakerMapper({
+  speakers,
+  names,
+  onChange,
+}: {
+  speakers: SpeakerStat[];
+  names: Record<string, string>;
+  onChange: (names: Record<string, string>) => void;
+}) {
+  const unassigned = speakers.filter((s) => s.generic && !names[s.speaker]?.trim()).length;
+  return (
+    <Card className="p-5">
+      <div className="mb-3 flex items-center justify-between">
+        <div className="flex items-center gap-2 text-sm text-white/70">
+          <Users className="h-4 w-4" />
+          <span>話者の名前</span>
+        </div>
+        {unassigned > 0 && (
+          <Pill tone="warn"><AlertCircle className="h-3.5 w-3.5" /> {unassigned} 名が未割り当て</Pill>
+        )}
+      </div>
+      <p className="mb-3 text-xs text-white/50">
+        「Speaker 1」などの仮の名前を参加者名に置き換えると、決定事項や宿題事項の担当者が正しく記載されます。
+      </p>
+      <div className="grid grid-cols-1 gap-2 md:grid-cols-2">
+        {speakers.map((s) => (
+          <label key={s.speaker} className="flex items-center gap-2 text-sm">
+            <span className={`w-28 shrink-0 truncate ${s.generic ? "text-amber-200" : "text-white/70"}`} title={s.speaker}>
+              {s.speaker}
+            </span>
+            <input
+              value={names[s.speaker] ?? ""}
+              onChange={(e) => onChange({ ...names, [s.speaker]: e.target.value })}
+              placeholder={s.generic ? "参加者名" : "（このまま）"}
+              className="w-full rounded-md bg-white/5 px-2 py-1 text-sm text-white/90 ring-1 ring-white/10 focus:outline-none focus:ring-cyan-400/50"
+            />
+            <span className="shrink-0 text-[10px] text-white/40">{s.count}回</span>
+          </label>
+        ))}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,31 @@
+/** サーバー起動時に一度だけ呼ばれる */
+export async function register() {
+  // Edge 用のビルドに fs を含めないよう、Node.js ランタイムのときだけ読み込む
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    // テンプレートの誤りは最初のリクエストを待たずに起動時に知らせる
+    const { loadPromptTemplates } = await import("./lib/prompts");
+    const templates = await loadPromptTemplates();
+    console.log("プロンプトテンプレート:", templates.map((t) => `${t.id}(${t.label})`).join(", "));
+
+    // 認証なしで公開してしまわないよう、起動時に方式を知らせる
+    const { AuthConfigError, getAuthMode } = await import("./lib/auth");
+    try {
+      const authMode = getAuthMode();
+      if (authMode === "none") {
+        console.warn(
+          "!!! 認証: なし（AUTH_MODE=%s）。API に到達できる人は誰でも管理者として議事録の生成・削除・用語集の編集ができます !!!",
+          process.env.AUTH_MODE || "未設定"
+        );
+      } else console.log("認証:", authMode);
+    } catch (e) {
+      if (!(e instanceof AuthConfigError)) throw e;
+      // API は設定エラー（500）を返し続ける。起動は止めず、ログで知らせる
+      console.error("!!! 認証の設定エラー:", e.message, "!!!");
+    }
+
+    // 再起動で止まったジョブは、完了した段階を使って続きから実行する
+    const { resumeInterruptedJobs } = await import("./lib/jobs");
+    const resumed = await resumeInterruptedJobs();
+    if (resumed) console.log("中断していたジョブを再開:", resumed, "件");
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * 認証の方式と、ワークスペース・利用者・権限の設定ファイルを読む。
+ * 設定ファイルは更新されていれば読み直すので、利用者や権限の変更に再起動はいらない。
+ */
+import { readFile, stat } from "fs/promises";
+import { DEFAULT_WORKSPACE_ID } from "../storage";
+import type { AuthConfig, AuthMode, AuthUserConfig, Membership, Role, Workspace } from "./types";
+
+export class AuthConfigError extends Error {}
+
+const MODES: AuthMode[] = ["none", "local", "oidc"];
+const ROLES: Role[] = ["viewer", "editor", "admin"];
+const WORKSPACE_ID = /^[a-z0-9][a-z0-9_-]{0,39}$/;
+const MIN_SECRET_LENGTH = 32;
+const DEFAULT_SESSION_HOURS = 12;
+
+/** 認証なし（AUTH_MODE=none）のときの利用者。全員が既定のワークスペースの管理者になる */
+export const ANONYMOUS_MEMBERSHIP: Membership = { id: DEFAULT_WORKSPACE_ID, name: "既定", role: "admin" };
+
+/**
+ * 認証の方式。未設定の場合、開発サーバー（NODE_ENV が production 以外）では none、
+ * 本番では誰でも管理者になる状態で公開しないよう設定エラーにする（認証なしで使うなら AUTH_MODE=none を明示する）。
+ */
+export function getAuthMode(): AuthMode {
+  if (!process.env.AUTH_MODE && process.env.NODE_ENV === "production") {
+    throw new AuthConfigError("AUTH_MODE を設定してください（local / oidc。認証なしで使う場合は none を明示）");
+  }
+  const mode = process.env.AUTH_MODE || "none";
+  if (!MODES.includes(mode as AuthMode)) throw new AuthConfigError(`AUTH_MODE が不正です: ${mode}`);
+  return mode as AuthMode;
+}
+
+/** セッションの署名に使う鍵 */
+export function getAuthSecret(): string {
+  const secret = process.env.AUTH_SECRET ?? "";
+  if (secret.length < MIN_SECRET_LENGTH) {
+    throw new AuthConfigError(`AUTH_SECRET を ${MIN_SECRET_LENGTH} 文字以上で設定してください`);
+  }
+  return secret;
+}
+
+export function getSessionSeconds(): number {
+  const hours = Number(process.env.AUTH_SESSION_HOURS);
+  return (Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_SESSION_HOURS) * 3600;
+}
+
+export function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role);
+}
+
+/** role が required 以上の権限か */
+export function hasRole(role: Role, required: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+function readRoles(value: unknown, where: string, workspaces: Set<string>): Record<string, Role> {
+  if (value === undefined) return {};
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new AuthConfigError(`${where} の roles はワークスペース ID と権限の組にしてください`);
+  }
+  const roles: Record<string, Role> = {};
+  for (const [workspaceId, role] of Object.entries(value)) {
+    if (!workspaces.has(workspaceId)) throw new AuthConfigError(`${where}: 未定義のワークスペースです: ${workspaceId}`);
+    if (!isRole(role)) throw new AuthConfigError(`${where}: 権限が不正です（${ROLES.join(" / ")}）: ${role}`);
+    roles[workspaceId] = role;
+  }
+  return roles;
+}
+
+function parseAuthConfig(text: string): AuthConfig {
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new AuthConfigError("AUTH_CONFIG_FILE の JSON の形式が不正です");
+  }
+
+  const workspaces: Workspace[] = [];
+  for (const w of Array.isArray(raw.workspaces) ? raw.workspaces : []) {
+    if (typeof w?.id !== "string" || !WORKSPACE_ID.test(w.id)) {
+      throw new AuthConfigError(`ワークスペース ID が不正です（英小文字・数字・-・_）: ${w?.id}`);
+    }
+    if (workspaces.some((x) => x.id === w.id)) throw new AuthConfigError(`ワークスペース ID が重複しています: ${w.id}`);
+    workspaces.push({ id: w.id, name: typeof w.name === "string" && w.name.trim() ? w.name.trim() : w.id });
+  }
+  if (workspaces.length === 0) throw new AuthConfigError("AUTH_CONFIG_FILE にワークスペースがありません");
+  const ids = new Set(workspaces.map((w) => w.id));
+
+  const users: AuthUserConfig[] = [];
+  for (const u of Array.isArray(raw.users) ? raw.users : []) {
+    if (typeof u?.id !== "string" || !u.id.trim()) throw new AuthConfigError("利用者の id がありません");
+    const id = u.id.trim();
+    if (users.some((x) => x.id === id)) throw new AuthConfigError(`利用者が重複しています: ${id}`);
+    users.push({
+      id,
+      name: typeof u.name === "string" ? u.name : undefined,
+      password: typeof u.password === "string" ? u.password : undefined,
+      roles: readRoles(u.roles, `利用者 ${id}`, ids),
+    });
+  }
+
+  return { workspaces, users, defaultRoles: readRoles(raw.defaultRoles, "defaultRoles", ids) };
+}
+
+let cache: { path: string; mtimeMs: number; config: AuthConfig } | null = null;
+
+/** AUTH_CONFIG_FILE を読む（AUTH_MODE が local / oidc のときに必要） */
+export async function loadAuthConfig(): Promise<AuthConfig> {
+  const path = process.env.AUTH_CONFIG_FILE;
+  if (!path) throw new AuthConfigError("AUTH_CONFIG_FILE が設定されていません");
+  let mtimeMs: number;
+  try {
+    mtimeMs = (await stat(path)).mtimeMs;
+  } catch {
+    throw new AuthConfigError(`AUTH_CONFIG_FILE を読み込めません: ${path}`);
+  }
+  if (cache?.path === path && cache.mtimeMs === mtimeMs) return cache.config;
+  const config = parseAuthConfig(await readFile(path, "utf8"));
+  cache = { path, mtimeMs, config };
+  console.log("認証の設定を読み込みました: ワークスペース", config.workspaces.length, "件, 利用者", config.users.length, "人");
+  return config;
+}
+
+/** 利用者が参加しているワークスペースと権限。設定ファイルにない OIDC の利用者には defaultRoles を使う */
+export function membershipsOf(config: AuthConfig, userId: string, mode: AuthMode): Membership[] {
+  const user = config.users.find((u) => u.id === userId);
+  const roles = user ? user.roles : mode === "oidc" ? config.defaultRoles : {};
+  return config.workspaces.filter((w) => roles[w.id]).map((w) => ({ ...w, role: roles[w.id] }));
+}
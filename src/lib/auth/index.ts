@@ -0,0 +1,110 @@
+/**
+ * API の認証・認可。各ルートの最初に authorize を呼び、必要な権限とワークスペースを確かめる。
+ * 会議・文体プロファイル・用語集・ジョブはワークスペースに属し、ほかのワークスペースからは見えない。
+ *
+ * 環境変数:
+ *  - AUTH_MODE: none | local | oidc。none は認証なしで全員が既定のワークスペースの管理者になる。
+ *    未設定は開発サーバーでだけ none として扱い、本番（next start）では設定エラーにする
+ *  - AUTH_SECRET: セッションの署名に使う鍵（32 文字以上、local / oidc で必須）
+ *  - AUTH_CONFIG_FILE: ワークスペースと利用者・権限の JSON（local / oidc で必須）
+ *      { "workspaces": [{ "id": "sales", "name": "営業部" }],
+ *        "users": [{ "id": "tanaka", "name": "田中", "password": "scrypt$…", "roles": { "sales": "editor" } }],
+ *        "defaultRoles": { "sales": "viewer" } }
+ *  - AUTH_SESSION_HOURS: ログインの有効時間（既定 12）
+ *  - OIDC_*: oidc.ts を参照。RATE_LIMIT_*・MAX_REQUEST_MB: limits.ts を参照
+ *
+ * 操作するワークスペースは x-workspace ヘッダー、なければ画面で選んだもの（Cookie）、なければ最初に参加しているもの。
+ */
+import type { NextRequest } from "next/server";
+import { ANONYMOUS_MEMBERSHIP, AuthConfigError, getAuthMode, hasRole, loadAuthConfig, membershipsOf } from "./config";
+import { ROLE_LABELS } from "./labels";
+import { checkRequestSize, clientAddress, consumeRateLimit } from "./limits";
+import { WORKSPACE_COOKIE, readSession } from "./session";
+import type { AuthContext, Membership, Role, SessionUser } from "./types";
+
+export type { AuthConfig, AuthContext, AuthMode, AuthUserConfig, Membership, Role, SessionUser, Workspace } from "./types";
+export { AuthConfigError, getAuthMode, hasRole, isRole, loadAuthConfig, membershipsOf } from "./config";
+export { ROLE_LABELS } from "./labels";
+export { checkRequestSize, clientAddress, consumeRateLimit, isProxyTrusted } from "./limits";
+export { OidcError, completeOidcLogin, startOidcLogin } from "./oidc";
+export { hashPassword, verifyPassword, verifyUnknownUser } from "./password";
+export {
+  OIDC_COOKIE,
+  SESSION_COOKIE,
+  WORKSPACE_COOKIE,
+  clearCookie,
+  isSecureRequest,
+  readSession,
+  serializeCookie,
+  sessionCookie,
+  workspaceCookie,
+} from "./session";
+
+/** 認証なし（AUTH_MODE=none）のときの利用者 */
+const ANONYMOUS_USER: SessionUser = { id: "anonymous", name: "ローカル利用者" };
+
+export type AuthorizeOptions = {
+  /** LLM・文字起こしを呼ぶ操作。利用者ごとのリクエスト数の制限を数える */
+  rateLimit?: boolean;
+};
+
+function json(body: unknown, status: number, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json", ...headers } });
+}
+
+/** ログインしている利用者と参加しているワークスペース。ログインしていなければ null */
+async function resolveMembers(req: NextRequest): Promise<{ user: SessionUser; memberships: Membership[] } | null> {
+  const mode = getAuthMode();
+  if (mode === "none") return { user: ANONYMOUS_USER, memberships: [ANONYMOUS_MEMBERSHIP] };
+  const session = readSession(req);
+  if (!session) return null;
+  const config = await loadAuthConfig();
+  // 設定ファイルから外されたローカルの利用者は、Cookie が残っていてもログインしていないものとする
+  if (mode === "local" && !config.users.some((u) => u.id === session.id)) return null;
+  return { user: { id: session.id, name: session.name }, memberships: membershipsOf(config, session.id, mode) };
+}
+
+/**
+ * リクエストの利用者が、選んだワークスペースで required 以上の権限を持つか確かめる。
+ * 通れば AuthContext、通らなければそのまま返す Response（401 / 403 / 411 / 413 / 429 / 500）。
+ */
+export async function authorize(req: NextRequest, required: Role, { rateLimit = false }: AuthorizeOptions = {}): Promise<AuthContext | Response> {
+  const sizeError = checkRequestSize(req);
+  if (sizeError) return json({ error: sizeError.error }, sizeError.status);
+
+  let mode;
+  let members;
+  try {
+    mode = getAuthMode();
+    members = await resolveMembers(req);
+  } catch (e) {
+    if (!(e instanceof AuthConfigError)) throw e;
+    console.error("認証の設定エラー:", e.message);
+    return json({ error: e.message }, 500);
+  }
+  if (!members) return json({ error: "ログインが必要です", mode }, 401);
+  const { user, memberships } = members;
+  if (memberships.length === 0) return json({ error: "参加しているワークスペースがありません。管理者に連絡してください" }, 403);
+
+  // ヘッダーで指定したワークスペースに参加していなければ拒否する。Cookie の選択が古い場合は最初のものにする
+  const requested = req.headers.get("x-workspace");
+  const selected = requested ?? req.cookies.get(WORKSPACE_COOKIE)?.value;
+  const membership = memberships.find((m) => m.id === selected) ?? (requested ? null : memberships[0]);
+  if (!membership) return json({ error: `ワークスペース「${requested}」へのアクセス権がありません` }, 403);
+  if (!hasRole(membership.role, required)) {
+    return json({ error: `この操作には${ROLE_LABELS[required]}以上の権限が必要です（現在: ${ROLE_LABELS[membership.role]}）` }, 403);
+  }
+
+  if (rateLimit) {
+    const retryAfter = consumeRateLimit(mode === "none" ? `ip:${clientAddress(req)}` : `user:${user.id}`);
+    if (retryAfter !== null) {
+      console.log("リクエスト数の制限:", user.id, retryAfter, "秒後に再開");
+      return json({ error: `リクエストが多すぎます。${retryAfter} 秒ほど待ってから再度お試しください` }, 429, {
+        "retry-after": String(retryAfter),
+      });
+    }
+  }
+
+  const { role, ...workspace } = membership;
+  return { mode, user, workspace, role, memberships };
+}
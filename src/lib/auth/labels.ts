@@ -0,0 +1,8 @@
+import type { Role } from "./types";
+
+/** 権限の画面表示に使う名前。クライアントからも使う */
+export const ROLE_LABELS: Record<Role, string> = {
+  viewer: "閲覧者",
+  editor: "編集者",
+  admin: "管理者",
+};
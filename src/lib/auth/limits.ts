@@ -0,0 +1,84 @@
+/**
+ * 利用者ごとのリクエスト数の制限と、リクエストの大きさの制限。
+ * 回数はこのプロセスのメモリで数える（複数台で動かす場合は台ごとの制限になる）。
+ *
+ * 環境変数:
+ *  - RATE_LIMIT_MAX: RATE_LIMIT_WINDOW_SEC 秒あたりに受け付ける LLM・文字起こしのリクエスト数（既定 20、0 で制限しない）
+ *  - RATE_LIMIT_WINDOW_SEC: 数える期間（既定 60）
+ *  - LOGIN_RATE_LIMIT_MAX: 同じ期間に受け付ける、1つのログイン名と接続元の組（プロキシを信頼する場合は接続元ごとの合計も）のログインの試行回数（既定 10）
+ *  - MAX_REQUEST_MB: 受け付けるリクエストの大きさ（既定 50）
+ *  - TRUST_PROXY: 1 ならリバースプロキシの x-forwarded-for・x-real-ip を接続元として使う。
+ *    プロキシを通さずに公開する場合に設定すると、ヘッダーを変えるだけで制限を回避できてしまう
+ */
+import type { NextRequest } from "next/server";
+
+const DEFAULT_RATE_LIMIT = 20;
+const DEFAULT_LOGIN_RATE_LIMIT = 10;
+const DEFAULT_WINDOW_SEC = 60;
+const DEFAULT_MAX_REQUEST_MB = 50;
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export function getMaxRequestBytes(): number {
+  return envNumber("MAX_REQUEST_MB", DEFAULT_MAX_REQUEST_MB) * 1024 * 1024;
+}
+
+/**
+ * 本文の大きさを content-length で確かめる。大きすぎれば 413、本文があるのに長さがなければ 411（chunked で上限を回避させない）。
+ * 問題なければ null。
+ */
+export function checkRequestSize(req: NextRequest): { status: 411 | 413; error: string } | null {
+  if (!req.body) return null;
+  const header = req.headers.get("content-length");
+  const length = Number(header);
+  if (!header || !Number.isFinite(length) || length < 0) {
+    return { status: 411, error: "リクエストの長さ（content-length）がありません" };
+  }
+  if (length > getMaxRequestBytes()) {
+    return { status: 413, error: `リクエストが大きすぎます（上限 ${Math.round(getMaxRequestBytes() / 1024 / 1024)}MB）` };
+  }
+  return null;
+}
+
+// 開発サーバーのホットリロードで数え直しにならないよう globalThis に置く
+const globalForLimits = globalThis as typeof globalThis & { minutesRateLimits?: Map<string, number[]> };
+
+/**
+ * key（利用者・ログインの接続元）のリクエストを1回数える。上限を超えていれば数えずに、次に受け付けられるまでの秒数を返す。
+ * 受け付けた場合は null。
+ */
+export function consumeRateLimit(key: string, { login = false, now = Date.now() }: { login?: boolean; now?: number } = {}): number | null {
+  const limit = login
+    ? envNumber("LOGIN_RATE_LIMIT_MAX", DEFAULT_LOGIN_RATE_LIMIT)
+    : envNumber("RATE_LIMIT_MAX", DEFAULT_RATE_LIMIT);
+  if (limit === 0) return null;
+  const windowMs = (envNumber("RATE_LIMIT_WINDOW_SEC", DEFAULT_WINDOW_SEC) || DEFAULT_WINDOW_SEC) * 1000;
+
+  const buckets = (globalForLimits.minutesRateLimits ??= new Map<string, number[]>());
+  const recent = (buckets.get(key) ?? []).filter((t) => t > now - windowMs);
+  if (recent.length >= limit) {
+    buckets.set(key, recent);
+    return Math.max(Math.ceil((recent[0] + windowMs - now) / 1000), 1);
+  }
+  recent.push(now);
+  buckets.set(key, recent);
+  return null;
+}
+
+export function isProxyTrusted(): boolean {
+  return process.env.TRUST_PROXY === "1";
+}
+
+/**
+ * 認証なしで使う場合の利用者の代わり。TRUST_PROXY=1 ならリバースプロキシの x-forwarded-for・x-real-ip、
+ * そうでなければ（ヘッダーは利用者が自由に送れるので）全員で1つ。
+ * x-forwarded-for はプロキシが末尾に追加するので、利用者が送った値を避けて最後のものを使う。
+ */
+export function clientAddress(req: NextRequest): string {
+  if (!isProxyTrusted()) return "local";
+  const forwarded = req.headers.get("x-forwarded-for")?.split(",").map((a) => a.trim()).filter(Boolean);
+  return forwarded?.at(-1) || req.headers.get("x-real-ip") || "local";
+}
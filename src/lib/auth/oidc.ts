@@ -0,0 +1,233 @@
+/**
+ * OpenID Connect の認可コードフロー（PKCE つき）でログインする。
+ * ID トークンは発行者の JWKS で署名を検証し、iss・aud・exp・nonce を確かめる（OpenID Connect Core 3.1.3.7）。
+ * 利用者をメールアドレスで照合する場合は、発行者が確認済み（email_verified）のものだけを受け付ける。
+ *
+ * 環境変数:
+ *  - OIDC_ISSUER: 発行者の URL（/.well-known/openid-configuration を読む）
+ *  - OIDC_CLIENT_ID, OIDC_CLIENT_SECRET
+ *  - OIDC_REDIRECT_URI: 未指定なら <アクセスされたオリジン>/api/auth/oidc/callback
+ *  - OIDC_SCOPES: 既定 "openid profile email"
+ *  - OIDC_USER_CLAIM: 設定ファイルの利用者 id と照合するクレーム（既定 email。email_verified が true でなければ拒否する）
+ */
+import { constants, createHash, createPublicKey, randomBytes, verify, type JsonWebKey, type KeyObject } from "crypto";
+import type { NextRequest } from "next/server";
+import { AuthConfigError } from "./config";
+import { sealValue, unsealValue } from "./session";
+import type { SessionUser } from "./types";
+
+export class OidcError extends Error {}
+
+type OidcSettings = {
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  scopes: string;
+  userClaim: string;
+};
+
+type Discovery = {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+};
+
+type Jwk = JsonWebKey & { kid?: string; use?: string; alg?: string };
+
+/** ログイン途中に Cookie で持つ値 */
+type PendingLogin = { state: string; nonce: string; verifier: string };
+
+// ログイン画面から戻ってくるまでの時間の上限
+const PENDING_SECONDS = 600;
+
+function getOidcSettings(req: NextRequest): OidcSettings {
+  const issuer = process.env.OIDC_ISSUER?.replace(/\/+$/, "");
+  const clientId = process.env.OIDC_CLIENT_ID;
+  const clientSecret = process.env.OIDC_CLIENT_SECRET;
+  if (!issuer || !clientId || !clientSecret) {
+    throw new AuthConfigError("OIDC_ISSUER・OIDC_CLIENT_ID・OIDC_CLIENT_SECRET を設定してください");
+  }
+  return {
+    issuer,
+    clientId,
+    clientSecret,
+    redirectUri: process.env.OIDC_REDIRECT_URI || `${req.nextUrl.origin}/api/auth/oidc/callback`,
+    scopes: process.env.OIDC_SCOPES || "openid profile email",
+    userClaim: process.env.OIDC_USER_CLAIM || "email",
+  };
+}
+
+let discoveryCache: { issuer: string; discovery: Discovery } | null = null;
+
+async function discover(issuer: string): Promise<Discovery> {
+  if (discoveryCache?.issuer === issuer) return discoveryCache.discovery;
+  let discovery: Discovery;
+  try {
+    const res = await fetch(`${issuer}/.well-known/openid-configuration`, { signal: AbortSignal.timeout(10_000) });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    discovery = await res.json();
+  } catch (e) {
+    throw new OidcError(`OIDC の設定を取得できませんでした: ${e instanceof Error ? e.message : e}`);
+  }
+  if (
+    discovery.issuer?.replace(/\/+$/, "") !== issuer ||
+    !discovery.authorization_endpoint ||
+    !discovery.token_endpoint ||
+    !discovery.jwks_uri
+  ) {
+    throw new OidcError("OIDC の設定が OIDC_ISSUER と一致しません");
+  }
+  discoveryCache = { issuer, discovery };
+  return discovery;
+}
+
+const random = () => randomBytes(32).toString("base64url");
+
+/** 発行者のログイン画面の URL と、戻ってきたときに照合する値（Cookie に入れる） */
+export async function startOidcLogin(req: NextRequest): Promise<{ url: string; pending: string; maxAge: number }> {
+  const settings = getOidcSettings(req);
+  const discovery = await discover(settings.issuer);
+  const pending: PendingLogin = { state: random(), nonce: random(), verifier: random() };
+  const url = new URL(discovery.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: "code",
+    client_id: settings.clientId,
+    redirect_uri: settings.redirectUri,
+    scope: settings.scopes,
+    state: pending.state,
+    nonce: pending.nonce,
+    code_challenge: createHash("sha256").update(pending.verifier).digest("base64url"),
+    code_challenge_method: "S256",
+  }).toString();
+  return { url: url.toString(), pending: sealValue(pending, PENDING_SECONDS), maxAge: PENDING_SECONDS };
+}
+
+let jwksCache: { uri: string; keys: Jwk[] } | null = null;
+
+async function fetchJwks(uri: string, refresh: boolean): Promise<Jwk[]> {
+  if (!refresh && jwksCache?.uri === uri) return jwksCache.keys;
+  let keys: unknown;
+  try {
+    const res = await fetch(uri, { signal: AbortSignal.timeout(10_000) });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    keys = (await res.json())?.keys;
+  } catch (e) {
+    throw new OidcError(`ID トークンの検証鍵（JWKS）を取得できませんでした: ${e instanceof Error ? e.message : e}`);
+  }
+  if (!Array.isArray(keys)) throw new OidcError("ID トークンの検証鍵（JWKS）の形式が不正です");
+  jwksCache = { uri, keys };
+  return keys;
+}
+
+/** JWS の alg ごとの検証方法。none・HS256 など発行者の公開鍵で検証できないものは受け付けない */
+const ALGORITHMS: Record<string, { kty: string; hash: string | null; options?: object }> = {
+  RS256: { kty: "RSA", hash: "sha256" },
+  RS384: { kty: "RSA", hash: "sha384" },
+  RS512: { kty: "RSA", hash: "sha512" },
+  PS256: { kty: "RSA", hash: "sha256", options: { padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: constants.RSA_PSS_SALTLEN_DIGEST } },
+  PS384: { kty: "RSA", hash: "sha384", options: { padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: constants.RSA_PSS_SALTLEN_DIGEST } },
+  PS512: { kty: "RSA", hash: "sha512", options: { padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: constants.RSA_PSS_SALTLEN_DIGEST } },
+  ES256: { kty: "EC", hash: "sha256", options: { dsaEncoding: "ieee-p1363" } },
+  ES384: { kty: "EC", hash: "sha384", options: { dsaEncoding: "ieee-p1363" } },
+  ES512: { kty: "EC", hash: "sha512", options: { dsaEncoding: "ieee-p1363" } },
+  EdDSA: { kty: "OKP", hash: null },
+};
+
+function decodePart(part: string | undefined): Record<string, unknown> {
+  try {
+    const value = JSON.parse(Buffer.from(part ?? "", "base64url").toString("utf8"));
+    if (typeof value !== "object" || value === null) throw new Error();
+    return value;
+  } catch {
+    throw new OidcError("ID トークンを読み取れません");
+  }
+}
+
+/** ID トークンの署名を発行者の JWKS で検証し、クレームを返す */
+async function verifyIdToken(token: string, jwksUri: string): Promise<Record<string, unknown>> {
+  const [headerPart, payloadPart, signaturePart, ...rest] = token.split(".");
+  if (!signaturePart || rest.length) throw new OidcError("ID トークンを読み取れません");
+  const header = decodePart(headerPart);
+  const algorithm = typeof header.alg === "string" ? ALGORITHMS[header.alg] : undefined;
+  if (!algorithm) throw new OidcError(`ID トークンの署名方式に対応していません: ${header.alg}`);
+
+  const matches = (keys: Jwk[]) =>
+    keys.filter(
+      (k) =>
+        k.kty === algorithm.kty &&
+        (k.use === undefined || k.use === "sig") &&
+        (k.alg === undefined || k.alg === header.alg) &&
+        (header.kid === undefined || k.kid === header.kid)
+    );
+  // 鍵の入れ替え直後は、キャッシュにない kid で署名されていることがある
+  let candidates = matches(await fetchJwks(jwksUri, false));
+  if (candidates.length === 0) candidates = matches(await fetchJwks(jwksUri, true));
+  if (candidates.length === 0) throw new OidcError("ID トークンの検証鍵が見つかりません");
+
+  const data = Buffer.from(`${headerPart}.${payloadPart}`);
+  const signature = Buffer.from(signaturePart, "base64url");
+  const verified = candidates.some((jwk) => {
+    let key: KeyObject;
+    try {
+      key = createPublicKey({ key: jwk, format: "jwk" });
+    } catch {
+      return false;
+    }
+    return verify(algorithm.hash, data, { key, ...algorithm.options }, signature);
+  });
+  if (!verified) throw new OidcError("ID トークンの署名が正しくありません");
+  return decodePart(payloadPart);
+}
+
+/** 戻ってきた認可コードをトークンに交換し、利用者を返す */
+export async function completeOidcLogin(req: NextRequest, pendingCookie: string | undefined): Promise<SessionUser> {
+  const params = req.nextUrl.searchParams;
+  if (params.get("error")) throw new OidcError(`ログインが拒否されました: ${params.get("error_description") || params.get("error")}`);
+  const pending = unsealValue<PendingLogin>(pendingCookie);
+  if (!pending || params.get("state") !== pending.state) throw new OidcError("ログインの有効期限が切れました。もう一度ログインしてください");
+  const code = params.get("code");
+  if (!code) throw new OidcError("認可コードがありません");
+
+  const settings = getOidcSettings(req);
+  const discovery = await discover(settings.issuer);
+  const res = await fetch(discovery.token_endpoint, {
+    method: "POST",
+    headers: {
+      "content-type": "application/x-www-form-urlencoded",
+      authorization: `Basic ${Buffer.from(
+        `${encodeURIComponent(settings.clientId)}:${encodeURIComponent(settings.clientSecret)}`
+      ).toString("base64")}`,
+    },
+    body: new URLSearchParams({
+      grant_type: "authorization_code",
+      code,
+      redirect_uri: settings.redirectUri,
+      code_verifier: pending.verifier,
+    }),
+    signal: AbortSignal.timeout(10_000),
+  }).catch((e) => {
+    throw new OidcError(`トークンを取得できませんでした: ${e instanceof Error ? e.message : e}`);
+  });
+  const tokens = await res.json().catch(() => ({}));
+  if (!res.ok || typeof tokens.id_token !== "string") {
+    throw new OidcError(`トークンを取得できませんでした（HTTP ${res.status}）${tokens.error ? `: ${tokens.error}` : ""}`);
+  }
+
+  const claims = await verifyIdToken(tokens.id_token, discovery.jwks_uri);
+  const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (claims.iss !== discovery.issuer) throw new OidcError("ID トークンの発行者が一致しません");
+  if (!audience.includes(settings.clientId)) throw new OidcError("ID トークンの宛先が一致しません");
+  if (typeof claims.exp !== "number" || claims.exp < Date.now() / 1000) throw new OidcError("ID トークンの有効期限が切れています");
+  if (claims.nonce !== pending.nonce) throw new OidcError("ID トークンの nonce が一致しません");
+
+  const id = claims[settings.userClaim];
+  if (typeof id !== "string" || !id) throw new OidcError(`ID トークンに ${settings.userClaim} がありません`);
+  // 確認していないメールアドレスで、設定ファイルのほかの利用者（の権限）になりすませないようにする
+  if (settings.userClaim === "email" && claims.email_verified !== true) {
+    throw new OidcError("メールアドレスが確認されていません（email_verified）。発行者でメールアドレスを確認してください");
+  }
+  const name = [claims.name, claims.preferred_username].find((v): v is string => typeof v === "string" && v !== "") ?? id;
+  return { id, name };
+}
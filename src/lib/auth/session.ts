@@ -0,0 +1,98 @@
+/**
+ * ログイン状態を署名つきの Cookie で持つ（サーバーには保存しない）。
+ * 値は「base64url(JSON).署名」で、署名は AUTH_SECRET による HMAC-SHA256。
+ */
+import { createHmac, timingSafeEqual } from "crypto";
+import type { NextRequest } from "next/server";
+import { getAuthSecret, getSessionSeconds } from "./config";
+import type { SessionUser } from "./types";
+
+export const SESSION_COOKIE = "minutes_session";
+/** 選択中のワークスペース。権限はリクエストごとに設定ファイルで確かめる */
+export const WORKSPACE_COOKIE = "minutes_workspace";
+/** OIDC のログイン途中の state・nonce など */
+export const OIDC_COOKIE = "minutes_oidc";
+
+export type Session = SessionUser & {
+  via: "local" | "oidc";
+  /** 有効期限（UNIX 秒） */
+  exp: number;
+};
+
+function sign(body: string): string {
+  return createHmac("sha256", getAuthSecret()).update(body).digest("base64url");
+}
+
+/** 値に有効期限（exp）を含めて署名する */
+export function sealValue(value: object, maxAgeSeconds: number): string {
+  const body = Buffer.from(JSON.stringify({ ...value, exp: Math.floor(Date.now() / 1000) + maxAgeSeconds })).toString(
+    "base64url"
+  );
+  return `${body}.${sign(body)}`;
+}
+
+/** 署名が正しく期限内なら中身を返す。それ以外は null */
+export function unsealValue<T>(sealed: string | undefined): (T & { exp: number }) | null {
+  if (!sealed) return null;
+  const [body, signature] = sealed.split(".");
+  if (!body || !signature) return null;
+  const expected = Buffer.from(sign(body));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+  try {
+    const value = JSON.parse(Buffer.from(body, "base64url").toString("utf8"));
+    return typeof value?.exp === "number" && value.exp > Date.now() / 1000 ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+export function readSession(req: NextRequest): Session | null {
+  const session = unsealValue<Session>(req.cookies.get(SESSION_COOKIE)?.value);
+  return session && typeof session.id === "string" ? session : null;
+}
+
+type CookieOptions = {
+  /** 0 で削除 */
+  maxAge: number;
+  httpOnly?: boolean;
+  secure: boolean;
+};
+
+export function serializeCookie(name: string, value: string, { maxAge, httpOnly = true, secure }: CookieOptions): string {
+  return [
+    `${name}=${encodeURIComponent(value)}`,
+    "Path=/",
+    `Max-Age=${maxAge}`,
+    "SameSite=Lax",
+    httpOnly ? "HttpOnly" : "",
+    secure ? "Secure" : "",
+  ]
+    .filter(Boolean)
+    .join("; ");
+}
+
+/** HTTPS で受けたリクエストなら Secure をつける（リバースプロキシの x-forwarded-proto も見る） */
+export function isSecureRequest(req: NextRequest): boolean {
+  return req.nextUrl.protocol === "https:" || req.headers.get("x-forwarded-proto") === "https";
+}
+
+export function sessionCookie(req: NextRequest, user: SessionUser, via: Session["via"]): string {
+  const maxAge = getSessionSeconds();
+  return serializeCookie(SESSION_COOKIE, sealValue({ id: user.id, name: user.name, via }, maxAge), {
+    maxAge,
+    secure: isSecureRequest(req),
+  });
+}
+
+export function workspaceCookie(req: NextRequest, workspaceId: string): string {
+  return serializeCookie(WORKSPACE_COOKIE, workspaceId, {
+    maxAge: 365 * 24 * 3600,
+    httpOnly: false,
+    secure: isSecureRequest(req),
+  });
+}
+
+export function clearCookie(req: NextRequest, name: string): string {
+  return serializeCookie(name, "", { maxAge: 0, secure: isSecureRequest(req) });
+}
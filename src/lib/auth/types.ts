@@ -0,0 +1,45 @@
+export type AuthMode = "none" | "local" | "oidc";
+
+/** viewer: 閲覧・書き出し / editor: 生成・編集 / admin: 削除・用語集の管理 */
+export type Role = "viewer" | "editor" | "admin";
+
+export type Workspace = {
+  /** 英小文字・数字・「-」「_」 */
+  id: string;
+  name: string;
+};
+
+/** 設定ファイル（AUTH_CONFIG_FILE）の利用者 */
+export type AuthUserConfig = {
+  /** ローカル認証ではログイン名、OIDC では OIDC_USER_CLAIM の値（既定はメールアドレス） */
+  id: string;
+  name?: string;
+  /** ローカル認証のパスワードのハッシュ（npm run hash-password で作る） */
+  password?: string;
+  /** ワークスペース ID ごとの権限 */
+  roles: Record<string, Role>;
+};
+
+export type AuthConfig = {
+  workspaces: Workspace[];
+  users: AuthUserConfig[];
+  /** 設定ファイルにない OIDC の利用者に与える権限（空なら設定ファイルにない利用者はログインできない） */
+  defaultRoles: Record<string, Role>;
+};
+
+export type SessionUser = {
+  id: string;
+  name: string;
+};
+
+export type Membership = Workspace & { role: Role };
+
+/** 認可を通ったリクエストの利用者と、操作対象のワークスペース */
+export type AuthContext = {
+  mode: AuthMode;
+  user: SessionUser;
+  workspace: Workspace;
+  role: Role;
+  /** 利用者が参加しているワークスペース（画面の切り替え用） */
+  memberships: Membership[];
+};
@@ -0,0 +1,323 @@
+/**
+ * 複数の文字起こしから議事録をまとめて作る（CLI: scripts/minutes-batch.ts）。
+ * 1件ずつ POST /api/minutes と同じ処理（prepareMinutesInput → generateMinutes）を行い、履歴にも保存する。
+ * POST /api/minutes/batch は入力の読み込み（sources.ts）だけを共有し、件ごとにジョブを登録する。
+ *
+ * 環境変数:
+ *  - BATCH_CONCURRENCY: 同時に処理する件数（既定 2、上限 BATCH_MAX_CONCURRENCY）
+ *  - BATCH_MAX_CONCURRENCY: リクエストで指定できる同時実行数の上限（既定 8）
+ *  - BATCH_MAX_RETRIES: レート制限で失敗したときの再試行回数（既定 3）
+ *  - BATCH_RETRY_BASE_MS: 再試行までの待ち時間の基準（既定 2000 ミリ秒、1回ごとに倍）
+ *  - BATCH_MAX_UNZIPPED_MB: zip を展開した文字起こしの合計の上限（既定 100）
+ *  - BATCH_MAX_FILES: POST /api/minutes/batch で一度に登録できる件数（既定 100）。リクエスト数の制限（RATE_LIMIT_MAX）とは別に数える
+ */
+import { createUsageMeter, withUsageMeter, type LLMProvider, type UsageMeter, type UsageSummary } from "../llm";
+import { formatCostUSD, summarizeUsage } from "../llm/cost";
+import { renderMinutesDocx } from "../export/docx";
+import { generateMinutes, prepareMinutesInput, prepareStyleGuidelines } from "../minutes/pipeline";
+import { readStyleSource } from "../minutes/style";
+import type { LanguageSetting, MinutesLanguage } from "../minutes/language";
+import type { MeetingInfo } from "../minutes/schema";
+import type { MinutesResponse } from "../minutes/stream";
+import { ISSUE_LABELS, MinutesValidationError, type MinutesIssueCode } from "../minutes/validate";
+import type { PromptTemplate } from "../prompts";
+import { createRedactor, withRedaction } from "../redaction";
+import type { StyleProfile } from "../storage";
+import { formatCsv } from "../csv";
+import type { IngestWarning } from "../ingest";
+import { mapWithConcurrency, withRetry } from "./run";
+import type { BatchSource } from "./sources";
+
+export type { BatchSource } from "./sources";
+export { BatchSourceError, readSourceFolder, readSourceUploads, readSourceZip } from "./sources";
+export { isRateLimitError } from "./run";
+
+export type BatchConfig = {
+  concurrency: number;
+  retries: number;
+  retryBaseMs: number;
+};
+
+export type BatchOptions = BatchConfig & {
+  provider: LLMProvider;
+  template: PromptTemplate;
+  /** 全件で共有する文体。ガイドラインは最初に1回だけ用意する */
+  styleProfile: StyleProfile | null;
+  styleFiles: File[];
+  redactTerms: string[] | null;
+  glossary: boolean;
+  /** 省略時は書き起こしから言語を判定し、日本語で出力する */
+  language?: LanguageSetting;
+  /** 履歴を保存するワークスペース（省略時は既定のワークスペース） */
+  workspaceId?: string;
+  signal?: AbortSignal;
+  /** 1件終わるごとに呼ぶ（進捗表示用） */
+  onItem?: (item: BatchItemReport, done: number, total: number) => void;
+};
+
+export type BatchItemStatus = "done" | "failed" | "cancelled";
+
+export type BatchItemReport = {
+  file: string;
+  status: BatchItemStatus;
+  meeting: MeetingInfo;
+  meetingId: string | null;
+  /** 試行した回数（レート制限で再試行した場合は 2 以上） */
+  attempts: number;
+  durationMs: number;
+  /** この件について出力したファイル（出力先からの相対パス） */
+  outputs: string[];
+  /** 成功した回の LLM の使用量 */
+  usage: UsageSummary | null;
+  error: string | null;
+  /** 出力の検証で失敗した場合の問題の種類 */
+  errorCode: MinutesIssueCode | null;
+};
+
+export type BatchReport = {
+  startedAt: string;
+  finishedAt: string;
+  provider: string;
+  templateId: string;
+  styleProfileId: string | null;
+  concurrency: number;
+  total: number;
+  succeeded: number;
+  failed: number;
+  /** スタイルファイルのうち読めなかった・一部だけ読めたもの */
+  styleWarnings: IngestWarning[];
+  /** 共有ガイドラインの用意を含む、全件の LLM の使用量 */
+  usage: UsageSummary;
+  items: BatchItemReport[];
+};
+
+export type BatchOutputFile = { path: string; data: Buffer | string };
+
+export type BatchRun = {
+  report: BatchReport;
+  files: BatchOutputFile[];
+};
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/** 環境変数の設定に、リクエスト・コマンドラインの指定を重ねる。同時実行数は上限で切る */
+export function resolveBatchConfig(overrides: Partial<BatchConfig> = {}): BatchConfig {
+  const max = Math.max(envNumber("BATCH_MAX_CONCURRENCY", 8), 1);
+  const concurrency = overrides.concurrency || envNumber("BATCH_CONCURRENCY", 2);
+  return {
+    concurrency: Math.min(Math.max(Math.floor(concurrency), 1), max),
+    retries: overrides.retries ?? envNumber("BATCH_MAX_RETRIES", 3),
+    retryBaseMs: overrides.retryBaseMs ?? envNumber("BATCH_RETRY_BASE_MS", 2000),
+  };
+}
+
+const DATE_IN_NAME = /(\d{4})[-_.]?(\d{2})[-_.]?(\d{2})/;
+
+/** ファイル名から会議名と開催日を推測する（「2024-05-10_定例.vtt」→ 定例 / 2024-05-10） */
+export function meetingFromFileName(path: string): MeetingInfo {
+  const base = path.split("/").pop()!.replace(/\.[^.]+$/, "");
+  const m = DATE_IN_NAME.exec(base);
+  if (!m) return { title: base, date: "" };
+  const title = base.replace(m[0], "").replace(/^[\s_\-.]+|[\s_\-.]+$/g, "");
+  return { title: title || base, date: `${m[1]}-${m[2]}-${m[3]}` };
+}
+
+// 件ごとの出力と重ならないよう、レポートの名前は予約しておく
+const REPORT_FILES = ["report.json", "report.csv"];
+const OUTPUT_LANGUAGES: MinutesLanguage[] = ["ja", "en"];
+
+/** 件ごとに出力しうるファイル（日英併記なら翻訳の .docx も） */
+function outputPaths(base: string): string[] {
+  return [`${base}.json`, `${base}.docx`, ...OUTPUT_LANGUAGES.map((lang) => `${base}.${lang}.docx`)];
+}
+
+/**
+ * 件ごとの出力ファイル名（拡張子なし）を決める。拡張子だけが違う入力（a.txt と a.vtt）や report.* と重なる場合は
+ * 「-2」「-3」… をつける。大文字小文字だけの違いも、展開先によっては同じファイルになるので重なりとみなす。
+ * 「..」や先頭の「/」は取り除き、出力先の外に書き出させない。
+ */
+export function assignOutputBases(names: string[]): string[] {
+  const used = new Set(REPORT_FILES);
+  return names.map((name) => {
+    const parts = name.split("/").filter((part) => part && part !== "." && part !== "..");
+    const base = (parts.join("/") || "minutes").replace(/\.[^./]+$/, "");
+    let candidate = base;
+    for (let n = 2; outputPaths(candidate).some((p) => used.has(p.toLowerCase())); n++) candidate = `${base}-${n}`;
+    for (const p of outputPaths(candidate)) used.add(p.toLowerCase());
+    return candidate;
+  });
+}
+
+function errorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
+
+/** 共有する文体ガイドラインを1回だけ用意する。伏せ字の指定があればここでも伏せる */
+async function prepareSharedGuidelines(
+  options: BatchOptions,
+  usage: UsageMeter
+): Promise<{ guidelines: string; warnings: IngestWarning[] }> {
+  const { provider, styleProfile, styleFiles, redactTerms, signal } = options;
+  if (!styleProfile && styleFiles.length === 0) return { guidelines: "", warnings: [] };
+  const llm = withUsageMeter(redactTerms ? withRedaction(provider, createRedactor({ terms: redactTerms })) : provider, usage);
+  const styleSource = await readStyleSource(styleFiles);
+  const { value } = await withRetry(
+    () => prepareStyleGuidelines(llm, { styleSource, styleProfile }, () => {}, signal),
+    { retries: options.retries, baseDelayMs: options.retryBaseMs, signal }
+  );
+  return { guidelines: value, warnings: styleSource?.warnings ?? [] };
+}
+
+/** 全件を処理し、件ごとの結果（.json / .docx）とレポート（report.json / report.csv）を返す */
+export async function runMinutesBatch(sources: BatchSource[], options: BatchOptions): Promise<BatchRun> {
+  const startedAt = new Date().toISOString();
+  const { provider, template, styleProfile, signal } = options;
+  console.log("バッチ開始:", sources.length, "件, 同時実行数:", options.concurrency);
+
+  const sharedUsage = createUsageMeter();
+  const { guidelines: styleGuidelines, warnings: styleWarnings } = await prepareSharedGuidelines(options, sharedUsage);
+  const files: BatchOutputFile[] = [];
+  const bases = assignOutputBases(sources.map((s) => s.name));
+  let done = 0;
+
+  const items = await mapWithConcurrency(sources, options.concurrency, async (source, index) => {
+    const meeting = meetingFromFileName(source.name);
+    const started = Date.now();
+    const item: BatchItemReport = {
+      file: source.name,
+      status: "cancelled",
+      meeting,
+      meetingId: null,
+      attempts: 0,
+      durationMs: 0,
+      outputs: [],
+      usage: null,
+      error: null,
+      errorCode: null,
+    };
+    if (signal?.aborted) return item;
+
+    try {
+      const { value, attempts } = await withRetry(
+        async () => {
+          // 伏せ字の対応表は試行ごとに作り直す
+          const input = await prepareMinutesInput({
+            transcript: source.text,
+            styleProfile,
+            styleGuidelines,
+            template,
+            meeting,
+            redactTerms: options.redactTerms,
+            glossary: options.glossary,
+            language: options.language,
+            workspaceId: options.workspaceId,
+          });
+          return generateMinutes(provider, input, () => {}, signal);
+        },
+        {
+          retries: options.retries,
+          baseDelayMs: options.retryBaseMs,
+          signal,
+          onRetry: (attempt, delayMs) =>
+            console.log(`レート制限のため再試行: ${source.name}（${attempt}回目, ${Math.round(delayMs / 1000)}秒後）`),
+        }
+      );
+      item.status = "done";
+      item.attempts = attempts;
+      item.meetingId = value.meetingId;
+      item.usage = value.usage;
+      item.outputs = await collectOutputs(bases[index], value, files);
+    } catch (e) {
+      item.status = signal?.aborted ? "cancelled" : "failed";
+      item.attempts = (e as { attempts?: number }).attempts ?? 1;
+      item.error = errorMessage(e);
+      item.errorCode = e instanceof MinutesValidationError ? e.issues[0].code : null;
+      console.error("バッチの1件が失敗しました:", source.name, item.error);
+    }
+    item.durationMs = Date.now() - started;
+    options.onItem?.(item, ++done, sources.length);
+    return item;
+  });
+
+  const report: BatchReport = {
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    provider: provider.name,
+    templateId: template.id,
+    styleProfileId: styleProfile?.id ?? null,
+    concurrency: options.concurrency,
+    total: items.length,
+    succeeded: items.filter((i) => i.status === "done").length,
+    failed: items.filter((i) => i.status === "failed").length,
+    styleWarnings,
+    usage: summarizeUsage([...sharedUsage.calls(), ...items.flatMap((i) => i.usage?.calls ?? [])]),
+    items,
+  };
+  files.push(
+    { path: "report.json", data: JSON.stringify(report, null, 2) },
+    { path: "report.csv", data: reportToCsv(report) }
+  );
+  console.log(
+    "バッチ完了:",
+    report.succeeded,
+    "件成功,",
+    report.failed,
+    "件失敗, 費用:",
+    report.usage.costUSD === null ? "不明" : formatCostUSD(report.usage.costUSD)
+  );
+  return { report, files };
+}
+
+async function collectOutputs(base: string, result: MinutesResponse, files: BatchOutputFile[]): Promise<string[]> {
+  const outputs: BatchOutputFile[] = [
+    { path: `${base}.json`, data: JSON.stringify(result, null, 2) },
+    { path: `${base}.docx`, data: await renderMinutesDocx(result) },
+  ];
+  // 日英併記の場合は翻訳も別の .docx にする
+  if (result.translation) {
+    outputs.push({
+      path: `${base}.${result.translation.language}.docx`,
+      data: await renderMinutesDocx({ ...result.translation.content, meeting: result.meeting }),
+    });
+  }
+  files.push(...outputs);
+  return outputs.map((o) => o.path);
+}
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = { done: "成功", failed: "失敗", cancelled: "中止" };
+
+export function reportToCsv(report: BatchReport): string {
+  return formatCsv([
+    [
+      "ファイル",
+      "状態",
+      "会議名",
+      "開催日",
+      "履歴 ID",
+      "試行回数",
+      "処理時間（秒）",
+      "入力トークン",
+      "出力トークン",
+      "費用（USD）",
+      "出力",
+      "エラー",
+    ],
+    ...report.items.map((i) => [
+      i.file,
+      STATUS_LABELS[i.status],
+      i.meeting.title,
+      i.meeting.date,
+      i.meetingId ?? "",
+      String(i.attempts),
+      (i.durationMs / 1000).toFixed(1),
+      i.usage ? String(i.usage.promptTokens) : "",
+      i.usage ? String(i.usage.completionTokens) : "",
+      i.usage?.costUSD != null ? i.usage.costUSD.toFixed(4) : "",
+      i.outputs.join(" "),
+      i.errorCode ? `${ISSUE_LABELS[i.errorCode]}: ${i.error}` : i.error ?? "",
+    ]),
+  ]);
+}
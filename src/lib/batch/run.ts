@@ -0,0 +1,83 @@
+/**
+ * 同時実行数の上限つきで順に処理し、レート制限（429）は待ってから再試行する。
+ */
+
+export type RetryOptions = {
+  /** 最初の試行のあと、何回まで再試行するか */
+  retries: number;
+  /** 再試行の待ち時間の基準。1回ごとに倍にする */
+  baseDelayMs: number;
+  signal?: AbortSignal;
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+};
+
+type HttpLikeError = {
+  status?: number;
+  code?: string;
+  headers?: Record<string, string | null | undefined> | { get(name: string): string | null };
+};
+
+export function isRateLimitError(e: unknown): boolean {
+  if (typeof e !== "object" || e === null) return false;
+  const { status, code } = e as HttpLikeError;
+  if (status === 429 || code === "rate_limit_exceeded") return true;
+  return e instanceof Error && /rate.?limit|too many requests/i.test(e.message);
+}
+
+/** Retry-After ヘッダー（秒）があればその時間を返す */
+function retryAfterMs(e: unknown): number | null {
+  const headers = (e as HttpLikeError).headers;
+  if (!headers) return null;
+  const value = typeof headers.get === "function" ? headers.get("retry-after") : (headers as Record<string, string>)["retry-after"];
+  const seconds = Number(value);
+  return value && Number.isFinite(seconds) ? seconds * 1000 : null;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+/** レート制限のときだけ再試行する。返り値の attempts は試行した回数 */
+export async function withRetry<T>(
+  task: () => Promise<T>,
+  { retries, baseDelayMs, signal, onRetry }: RetryOptions
+): Promise<{ value: T; attempts: number }> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return { value: await task(), attempts: attempt };
+    } catch (e) {
+      if (attempt > retries || !isRateLimitError(e) || signal?.aborted) {
+        throw Object.assign(e instanceof Error ? e : new Error(String(e)), { attempts: attempt });
+      }
+      // 複数のワーカーが同時に再開しないよう少しずらす
+      const delayMs = retryAfterMs(e) ?? baseDelayMs * 2 ** (attempt - 1) * (1 + Math.random() * 0.25);
+      onRetry?.(attempt, delayMs, e);
+      await sleep(delayMs, signal);
+    }
+  }
+}
+
+/** items を concurrency 個ずつ並行して処理する。結果は items と同じ順に返す */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.min(Math.max(concurrency, 1), items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
@@ -0,0 +1,185 @@
+/**
+ * バッチ処理の入力（文字起こしファイル）を集める。フォルダ・zip・アップロードされたファイルに対応する。
+ * 文字起こし以外のファイルと、隠しファイル・__MACOSX などは無視する。
+ */
+import { readFile, readdir } from "fs/promises";
+import { join, relative, sep } from "path";
+import { inflateRawSync } from "zlib";
+import { isTranscriptFile } from "../transcript/transcript-files";
+
+/** 読めない・大きすぎる入力 */
+export class BatchSourceError extends Error {
+  /** API で返す HTTP ステータス（壊れた zip などは 400、大きすぎる・多すぎるものは 413） */
+  status: 400 | 413;
+
+  constructor(message: string, status: 400 | 413 = 413) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export type BatchSource = {
+  /** フォルダ・zip 内の相対パス（「/」区切り）。出力ファイル名にも使う */
+  name: string;
+  text: string;
+};
+
+function isIgnored(path: string): boolean {
+  return path.split("/").some((part) => part.startsWith(".") || part === "__MACOSX");
+}
+
+function sortSources(sources: BatchSource[]): BatchSource[] {
+  return sources.sort((a, b) => a.name.localeCompare(b.name, "ja", { numeric: true }));
+}
+
+/** フォルダ以下（サブフォルダを含む）の文字起こしを読む */
+export async function readSourceFolder(dir: string): Promise<BatchSource[]> {
+  const entries = await readdir(dir, { recursive: true, withFileTypes: true });
+  const sources: BatchSource[] = [];
+  for (const entry of entries) {
+    if (!entry.isFile()) continue;
+    const path = join(entry.parentPath, entry.name);
+    const name = relative(dir, path).split(sep).join("/");
+    if (isIgnored(name) || !isTranscriptFile(name)) continue;
+    sources.push({ name, text: await readFile(path, "utf8") });
+  }
+  return sortSources(sources);
+}
+
+const DEFAULT_MAX_UNZIPPED_MB = 100;
+const DEFAULT_MAX_FILES = 100;
+
+/** zip を展開した文字起こしの合計の上限（BATCH_MAX_UNZIPPED_MB） */
+export function getMaxUnzippedBytes(): number {
+  const mb = Number(process.env.BATCH_MAX_UNZIPPED_MB);
+  return (process.env.BATCH_MAX_UNZIPPED_MB && Number.isFinite(mb) && mb > 0 ? mb : DEFAULT_MAX_UNZIPPED_MB) * 1024 * 1024;
+}
+
+/** 1回のアップロードで受け付ける文字起こしの件数（BATCH_MAX_FILES） */
+export function getMaxBatchFiles(): number {
+  const max = Number(process.env.BATCH_MAX_FILES);
+  return process.env.BATCH_MAX_FILES && Number.isInteger(max) && max > 0 ? max : DEFAULT_MAX_FILES;
+}
+
+const CENTRAL_DIRECTORY_END = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const STORED = 0;
+const DEFLATED = 8;
+
+/** 中央ディレクトリに書かれた項目（大きさは展開前のもの。展開後の大きさは偽れるので読まない） */
+type ZipEntry = { name: string; flags: number; method: number; compressedSize: number; localOffset: number };
+
+function invalidZip(): BatchSourceError {
+  return new BatchSourceError("zip を読めません（壊れているか、zip64 など対応していない形式です）", 400);
+}
+
+/** UTF-8 として読めない名前（Windows の Shift_JIS など）は 1 バイトずつの文字にする */
+function decodeName(raw: Buffer): string {
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(raw);
+  } catch {
+    return raw.toString("latin1");
+  }
+}
+
+/** 末尾の終端レコード（後ろにコメントが最大 64KB つく）から中央ディレクトリを探し、項目の一覧を読む */
+function readZipEntries(zip: Buffer): ZipEntry[] {
+  let end = -1;
+  for (let i = zip.length - 22; i >= Math.max(zip.length - 22 - 0xffff, 0); i--) {
+    if (zip.readUInt32LE(i) === CENTRAL_DIRECTORY_END) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw invalidZip();
+  const count = zip.readUInt16LE(end + 10);
+  let offset = zip.readUInt32LE(end + 16);
+  const entries: ZipEntry[] = [];
+  for (let n = 0; n < count; n++) {
+    if (offset + 46 > zip.length || zip.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) throw invalidZip();
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const next = offset + 46 + nameLength + zip.readUInt16LE(offset + 30) + zip.readUInt16LE(offset + 32);
+    if (next > zip.length) throw invalidZip();
+    entries.push({
+      name: decodeName(zip.subarray(offset + 46, offset + 46 + nameLength)),
+      flags: zip.readUInt16LE(offset + 8),
+      method: zip.readUInt16LE(offset + 10),
+      compressedSize: zip.readUInt32LE(offset + 20),
+      localOffset: zip.readUInt32LE(offset + 42),
+    });
+    offset = next;
+  }
+  return entries;
+}
+
+/** 項目の展開前の中身。位置はローカルヘッダーの名前・拡張フィールドの長さから求める */
+function compressedContent(zip: Buffer, entry: ZipEntry): Buffer {
+  const header = entry.localOffset;
+  if (header + 30 > zip.length || zip.readUInt32LE(header) !== LOCAL_FILE_HEADER) throw invalidZip();
+  const start = header + 30 + zip.readUInt16LE(header + 26) + zip.readUInt16LE(header + 28);
+  if (start + entry.compressedSize > zip.length) throw invalidZip();
+  return zip.subarray(start, start + entry.compressedSize);
+}
+
+/**
+ * 項目を展開する。zip に書かれた展開後の大きさは信用せず、残りの上限を超えた時点で展開をやめる
+ * （小さな zip が巨大なファイルに展開される zip 爆弾でメモリを使い切らせない）。
+ */
+function unzipEntry(zip: Buffer, entry: ZipEntry, remaining: number): Uint8Array {
+  const tooLarge = () =>
+    new BatchSourceError(`zip を展開した文字起こしが大きすぎます（上限 ${Math.round(getMaxUnzippedBytes() / 1024 / 1024)}MB）`);
+  if (entry.flags & 1) throw new BatchSourceError(`暗号化された zip には対応していません: ${entry.name}`, 400);
+  const content = compressedContent(zip, entry);
+  if (entry.method === STORED) {
+    if (content.length > remaining) throw tooLarge();
+    return content;
+  }
+  if (entry.method !== DEFLATED) throw new BatchSourceError(`対応していない圧縮方式です: ${entry.name}`, 400);
+  try {
+    return inflateRawSync(content, { maxOutputLength: Math.max(remaining, 1) });
+  } catch (e) {
+    if (e instanceof RangeError) throw tooLarge();
+    throw invalidZip();
+  }
+}
+
+function unzipSources(data: Buffer | ArrayBuffer, maxBytes: number): { sources: BatchSource[]; bytes: number } {
+  const zip = Buffer.isBuffer(data) ? data : Buffer.from(data);
+  const sources: BatchSource[] = [];
+  let bytes = 0;
+  for (const entry of readZipEntries(zip)) {
+    if (entry.name.endsWith("/") || isIgnored(entry.name) || !isTranscriptFile(entry.name)) continue;
+    const content = unzipEntry(zip, entry, maxBytes - bytes);
+    bytes += content.length;
+    sources.push({ name: entry.name, text: new TextDecoder().decode(content) });
+  }
+  return { sources: sortSources(sources), bytes };
+}
+
+/** zip の中の文字起こしを読む。展開した合計が BATCH_MAX_UNZIPPED_MB を超えれば BatchSourceError */
+export function readSourceZip(data: Buffer | ArrayBuffer): BatchSource[] {
+  return unzipSources(data, getMaxUnzippedBytes()).sources;
+}
+
+/**
+ * アップロードされたファイルを読む。zip は展開して中の文字起こしを使う（展開した大きさは全 zip の合計で制限する）。
+ * 件数が BATCH_MAX_FILES を超えれば BatchSourceError
+ */
+export async function readSourceUploads(files: File[]): Promise<BatchSource[]> {
+  const sources: BatchSource[] = [];
+  let remaining = getMaxUnzippedBytes();
+  for (const file of files) {
+    if (file.name.toLowerCase().endsWith(".zip")) {
+      const prefix = file.name.replace(/\.zip$/i, "");
+      const { sources: inner, bytes } = unzipSources(await file.arrayBuffer(), remaining);
+      remaining -= bytes;
+      sources.push(...inner.map((s) => ({ ...s, name: files.length > 1 ? `${prefix}/${s.name}` : s.name })));
+    } else if (isTranscriptFile(file.name)) {
+      sources.push({ name: file.name, text: await file.text() });
+    }
+  }
+  const max = getMaxBatchFiles();
+  if (sources.length > max) throw new BatchSourceError(`一度に登録できる文字起こしは ${max} 件までです（${sources.length} 件）`);
+  return sortSources(sources);
+}
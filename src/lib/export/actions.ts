@@ -0,0 +1,122 @@
+/**
+ * 議事録から宿題事項と次回の会議の日時を取り出し、予定表・課題管理ツール向けの書き出しに使う形にする。
+ * 期限は編集で自由な書き方になることがあるので、「2024-05-10」「5月10日」「5/10」「May 10」などを
+ * 会議の開催日を基準に日付として読む。読めないものは日付なし（予定表には載せない）とする。
+ */
+import type { MinutesDocument } from "../minutes/schema";
+
+export type ActionPlanItem = {
+  no: number;
+  task: string;
+  owner: string;
+  /** 議事録に書かれたままの期限 */
+  dueDate: string;
+  /** 期限を日付として読めた場合の YYYY-MM-DD */
+  due: string | null;
+  sourceQuote: string;
+};
+
+export type NextMeeting = {
+  /** YYYY-MM-DD */
+  date: string;
+  /** HH:MM。時刻の記載がなければ null */
+  time: string | null;
+  /** 日時を読み取った行 */
+  source: string;
+};
+
+export type ActionPlan = {
+  meeting: MinutesDocument["meeting"];
+  items: ActionPlanItem[];
+  nextMeeting: NextMeeting | null;
+};
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const NEXT_MEETING = /次回|next\s+meeting/i;
+
+function pad(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+/** 全角の数字・記号を半角にする */
+function toHalfWidth(text: string): string {
+  return text.replace(/[０-９／：－]/g, (ch) => String.fromCharCode(ch.charCodeAt(0) - 0xfee0));
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * 文中の最初の日付を YYYY-MM-DD にする。年のない日付は開催日（base）の年とし、
+ * 開催日より前になる場合は翌年とみなす。開催日が不明なら今日を基準にする。
+ */
+export function parseDateText(text: string, base: string): string | null {
+  const source = toHalfWidth(text);
+  const full = /(\d{4})\s*[-/.年]\s*(\d{1,2})\s*[-/.月]\s*(\d{1,2})/.exec(source);
+  if (full) return toIsoDate(Number(full[1]), Number(full[2]), Number(full[3]));
+
+  const baseDate = /^\d{4}-\d{2}-\d{2}$/.test(base) ? base : new Date().toISOString().slice(0, 10);
+  const withBaseYear = (month: number, day: number) => {
+    const year = Number(baseDate.slice(0, 4));
+    const date = toIsoDate(year, month, day);
+    return date && date < baseDate ? toIsoDate(year + 1, month, day) : date;
+  };
+
+  const japanese = /(\d{1,2})\s*月\s*(\d{1,2})\s*日/.exec(source);
+  if (japanese) return withBaseYear(Number(japanese[1]), Number(japanese[2]));
+  const slash = /(?<![\d/])(\d{1,2})\/(\d{1,2})(?![\d/])/.exec(source);
+  if (slash) return withBaseYear(Number(slash[1]), Number(slash[2]));
+  const english = /\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?\s+(\d{1,2})(?:st|nd|rd|th)?\b/i.exec(source);
+  if (english) return withBaseYear(MONTHS.indexOf(english[1].toLowerCase()) + 1, Number(english[2]));
+  return null;
+}
+
+/** 「14:00」「14時30分」「2pm」などを HH:MM にする */
+export function parseTimeText(text: string): string | null {
+  const source = toHalfWidth(text);
+  const clock = /(?<!\d)(\d{1,2}):(\d{2})(?!\d)/.exec(source);
+  if (clock && Number(clock[1]) < 24 && Number(clock[2]) < 60) return `${pad(Number(clock[1]))}:${clock[2]}`;
+  const japanese = /(午後)?\s*(\d{1,2})\s*時(?:\s*(\d{1,2})\s*分|半)?/.exec(source);
+  if (japanese) {
+    const hour = Number(japanese[2]) + (japanese[1] && Number(japanese[2]) < 12 ? 12 : 0);
+    const minute = japanese[3] ? Number(japanese[3]) : japanese[0].endsWith("半") ? 30 : 0;
+    if (hour < 24 && minute < 60) return `${pad(hour)}:${pad(minute)}`;
+  }
+  const english = /(?<!\d)(\d{1,2})\s*(am|pm)\b/i.exec(source);
+  if (english && Number(english[1]) <= 12) {
+    const hour = (Number(english[1]) % 12) + (english[2].toLowerCase() === "pm" ? 12 : 0);
+    return `${pad(hour)}:00`;
+  }
+  return null;
+}
+
+/** 「次回」「next meeting」を含む行（本文・決定事項・未決事項・要約の順）から日時を探す */
+export function findNextMeeting(doc: MinutesDocument): NextMeeting | null {
+  const lines = [doc.minutes, ...doc.decisions, ...doc.openQuestions, doc.summary]
+    .flatMap((text) => text.split(/\r?\n/))
+    .filter((line) => NEXT_MEETING.test(line));
+  for (const line of lines) {
+    // 「次回までに」のような宿題の期限ではなく、会議の日時を指す部分から読む
+    const from = line.search(NEXT_MEETING);
+    const date = parseDateText(line.slice(from), doc.meeting.date);
+    if (date) return { date, time: parseTimeText(line.slice(from)), source: line.replace(/^[\s#\-*・]+/, "").trim() };
+  }
+  return null;
+}
+
+export function extractActionPlan(doc: MinutesDocument): ActionPlan {
+  const items = doc.actionItems
+    .filter((a) => a.task.trim())
+    .map((a, i) => ({
+      no: i + 1,
+      task: a.task.trim(),
+      owner: a.owner.trim(),
+      dueDate: a.dueDate.trim(),
+      due: a.dueDate.trim() ? parseDateText(a.dueDate, doc.meeting.date) : null,
+      sourceQuote: a.sourceQuote,
+    }));
+  return { meeting: doc.meeting, items, nextMeeting: findNextMeeting(doc) };
+}
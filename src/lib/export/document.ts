@@ -0,0 +1,26 @@
+/**
+ * 書き出し用の API が受け取る議事録データ（フォームの document、または JSON のオブジェクト）を読む。
+ */
+import { normalizeMinutesContent, type MinutesDocument } from "../minutes/schema";
+
+/** 不正なら null */
+export function readMinutesDocument(value: unknown): MinutesDocument | null {
+  let parsed: unknown = value;
+  if (typeof value === "string") {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) return null;
+  const record = parsed as Record<string, unknown>;
+  const meeting = (record.meeting ?? {}) as Record<string, unknown>;
+  return {
+    ...normalizeMinutesContent(record),
+    meeting: {
+      title: typeof meeting.title === "string" ? meeting.title : "",
+      date: typeof meeting.date === "string" ? meeting.date : "",
+    },
+  };
+}
@@ -0,0 +1,182 @@
+/**
+ * 議事録を Word（.docx）に書き出す。
+ * テンプレート未指定の場合は docx で組み立て、指定された場合は docxtemplater で差し込む。
+ */
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  Footer,
+  Header,
+  HeadingLevel,
+  Packer,
+  PageNumber,
+  Paragraph,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+} from "docx";
+import Docxtemplater from "docxtemplater";
+import PizZip from "pizzip";
+import type { MinutesDocument } from "../minutes/schema";
+
+export class DocxTemplateError extends Error {}
+
+const FONT = "Yu Gothic";
+
+function nonEmpty(items: string[]): string[] {
+  return items.map((v) => v.trim()).filter(Boolean);
+}
+
+/** 見出し（#）・箇条書き（- ・ *）程度の Markdown を段落に変換する */
+function markdownParagraphs(text: string): Paragraph[] {
+  return text
+    .split(/\r?\n/)
+    .filter((line) => line.trim())
+    .map((line) => {
+      const heading = /^(#{1,3})\s+(.*)$/.exec(line.trim());
+      if (heading) {
+        const level = [HeadingLevel.HEADING_2, HeadingLevel.HEADING_3, HeadingLevel.HEADING_4][heading[1].length - 1];
+        return new Paragraph({ text: heading[2], heading: level });
+      }
+      const bullet = /^(\s*)[-・*]\s+(.*)$/.exec(line);
+      if (bullet) {
+        return new Paragraph({ text: bullet[2], bullet: { level: Math.min(Math.floor(bullet[1].length / 2), 3) } });
+      }
+      return new Paragraph({ text: line.trim() });
+    });
+}
+
+function section(title: string, items: string[]): Paragraph[] {
+  const values = nonEmpty(items);
+  if (values.length === 0) return [];
+  return [
+    new Paragraph({ text: title, heading: HeadingLevel.HEADING_1 }),
+    ...values.map((v) => new Paragraph({ text: v, bullet: { level: 0 } })),
+  ];
+}
+
+function cell(text: string, header = false): TableCell {
+  return new TableCell({
+    children: [new Paragraph({ children: [new TextRun({ text, bold: header })] })],
+    shading: header ? { fill: "E7EEF7" } : undefined,
+  });
+}
+
+function actionItemsTable(doc: MinutesDocument): (Paragraph | Table)[] {
+  const items = doc.actionItems.filter((a) => a.task.trim());
+  if (items.length === 0) return [];
+  const border = { style: BorderStyle.SINGLE, size: 4, color: "999999" };
+  return [
+    new Paragraph({ text: "宿題事項", heading: HeadingLevel.HEADING_1 }),
+    new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      borders: { top: border, bottom: border, left: border, right: border, insideHorizontal: border, insideVertical: border },
+      rows: [
+        new TableRow({ tableHeader: true, children: ["No.", "内容", "担当", "期限"].map((h) => cell(h, true)) }),
+        ...items.map(
+          (a, i) =>
+            new TableRow({
+              children: [cell(String(i + 1)), cell(a.task), cell(a.owner || "未定"), cell(a.dueDate || "未定")],
+            })
+        ),
+      ],
+    }),
+  ];
+}
+
+/** テンプレートなしで議事録の .docx を組み立てる */
+export async function renderMinutesDocx(doc: MinutesDocument): Promise<Buffer> {
+  const { title, date } = doc.meeting;
+  const document = new Document({
+    creator: "Minutes Studio",
+    title,
+    styles: { default: { document: { run: { font: FONT, size: 21 } } } },
+    sections: [
+      {
+        headers: {
+          default: new Header({
+            children: [
+              new Paragraph({
+                alignment: AlignmentType.RIGHT,
+                children: [new TextRun({ text: [title, date].filter(Boolean).join("　"), size: 16, color: "666666" })],
+              }),
+            ],
+          }),
+        },
+        footers: {
+          default: new Footer({
+            children: [
+              new Paragraph({
+                alignment: AlignmentType.CENTER,
+                children: [
+                  new TextRun({ children: [PageNumber.CURRENT, " / ", PageNumber.TOTAL_PAGES], size: 16 }),
+                ],
+              }),
+            ],
+          }),
+        },
+        children: [
+          new Paragraph({ text: title || "議事録", heading: HeadingLevel.TITLE }),
+          ...(date ? [new Paragraph({ text: `開催日: ${date}` })] : []),
+          ...(nonEmpty(doc.attendees).length ? [new Paragraph({ text: `出席者: ${nonEmpty(doc.attendees).join("、")}` })] : []),
+          ...(doc.summary ? [new Paragraph({ text: "要約", heading: HeadingLevel.HEADING_1 }), new Paragraph({ text: doc.summary })] : []),
+          ...section("議題", doc.agenda),
+          ...section("決定事項", doc.decisions),
+          ...actionItemsTable(doc),
+          ...section("未決事項", doc.openQuestions),
+          new Paragraph({ text: "議事録本文", heading: HeadingLevel.HEADING_1 }),
+          ...markdownParagraphs(doc.minutes),
+        ],
+      },
+    ],
+  });
+  return Packer.toBuffer(document);
+}
+
+type TemplateErrorDetail = { properties?: { explanation?: string; errors?: TemplateErrorDetail[] } };
+
+/** docxtemplater のエラー（複数のタグ誤りをまとめた Multi error を含む）を読める形にする */
+function describeTemplateError(e: unknown): string {
+  const detail = e as TemplateErrorDetail;
+  const errors = detail.properties?.errors ?? [detail];
+  const explanations = errors.map((err) => err.properties?.explanation).filter(Boolean);
+  if (explanations.length) return explanations.join(" / ");
+  return e instanceof Error ? e.message : String(e);
+}
+
+/**
+ * 会社指定のテンプレート（.docx）に差し込む。テンプレートで使えるタグ:
+ *  {title} {date} {summary} {minutes} {attendees}
+ *  {#agenda}{.}{/agenda} {#decisions}{.}{/decisions} {#openQuestions}{.}{/openQuestions}
+ *  {#actionItems}{no} {task} {owner} {dueDate}{/actionItems}
+ */
+export function fillDocxTemplate(template: Buffer, doc: MinutesDocument): Buffer {
+  let rendered: Docxtemplater;
+  try {
+    rendered = new Docxtemplater(new PizZip(template), {
+      paragraphLoop: true,
+      linebreaks: true,
+      nullGetter: () => "",
+    });
+    rendered.render({
+      title: doc.meeting.title,
+      date: doc.meeting.date,
+      summary: doc.summary,
+      minutes: doc.minutes,
+      attendees: nonEmpty(doc.attendees).join("、"),
+      agenda: nonEmpty(doc.agenda),
+      decisions: nonEmpty(doc.decisions),
+      openQuestions: nonEmpty(doc.openQuestions),
+      actionItems: doc.actionItems
+        .filter((a) => a.task.trim())
+        .map((a, i) => ({ no: i + 1, task: a.task, owner: a.owner || "未定", dueDate: a.dueDate || "未定" })),
+    });
+  } catch (e) {
+    // テンプレートのタグ誤りなど。利用者が直せるようにメッセージを返す
+    throw new DocxTemplateError(`テンプレートを処理できませんでした: ${describeTemplateError(e)}`);
+  }
+  return rendered.getZip().generate({ type: "nodebuffer" });
+}
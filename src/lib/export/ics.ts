@@ -0,0 +1,119 @@
+/**
+ * 宿題事項の期限と次回の会議を iCalendar（.ics、RFC 5545）にする。
+ * 期限は終日の予定、次回の会議は時刻があれば1時間の予定（時刻なしなら終日）として書く。
+ */
+import { createHash } from "crypto";
+import type { ActionPlan } from "./actions";
+
+export const ICS_CONTENT_TYPE = "text/calendar; charset=utf-8";
+
+// 次回の会議の時刻がわかる場合の長さ
+const MEETING_MINUTES = 60;
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+/** 75 オクテットごとに折り返す（マルチバイト文字の途中では切らない） */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let bytes = 0;
+  for (const ch of line) {
+    const size = Buffer.byteLength(ch);
+    // 2行目以降は先頭の空白1つ分を含めて数える
+    if (bytes + size > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = "";
+      bytes = 0;
+    }
+    current += ch;
+    bytes += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+const compactDate = (date: string) => date.replace(/-/g, "");
+
+function nextDay(date: string): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().slice(0, 10);
+}
+
+function localDateTime(date: string, time: string, addMinutes = 0): string {
+  const d = new Date(`${date}T${time}:00Z`);
+  d.setUTCMinutes(d.getUTCMinutes() + addMinutes);
+  return d.toISOString().slice(0, 19).replace(/[-:]/g, "");
+}
+
+/** 同じ議事録から書き出し直しても、カレンダー側で重複しないよう内容から決める */
+function uid(...parts: string[]): string {
+  return `${createHash("sha256").update(parts.join("\n")).digest("hex").slice(0, 24)}@minutes-studio`;
+}
+
+export type IcsResult = {
+  ics: string;
+  events: number;
+  /** 期限を日付として読めず、載せなかった宿題事項 */
+  skipped: number;
+};
+
+export function renderActionPlanIcs(plan: ActionPlan, now = new Date()): IcsResult {
+  const stamp = now.toISOString().slice(0, 19).replace(/[-:]/g, "") + "Z";
+  const meetingLabel = [plan.meeting.title, plan.meeting.date].filter(Boolean).join(" ");
+  const events: string[][] = [];
+
+  for (const item of plan.items) {
+    if (!item.due) continue;
+    events.push([
+      `UID:${uid(meetingLabel, String(item.no), item.task)}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${compactDate(item.due)}`,
+      `DTEND;VALUE=DATE:${compactDate(nextDay(item.due))}`,
+      `SUMMARY:${escapeText(`【宿題】${item.task}${item.owner ? `（${item.owner}）` : ""}`)}`,
+      `DESCRIPTION:${escapeText(
+        [
+          meetingLabel && `会議: ${meetingLabel}`,
+          `担当: ${item.owner || "未定"}`,
+          `期限: ${item.dueDate}`,
+          item.sourceQuote && `発言: ${item.sourceQuote}`,
+        ]
+          .filter(Boolean)
+          .join("\n")
+      )}`,
+      "CATEGORIES:宿題事項",
+    ]);
+  }
+
+  const next = plan.nextMeeting;
+  if (next) {
+    // 時刻はタイムゾーンを指定しない（カレンダーを開いた環境の時刻として扱われる）
+    const timing = next.time
+      ? [`DTSTART:${localDateTime(next.date, next.time)}`, `DTEND:${localDateTime(next.date, next.time, MEETING_MINUTES)}`]
+      : [`DTSTART;VALUE=DATE:${compactDate(next.date)}`, `DTEND;VALUE=DATE:${compactDate(nextDay(next.date))}`];
+    events.push([
+      `UID:${uid(meetingLabel, "next-meeting", next.date)}`,
+      `DTSTAMP:${stamp}`,
+      ...timing,
+      `SUMMARY:${escapeText(`次回: ${plan.meeting.title || "会議"}`)}`,
+      `DESCRIPTION:${escapeText(next.source)}`,
+    ]);
+  }
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Minutes Studio//Action Items//JA",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    ...events.flatMap((event) => ["BEGIN:VEVENT", ...event, "END:VEVENT"]),
+    "END:VCALENDAR",
+  ];
+  return {
+    ics: lines.map(foldLine).join("\r\n") + "\r\n",
+    events: events.length,
+    skipped: plan.items.filter((i) => !i.due).length,
+  };
+}
@@ -0,0 +1,95 @@
+/**
+ * 宿題事項を課題管理ツールに取り込める形にする。CSV と、Backlog / Jira / GitHub の課題作成 API の
+ * リクエストの形をした JSON を作る（送信はしない。プロジェクトや担当者の ID は取り込む側で補う）。
+ */
+import { formatCsv } from "../csv";
+import type { ActionPlan, ActionPlanItem } from "./actions";
+
+export type TrackerFormat = "backlog" | "jira" | "github";
+
+export const TRACKER_FORMATS: TrackerFormat[] = ["backlog", "jira", "github"];
+
+export const TRACKER_LABELS: Record<TrackerFormat, string> = {
+  backlog: "Backlog",
+  jira: "Jira",
+  github: "GitHub Issues",
+};
+
+export function isTrackerFormat(value: unknown): value is TrackerFormat {
+  return TRACKER_FORMATS.includes(value as TrackerFormat);
+}
+
+export type TrackerOptions = {
+  /** Backlog の projectId、Jira のプロジェクトキー。省略時は空（取り込む側で補う） */
+  project?: string;
+};
+
+// 課題につけるラベル（Jira / GitHub）
+const LABEL = "minutes";
+
+export function actionPlanToCsv(plan: ActionPlan): string {
+  return formatCsv([
+    ["No.", "内容", "担当", "期限", "期限（日付）", "根拠となる発言", "会議名", "開催日"],
+    ...plan.items.map((i) => [
+      String(i.no),
+      i.task,
+      i.owner,
+      i.dueDate,
+      i.due ?? "",
+      i.sourceQuote,
+      plan.meeting.title,
+      plan.meeting.date,
+    ]),
+  ]);
+}
+
+/** 課題の説明文。担当者は ID に変換できないので本文に書く */
+function describe(plan: ActionPlan, item: ActionPlanItem): string {
+  return [
+    `担当: ${item.owner || "未定"}`,
+    `期限: ${item.dueDate || "未定"}`,
+    plan.meeting.title || plan.meeting.date ? `会議: ${[plan.meeting.title, plan.meeting.date].filter(Boolean).join(" ")}` : "",
+    item.sourceQuote ? `発言: ${item.sourceQuote}` : "",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * 課題作成 API の形の JSON。
+ *  - backlog: POST /api/v2/issues のパラメーターの配列（issueTypeId は空、priorityId は 3 = 中）
+ *  - jira: POST /rest/api/2/issue/bulk の本文（issueUpdates）
+ *  - github: POST /repos/{owner}/{repo}/issues の本文の配列
+ */
+export function toTrackerPayload(plan: ActionPlan, format: TrackerFormat, { project = "" }: TrackerOptions = {}): unknown {
+  switch (format) {
+    case "backlog":
+      return plan.items.map((item) => ({
+        projectId: project,
+        summary: item.task,
+        description: describe(plan, item),
+        issueTypeId: "",
+        priorityId: 3,
+        ...(item.due ? { dueDate: item.due } : {}),
+      }));
+    case "jira":
+      return {
+        issueUpdates: plan.items.map((item) => ({
+          fields: {
+            project: { key: project },
+            summary: item.task,
+            description: describe(plan, item),
+            issuetype: { name: "Task" },
+            labels: [LABEL],
+            ...(item.due ? { duedate: item.due } : {}),
+          },
+        })),
+      };
+    case "github":
+      return plan.items.map((item) => ({
+        title: item.task,
+        body: describe(plan, item),
+        labels: [LABEL],
+      }));
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * 作成した議事録を Slack / Teams の Incoming Webhook に投稿する。
+ * 開発中は `npm run webhook-stub` のスタブサーバーに向けて送信内容を確認できる。
+ *
+ * 環境変数:
+ *  - WEBHOOK_URL: 投稿先（未設定なら送信できない）
+ *  - WEBHOOK_FORMAT: slack | teams（未指定なら URL から判断し、わからなければ slack）
+ *  - WEBHOOK_TIMEOUT_MS: 応答を待つ時間（既定 10000）
+ */
+import type { MinutesDocument } from "../minutes/schema";
+import { extractActionPlan } from "./actions";
+
+export type WebhookFormat = "slack" | "teams";
+
+export type WebhookConfig = {
+  url: string;
+  format: WebhookFormat;
+};
+
+export class WebhookError extends Error {}
+
+// Slack のセクション1つに入る文字数の上限（3000）より少し小さくする
+const MAX_SECTION_CHARS = 2800;
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+function detectFormat(url: string): WebhookFormat {
+  try {
+    const host = new URL(url).hostname;
+    return /(^|\.)(office\.com|office365\.com|logic\.azure\.com|powerplatform\.com)$/.test(host) ? "teams" : "slack";
+  } catch {
+    return "slack";
+  }
+}
+
+/** 未設定なら null。URL が不正なら WebhookError（URL には投稿用の鍵が含まれるので、メッセージには入れない） */
+export function resolveWebhookConfig(): WebhookConfig | null {
+  const url = process.env.WEBHOOK_URL?.trim();
+  if (!url) return null;
+  if (!/^https?:\/\//.test(url)) throw new WebhookError("WEBHOOK_URL が不正です（http:// か https:// で始まる URL を設定してください）");
+  const format = process.env.WEBHOOK_FORMAT;
+  if (!format) return { url, format: detectFormat(url) };
+  if (format !== "slack" && format !== "teams") throw new WebhookError(`WEBHOOK_FORMAT が不正です: ${format}`);
+  return { url, format };
+}
+
+function clip(text: string, max = MAX_SECTION_CHARS): string {
+  return text.length > max ? `${text.slice(0, max)}…` : text;
+}
+
+/** Slack の mrkdwn で記号として扱われる &, <, > をエスケープする（<!channel> などのメンションやリンクにさせない） */
+function escapeMrkdwn(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/** 投稿する内容（会議名・要約・決定事項・宿題事項・次回・本文）を見出しと本文の組にする */
+function messageSections(doc: MinutesDocument): { title: string; sections: { heading: string; text: string }[] } {
+  const plan = extractActionPlan(doc);
+  const title = [doc.meeting.title || "議事録", doc.meeting.date].filter(Boolean).join(" ");
+  const bullets = (items: string[]) => items.map((v) => `• ${v}`).join("\n");
+  const sections = [
+    { heading: "要約", text: doc.summary },
+    { heading: "決定事項", text: bullets(doc.decisions.filter((d) => d.trim())) },
+    {
+      heading: "宿題事項",
+      text: bullets(plan.items.map((i) => `${i.task}（担当: ${i.owner || "未定"} / 期限: ${i.dueDate || "未定"}）`)),
+    },
+    {
+      heading: "次回",
+      text: plan.nextMeeting ? `${plan.nextMeeting.date}${plan.nextMeeting.time ? ` ${plan.nextMeeting.time}` : ""}` : "",
+    },
+    { heading: "議事録本文", text: doc.minutes },
+  ];
+  return { title, sections: sections.filter((s) => s.text.trim()).map((s) => ({ ...s, text: clip(s.text) })) };
+}
+
+export function buildWebhookPayload(doc: MinutesDocument, format: WebhookFormat): unknown {
+  const { title, sections } = messageSections(doc);
+  if (format === "teams") {
+    return {
+      type: "message",
+      attachments: [
+        {
+          contentType: "application/vnd.microsoft.card.adaptive",
+          content: {
+            $schema: "http://adaptivecards.io/schemas/adaptive-card.json",
+            type: "AdaptiveCard",
+            version: "1.4",
+            body: [
+              { type: "TextBlock", text: title, size: "Large", weight: "Bolder", wrap: true },
+              ...sections.flatMap((s) => [
+                { type: "TextBlock", text: s.heading, weight: "Bolder", spacing: "Medium", wrap: true },
+                { type: "TextBlock", text: s.text, wrap: true },
+              ]),
+            ],
+          },
+        },
+      ],
+    };
+  }
+  return {
+    text: `議事録: ${escapeMrkdwn(title)}`,
+    blocks: [
+      { type: "header", text: { type: "plain_text", text: clip(title, 150) } },
+      ...sections.map((s) => ({ type: "section", text: { type: "mrkdwn", text: `*${s.heading}*\n${escapeMrkdwn(s.text)}` } })),
+    ],
+  };
+}
+
+/**
+ * 投稿する。応答が 2xx 以外・時間切れ・接続できない場合は WebhookError。
+ * 投稿先の応答本文や接続エラーの詳細はサーバーのログにだけ出し、メッセージには入れない
+ */
+export async function sendWebhook(config: WebhookConfig, payload: unknown, signal?: AbortSignal): Promise<number> {
+  const timeout = Number(process.env.WEBHOOK_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS;
+  const timeoutSignal = AbortSignal.timeout(timeout);
+  let res: Response;
+  try {
+    res = await fetch(config.url, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(payload),
+      signal: signal ? AbortSignal.any([signal, timeoutSignal]) : timeoutSignal,
+    });
+  } catch (e) {
+    if (timeoutSignal.aborted) throw new WebhookError(`Webhook が ${timeout / 1000} 秒以内に応答しませんでした`);
+    if (signal?.aborted) throw e;
+    console.error("Webhook への接続エラー:", e);
+    throw new WebhookError("Webhook に接続できませんでした");
+  }
+  if (!res.ok) {
+    const body = (await res.text().catch(() => "")).slice(0, 200);
+    console.error("Webhook のエラー応答:", res.status, body);
+    throw new WebhookError(`Webhook がエラーを返しました（HTTP ${res.status}）`);
+  }
+  return res.status;
+}
@@ -0,0 +1,76 @@
+import type { GlossaryEntry } from "../storage/types";
+
+export type GlossaryCorrection = {
+  term: string;
+  variant: string;
+  count: number;
+};
+
+const ASCII_WORD = /[A-Za-z0-9]/;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** 英数字で始まる・終わる語は、単語の途中（CI → CIRCLE など）には当てない */
+function pattern(value: string): string {
+  const before = ASCII_WORD.test(value[0]) ? "(?<![A-Za-z0-9])" : "";
+  const after = ASCII_WORD.test(value[value.length - 1]) ? "(?![A-Za-z0-9])" : "";
+  return before + escapeRegExp(value) + after;
+}
+
+/**
+ * 誤変換を用語集の表記に置き換える。結果が入力だけで決まるよう LLM は使わない。
+ * 長い語を優先し、正しい表記そのもの（「Minutes Studio」の中の「Studio」など）は置き換えない。
+ * 同じ誤変換が複数の用語に登録されている場合は先の用語を使う。
+ */
+export function applyGlossary(
+  text: string,
+  entries: GlossaryEntry[]
+): { text: string; corrections: GlossaryCorrection[] } {
+  const replacements = new Map<string, string>();
+  for (const entry of entries) replacements.set(entry.term, entry.term);
+  for (const entry of entries) {
+    for (const variant of entry.variants) {
+      if (variant && !replacements.has(variant)) replacements.set(variant, entry.term);
+    }
+  }
+  const candidates = [...replacements.keys()].filter(Boolean).sort((a, b) => b.length - a.length);
+  if (candidates.length === 0 || candidates.every((c) => replacements.get(c) === c)) {
+    return { text, corrections: [] };
+  }
+
+  const counts = new Map<string, GlossaryCorrection>();
+  const regex = new RegExp(candidates.map(pattern).join("|"), "g");
+  const corrected = text.replace(regex, (match) => {
+    const term = replacements.get(match) ?? match;
+    if (term !== match) {
+      const correction = counts.get(match) ?? { term, variant: match, count: 0 };
+      correction.count++;
+      counts.set(match, correction);
+    }
+    return term;
+  });
+  return { text: corrected, corrections: [...counts.values()] };
+}
+
+/** 文字起こしに出てくる用語（表記・読み・誤変換のいずれか）だけに絞る。プロンプトに全件を載せないため */
+export function selectGlossary(entries: GlossaryEntry[], text: string): GlossaryEntry[] {
+  return entries.filter((e) => [e.term, e.yomi, ...e.variants].some((v) => v && text.includes(v)));
+}
+
+/** LLM に渡す表記の指示 */
+export function buildGlossaryPrompt(entries: GlossaryEntry[]): string {
+  if (entries.length === 0) return "";
+  const lines = entries.map((e) => {
+    const yomi = e.yomi ? `（読み: ${e.yomi}）` : "";
+    const variants = e.variants.length ? ` ※誤: ${e.variants.join("、")}` : "";
+    const note = e.note ? ` — ${e.note}` : "";
+    return `- ${e.term}${yomi}${variants}${note}`;
+  });
+  return [
+    "用語集（社内用語の正しい表記）:",
+    ...lines,
+    "議事録ではこの表記を使い、読みや誤変換の表記が書き起こしに残っていても正しい表記に直してください。",
+  ].join("\n");
+}
@@ -0,0 +1,34 @@
+/**
+ * 用語集の CSV（Excel で編集できる形）。
+ * 列: 用語, 読み, 誤変換（「|」区切りで複数）, メモ。1行目が見出しの場合は読み飛ばす。
+ */
+import { formatCsv, parseCsv } from "../csv";
+import type { GlossaryInput } from "./index";
+
+const HEADER = ["用語", "読み", "誤変換", "メモ"];
+const HEADER_ALIASES = new Set(["用語", "term"]);
+const VARIANT_SEPARATOR = "|";
+
+export function splitVariants(value: string): string[] {
+  return [...new Set(value.split(/[|｜\n]/).map((v) => v.trim()).filter(Boolean))];
+}
+
+/** CSV を用語の一覧にする。用語が空の行は行番号つきで skipped に入れる */
+export function parseGlossaryCsv(text: string): { entries: GlossaryInput[]; skipped: number[] } {
+  const rows = parseCsv(text);
+  const start = rows.length && HEADER_ALIASES.has(rows[0][0]?.trim().toLowerCase()) ? 1 : 0;
+  const entries: GlossaryInput[] = [];
+  const skipped: number[] = [];
+  rows.slice(start).forEach(([term = "", yomi = "", variants = "", note = ""], i) => {
+    if (!term.trim()) {
+      skipped.push(start + i + 1);
+      return;
+    }
+    entries.push({ term: term.trim(), yomi: yomi.trim(), variants: splitVariants(variants), note: note.trim() });
+  });
+  return { entries, skipped };
+}
+
+export function toGlossaryCsv(entries: GlossaryInput[]): string {
+  return formatCsv([HEADER, ...entries.map((e) => [e.term, e.yomi, e.variants.join(VARIANT_SEPARATOR), e.note])]);
+}
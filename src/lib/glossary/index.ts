@@ -0,0 +1,41 @@
+/**
+ * 社内用語の用語集。文字起こしの誤変換を決まった表記に直し（applyGlossary）、
+ * LLM には表記の指示として渡す（buildGlossaryPrompt）。クライアントとサーバーの両方で使う。
+ */
+import type { GlossaryEntry } from "../storage/types";
+import { splitVariants } from "./csv";
+
+export type { GlossaryEntry } from "../storage/types";
+export { applyGlossary, buildGlossaryPrompt, selectGlossary, type GlossaryCorrection } from "./apply";
+export { parseGlossaryCsv, toGlossaryCsv } from "./csv";
+
+export type GlossaryInput = Omit<GlossaryEntry, "id" | "workspaceId" | "updatedAt">;
+
+export class GlossaryError extends Error {}
+
+function readString(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+/** API で受け取った用語を検証する。誤変換は配列か「|」区切りの文字列を受け付ける */
+export function readGlossaryInput(value: unknown): GlossaryInput {
+  if (typeof value !== "object" || value === null) throw new GlossaryError("用語の形式が不正です");
+  const body = value as Record<string, unknown>;
+  const term = readString(body.term);
+  if (!term) throw new GlossaryError("用語（正しい表記）が必要です");
+  const variants = Array.isArray(body.variants)
+    ? splitVariants(body.variants.filter((v): v is string => typeof v === "string").join("|"))
+    : splitVariants(readString(body.variants));
+  return {
+    term,
+    yomi: readString(body.yomi),
+    // 正しい表記と同じものは誤変換として扱わない
+    variants: variants.filter((v) => v !== term),
+    note: readString(body.note),
+  };
+}
+
+/** 用語順（読みがあれば読み順）に並べる */
+export function sortGlossary<T extends GlossaryInput>(entries: T[]): T[] {
+  return [...entries].sort((a, b) => (a.yomi || a.term).localeCompare(b.yomi || b.term, "ja"));
+}
@@ -0,0 +1,8 @@
+// クライアント（アップロード欄）からも使うので Node の API に依存しないこと
+// 過去の議事録として読み込める文書。メール（.eml / .msg）は本文を使う
+export const DOCUMENT_EXTENSIONS = [".docx", ".pdf", ".txt", ".md", ".html", ".htm", ".rtf", ".eml", ".msg"];
+
+export function isDocumentFile(name: string): boolean {
+  const lower = name.toLowerCase();
+  return DOCUMENT_EXTENSIONS.some((ext) => lower.endsWith(ext));
+}
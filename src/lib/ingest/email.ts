@@ -0,0 +1,23 @@
+/**
+ * メール（.eml / Outlook の .msg）の本文を取り出す。HTML 本文があれば Markdown にして構成を残す。
+ * 件名は見出しとして先頭に置く（議事録の送付メールでは会議名が入っていることが多い）。
+ */
+import MsgReader from "@kenjiuno/msgreader";
+import PostalMime from "postal-mime";
+import { htmlToMarkdown } from "./html";
+
+function withSubject(subject: string | undefined, body: string): string {
+  return subject?.trim() ? `# ${subject.trim()}\n\n${body.trim()}` : body.trim();
+}
+
+export async function emlToMarkdown(buf: Uint8Array): Promise<string> {
+  const email = await PostalMime.parse(buf);
+  return withSubject(email.subject, email.html ? htmlToMarkdown(email.html) : (email.text ?? ""));
+}
+
+export function msgToMarkdown(buf: Uint8Array): string {
+  const data = new MsgReader(new DataView(buf.buffer, buf.byteOffset, buf.byteLength)).getFileData();
+  if (data.error) throw new Error(data.error);
+  const html = data.bodyHtml ?? (data.html ? new TextDecoder().decode(data.html) : "");
+  return withSubject(data.subject, html ? htmlToMarkdown(html) : (data.body ?? ""));
+}
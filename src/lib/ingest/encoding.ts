@@ -0,0 +1,50 @@
+/**
+ * テキストファイルの文字コードを判定して読む。
+ * BOM があればそれに従い、なければ UTF-8 → Shift_JIS / EUC-JP の順に、エラーなく読めるものを選ぶ。
+ */
+
+export type TextEncodingName = "utf-8" | "utf-16le" | "utf-16be" | "shift_jis" | "euc-jp";
+
+export type DecodedText = {
+  text: string;
+  encoding: TextEncodingName;
+  /** どの文字コードでも読めず、読めない箇所を置き換えて UTF-8 として読んだ */
+  lossy: boolean;
+};
+
+const BOMS: [number[], TextEncodingName][] = [
+  [[0xef, 0xbb, 0xbf], "utf-8"],
+  [[0xff, 0xfe], "utf-16le"],
+  [[0xfe, 0xff], "utf-16be"],
+];
+
+// 半角カナ。EUC-JP のファイルを Shift_JIS として読むと、エラーにはならず半角カナだらけになる
+const HALFWIDTH_KANA = /[｡-ﾟ]/g;
+
+/** fatal で読み、不正なバイト列があれば null（別の文字コードを試す） */
+function decodeStrict(buf: Uint8Array, encoding: TextEncodingName): string | null {
+  try {
+    return new TextDecoder(encoding, { fatal: true }).decode(buf);
+  } catch {
+    return null;
+  }
+}
+
+export function decodeText(buf: Uint8Array): DecodedText {
+  for (const [bom, encoding] of BOMS) {
+    if (bom.every((b, i) => buf[i] === b)) {
+      return { text: new TextDecoder(encoding).decode(buf.subarray(bom.length)), encoding, lossy: false };
+    }
+  }
+
+  const utf8 = decodeStrict(buf, "utf-8");
+  if (utf8 !== null) return { text: utf8, encoding: "utf-8", lossy: false };
+
+  const candidates = (["shift_jis", "euc-jp"] as const)
+    .map((encoding) => ({ encoding, text: decodeStrict(buf, encoding) }))
+    .filter((c): c is { encoding: "shift_jis" | "euc-jp"; text: string } => c.text !== null)
+    .sort((a, b) => (a.text.match(HALFWIDTH_KANA)?.length ?? 0) - (b.text.match(HALFWIDTH_KANA)?.length ?? 0));
+  if (candidates.length) return { ...candidates[0], lossy: false };
+
+  return { text: new TextDecoder("utf-8").decode(buf), encoding: "utf-8", lossy: true };
+}
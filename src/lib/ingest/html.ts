@@ -0,0 +1,27 @@
+/**
+ * HTML を Markdown にする。見出し・箇条書き・表の区切りを残し、過去の議事録の構成を文体として学べるようにする。
+ * HTML ファイルのほか、Word（mammoth で HTML にしたもの）とメールの HTML 本文にも使う。
+ */
+import TurndownService from "turndown";
+
+const turndown = new TurndownService({ headingStyle: "atx", bulletListMarker: "-", codeBlockStyle: "fenced" });
+turndown.remove(["script", "style", "head", "title"]);
+// 表は1行を「| セル | セル |」の形にする（既定では区切りのない文字列になる）
+turndown.addRule("tableCell", {
+  filter: ["th", "td"],
+  replacement: (content) => ` ${content.replace(/\s*\n+\s*/g, " ").trim()} |`,
+});
+turndown.addRule("tableRow", {
+  filter: "tr",
+  replacement: (content) => `\n|${content}\n`,
+});
+
+export function htmlToMarkdown(html: string): string {
+  return turndown
+    .turndown(html)
+    // turndown は「-   項目」のように記号の後を3文字ぶん空けるので詰める
+    .replace(/^(\s*)([-*+]|\d+\.) {2,}/gm, "$1$2 ")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
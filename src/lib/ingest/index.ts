@@ -0,0 +1,106 @@
+/**
+ * 過去の議事録などの文書ファイルから本文を取り出す。
+ * Word・HTML・メールの HTML 本文は見出し・箇条書きを Markdown として残し、構成の癖も文体として学べるようにする。
+ * 読めなかったファイルは黙って捨てず、ファイルごとの警告として返す。
+ */
+import mammoth from "mammoth";
+import { decodeText } from "./encoding";
+import { emlToMarkdown, msgToMarkdown } from "./email";
+import { htmlToMarkdown } from "./html";
+import { pdfToText } from "./pdf";
+import { rtfToText } from "./rtf";
+import { DOCUMENT_EXTENSIONS } from "./document-files";
+
+export { DOCUMENT_EXTENSIONS, isDocumentFile } from "./document-files";
+export { decodeText, type DecodedText, type TextEncodingName } from "./encoding";
+export { htmlToMarkdown } from "./html";
+
+export type IngestWarning = {
+  file: string;
+  message: string;
+};
+
+export type IngestedDocument = {
+  name: string;
+  text: string;
+};
+
+export type IngestResult = {
+  documents: IngestedDocument[];
+  warnings: IngestWarning[];
+};
+
+export class UnsupportedDocumentError extends Error {}
+
+type Extracted = {
+  text: string;
+  /** 読めたが注意が必要な点（文字コードを判定できなかったなど） */
+  warnings: string[];
+};
+
+function extension(name: string): string {
+  const dot = name.lastIndexOf(".");
+  return dot >= 0 ? name.slice(dot).toLowerCase() : "";
+}
+
+/** テキストファイルを文字コードを判定して読む */
+function readText(buf: Buffer): Extracted {
+  const { text, encoding, lossy } = decodeText(buf);
+  if (encoding !== "utf-8") console.log("文字コード:", encoding);
+  return {
+    text,
+    warnings: lossy ? ["文字コードを判定できなかったため、UTF-8 として読み込みました（文字化けしている可能性があります）"] : [],
+  };
+}
+
+/** 1ファイルの本文を取り出す。未対応の形式は UnsupportedDocumentError、壊れたファイルはそのままの例外になる */
+export async function extractDocument(name: string, buf: Buffer): Promise<Extracted> {
+  switch (extension(name)) {
+    case ".docx": {
+      const { value, messages } = await mammoth.convertToHtml({ buffer: buf });
+      const errors = messages.filter((m) => m.type === "error").map((m) => m.message);
+      return { text: htmlToMarkdown(value), warnings: errors.map((m) => `一部を読み込めませんでした: ${m}`) };
+    }
+    case ".pdf":
+      return { text: await pdfToText(buf), warnings: [] };
+    case ".txt":
+    case ".md":
+      return readText(buf);
+    case ".html":
+    case ".htm": {
+      const { text, warnings } = readText(buf);
+      return { text: htmlToMarkdown(text), warnings };
+    }
+    case ".rtf":
+      // RTF 自体は 7 ビットの文字だけで書かれ、日本語は \'hh や \uN で表される
+      return { text: rtfToText(buf.toString("latin1")), warnings: [] };
+    case ".eml":
+      return { text: await emlToMarkdown(buf), warnings: [] };
+    case ".msg":
+      return { text: msgToMarkdown(buf), warnings: [] };
+    default:
+      throw new UnsupportedDocumentError(`未対応の形式です（${DOCUMENT_EXTENSIONS.join(" / ")}）`);
+  }
+}
+
+/** 複数のファイルを読み込む。読めなかった・本文が空だったファイルは警告に入れて続ける */
+export async function ingestDocuments(files: File[]): Promise<IngestResult> {
+  const documents: IngestedDocument[] = [];
+  const warnings: IngestWarning[] = [];
+  for (const file of files) {
+    const warn = (message: string) => {
+      console.log("文書の読み込み:", file.name, message);
+      warnings.push({ file: file.name, message });
+    };
+    try {
+      const { text, warnings: notes } = await extractDocument(file.name, Buffer.from(await file.arrayBuffer()));
+      notes.forEach(warn);
+      if (text.trim()) documents.push({ name: file.name, text });
+      else warn("本文を取り出せなかったためスキップしました（画像だけの PDF など）");
+    } catch (e) {
+      if (e instanceof UnsupportedDocumentError) warn(`${e.message}。スキップしました`);
+      else warn(`読み込みに失敗したためスキップしました: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+  return { documents, warnings };
+}
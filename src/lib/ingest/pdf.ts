@@ -0,0 +1,12 @@
+import { extractText, getDocumentProxy } from "unpdf";
+
+/** PDF のテキストを取り出す。ページの区切りは空行にする（画像だけの PDF は空になる） */
+export async function pdfToText(buf: Uint8Array): Promise<string> {
+  // pdf.js は渡したバッファを使えなくするので複製して渡す
+  const pdf = await getDocumentProxy(new Uint8Array(buf));
+  const { text } = await extractText(pdf, { mergePages: false });
+  return text
+    .map((page) => page.trim())
+    .filter(Boolean)
+    .join("\n\n");
+}
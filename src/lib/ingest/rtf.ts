@@ -0,0 +1,138 @@
+/**
+ * RTF から本文を取り出す。書式は捨て、段落・改行・タブと、Unicode（\uN）・コードページ指定の文字
+ * （\'hh。日本語の Word が保存したものは \ansicpg932 の Shift_JIS）を復元する。
+ */
+
+// 本文ではない部分（フォント表・文書情報・画像など）
+const SKIPPED_DESTINATIONS = new Set([
+  "fonttbl",
+  "colortbl",
+  "stylesheet",
+  "info",
+  "pict",
+  "object",
+  "header",
+  "headerl",
+  "headerr",
+  "headerf",
+  "footer",
+  "footerl",
+  "footerr",
+  "footerf",
+  "listtable",
+  "listoverridetable",
+  "rsidtbl",
+  "themedata",
+  "colorschememapping",
+  "latentstyles",
+  "datastore",
+  "xmlnstbl",
+  "generator",
+]);
+
+const CODEPAGES: Record<number, string> = {
+  932: "shift_jis",
+  936: "gbk",
+  949: "euc-kr",
+  950: "big5",
+  1252: "windows-1252",
+};
+
+const CONTROL_WORD = /^([a-z]+)(-?\d+)? ?/i;
+
+type GroupState = { skip: boolean; uc: number };
+
+export function rtfToText(rtf: string): string {
+  let decoder = new TextDecoder("windows-1252");
+  const stack: GroupState[] = [];
+  let state: GroupState = { skip: false, uc: 1 };
+  let out = "";
+  let bytes: number[] = [];
+  // \uN の直後にある、Unicode 非対応の読み手向けの代替文字の数
+  let fallback = 0;
+
+  const flush = () => {
+    if (bytes.length) out += decoder.decode(new Uint8Array(bytes));
+    bytes = [];
+  };
+  const emit = (text: string) => {
+    if (state.skip) return;
+    flush();
+    out += text;
+  };
+
+  let i = 0;
+  while (i < rtf.length) {
+    const c = rtf[i];
+    if (c === "{" || c === "}") {
+      flush();
+      if (c === "{") stack.push({ ...state });
+      else state = stack.pop() ?? state;
+      fallback = 0;
+      i++;
+      continue;
+    }
+    if (c === "\r" || c === "\n") {
+      i++;
+      continue;
+    }
+    if (c !== "\\") {
+      if (fallback > 0) fallback--;
+      else emit(c);
+      i++;
+      continue;
+    }
+
+    const next = rtf[i + 1] ?? "";
+    if (next === "'") {
+      if (fallback > 0) fallback--;
+      else if (!state.skip) bytes.push(parseInt(rtf.slice(i + 2, i + 4), 16));
+      i += 4;
+      continue;
+    }
+    if (!/[a-z]/i.test(next)) {
+      // 記号のコントロール: \\ \{ \} はそのまま、\~ は空白、\* は未知の destination（読み飛ばす）
+      if (next === "*") state.skip = true;
+      else if (next === "\\" || next === "{" || next === "}") emit(next);
+      else if (next === "~") emit(" ");
+      else if (next === "\r" || next === "\n") emit("\n");
+      i += 2;
+      continue;
+    }
+
+    const m = CONTROL_WORD.exec(rtf.slice(i + 1, i + 40))!;
+    const [, word, rawParam] = m;
+    const param = rawParam === undefined ? null : Number(rawParam);
+    i += 1 + m[0].length;
+    switch (word) {
+      case "par":
+      case "line":
+      case "row":
+      case "sect":
+        emit("\n");
+        break;
+      case "tab":
+      case "cell":
+        emit("\t");
+        break;
+      case "ansicpg":
+        if (param !== null && CODEPAGES[param]) decoder = new TextDecoder(CODEPAGES[param]);
+        break;
+      case "uc":
+        state.uc = param ?? 1;
+        break;
+      case "u":
+        if (param !== null) emit(String.fromCharCode(param < 0 ? param + 0x10000 : param));
+        fallback = state.uc;
+        break;
+      default:
+        if (SKIPPED_DESTINATIONS.has(word)) state.skip = true;
+    }
+  }
+  flush();
+
+  return out
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
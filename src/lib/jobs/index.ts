@@ -0,0 +1,225 @@
+/**
+ * 議事録の生成をバックグラウンドのジョブとして実行する。
+ * ジョブは段階ごとの出力（stages）を保存しながら進み、失敗・中断・サーバー再起動のあとは
+ * 完了した段階を使って続きから再開する。
+ *
+ * 環境変数:
+ *  - JOB_CONCURRENCY: 同時に実行するジョブの数（既定 1）
+ */
+import { randomUUID } from "crypto";
+import { allowedOverrides, createUsageMeter, resolveProvider, type ProviderConfig, type UsageMeter } from "../llm";
+import {
+  generateMinutes,
+  prepareMinutesInput,
+  type MinutesInput,
+  type MinutesRequest,
+  type StageCache,
+} from "../minutes/pipeline";
+import type { MinutesStreamEvent } from "../minutes/stream";
+import { MinutesValidationError } from "../minutes/validate";
+import { getPromptTemplate } from "../prompts";
+import { createRedactor } from "../redaction";
+import { getJobStore, getStyleProfileStore, type MinutesJob } from "../storage";
+import { createLocalJobQueue, type JobQueue } from "./queue";
+
+export type { JobQueue, JobRunner } from "./queue";
+export { createLocalJobQueue } from "./queue";
+
+/** API で返すジョブの状態（入力と途中結果そのものは含めない） */
+export type JobView = Omit<MinutesJob, "input" | "stages" | "redactionEntries" | "usage"> & {
+  /** 完了した段階（guidelines, chunk-0, merge など） */
+  completedStages: string[];
+};
+
+export class JobStateError extends Error {}
+
+export function toJobView(job: MinutesJob): JobView {
+  return {
+    id: job.id,
+    status: job.status,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt,
+    attempts: job.attempts,
+    events: job.events,
+    result: job.result,
+    error: job.error,
+    errorCode: job.errorCode ?? null,
+    completedStages: Object.keys(job.stages),
+  };
+}
+
+// 開発サーバーのホットリロードでキューが二重にできないよう globalThis に置く
+const globalForJobs = globalThis as typeof globalThis & { minutesJobQueue?: JobQueue };
+
+export function getJobQueue(): JobQueue {
+  globalForJobs.minutesJobQueue ??= createLocalJobQueue(runMinutesJob, {
+    concurrency: Math.max(Number(process.env.JOB_CONCURRENCY) || 1, 1),
+  });
+  return globalForJobs.minutesJobQueue;
+}
+
+/** 文字起こしなどの下ごしらえを済ませてジョブを登録し、キューに入れる */
+export async function createMinutesJob(request: MinutesRequest, provider: Partial<ProviderConfig>): Promise<MinutesJob> {
+  const input = await prepareMinutesInput(request);
+  const now = new Date().toISOString();
+  const job: MinutesJob = {
+    id: randomUUID(),
+    status: "queued",
+    createdAt: now,
+    updatedAt: now,
+    startedAt: null,
+    finishedAt: null,
+    attempts: 0,
+    input: {
+      transcript: input.transcript,
+      participants: input.participants,
+      meeting: input.meeting,
+      templateId: input.template.id,
+      styleProfileId: input.styleProfile?.id ?? null,
+      styleSource: input.styleSource,
+      redactTerms: request.redactTerms,
+      glossary: input.glossary,
+      glossaryCorrections: input.glossaryCorrections,
+      language: input.language,
+      workspaceId: input.workspaceId,
+      series: input.series,
+      provider,
+    },
+    stages: {},
+    redactionEntries: [],
+    usage: [],
+    events: [],
+    result: null,
+    error: null,
+    errorCode: null,
+  };
+  await getJobStore().save(job);
+  getJobQueue().enqueue(job.id);
+  console.log("ジョブを登録:", job.id);
+  return job;
+}
+
+/** 失敗・中止したジョブを、完了した段階はそのままにしてキューに戻す */
+export async function retryMinutesJob(id: string): Promise<MinutesJob | null> {
+  const job = await getJobStore().get(id);
+  if (!job) return null;
+  if (job.status !== "failed" && job.status !== "cancelled") {
+    throw new JobStateError(`このジョブは再試行できません（状態: ${job.status}）`);
+  }
+  const queued: MinutesJob = { ...job, status: "queued", error: null, errorCode: null, updatedAt: new Date().toISOString() };
+  await getJobStore().save(queued);
+  getJobQueue().enqueue(id);
+  console.log("ジョブを再試行:", id, "完了済みの段階:", Object.keys(job.stages).join(", ") || "なし");
+  return queued;
+}
+
+export async function cancelMinutesJob(id: string): Promise<MinutesJob | null> {
+  const store = getJobStore();
+  const job = await store.get(id);
+  if (!job) return null;
+  if (job.status !== "queued" && job.status !== "running") {
+    throw new JobStateError(`このジョブは中止できません（状態: ${job.status}）`);
+  }
+  // 実行中なら中断したジョブ側で状態を保存する
+  if (getJobQueue().cancel(id) === "running") return job;
+  const cancelled: MinutesJob = { ...job, status: "cancelled", updatedAt: new Date().toISOString() };
+  await store.save(cancelled);
+  return cancelled;
+}
+
+/** サーバーの再起動で止まったジョブ（待機中・実行中のまま残ったもの）をキューに戻す */
+export async function resumeInterruptedJobs(): Promise<number> {
+  const jobs = (await getJobStore().all()).filter((j) => j.status === "queued" || j.status === "running");
+  jobs.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  for (const job of jobs) getJobQueue().enqueue(job.id);
+  return jobs.length;
+}
+
+async function restoreInput(job: MinutesJob): Promise<MinutesInput> {
+  const { input } = job;
+  const template = await getPromptTemplate(input.templateId);
+  if (!template) throw new Error(`プロンプトテンプレートが見つかりません: ${input.templateId}`);
+  const styleProfile = input.styleProfileId ? await getStyleProfileStore().get(input.styleProfileId) : null;
+  if (input.styleProfileId && !styleProfile) throw new Error("文体プロファイルが見つかりません（削除された可能性があります）");
+  return {
+    transcript: input.transcript,
+    participants: input.participants,
+    styleSource: input.styleSource,
+    styleProfile,
+    template,
+    meeting: input.meeting,
+    redactor: input.redactTerms
+      ? createRedactor({ names: input.participants, terms: input.redactTerms }, job.redactionEntries)
+      : null,
+    glossary: input.glossary,
+    glossaryCorrections: input.glossaryCorrections,
+    // 以前のジョブには記録がない
+    usage: createUsageMeter(job.usage ?? []),
+    language: input.language ?? { source: "ja", output: "ja" },
+    workspaceId: input.workspaceId,
+    series: input.series ?? null,
+  };
+}
+
+/** キューから呼ばれる。状態・進捗・段階ごとの出力を保存しながら生成する */
+async function runMinutesJob(id: string, signal: AbortSignal): Promise<void> {
+  const store = getJobStore();
+  const stored = await store.get(id);
+  if (!stored || (stored.status !== "queued" && stored.status !== "running")) return;
+  const job: MinutesJob = {
+    ...stored,
+    status: "running",
+    attempts: stored.attempts + 1,
+    startedAt: new Date().toISOString(),
+    finishedAt: null,
+    error: null,
+    errorCode: null,
+  };
+
+  // 保存は順番に行う（同じファイルへの書き込みが重ならないように）
+  let saving = Promise.resolve();
+  const save = () => {
+    job.updatedAt = new Date().toISOString();
+    const snapshot = structuredClone(job);
+    saving = saving.then(() => store.save(snapshot)).catch((e) => console.error("ジョブの保存に失敗しました:", id, e));
+    return saving;
+  };
+  await save();
+  console.log("ジョブ開始:", id, `（${job.attempts}回目）`);
+
+  let usage: UsageMeter | null = null;
+  try {
+    const input = await restoreInput(job);
+    usage = input.usage;
+    const stages: StageCache = {
+      get: (key) => job.stages[key],
+      async set(key, value) {
+        job.stages[key] = value;
+        if (input.redactor) job.redactionEntries = input.redactor.report().entries;
+        job.usage = input.usage.calls();
+        await save();
+      },
+    };
+    const emit = (event: MinutesStreamEvent) => {
+      if (event.type === "partial") return;
+      job.events.push(event);
+      save();
+    };
+    // 登録後に許可を外したプロバイダー・モデルでは再開しない
+    const llm = resolveProvider(allowedOverrides(job.input.provider));
+    job.result = await generateMinutes(llm, input, emit, signal, stages);
+    job.status = "succeeded";
+    console.log("ジョブ完了:", id);
+  } catch (e) {
+    job.status = signal.aborted ? "cancelled" : "failed";
+    job.error = signal.aborted ? null : e instanceof Error ? e.message : String(e);
+    job.errorCode = e instanceof MinutesValidationError ? e.issues[0].code : null;
+    console.error("ジョブ", job.status === "cancelled" ? "中止:" : "失敗:", id, job.error ?? "");
+  }
+  // 失敗した回に使った分も費用に含める
+  if (usage) job.usage = usage.calls();
+  job.finishedAt = new Date().toISOString();
+  await save();
+}
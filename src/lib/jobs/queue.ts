@@ -0,0 +1,52 @@
+/**
+ * ジョブキュー。既定はこのプロセス内で実行する LocalJobQueue（外部サービス不要）。
+ * 複数台で動かす場合は同じ JobQueue の形で外部のキューを使う実装に差し替える。
+ */
+
+export type JobRunner = (id: string, signal: AbortSignal) => Promise<void>;
+
+export type JobQueue = {
+  /** すでに待機中・実行中なら何もしない */
+  enqueue(id: string): void;
+  /** 待機中なら取り除き、実行中なら中断する。どちらでもなければ null */
+  cancel(id: string): "waiting" | "running" | null;
+};
+
+/** 先着順に、同時に concurrency 件まで実行する */
+export function createLocalJobQueue(run: JobRunner, { concurrency = 1 }: { concurrency?: number } = {}): JobQueue {
+  const waiting: string[] = [];
+  const running = new Map<string, AbortController>();
+
+  function pump() {
+    while (running.size < concurrency && waiting.length > 0) {
+      const id = waiting.shift()!;
+      const controller = new AbortController();
+      running.set(id, controller);
+      run(id, controller.signal)
+        .catch((e) => console.error("ジョブの実行に失敗しました:", id, e))
+        .finally(() => {
+          running.delete(id);
+          pump();
+        });
+    }
+  }
+
+  return {
+    enqueue(id) {
+      if (running.has(id) || waiting.includes(id)) return;
+      waiting.push(id);
+      pump();
+    },
+    cancel(id) {
+      const index = waiting.indexOf(id);
+      if (index >= 0) {
+        waiting.splice(index, 1);
+        return "waiting";
+      }
+      const controller = running.get(id);
+      if (!controller) return null;
+      controller.abort();
+      return "running";
+    },
+  };
+}
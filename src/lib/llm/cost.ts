@@ -0,0 +1,71 @@
+/**
+ * トークン数の見積もりと費用の計算。
+ * サーバー（呼び出しごとの記録）とクライアント（生成前の見積もり）の両方で使う。
+ */
+import type { LLMStage } from "./types";
+
+/** 100万トークンあたりの料金（USD） */
+export type ModelPrice = {
+  input: number;
+  output: number;
+};
+
+/** LLM 呼び出し1回分の記録 */
+export type LLMCallUsage = {
+  /** 呼び出しの名前（guidelines, minutes, chunk-0, merge など） */
+  label: string;
+  stage: LLMStage;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  /** プロバイダーがトークン数を返さなかったため、文字数から見積もった */
+  estimated: boolean;
+  /** 料金表にないモデルの場合は null */
+  costUSD: number | null;
+  latencyMs: number;
+};
+
+export type UsageSummary = {
+  calls: LLMCallUsage[];
+  promptTokens: number;
+  completionTokens: number;
+  /** 料金表にないモデルの呼び出しが1つでもあれば null */
+  costUSD: number | null;
+  /** 呼び出しごとの所要時間の合計 */
+  latencyMs: number;
+};
+
+/**
+ * 文字数からおおよそのトークン数を見積もる。
+ * 日本語などの非 ASCII 文字は1文字1トークン、英数字・記号は4文字で1トークンとして数える。
+ */
+export function estimateTokens(text: string): number {
+  let ascii = 0;
+  let other = 0;
+  for (const c of text) {
+    if (c.charCodeAt(0) < 0x80) ascii++;
+    else other++;
+  }
+  return Math.ceil(other + ascii / 4);
+}
+
+export function calculateCost(price: ModelPrice | null, promptTokens: number, completionTokens: number): number | null {
+  if (!price) return null;
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
+
+export function summarizeUsage(calls: LLMCallUsage[]): UsageSummary {
+  const sum = (pick: (c: LLMCallUsage) => number) => calls.reduce((acc, c) => acc + pick(c), 0);
+  return {
+    calls,
+    promptTokens: sum((c) => c.promptTokens),
+    completionTokens: sum((c) => c.completionTokens),
+    costUSD: calls.every((c) => c.costUSD !== null) ? sum((c) => c.costUSD ?? 0) : null,
+    latencyMs: sum((c) => c.latencyMs),
+  };
+}
+
+/** 「$0.0123」のように表示する。1セント未満も読めるよう桁を増やす */
+export function formatCostUSD(cost: number): string {
+  return `$${cost.toFixed(cost < 0.01 ? 4 : 2)}`;
+}
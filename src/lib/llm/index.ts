@@ -0,0 +1,145 @@
+/**
+ * 環境変数（とリクエストごとの上書き）から LLM プロバイダーを組み立てる。
+ *
+ * 環境変数:
+ *  - LLM_PROVIDER: openai | openai-compatible | azure | mock（未指定なら OPENAI_API_KEY の有無で openai / mock）
+ *  - OPENAI_API_KEY: openai 用
+ *  - LLM_BASE_URL, LLM_API_KEY, LLM_STRUCTURED_OUTPUT: openai-compatible 用（Ollama, vLLM, llama.cpp server など）。
+ *    LLM_STRUCTURED_OUTPUT は json_schema（既定）| json_object
+ *  - LLM_STREAM_USAGE: 1 なら openai-compatible でもストリーミングで使用量を返させる（未対応のサーバーがあるので既定は送らず、文字数から見積もる）
+ *  - AZURE_OPENAI_ENDPOINT, AZURE_OPENAI_API_KEY, AZURE_OPENAI_API_VERSION: azure 用
+ *  - LLM_MODEL: 全用途の既定モデル（Azure ではデプロイ名）
+ *  - LLM_MODEL_STYLE, LLM_MODEL_MINUTES: 用途ごとのモデル
+ *  - LLM_PRICES: 費用の計算に使う料金表（usage.ts を参照）
+ *  - LLM_ALLOWED_PROVIDERS, LLM_ALLOWED_MODELS: リクエストで選んでよいプロバイダー・モデル（カンマ区切り、既定は空）
+ *
+ * 接続先や API キーはリクエストから変更できない（サーバーの設定だけを使う）。
+ * プロバイダーとモデルも、管理者が許可したもの以外はリクエストで指定されても無視する
+ * （ローカルの LLM を設定しているのに、書き起こしを外部の API に送られないようにする）。
+ */
+import OpenAI, { AzureOpenAI } from "openai";
+import { createMockProvider } from "./mock";
+import { createOpenAIProvider, type StructuredOutputMode } from "./openai";
+import type { LLMProvider, LLMStage, ProviderConfig, ProviderName } from "./types";
+
+export type { ChatMessage, ChatRequest, LLMProvider, LLMStage, ProviderConfig, ProviderName, TokenUsage } from "./types";
+export { createMockProvider } from "./mock";
+export {
+  createUsageMeter,
+  findPrice,
+  loadPriceTable,
+  withUsageMeter,
+  type LLMCallUsage,
+  type ModelPrice,
+  type PriceTable,
+  type UsageMeter,
+  type UsageSummary,
+} from "./usage";
+
+const PROVIDER_NAMES: ProviderName[] = ["openai", "openai-compatible", "azure", "mock"];
+const STRUCTURED_OUTPUT_MODES: StructuredOutputMode[] = ["json_schema", "json_object"];
+const STAGES: LLMStage[] = ["style", "minutes"];
+const DEFAULT_MODEL = "gpt-4o-mini";
+
+export class ProviderConfigError extends Error {}
+
+export function isProviderName(value: unknown): value is ProviderName {
+  return typeof value === "string" && (PROVIDER_NAMES as string[]).includes(value);
+}
+
+function envList(name: string): string[] {
+  return (process.env[name] ?? "").split(",").map((v) => v.trim()).filter(Boolean);
+}
+
+/** リクエストで指定されたプロバイダー・モデルのうち、LLM_ALLOWED_PROVIDERS・LLM_ALLOWED_MODELS にあるものだけを残す */
+export function allowedOverrides(requested: Partial<ProviderConfig>): Partial<ProviderConfig> {
+  const providers = envList("LLM_ALLOWED_PROVIDERS");
+  const models = envList("LLM_ALLOWED_MODELS");
+  const ignored: string[] = [];
+  const provider = requested.provider && providers.includes(requested.provider) ? requested.provider : undefined;
+  if (requested.provider && !provider) ignored.push(`provider=${requested.provider}`);
+  const allowedModels: ProviderConfig["models"] = {};
+  for (const stage of STAGES) {
+    const model = requested.models?.[stage];
+    if (!model) continue;
+    if (models.includes(model)) allowedModels[stage] = model;
+    else ignored.push(`${stage}=${model}`);
+  }
+  if (ignored.length) console.warn("許可されていないプロバイダー・モデルの指定を無視:", ignored.join(", "));
+  return { provider, models: allowedModels };
+}
+
+function envModels(): ProviderConfig["models"] {
+  return {
+    style: process.env.LLM_MODEL_STYLE,
+    minutes: process.env.LLM_MODEL_MINUTES,
+  };
+}
+
+function defaultProviderName(): ProviderName {
+  const configured = process.env.LLM_PROVIDER;
+  if (configured) {
+    if (!isProviderName(configured)) throw new ProviderConfigError(`LLM_PROVIDER が不正です: ${configured}`);
+    return configured;
+  }
+  return process.env.OPENAI_API_KEY ? "openai" : "mock";
+}
+
+function resolveModels(overrides: ProviderConfig["models"]): Record<LLMStage, string> {
+  const base = process.env.LLM_MODEL || DEFAULT_MODEL;
+  const env = envModels();
+  return Object.fromEntries(STAGES.map((stage) => [stage, overrides[stage] || env[stage] || base])) as Record<
+    LLMStage,
+    string
+  >;
+}
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) throw new ProviderConfigError(`${name} が設定されていません`);
+  return value;
+}
+
+function structuredOutputMode(): StructuredOutputMode {
+  const value = process.env.LLM_STRUCTURED_OUTPUT;
+  if (!value) return "json_schema";
+  if (!(STRUCTURED_OUTPUT_MODES as string[]).includes(value)) {
+    throw new ProviderConfigError(`LLM_STRUCTURED_OUTPUT が不正です: ${value}（${STRUCTURED_OUTPUT_MODES.join(" / ")}）`);
+  }
+  return value as StructuredOutputMode;
+}
+
+export function resolveProvider(overrides: Partial<ProviderConfig> = {}): LLMProvider {
+  const provider = overrides.provider ?? defaultProviderName();
+  const models = resolveModels(overrides.models ?? {});
+
+  switch (provider) {
+    case "mock":
+      return createMockProvider();
+    case "openai":
+      return createOpenAIProvider({
+        name: provider,
+        client: new OpenAI({ apiKey: requireEnv("OPENAI_API_KEY") }),
+        models,
+      });
+    case "openai-compatible":
+      return createOpenAIProvider({
+        name: provider,
+        // ローカルサーバーはキー不要なことが多いが、SDK は空文字を受け付けない
+        client: new OpenAI({ baseURL: requireEnv("LLM_BASE_URL"), apiKey: process.env.LLM_API_KEY || "local" }),
+        models,
+        structuredOutput: structuredOutputMode(),
+        streamUsage: process.env.LLM_STREAM_USAGE === "1",
+      });
+    case "azure":
+      return createOpenAIProvider({
+        name: provider,
+        client: new AzureOpenAI({
+          endpoint: requireEnv("AZURE_OPENAI_ENDPOINT"),
+          apiKey: requireEnv("AZURE_OPENAI_API_KEY"),
+          apiVersion: process.env.AZURE_OPENAI_API_VERSION || "2024-10-21",
+        }),
+        models,
+      });
+  }
+}
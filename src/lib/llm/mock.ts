@@ -0,0 +1,75 @@
+import type { ChatRequest, LLMProvider, LLMStage } from "./types";
+
+/** 応答を固定したい場合に、用途（または JSON Schema 名）ごとに返す内容を指定する */
+export type MockResponses = Partial<Record<LLMStage | string, string | ((request: ChatRequest) => string)>>;
+
+export const MOCK_MINUTES = {
+  summary: "【モック要約】主要論点と次回アクションを整理しました。",
+  minutes: "【モック議事録】AIキー未設定のためダミー本文。",
+  attendees: ["【モック】出席者A", "【モック】出席者B"],
+  agenda: ["【モック】議題1"],
+  decisions: ["【モック】決定事項1"],
+  actionItems: [{ task: "【モック】宿題事項1", owner: "出席者A", dueDate: "", sourceQuote: "" }],
+  openQuestions: ["【モック】未決事項1"],
+  citations: [],
+};
+
+/** システムプロンプトで指定された見出し（「## 見出し」）をそろえた本文にする（出力の検証を通すため） */
+function mockMinutes(request: ChatRequest): string {
+  const system = request.messages.find((m) => m.role === "system")?.content ?? "";
+  const headings = [...system.matchAll(/^## (.+)$/gm)].map((m) => m[1].trim());
+  const minutes = headings.length
+    ? headings.map((h) => `## ${h}\n${MOCK_MINUTES.minutes}`).join("\n\n")
+    : MOCK_MINUTES.minutes;
+  return JSON.stringify({ ...MOCK_MINUTES, minutes });
+}
+
+/** 翻訳（minutes/translate.ts）は原文の JSON の各文に印をつけて返す。見出しと項目の数はそのまま */
+function mockTranslation(request: ChatRequest): string {
+  const user = request.messages[request.messages.length - 1]?.content ?? "";
+  const source = JSON.parse(user.slice(user.indexOf("{"))) as Record<string, string | string[]>;
+  const mark = (text: string) =>
+    text
+      .split("\n")
+      .map((line) => (line.trim() && !line.startsWith("#") ? `【モック翻訳】${line}` : line))
+      .join("\n");
+  return JSON.stringify(
+    Object.fromEntries(Object.entries(source).map(([key, value]) => [key, Array.isArray(value) ? value.map(mark) : mark(value)]))
+  );
+}
+
+/** 持ち越し事項の判定（minutes/carry-over.ts）はすべて「言及なし」にする。数はユーザーメッセージの2行目の JSON から読む */
+function mockCarryOver(request: ChatRequest): string {
+  const user = request.messages[request.messages.length - 1]?.content ?? "";
+  const items = JSON.parse(user.split("\n")[1] || "[]") as unknown[];
+  return JSON.stringify({ items: items.map(() => ({ status: "not_mentioned", note: "", sourceQuote: "" })) });
+}
+
+const DEFAULT_RESPONSES: MockResponses = {
+  // 文体ガイドラインは作らない（キー未設定時の従来動作と同じ）
+  style: "",
+  MinutesSchema: mockMinutes,
+  TranslatedMinutes: mockTranslation,
+  CarryOverStatus: mockCarryOver,
+  // 部分的な再生成（minutes/regenerate.ts）
+  ...Object.fromEntries(Object.entries(MOCK_MINUTES).map(([field, value]) => [`Regenerate_${field}`, JSON.stringify({ value })])),
+  Regenerate_section: JSON.stringify({ value: "【モック】再生成した本文" }),
+};
+
+/**
+ * 外部に通信しない決定的なプロバイダー。API キー未設定時の既定であり、テストでも使う。
+ * JSON Schema 付きの呼び出しはスキーマ名、それ以外は用途名で応答を引く。
+ */
+export function createMockProvider(responses: MockResponses = {}): LLMProvider {
+  const table = { ...DEFAULT_RESPONSES, ...responses };
+  return {
+    name: "mock",
+    modelFor: (stage) => `mock-${stage}`,
+    async chat(request) {
+      const entry = (request.jsonSchema && table[request.jsonSchema.name]) ?? table[request.stage] ?? "";
+      const content = typeof entry === "function" ? entry(request) : entry;
+      request.onDelta?.(content);
+      return content;
+    },
+  };
+}
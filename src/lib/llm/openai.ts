@@ -0,0 +1,89 @@
+import OpenAI from "openai";
+import type { ChatRequest, LLMProvider, LLMStage, ProviderName, TokenUsage } from "./types";
+
+export type StructuredOutputMode = "json_schema" | "json_object";
+
+export type OpenAIProviderOptions = {
+  name: ProviderName;
+  client: OpenAI;
+  models: Record<LLMStage, string>;
+  /**
+   * json_schema に対応していないローカルサーバー向けに json_object を選べる。
+   * その場合スキーマはシステムプロンプトに添えて渡す。
+   */
+  structuredOutput?: StructuredOutputMode;
+  /**
+   * ストリーミングで使用量を返させる（stream_options.include_usage）。
+   * OpenAI・Azure は対応しているが、互換サーバーには未知のパラメーターとして拒否するものがある
+   */
+  streamUsage?: boolean;
+};
+
+function toTokenUsage(usage: OpenAI.CompletionUsage): TokenUsage {
+  return { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens };
+}
+
+/** OpenAI SDK を使うプロバイダー。OpenAI 本家・互換サーバー・Azure で共通 */
+export function createOpenAIProvider({
+  name,
+  client,
+  models,
+  structuredOutput = "json_schema",
+  streamUsage = true,
+}: OpenAIProviderOptions): LLMProvider {
+  function buildBody({ stage, messages, temperature = 0.2, jsonSchema }: ChatRequest) {
+    const body: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming = {
+      model: models[stage],
+      temperature,
+      messages,
+    };
+    if (!jsonSchema) return body;
+
+    if (structuredOutput === "json_schema") {
+      body.response_format = {
+        type: "json_schema",
+        json_schema: { name: jsonSchema.name, schema: jsonSchema.schema, strict: true },
+      };
+    } else {
+      body.response_format = { type: "json_object" };
+      body.messages = [
+        {
+          role: "system",
+          content: `必ず次の JSON Schema に従う JSON オブジェクトだけを出力してください:\n${JSON.stringify(jsonSchema.schema)}`,
+        },
+        ...messages,
+      ];
+    }
+    return body;
+  }
+
+  return {
+    name,
+    modelFor: (stage) => models[stage],
+    async chat(request) {
+      const body = buildBody(request);
+      if (!request.onDelta) {
+        const resp = await client.chat.completions.create(body, { signal: request.signal });
+        if (resp.usage) request.onUsage?.(toTokenUsage(resp.usage));
+        if (resp.choices[0]?.finish_reason === "length") request.onTruncated?.();
+        return resp.choices[0]?.message?.content ?? "";
+      }
+
+      const stream = await client.chat.completions.create(
+        { ...body, stream: true, ...(streamUsage ? { stream_options: { include_usage: true } } : {}) },
+        { signal: request.signal }
+      );
+      let content = "";
+      for await (const part of stream) {
+        // 使用量は choices が空の最後のチャンクで届く
+        if (part.usage) request.onUsage?.(toTokenUsage(part.usage));
+        if (part.choices[0]?.finish_reason === "length") request.onTruncated?.();
+        const delta = part.choices[0]?.delta?.content ?? "";
+        if (!delta) continue;
+        content += delta;
+        request.onDelta(delta);
+      }
+      return content;
+    },
+  };
+}
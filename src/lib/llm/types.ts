@@ -0,0 +1,55 @@
+/**
+ * LLM プロバイダーの共通インターフェース。
+ * ルートはこのインターフェースだけを使い、OpenAI / 互換サーバー / Azure / モックの違いを意識しない。
+ */
+
+/** 呼び出しの用途。用途ごとにモデルを切り替えられる */
+export type LLMStage = "style" | "minutes";
+
+export type ProviderName = "openai" | "openai-compatible" | "azure" | "mock";
+
+export type ChatMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+export type JsonSchemaFormat = {
+  name: string;
+  schema: Record<string, unknown>;
+};
+
+/** プロバイダーが返したトークン数 */
+export type TokenUsage = {
+  promptTokens: number;
+  completionTokens: number;
+};
+
+export type ChatRequest = {
+  stage: LLMStage;
+  /** 使用量の記録に出す呼び出しの名前（既定は stage） */
+  label?: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  /** 指定すると JSON 文字列で応答させる */
+  jsonSchema?: JsonSchemaFormat;
+  signal?: AbortSignal;
+  /** 指定するとストリーミングで受信し、届いた差分を順に渡す */
+  onDelta?: (delta: string) => void;
+  /** プロバイダーがトークン数を返した場合に渡す */
+  onUsage?: (usage: TokenUsage) => void;
+  /** 出力の上限に達して応答が打ち切られた場合（finish_reason が length）に呼ぶ */
+  onTruncated?: () => void;
+};
+
+export type LLMProvider = {
+  name: ProviderName;
+  /** 用途ごとに実際に使うモデル名（Azure の場合はデプロイ名） */
+  modelFor(stage: LLMStage): string;
+  /** 応答本文を返す */
+  chat(request: ChatRequest): Promise<string>;
+};
+
+export type ProviderConfig = {
+  provider: ProviderName;
+  models: Partial<Record<LLMStage, string>>;
+};
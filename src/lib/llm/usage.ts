@@ -0,0 +1,110 @@
+/**
+ * LLM 呼び出しごとのモデル・トークン数・費用・所要時間を記録する。
+ *
+ * 環境変数:
+ *  - LLM_PRICES: 料金表（JSON）。既定の料金表に上書きする。
+ *    例: {"gpt-4o-mini":{"input":0.15,"output":0.6},"my-deployment":{"input":2.5,"output":10}}
+ *    （100万トークンあたりの USD。モデル名が前方一致するもののうち最も長い名前の料金を使う）
+ */
+import { calculateCost, estimateTokens, summarizeUsage, type LLMCallUsage, type ModelPrice, type UsageSummary } from "./cost";
+import type { LLMProvider, TokenUsage } from "./types";
+
+export type { LLMCallUsage, ModelPrice, UsageSummary } from "./cost";
+
+export type PriceTable = Record<string, ModelPrice>;
+
+export const DEFAULT_PRICES: PriceTable = {
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "o4-mini": { input: 1.1, output: 4.4 },
+  // モックは通信しないので無料
+  mock: { input: 0, output: 0 },
+};
+
+function isModelPrice(value: unknown): value is ModelPrice {
+  const price = value as ModelPrice;
+  return typeof price?.input === "number" && typeof price?.output === "number";
+}
+
+export function loadPriceTable(): PriceTable {
+  const configured = process.env.LLM_PRICES;
+  if (!configured) return DEFAULT_PRICES;
+  try {
+    const parsed = JSON.parse(configured) as Record<string, unknown>;
+    const entries = Object.entries(parsed).filter((entry): entry is [string, ModelPrice] => isModelPrice(entry[1]));
+    return { ...DEFAULT_PRICES, ...Object.fromEntries(entries) };
+  } catch (e) {
+    console.error("LLM_PRICES を読み込めませんでした（既定の料金表を使います）:", e);
+    return DEFAULT_PRICES;
+  }
+}
+
+/** 日付つきのモデル名（gpt-4o-mini-2024-07-18 など）も引けるよう、前方一致で最も長い名前を選ぶ */
+export function findPrice(table: PriceTable, model: string): ModelPrice | null {
+  const name = Object.keys(table)
+    .filter((key) => model === key || model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return name ? table[name] : null;
+}
+
+export type UsageMeter = {
+  record(call: LLMCallUsage): void;
+  calls(): LLMCallUsage[];
+  summary(): UsageSummary;
+};
+
+/** restored にはジョブの再開時などに、前回までの記録を渡す */
+export function createUsageMeter(restored: LLMCallUsage[] = []): UsageMeter {
+  const calls = [...restored];
+  return {
+    record: (call) => calls.push(call),
+    calls: () => [...calls],
+    summary: () => summarizeUsage([...calls]),
+  };
+}
+
+/** 呼び出しごとに使用量を記録するプロバイダー。トークン数が返らない場合は文字数から見積もる */
+export function withUsageMeter(llm: LLMProvider, meter: UsageMeter, prices: PriceTable = loadPriceTable()): LLMProvider {
+  return {
+    ...llm,
+    async chat(request) {
+      let reported: TokenUsage | null = null;
+      const started = Date.now();
+      const content = await llm.chat({
+        ...request,
+        onUsage: (usage) => {
+          reported = usage;
+          request.onUsage?.(usage);
+        },
+      });
+      const latencyMs = Date.now() - started;
+
+      const model = llm.modelFor(request.stage);
+      const usage: TokenUsage = reported ?? {
+        promptTokens: estimateTokens(request.messages.map((m) => m.content).join("\n")),
+        completionTokens: estimateTokens(content),
+      };
+      const call: LLMCallUsage = {
+        label: request.label ?? request.stage,
+        stage: request.stage,
+        model,
+        ...usage,
+        estimated: !reported,
+        costUSD: calculateCost(findPrice(prices, model), usage.promptTokens, usage.completionTokens),
+        latencyMs,
+      };
+      meter.record(call);
+      console.log(
+        "LLM 呼び出し:",
+        call.label,
+        model,
+        `入力 ${call.promptTokens} / 出力 ${call.completionTokens} トークン${call.estimated ? "（推定）" : ""},`,
+        `${latencyMs}ms`
+      );
+      return content;
+    },
+  };
+}
@@ -0,0 +1,107 @@
+/**
+ * 前回から持ち越した宿題事項・未決事項が、今回の会議でどうなったか（完了・対応中・言及なし）を判定する。
+ * 作成した議事録と書き起こしを見て、持ち越した事項と同じ数・順序で返させる。
+ */
+import type { JsonSchemaFormat, LLMProvider } from "../llm/types";
+import { SINGLE_PASS_LIMIT } from "./chunk";
+import { LANGUAGE_LABELS, type MinutesLanguage } from "./language";
+import type { MinutesContent } from "./schema";
+import type { CarryOverItem, CarryOverResult, CarryOverStatus } from "./series";
+
+export class CarryOverError extends Error {}
+
+export type CarryOverInput = {
+  items: CarryOverItem[];
+  /** 今回作成した議事録 */
+  content: MinutesContent;
+  transcript: string;
+  /** note を書く言語 */
+  language: MinutesLanguage;
+};
+
+const STATUSES: CarryOverStatus[] = ["done", "in_progress", "not_mentioned"];
+
+/** モックの応答もこの名前で引く（llm/mock.ts） */
+export const CARRY_OVER_SCHEMA: JsonSchemaFormat = {
+  name: "CarryOverStatus",
+  schema: {
+    type: "object",
+    properties: {
+      items: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            status: { type: "string", enum: STATUSES },
+            note: { type: "string" },
+            sourceQuote: { type: "string" },
+          },
+          required: ["status", "note", "sourceQuote"],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ["items"],
+    additionalProperties: false,
+  },
+};
+
+// 持ち越し事項はユーザーメッセージの2行目に1行の JSON で置く（モックが数を読む）
+const CARRY_OVER_ITEMS_HEADER = "持ち越し事項（JSON）:";
+
+export async function assessCarryOver(llm: LLMProvider, input: CarryOverInput, signal?: AbortSignal): Promise<CarryOverResult[]> {
+  const { items, content, transcript, language } = input;
+  if (items.length === 0) return [];
+
+  const system = [
+    "あなたは定例会議の議事録の担当者です。前回までの会議から持ち越した宿題事項・未決事項について、今回の会議での状況を判定してください。",
+    "- status: 完了した・解決した場合は done、進捗の報告があったが終わっていない場合は in_progress、今回の会議で触れられていない場合は not_mentioned",
+    `- note: 今回の会議での状況の説明（1文、${LANGUAGE_LABELS[language]}）。not_mentioned の場合は空文字`,
+    "- sourceQuote: 根拠となる発言の原文（書き起こしから一字一句そのまま抜き出す）。not_mentioned の場合は空文字",
+    "- items は持ち越し事項と同じ数・同じ順序で返してください。",
+    "書き起こしで実際に述べられていない進捗を推測で作らないでください。",
+  ].join("\n");
+
+  const source = items.map((item) => ({
+    kind: item.kind === "action" ? "宿題事項" : "未決事項",
+    task: item.task,
+    owner: item.owner,
+    dueDate: item.dueDate,
+  }));
+  const minutes = { summary: content.summary, minutes: content.minutes, decisions: content.decisions, actionItems: content.actionItems };
+
+  const raw = await llm.chat({
+    stage: "minutes",
+    label: "carry-over",
+    messages: [
+      { role: "system", content: system },
+      {
+        role: "user",
+        content:
+          `${CARRY_OVER_ITEMS_HEADER}\n${JSON.stringify(source)}\n\n` +
+          `今回の議事録（JSON）:\n${JSON.stringify(minutes, null, 1)}\n\n` +
+          `今回の書き起こし:\n${transcript.slice(0, SINGLE_PASS_LIMIT)}`,
+      },
+    ],
+    jsonSchema: CARRY_OVER_SCHEMA,
+    signal,
+  });
+
+  let parsed: { items?: unknown };
+  try {
+    parsed = JSON.parse(raw || "{}");
+  } catch {
+    throw new CarryOverError("持ち越し事項の判定結果を解析できませんでした");
+  }
+  const results = Array.isArray(parsed.items) ? parsed.items : [];
+  // 事項との対応が崩れると、どれが完了したかわからない
+  if (results.length !== items.length) {
+    throw new CarryOverError(`持ち越し事項の判定結果の数が違います（${results.length} / ${items.length}）`);
+  }
+  return items.map((item, i) => {
+    const result = (typeof results[i] === "object" && results[i] !== null ? results[i] : {}) as Record<string, unknown>;
+    const status = STATUSES.includes(result.status as CarryOverStatus) ? (result.status as CarryOverStatus) : "not_mentioned";
+    const text = (key: string) => (status !== "not_mentioned" && typeof result[key] === "string" ? (result[key] as string).trim() : "");
+    return { ...item, status, note: text("note"), sourceQuote: text("sourceQuote") };
+  });
+}
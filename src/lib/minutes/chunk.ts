@@ -0,0 +1,118 @@
+/**
+ * 長い文字起こしを、話者の区切りを優先しつつ重なりを持たせて分割する。
+ * map-reduce 型の要約（部分ごとに要約 → 統合）で使う。
+ */
+
+export type TranscriptChunk = {
+  index: number;
+  text: string;
+  /** 元テキスト内の開始位置（文字オフセット） */
+  start: number;
+  /** 元テキスト内の終了位置（この位置の文字は含まない） */
+  end: number;
+};
+
+export type ChunkOptions = {
+  /** 1チャンクの最大文字数 */
+  maxChars?: number;
+  /** 前のチャンクと重複させる文字数の上限 */
+  overlapChars?: number;
+  /** チャンク数の上限。超えた分は切り捨てて droppedChars に計上する */
+  maxChunks?: number;
+};
+
+export type ChunkReport = {
+  chunkCount: number;
+  truncated: boolean;
+  droppedChars: number;
+};
+
+export type ChunkResult = {
+  chunks: TranscriptChunk[];
+  droppedChars: number;
+};
+
+type Span = { start: number; end: number };
+
+/** これを超える文字起こしは分割して要約し、最後に統合する */
+export const SINGLE_PASS_LIMIT = 120000;
+
+export const DEFAULT_CHUNK_OPTIONS: Required<ChunkOptions> = {
+  maxChars: 30000,
+  overlapChars: 1500,
+  maxChunks: 12,
+};
+
+// 「名前: 発言」「Speaker 1」「[00:01:02] 名前:」のような話者の切り替わりを表す行
+const SPEAKER_LINE = /^\s*(?:\[?\d{1,2}:\d{2}(?::\d{2})?\]?\s*)?(?:[^\s:：]{1,20}\s*[:：]|speaker\s*\d+\b)/i;
+
+/** 行単位で走査し、話者の切り替わりか空行の直後を発言の区切りとみなす */
+function splitTurns(text: string): Span[] {
+  const turns: Span[] = [];
+  let current: Span | null = null;
+  let prevBlank = false;
+  let offset = 0;
+
+  for (const line of text.split("\n")) {
+    const lineEnd = offset + line.length + 1;
+    const blank = line.trim() === "";
+    if (!blank) {
+      if (!current || prevBlank || SPEAKER_LINE.test(line)) {
+        if (current) turns.push(current);
+        current = { start: offset, end: Math.min(lineEnd, text.length) };
+      } else {
+        current.end = Math.min(lineEnd, text.length);
+      }
+    }
+    prevBlank = blank;
+    offset = lineEnd;
+  }
+  if (current) turns.push(current);
+  return turns;
+}
+
+/** 1発言が maxChars を超える場合は文末（。や改行）を優先して分割する */
+function splitLongTurn(text: string, turn: Span, maxChars: number): Span[] {
+  const pieces: Span[] = [];
+  let start = turn.start;
+  while (turn.end - start > maxChars) {
+    const window = text.slice(start, start + maxChars);
+    const cut = Math.max(window.lastIndexOf("。"), window.lastIndexOf("\n"));
+    const size = cut > maxChars / 2 ? cut + 1 : maxChars;
+    pieces.push({ start, end: start + size });
+    start += size;
+  }
+  pieces.push({ start, end: turn.end });
+  return pieces;
+}
+
+export function splitTranscript(text: string, options: ChunkOptions = {}): ChunkResult {
+  const { maxChars, overlapChars, maxChunks } = { ...DEFAULT_CHUNK_OPTIONS, ...options };
+  const turns = splitTurns(text).flatMap((t) => splitLongTurn(text, t, maxChars));
+  const chunks: TranscriptChunk[] = [];
+  if (turns.length === 0) return { chunks, droppedChars: 0 };
+
+  let droppedChars = 0;
+  let i = 0;
+  while (i < turns.length) {
+    if (chunks.length >= maxChunks) {
+      droppedChars = text.slice(chunks[chunks.length - 1].end).trim().length;
+      break;
+    }
+
+    const start = turns[i].start;
+    let j = i;
+    while (j + 1 < turns.length && turns[j + 1].end - start <= maxChars) j++;
+    const end = turns[j].end;
+    chunks.push({ index: chunks.length, text: text.slice(start, end), start, end });
+    if (j === turns.length - 1) break;
+
+    // 次のチャンクは直前の数発言から始めて文脈をつなぐ。ただし新しい発言が必ず1つは入るようにする
+    let k = j + 1;
+    while (k - 1 > i && end - turns[k - 1].start <= overlapChars) k--;
+    while (k <= j && turns[j + 1].end - turns[k].start > maxChars) k++;
+    i = k;
+  }
+
+  return { chunks, droppedChars };
+}
@@ -0,0 +1,41 @@
+/** AI の下書きと編集後の議事録を行単位で比べる。クライアントで使う */
+
+export type DiffLine = {
+  type: "same" | "added" | "removed";
+  text: string;
+};
+
+/** 最長共通部分列による行単位の差分 */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before ? before.split(/\r?\n/) : [];
+  const b = after ? after.split(/\r?\n/) : [];
+  // lcs[i][j] = a[i..] と b[j..] の最長共通部分列の長さ
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: "same", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: "removed", text: a[i++] });
+    } else {
+      lines.push({ type: "added", text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: "removed", text: a[i++] });
+  while (j < b.length) lines.push({ type: "added", text: b[j++] });
+  return lines;
+}
+
+export function hasChanges(lines: DiffLine[]): boolean {
+  return lines.some((l) => l.type !== "same");
+}
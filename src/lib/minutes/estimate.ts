@@ -0,0 +1,63 @@
+/**
+ * 生成前の使用量の見積もり。画面で「AIで議事録を作成」を押す前に表示する。
+ * 実際の生成と同じ分割（chunk.ts）で呼び出し回数を数え、トークン数は文字数から見積もる。
+ * 文体ガイドラインの作成（スタイルファイルを指定した場合）は含めない。日英併記なら翻訳の1回を加える。
+ */
+import { estimateTokens } from "../llm/cost";
+import { SINGLE_PASS_LIMIT, splitTranscript } from "./chunk";
+
+// システムプロンプト（テンプレート・文体ガイドライン・用語集）と JSON Schema のおおよその大きさ
+const PROMPT_OVERHEAD_TOKENS = 2000;
+// 出力（要約・本文・各項目・引用）は入力のおよそ3割とし、1回あたりの上限で切る
+const OUTPUT_RATIO = 0.3;
+const MAX_OUTPUT_TOKENS = 4000;
+
+export type MinutesEstimate = {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+};
+
+function outputTokens(inputTokens: number): number {
+  return Math.min(Math.ceil(inputTokens * OUTPUT_RATIO), MAX_OUTPUT_TOKENS);
+}
+
+// 翻訳の指示（固有名詞・見出しの対応など）のおおよその大きさ
+const TRANSLATION_OVERHEAD_TOKENS = 500;
+
+/** 日英併記の場合、作成した議事録（出力と同じ大きさ）を訳す呼び出しを1回加える */
+function withTranslation(estimate: MinutesEstimate, lastOutput: number): MinutesEstimate {
+  return {
+    calls: estimate.calls + 1,
+    promptTokens: estimate.promptTokens + TRANSLATION_OVERHEAD_TOKENS + lastOutput,
+    completionTokens: estimate.completionTokens + lastOutput,
+  };
+}
+
+export function estimateMinutesUsage(transcript: string, { bilingual = false }: { bilingual?: boolean } = {}): MinutesEstimate {
+  const estimate = estimateGeneration(transcript);
+  return bilingual ? withTranslation(estimate.total, estimate.lastOutput) : estimate.total;
+}
+
+function estimateGeneration(transcript: string): { total: MinutesEstimate; lastOutput: number } {
+  if (transcript.length <= SINGLE_PASS_LIMIT) {
+    const input = estimateTokens(transcript);
+    const output = outputTokens(input);
+    return { total: { calls: 1, promptTokens: PROMPT_OVERHEAD_TOKENS + input, completionTokens: output }, lastOutput: output };
+  }
+
+  // map: チャンクごとの部分議事録、reduce: 部分議事録（文字数上限で切る）の統合
+  const { chunks } = splitTranscript(transcript);
+  const inputs = chunks.map((c) => estimateTokens(c.text));
+  const outputs = inputs.map(outputTokens);
+  const mergeInput = Math.min(outputs.reduce((sum, n) => sum + n, 0), SINGLE_PASS_LIMIT);
+  const mergeOutput = outputTokens(mergeInput);
+  return {
+    total: {
+      calls: chunks.length + 1,
+      promptTokens: PROMPT_OVERHEAD_TOKENS * (chunks.length + 1) + inputs.reduce((sum, n) => sum + n, 0) + mergeInput,
+      completionTokens: outputs.reduce((sum, n) => sum + n, 0) + mergeOutput,
+    },
+    lastOutput: mergeOutput,
+  };
+}
@@ -0,0 +1,93 @@
+/**
+ * POST /api/minutes とバッチ処理の API で共通のフォーム項目を読む。
+ * 不正な値は BadRequestError にする（ルートで 400 を返す）。
+ */
+import { ProviderConfigError, allowedOverrides, isProviderName, type ProviderConfig } from "../llm";
+import { getPromptTemplate, type PromptTemplate } from "../prompts";
+import {
+  getMeetingStore,
+  getStyleProfileStore,
+  inWorkspace,
+  isValidRecordId,
+  type MeetingRecord,
+  type StyleProfile,
+} from "../storage";
+import { isMinutesLanguage, isOutputLanguage, type LanguageSetting } from "./language";
+import type { MeetingInfo } from "./schema";
+
+export class BadRequestError extends Error {}
+
+/** フォームの speakerNames（{"Speaker 1": "田中"} 形式の JSON）を読む */
+export function readSpeakerNames(form: FormData): Record<string, string> {
+  const value = form.get("speakerNames");
+  if (typeof value !== "string" || !value.trim()) return {};
+  try {
+    const parsed = JSON.parse(value);
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) throw new Error();
+    return Object.fromEntries(Object.entries(parsed).filter((e): e is [string, string] => typeof e[1] === "string"));
+  } catch {
+    throw new BadRequestError("speakerNames が不正です");
+  }
+}
+
+export function readMeetingInfo(form: FormData): MeetingInfo {
+  const text = (key: string) => {
+    const value = form.get(key);
+    return typeof value === "string" ? value.trim() : "";
+  };
+  return { title: text("title"), date: text("date") };
+}
+
+/** フォームの sourceLanguage（auto / ja / en、既定 auto）と outputLanguage（ja / en / bilingual、既定 ja） */
+export function readLanguage(form: FormData): LanguageSetting {
+  const source = form.get("sourceLanguage") || "auto";
+  const output = form.get("outputLanguage") || "ja";
+  if (source !== "auto" && !isMinutesLanguage(source)) throw new BadRequestError(`sourceLanguage が不正です: ${source}`);
+  if (!isOutputLanguage(output)) throw new BadRequestError(`outputLanguage が不正です: ${output}`);
+  return { source, output };
+}
+
+/** ほかのワークスペースの文体プロファイルは見つからないものとする */
+export async function readStyleProfile(form: FormData, workspaceId: string): Promise<StyleProfile | null> {
+  const id = form.get("styleProfileId");
+  if (typeof id !== "string" || !id) return null;
+  const profile = isValidRecordId(id) ? await getStyleProfileStore().get(id) : null;
+  if (!profile || !inWorkspace(profile, workspaceId)) throw new BadRequestError("文体プロファイルが見つかりません");
+  return profile;
+}
+
+/** 定例会議の前回の会議（previousMeetingId）。ほかのワークスペースの会議は見つからないものとする */
+export async function readPreviousMeeting(form: FormData, workspaceId: string): Promise<MeetingRecord | null> {
+  const id = form.get("previousMeetingId");
+  if (typeof id !== "string" || !id) return null;
+  const record = isValidRecordId(id) ? await getMeetingStore().get(id) : null;
+  if (!record || !inWorkspace(record, workspaceId)) throw new BadRequestError("前回の会議が見つかりません");
+  return record;
+}
+
+export async function readTemplate(form: FormData): Promise<PromptTemplate> {
+  const id = form.get("template");
+  const template = await getPromptTemplate(typeof id === "string" && id ? id : undefined);
+  if (!template) throw new BadRequestError(`会議の種類（template）が不正です: ${id}`);
+  return template;
+}
+
+/**
+ * フォームの provider / styleModel / minutesModel で、環境変数の設定をリクエスト単位に上書きする。
+ * 管理者が許可していないものは無視する（allowedOverrides）
+ */
+export function readProviderOverrides(form: FormData): Partial<ProviderConfig> {
+  const value = form.get("provider");
+  if (value && !isProviderName(value)) {
+    throw new ProviderConfigError(`provider が不正です: ${value}`);
+  }
+  const provider = isProviderName(value) ? value : undefined;
+  const model = (key: string) => {
+    const value = form.get(key);
+    return typeof value === "string" && value.trim() ? value.trim() : undefined;
+  };
+  return allowedOverrides({
+    provider,
+    models: { style: model("styleModel"), minutes: model("minutesModel") },
+  });
+}
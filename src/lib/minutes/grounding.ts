@@ -0,0 +1,139 @@
+/**
+ * 議事録の各行（本文の箇条書き・決定事項・宿題事項）を、根拠となる書き起こしの箇所に結びつける。
+ * LLM には根拠の発言を原文のまま引用させ、その位置はここで書き起こしから機械的に探す。
+ * 見つからない行は「根拠なし」として画面で警告する（捏造された決定事項への対策）。
+ * 型と位置の検索はクライアントからも使う。
+ */
+import { parseTime } from "../transcript/parse";
+import type { MinutesContent } from "./schema";
+
+/** LLM が出力する引用（MINUTES_SCHEMA の citations） */
+export type Citation = {
+  /** 対象の行の文言 */
+  claim: string;
+  /** 根拠となる発言の原文 */
+  quotes: string[];
+};
+
+/** 書き起こし中の位置（文字オフセット） */
+export type SourceSpan = {
+  start: number;
+  end: number;
+  /** 行頭の「[00:01:02]」から読んだ時刻（秒）。時刻のない書き起こしでは省略 */
+  time?: number;
+};
+
+export type GroundedSection = "minutes" | "decisions" | "actionItems";
+
+export type GroundedClaim = {
+  section: GroundedSection;
+  text: string;
+  sources: SourceSpan[];
+  /** 引用が書き起こしの中に見つかった */
+  supported: boolean;
+};
+
+const BULLET = /^\s*[-・*]\s+(.*)$/;
+// 比較時に無視する文字（空白・句読点・括弧など）
+const IGNORED = /[\s、。，．,.!?！？「」『』（）()・:：…—-]/;
+const TIMESTAMP_PREFIX = /^\[((?:\d{1,2}:)?\d{1,2}:\d{2})\]\s*/;
+const SPEAKER_PREFIX = /^[^\s:：「」]{1,20}\s*[:：]\s*/;
+// これより短い断片では位置を探さない（ありふれた語に一致してしまうため）
+const MIN_FRAGMENT = 6;
+
+/** 比較用に正規化した文字列と、正規化後の各文字が元の何文字目だったか */
+function normalizeWithMap(text: string): { normalized: string; map: number[] } {
+  let normalized = "";
+  const map: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (IGNORED.test(ch)) continue;
+    normalized += ch.toLowerCase();
+    map.push(i);
+  }
+  return { normalized, map };
+}
+
+function normalize(text: string): string {
+  return normalizeWithMap(text).normalized;
+}
+
+function timeAt(transcript: string, offset: number): number | undefined {
+  const lineStart = transcript.lastIndexOf("\n", offset - 1) + 1;
+  const m = TIMESTAMP_PREFIX.exec(transcript.slice(lineStart, lineStart + 16));
+  return m ? parseTime(m[1]) : undefined;
+}
+
+/**
+ * 引用を書き起こしの中から探す。空白や句読点の違いは無視する。
+ * 全体が見つからない場合は、文ごとに分けて最初に見つかった断片の位置を返す。
+ */
+export function locateQuote(transcript: string, quote: string): SourceSpan | null {
+  return locateIn(transcript, normalizeWithMap(transcript), quote);
+}
+
+function locateIn(
+  transcript: string,
+  { normalized, map }: ReturnType<typeof normalizeWithMap>,
+  quote: string
+): SourceSpan | null {
+  const body = quote.trim().replace(TIMESTAMP_PREFIX, "").replace(SPEAKER_PREFIX, "");
+  const candidates = [body, ...body.split(/[。．.!?！？\n]/)].map(normalize).filter((q) => q.length >= MIN_FRAGMENT);
+  for (const candidate of candidates) {
+    const found = normalized.indexOf(candidate);
+    if (found < 0) continue;
+    const start = map[found];
+    const end = map[found + candidate.length - 1] + 1;
+    const time = timeAt(transcript, start);
+    return time === undefined ? { start, end } : { start, end, time };
+  }
+  return null;
+}
+
+function sameClaim(a: string, b: string): boolean {
+  const x = normalize(a);
+  const y = normalize(b);
+  if (!x || !y) return false;
+  return x === y || (Math.min(x.length, y.length) >= 8 && (x.includes(y) || y.includes(x)));
+}
+
+export function normalizeCitations(value: unknown): Citation[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((c): c is Record<string, unknown> => typeof c === "object" && c !== null)
+    .map((c) => ({
+      claim: typeof c.claim === "string" ? c.claim : "",
+      quotes: Array.isArray(c.quotes) ? c.quotes.filter((q): q is string => typeof q === "string") : [],
+    }))
+    .filter((c) => c.claim.trim());
+}
+
+/** 本文の箇条書き・決定事項・宿題事項のそれぞれについて、根拠の位置を求める */
+export function groundMinutes(content: MinutesContent, citations: Citation[], transcript: string): GroundedClaim[] {
+  const claims: { section: GroundedSection; text: string; quotes: string[] }[] = [
+    ...content.minutes
+      .split(/\r?\n/)
+      .map((line) => BULLET.exec(line)?.[1].trim() ?? "")
+      .filter(Boolean)
+      .map((text) => ({ section: "minutes" as const, text, quotes: [] })),
+    ...content.decisions.filter((d) => d.trim()).map((text) => ({ section: "decisions" as const, text, quotes: [] })),
+    ...content.actionItems
+      .filter((a) => a.task.trim())
+      .map((a) => ({ section: "actionItems" as const, text: a.task, quotes: a.sourceQuote ? [a.sourceQuote] : [] })),
+  ];
+
+  const index = normalizeWithMap(transcript);
+  return claims.map(({ section, text, quotes }) => {
+    const cited = citations.filter((c) => sameClaim(c.claim, text)).flatMap((c) => c.quotes);
+    const sources = [...quotes, ...cited]
+      .map((q) => locateIn(transcript, index, q))
+      .filter((s): s is SourceSpan => s !== null)
+      .filter((s, i, all) => all.findIndex((o) => o.start === s.start) === i);
+    return { section, text, sources, supported: sources.length > 0 };
+  });
+}
+
+/** 画面でクリックされた行に対応する根拠を探す（編集で文言が変わった行は見つからない） */
+export function findClaim(claims: GroundedClaim[], text: string): GroundedClaim | null {
+  return claims.find((c) => c.text === text.trim()) ?? claims.find((c) => sameClaim(c.text, text)) ?? null;
+}
@@ -0,0 +1,91 @@
+/**
+ * 議事録の言語。書き起こしの言語（指定がなければ文字の種類から判定）と、
+ * 出力する言語（日本語・英語・日英併記）を別々に選べる。クライアントからも使う。
+ */
+import type { MinutesContent } from "./schema";
+
+export type MinutesLanguage = "ja" | "en";
+
+/** bilingual: 書き起こしの言語で作成し、もう一方の言語への翻訳を並べる */
+export type OutputLanguage = MinutesLanguage | "bilingual";
+
+export type LanguageSetting = {
+  /** auto なら書き起こしから判定する */
+  source: MinutesLanguage | "auto";
+  output: OutputLanguage;
+};
+
+/** 翻訳した議事録（出席者・宿題事項の担当者と期限は原文のまま） */
+export type MinutesTranslation = {
+  language: MinutesLanguage;
+  content: MinutesContent;
+};
+
+export const DEFAULT_LANGUAGE_SETTING: LanguageSetting = { source: "auto", output: "ja" };
+
+export const LANGUAGE_LABELS: Record<MinutesLanguage, string> = { ja: "日本語", en: "英語" };
+
+export const OUTPUT_LANGUAGE_LABELS: Record<OutputLanguage, string> = { ja: "日本語", en: "英語", bilingual: "日英併記" };
+
+export function isMinutesLanguage(value: unknown): value is MinutesLanguage {
+  return value === "ja" || value === "en";
+}
+
+export function isOutputLanguage(value: unknown): value is OutputLanguage {
+  return isMinutesLanguage(value) || value === "bilingual";
+}
+
+export function otherLanguage(language: MinutesLanguage): MinutesLanguage {
+  return language === "ja" ? "en" : "ja";
+}
+
+// 英単語はおよそ5文字で日本語の1〜2文字分の内容になる
+const LATIN_PER_JAPANESE = 4;
+
+/** かな・漢字とラテン文字の量から判定する。日英が混じる場合はおおむね日本語になる */
+export function detectLanguage(text: string): MinutesLanguage {
+  const japanese = text.match(/[\u3040-\u30ff\u3400-\u9fff\uff66-\uff9f]/g)?.length ?? 0;
+  const latin = text.match(/[A-Za-z]/g)?.length ?? 0;
+  return japanese * LATIN_PER_JAPANESE >= latin ? "ja" : "en";
+}
+
+/** 書き起こしの言語と出力の指定から、最初に作成する議事録の言語を決める */
+export function primaryLanguage(source: MinutesLanguage, output: OutputLanguage): MinutesLanguage {
+  return output === "bilingual" ? source : output;
+}
+
+type ExportLabel = keyof MinutesContent | "title" | "date" | "task" | "owner" | "dueDate" | "undecided";
+
+/** 書き出し（テキスト・HTML）で使う項目名 */
+export const EXPORT_LABELS: Record<MinutesLanguage, Record<ExportLabel, string>> = {
+  ja: {
+    title: "議事録",
+    date: "開催日",
+    summary: "要約",
+    minutes: "議事録本文",
+    attendees: "出席者",
+    agenda: "議題",
+    decisions: "決定事項",
+    actionItems: "宿題事項",
+    openQuestions: "未決事項",
+    task: "内容",
+    owner: "担当",
+    dueDate: "期限",
+    undecided: "未定",
+  },
+  en: {
+    title: "Minutes",
+    date: "Date",
+    summary: "Summary",
+    minutes: "Minutes",
+    attendees: "Attendees",
+    agenda: "Agenda",
+    decisions: "Decisions",
+    actionItems: "Action items",
+    openQuestions: "Open questions",
+    task: "Task",
+    owner: "Owner",
+    dueDate: "Due",
+    undecided: "TBD",
+  },
+};
@@ -0,0 +1,44 @@
+/**
+ * 議事録本文（Markdown）を「## 見出し」単位で扱う。
+ * 見出し単位の再生成と、その結果の差し替えに使う。クライアントからも使う。
+ */
+
+export type MarkdownSection = {
+  /** 「## 」を除いた見出し。最初の見出しより前の部分は空文字 */
+  heading: string;
+  body: string;
+};
+
+const SECTION_HEADING = /^##\s+(.+?)\s*$/;
+
+export function splitMarkdownSections(markdown: string): MarkdownSection[] {
+  const sections: MarkdownSection[] = [{ heading: "", body: "" }];
+  const lines: string[][] = [[]];
+  for (const line of markdown.split(/\r?\n/)) {
+    const heading = SECTION_HEADING.exec(line);
+    if (heading) {
+      sections.push({ heading: heading[1], body: "" });
+      lines.push([]);
+    } else {
+      lines[lines.length - 1].push(line);
+    }
+  }
+  sections.forEach((s, i) => (s.body = lines[i].join("\n").trim()));
+  return sections[0].body ? sections : sections.slice(1);
+}
+
+export function joinMarkdownSections(sections: MarkdownSection[]): string {
+  return sections.map((s) => (s.heading ? `## ${s.heading}\n${s.body}` : s.body)).join("\n\n");
+}
+
+/** 指定した見出しの本文を置き換える。見出しがなければ末尾に追加する */
+export function replaceMarkdownSection(markdown: string, heading: string, body: string): string {
+  const sections = splitMarkdownSections(markdown);
+  const target = sections.find((s) => s.heading === heading);
+  if (target) {
+    target.body = body.trim();
+  } else {
+    sections.push({ heading, body: body.trim() });
+  }
+  return joinMarkdownSections(sections);
+}
@@ -0,0 +1,663 @@
+/**
+ * 文字起こしから議事録を作る処理の本体。POST /api/minutes とバッチ処理（API・CLI）で共通に使う。
+ * 文字起こしの正規化・用語集による修正・伏せ字の準備（prepareMinutesInput）と、
+ * スタイルガイドラインの用意から生成・履歴への保存まで（generateMinutes）に分かれる。
+ */
+import { randomUUID } from "crypto";
+import { createUsageMeter, withUsageMeter, type ChatMessage, type LLMProvider, type UsageMeter } from "../llm";
+import { applyGlossary, selectGlossary, type GlossaryCorrection, type GlossaryEntry } from "../glossary";
+import { templateSections, type PromptTemplate } from "../prompts";
+import { createRedactor, withRedaction, type Redactor } from "../redaction";
+import {
+  DEFAULT_WORKSPACE_ID,
+  getGlossaryStore,
+  getMeetingStore,
+  getStyleProfileStore,
+  inWorkspace,
+  type MeetingRecord,
+  type StyleProfile,
+} from "../storage";
+import { applySpeakerNames, listSpeakers, parseTranscript, renderTranscript } from "../transcript/parse";
+import { assessCarryOver } from "./carry-over";
+import { SINGLE_PASS_LIMIT, splitTranscript, type ChunkOptions, type ChunkReport } from "./chunk";
+import { groundMinutes, type GroundedClaim } from "./grounding";
+import {
+  DEFAULT_LANGUAGE_SETTING,
+  detectLanguage,
+  otherLanguage,
+  primaryLanguage,
+  type LanguageSetting,
+  type MinutesLanguage,
+  type MinutesTranslation,
+  type OutputLanguage,
+} from "./language";
+import { buildSystemPrompt } from "./prompt";
+import { MINUTES_SCHEMA, pickMinutesContent, type MeetingInfo, type MinutesContent } from "./schema";
+import { openItemsOf, seriesIdOf, type CarryOverItem, type CarryOverResult, type SeriesContext } from "./series";
+import { extractPartialString, type EmitEvent, type MinutesResponse } from "./stream";
+import { buildStyleGuidelines, readStyleSource, type StyleSource } from "./style";
+import { translateMinutes } from "./translate";
+import {
+  MinutesValidationError,
+  buildRepairPrompt,
+  checkMinutesOutput,
+  validateMinutes,
+  type MinutesDraft,
+  type MinutesValidation,
+} from "./validate";
+
+export type MinutesResult = MinutesContent & {
+  transcript: string;
+  chunking: ChunkReport;
+  grounding: GroundedClaim[];
+  validation: MinutesValidation;
+};
+
+export type MinutesInput = {
+  /** 正規化済みの文字起こし（「[00:01:02] 名前: 発言」形式。形式不明ならそのまま） */
+  transcript: string;
+  /** 文字起こしから読み取った話者名（名前の割り当て後） */
+  participants: string[];
+  /** 読み込んだスタイルファイル（指定がなければ null） */
+  styleSource: StyleSource | null;
+  /** 指定された場合、スタイルファイルが変わっていなければ保存済みのガイドラインを使う */
+  styleProfile: StyleProfile | null;
+  /** 用意済みのガイドライン（バッチで共有する場合）。指定すればスタイルファイル・プロファイルからは作らない */
+  styleGuidelines?: string;
+  /** 会議の種類に応じたプロンプト */
+  template: PromptTemplate;
+  meeting: MeetingInfo;
+  /** 伏せ字にする場合に使う。生成後はレポートの取得に使う */
+  redactor: Redactor | null;
+  /** プロンプトで表記を指定する用語（書き起こしに出てくるもの） */
+  glossary: GlossaryEntry[];
+  /** 用語集で書き起こしを直した箇所 */
+  glossaryCorrections: GlossaryCorrection[];
+  /** LLM 呼び出しごとのトークン数・費用・所要時間の記録 */
+  usage: UsageMeter;
+  /** 書き起こしの言語（判定済み）と出力する言語 */
+  language: { source: MinutesLanguage; output: OutputLanguage };
+  /** 履歴を保存するワークスペース（省略時は既定のワークスペース） */
+  workspaceId?: string;
+  /** 定例会議で前回の会議を指定した場合の持ち越し事項 */
+  series?: SeriesContext | null;
+};
+
+/** prepareMinutesInput に渡す、リクエスト（フォームやバッチの1ファイル）の内容 */
+export type MinutesRequest = {
+  /** アップロードされたままの文字起こし */
+  transcript: string;
+  /** 「Speaker 1」→「田中」のような話者名の割り当て */
+  speakerNames?: Record<string, string>;
+  styleFiles?: File[];
+  styleProfile?: StyleProfile | null;
+  styleGuidelines?: string;
+  template: PromptTemplate;
+  meeting: MeetingInfo;
+  /** 伏せ字にする場合の辞書の語（話者名は常に対象）。null なら伏せ字にしない */
+  redactTerms: string[] | null;
+  /** false なら用語集を使わない */
+  glossary: boolean;
+  /** 省略時は書き起こしから言語を判定し、日本語で出力する */
+  language?: LanguageSetting;
+  workspaceId?: string;
+  /** 定例会議の前回の会議。未完了の宿題事項・未決事項を持ち越す */
+  previousMeeting?: MeetingRecord | null;
+};
+
+/** VTT / SRT などを共通の形式にそろえ、話者名の割り当てを反映する */
+function prepareTranscript(raw: string, speakerNames: Record<string, string>): Pick<MinutesInput, "transcript" | "participants"> {
+  const parsed = parseTranscript(raw);
+  console.log("文字起こし形式:", parsed.format, "発言数:", parsed.utterances.length);
+  if (parsed.format === "plain") return { transcript: raw, participants: [] };
+
+  const utterances = applySpeakerNames(parsed.utterances, speakerNames);
+  return {
+    transcript: renderTranscript(utterances),
+    participants: listSpeakers(utterances).map((s) => s.speaker),
+  };
+}
+
+/** 用語集の誤変換を直し、プロンプトで表記を指定する用語を選ぶ */
+async function correctTranscript(
+  raw: string,
+  useGlossary: boolean,
+  workspaceId: string
+): Promise<{ text: string; entries: GlossaryEntry[]; corrections: GlossaryCorrection[] }> {
+  if (!useGlossary) return { text: raw, entries: [], corrections: [] };
+  const entries = (await getGlossaryStore().all()).filter((e) => inWorkspace(e, workspaceId));
+  const { text, corrections } = applyGlossary(raw, entries);
+  if (corrections.length) {
+    console.log("用語集で修正:", corrections.map((c) => `${c.variant}→${c.term}×${c.count}`).join(", "));
+  }
+  return { text, entries: selectGlossary(entries, text), corrections };
+}
+
+/** 文字起こしを正規化し、用語集での修正と伏せ字の準備をする */
+export async function prepareMinutesInput(request: MinutesRequest): Promise<MinutesInput> {
+  const corrected = await correctTranscript(request.transcript, request.glossary, request.workspaceId ?? DEFAULT_WORKSPACE_ID);
+  const prepared = prepareTranscript(corrected.text, request.speakerNames ?? {});
+  const { source, output } = request.language ?? DEFAULT_LANGUAGE_SETTING;
+  const language = { source: source === "auto" ? detectLanguage(prepared.transcript) : source, output };
+  console.log("言語: 書き起こし", language.source, source === "auto" ? "（判定）" : "", "出力", language.output);
+  const previous = request.previousMeeting;
+  const series = previous ? { seriesId: seriesIdOf(previous), previousMeetingId: previous.id, items: openItemsOf(previous) } : null;
+  if (series) console.log("前回の会議:", series.previousMeetingId, "持ち越し事項:", series.items.length, "件");
+  return {
+    ...prepared,
+    styleSource: await readStyleSource(request.styleFiles ?? []),
+    styleProfile: request.styleProfile ?? null,
+    styleGuidelines: request.styleGuidelines,
+    template: request.template,
+    meeting: request.meeting,
+    // 伏せ字は話者名と辞書の語を必ず対象にする
+    redactor: request.redactTerms ? createRedactor({ names: prepared.participants, terms: request.redactTerms }) : null,
+    glossary: corrected.entries,
+    glossaryCorrections: corrected.corrections,
+    usage: createUsageMeter(),
+    language,
+    workspaceId: request.workspaceId,
+    series,
+  };
+}
+
+/**
+ * スタイルガイドラインを用意する。文体プロファイルがあり、スタイルファイルが未指定か
+ * 前回と同じ内容なら保存済みのもの（手で編集したものを含む）をそのまま使う。
+ * ファイルが変わっていれば作り直してプロファイルも更新する。
+ */
+export async function prepareStyleGuidelines(
+  llm: LLMProvider,
+  { styleSource, styleProfile }: Pick<MinutesInput, "styleSource" | "styleProfile">,
+  emit: EmitEvent,
+  signal?: AbortSignal
+): Promise<string> {
+  if (styleProfile && (!styleSource || styleSource.hash === styleProfile.sourceHash)) {
+    console.log("文体プロファイルのガイドラインを使用:", styleProfile.name);
+    emit({ type: "guidelines_built", chars: styleProfile.guidelines.length, profile: styleProfile.name, reused: true });
+    return styleProfile.guidelines;
+  }
+
+  const styleCorpus = styleSource?.corpus ?? "";
+  console.log("スタイルファイル:", styleSource?.files.length ?? 0, "件, 長さ:", styleCorpus.length);
+  emit({
+    type: "style_parsed",
+    files: styleSource?.files.length ?? 0,
+    chars: styleCorpus.length,
+    warnings: styleSource?.warnings ?? [],
+  });
+
+  console.log("スタイルガイドライン生成開始");
+  const styleGuidelines = await buildStyleGuidelines(llm, styleCorpus, signal);
+  console.log("スタイルガイドライン生成完了, 長さ:", styleGuidelines.length);
+
+  if (styleProfile) {
+    if (styleProfile.edited) console.log("スタイルファイルが変わったため、手で編集したガイドラインを置き換えます");
+    await getStyleProfileStore().save({
+      ...styleProfile,
+      guidelines: styleGuidelines,
+      sourceHash: styleSource?.hash ?? "",
+      sourceFiles: styleSource?.files ?? [],
+      edited: false,
+      updatedAt: new Date().toISOString(),
+    });
+    console.log("文体プロファイルを更新:", styleProfile.name);
+  }
+  emit({ type: "guidelines_built", chars: styleGuidelines.length, profile: styleProfile?.name, reused: false });
+  return styleGuidelines;
+}
+
+/**
+ * 段階ごとの出力の保存先。ジョブで使い、途中で失敗しても完了した段階（チャンクごとの部分議事録など）は
+ * やり直さずに再開できるようにする。
+ */
+export type StageCache = {
+  get(key: string): unknown;
+  set(key: string, value: unknown): Promise<void>;
+};
+
+async function cached<T>(stages: StageCache | undefined, key: string, run: () => Promise<T>): Promise<T> {
+  const saved = stages?.get(key);
+  if (saved !== undefined) {
+    console.log("保存済みの途中結果を使用:", key);
+    return saved as T;
+  }
+  const value = await run();
+  await stages?.set(key, value);
+  return value;
+}
+
+function getChunkOptions(): ChunkOptions {
+  const maxChunks = Number(process.env.MINUTES_MAX_CHUNKS);
+  return Number.isFinite(maxChunks) && maxChunks > 0 ? { maxChunks } : {};
+}
+
+// 生成途中の本文を送る間隔（文字数）。細かすぎるとイベントが膨らむ
+const PARTIAL_EMIT_STEP = 200;
+
+// 出力に問題があったときに修正を依頼する回数の既定値（MINUTES_MAX_REPAIRS で変更できる）
+const DEFAULT_MAX_REPAIRS = 2;
+
+function getMaxRepairs(): number {
+  const value = Number(process.env.MINUTES_MAX_REPAIRS);
+  return process.env.MINUTES_MAX_REPAIRS && Number.isFinite(value) && value >= 0 ? Math.floor(value) : DEFAULT_MAX_REPAIRS;
+}
+
+type RequestOptions = {
+  /** 使用量の記録に出す名前 */
+  label: string;
+  /** 本文に必要な見出し。長い会議の部分議事録では空にする */
+  sections: string[];
+  emit: EmitEvent;
+  /** 修正を依頼した回数を数える */
+  validation: MinutesValidation;
+  signal?: AbortSignal;
+  /** 指定するとトークン単位でストリーミングし、生成途中の本文を渡す */
+  onPartial?: (minutes: string) => void;
+};
+
+/**
+ * 議事録を1回分生成する。出力を検証し、問題があれば内容を伝えて出し直させる。
+ * 上限まで直らなかった場合、読み取れない・本文が空のときは MinutesValidationError、
+ * それ以外（見出しの不足など）は問題の残ったまま返す（結果の validation で画面に示す）。
+ */
+async function requestMinutes(
+  llm: LLMProvider,
+  system: string,
+  user: string,
+  { label, sections, emit, validation, signal, onPartial }: RequestOptions
+): Promise<MinutesDraft> {
+  const messages: ChatMessage[] = [
+    { role: "system", content: system },
+    { role: "user", content: user },
+  ];
+  const maxRepairs = getMaxRepairs();
+
+  for (let attempt = 0; ; attempt++) {
+    let received = "";
+    let emitted = 0;
+    const onDelta = onPartial
+      ? (delta: string) => {
+          received += delta;
+          const minutes = extractPartialString(received, "minutes");
+          if (minutes.length - emitted >= PARTIAL_EMIT_STEP) {
+            emitted = minutes.length;
+            onPartial(minutes);
+          }
+        }
+      : undefined;
+
+    let cutOff = false;
+    const content = await llm.chat({
+      stage: "minutes",
+      label: attempt ? `${label}-repair-${attempt}` : label,
+      messages,
+      jsonSchema: MINUTES_SCHEMA,
+      signal,
+      onDelta,
+      onTruncated: () => {
+        cutOff = true;
+      },
+    });
+
+    const { draft, issues } = checkMinutesOutput(content, { sections }, { cutOff });
+    if (draft && issues.length === 0) return draft;
+    if (attempt >= maxRepairs) {
+      console.log("修正しきれなかった出力の問題:", label, issues.map((i) => i.message).join(" / "));
+      if (!draft || issues.some((i) => i.code === "empty_minutes")) throw new MinutesValidationError(issues);
+      return draft;
+    }
+
+    validation.repairs++;
+    console.log(`出力の問題のため修正を依頼（${attempt + 1}回目）:`, label, issues.map((i) => i.message).join(" / "));
+    emit({ type: "repairing", label, attempt: attempt + 1, issues });
+    messages.push({ role: "assistant", content }, { role: "user", content: buildRepairPrompt(issues) });
+  }
+}
+
+// 段階的に統合するときに、1回でまとめる部分議事録の最小数（1件ずつでは統合が進まない）
+const MERGE_FAN_IN_MIN = 2;
+
+function formatMergePart(draft: MinutesDraft, index: number): string {
+  return `## 第${index + 1}部\n${JSON.stringify(draft, null, 1)}`;
+}
+
+/**
+ * 部分議事録を、統合のプロンプトが SINGLE_PASS_LIMIT に収まる数ずつ時系列順に分ける。
+ * 途中で切ると JSON が壊れるので、1件で上限を超える場合もそのまま（少なくとも2件ずつ）入れる。
+ */
+function batchForMerge(drafts: MinutesDraft[]): MinutesDraft[][] {
+  const batches: MinutesDraft[][] = [];
+  let current: MinutesDraft[] = [];
+  let length = 0;
+  for (const draft of drafts) {
+    const size = formatMergePart(draft, current.length).length + 2;
+    if (current.length >= MERGE_FAN_IN_MIN && length + size > SINGLE_PASS_LIMIT) {
+      batches.push(current);
+      current = [];
+      length = 0;
+    }
+    current.push(draft);
+    length += size;
+  }
+  if (current.length) batches.push(current);
+  return batches;
+}
+
+function buildMergePrompt(drafts: MinutesDraft[], truncated: boolean): string {
+  return (
+    "以下は1つの長い会議を時系列順に分割して作成した部分議事録です。" +
+    "重複を除き、時系列順を保ったまま1つの議事録に統合してください。要約は段落1つ、本文は見出し・箇条書き中心で。" +
+    "出席者・議題・決定事項・宿題事項・未決事項も重複を除いて統合してください。" +
+    "citations は部分議事録の引用をそのまま引き継いでください。" +
+    (truncated ? "\n※会議の終盤は文字数上限のため含まれていません。その旨を本文末尾に明記してください。" : "") +
+    "\n\n" +
+    drafts.map(formatMergePart).join("\n\n")
+  );
+}
+
+/**
+ * 引用を書き起こし中の位置に置き換える。根拠の見つからない行はログに残す。
+ * 最終的な出力に残った問題（保存済みの途中結果から再開した場合を含む）もここで確かめる。
+ */
+function withGrounding(
+  transcript: string,
+  { citations, ...content }: MinutesDraft,
+  chunking: ChunkReport,
+  { sections, repairs }: { sections: string[]; repairs: number }
+): MinutesResult {
+  const grounding = groundMinutes(content, citations, transcript);
+  const unsupported = grounding.filter((c) => !c.supported);
+  console.log("根拠の確認:", grounding.length, "行中", unsupported.length, "行は根拠が見つかりません");
+  const validation = { repairs, issues: validateMinutes(content, { sections }) };
+  return { transcript, ...content, chunking, grounding, validation };
+}
+
+export type SummarizeInput = Pick<MinutesInput, "transcript" | "participants" | "template" | "meeting" | "glossary"> & {
+  styleGuidelines: string;
+  /** 議事録を書く言語 */
+  language: MinutesLanguage;
+  sourceLanguage: MinutesLanguage;
+  /** 定例会議で前回までの会議から持ち越した事項 */
+  carryOver?: CarryOverItem[];
+};
+
+/**
+ * 用意したガイドラインで議事録を生成し、検証と根拠の確認まで行う（履歴には保存しない）。
+ * 長い会議はチャンクごとに部分議事録を作ってから統合する。
+ */
+export async function summarize(
+  llm: LLMProvider,
+  { transcript, participants, template, meeting, glossary, styleGuidelines, language, sourceLanguage, carryOver }: SummarizeInput,
+  emit: EmitEvent,
+  signal?: AbortSignal,
+  stages?: StageCache
+): Promise<MinutesResult> {
+  const { chunks, droppedChars } =
+    transcript.length > SINGLE_PASS_LIMIT
+      ? splitTranscript(transcript, getChunkOptions())
+      : { chunks: [], droppedChars: 0 };
+  const chunking: ChunkReport = {
+    chunkCount: Math.max(chunks.length, 1),
+    truncated: droppedChars > 0,
+    droppedChars,
+  };
+
+  const system = buildSystemPrompt({
+    template,
+    meeting,
+    participants,
+    styleGuidelines,
+    glossary,
+    language,
+    sourceLanguage,
+    carryOver,
+  });
+
+  const onPartial = (minutes: string) => emit({ type: "partial", minutes });
+  const sections = templateSections(template, language);
+  const validation: MinutesValidation = { repairs: 0, issues: [] };
+  const check = { emit, validation, signal };
+
+  if (chunks.length === 0) {
+    const result = await cached(stages, "minutes", () =>
+      requestMinutes(
+        llm,
+        system,
+        "次の書き起こしから議事録を作成してください。要約は段落1つ、本文は見出し・箇条書き中心で。\n\n" + transcript,
+        { label: "minutes", sections, ...check, onPartial }
+      )
+    );
+    return withGrounding(transcript, result, chunking, { sections, repairs: validation.repairs });
+  }
+
+  // map: チャンクごとに部分議事録を作る（時系列を保つため順番に処理）
+  const parts: MinutesDraft[] = [];
+  for (const chunk of chunks) {
+    console.log(`チャンク要約 ${chunk.index + 1}/${chunks.length}, 長さ:`, chunk.text.length);
+    emit({ type: "chunk", index: chunk.index, total: chunks.length });
+    parts.push(
+      await cached(stages, `chunk-${chunk.index}`, () =>
+        requestMinutes(
+          llm,
+          system,
+          `これは長い会議の書き起こしの第${chunk.index + 1}部（全${chunks.length}部）です。` +
+            "前の部と冒頭が一部重複している場合があります。この部分について議事録を作成してください。" +
+            "要約は段落1つ、本文は見出し・箇条書き中心で。\n\n" +
+            chunk.text,
+          { label: `chunk-${chunk.index}`, sections: [], ...check }
+        )
+      )
+    );
+    onPartial(parts.map((p) => p.minutes).join("\n\n"));
+  }
+
+  emit({ type: "merging", total: chunks.length });
+  // reduce: 部分議事録を時系列順に統合する。1回のプロンプトに収まらない場合は、収まる数ずつ統合してから、さらに統合する
+  let drafts = parts;
+  for (let level = 1; drafts.length > MERGE_FAN_IN_MIN; level++) {
+    const batches = batchForMerge(drafts);
+    if (batches.length === 1) break;
+    console.log(`部分議事録を段階的に統合 ${level}段目:`, drafts.length, "件 →", batches.length, "件");
+    const next: MinutesDraft[] = [];
+    for (const [i, batch] of batches.entries()) {
+      next.push(
+        batch.length === 1
+          ? batch[0]
+          : await cached(stages, `merge-${level}-${i}`, () =>
+              requestMinutes(llm, system, buildMergePrompt(batch, false), { label: `merge-${level}-${i}`, sections: [], ...check })
+            )
+      );
+    }
+    drafts = next;
+  }
+  const merged = await cached(stages, "merge", () =>
+    requestMinutes(llm, system, buildMergePrompt(drafts, chunking.truncated), { label: "merge", sections, ...check, onPartial })
+  );
+  return withGrounding(transcript, merged, chunking, { sections, repairs: validation.repairs });
+}
+
+/** スタイルガイドラインを用意して議事録を作り、履歴に保存する。stages を渡すと段階ごとの出力を保存・再利用する */
+export async function generateMinutes(
+  provider: LLMProvider,
+  {
+    transcript,
+    participants,
+    styleSource,
+    styleProfile,
+    styleGuidelines: sharedGuidelines,
+    template,
+    meeting,
+    redactor,
+    glossary,
+    glossaryCorrections,
+    usage,
+    language,
+    workspaceId,
+    series,
+  }: MinutesInput,
+  emit: EmitEvent,
+  signal?: AbortSignal,
+  stages?: StageCache
+): Promise<MinutesResponse> {
+  const llm = withUsageMeter(redactor ? withRedaction(provider, redactor) : provider, usage);
+  const styleGuidelines =
+    sharedGuidelines ??
+    (await cached(stages, "guidelines", () => prepareStyleGuidelines(llm, { styleSource, styleProfile }, emit, signal)));
+
+  const primary = primaryLanguage(language.source, language.output);
+  console.log("議事録生成開始, テンプレート:", template.id, "言語:", primary);
+  const result = await summarize(
+    llm,
+    {
+      transcript,
+      participants,
+      template,
+      meeting,
+      glossary,
+      styleGuidelines,
+      language: primary,
+      sourceLanguage: language.source,
+      carryOver: series?.items ?? [],
+    },
+    emit,
+    signal,
+    stages
+  );
+  console.log("議事録生成完了");
+  console.log("要約長さ:", result.summary.length);
+  console.log("議事録本文長さ:", result.minutes.length);
+  console.log("決定事項:", result.decisions.length, "件, 宿題事項:", result.actionItems.length, "件");
+  console.log("チャンク数:", result.chunking.chunkCount, "切り捨て文字数:", result.chunking.droppedChars);
+  console.log("出力の検証: 修正依頼", result.validation.repairs, "回, 残った問題:", result.validation.issues.length, "件");
+
+  // 定例会議: 前回から持ち越した事項が今回どうなったかを判定する
+  let carryOver: CarryOverResult[] = [];
+  if (series?.items.length) {
+    emit({ type: "carry_over", items: series.items.length });
+    carryOver = await cached(stages, "carry-over", () =>
+      assessCarryOver(
+        llm,
+        { items: series.items, content: pickMinutesContent(result), transcript: result.transcript, language: primary },
+        signal
+      )
+    );
+    const counts = carryOver.reduce<Record<string, number>>((acc, c) => ({ ...acc, [c.status]: (acc[c.status] ?? 0) + 1 }), {});
+    console.log("持ち越し事項の状況:", JSON.stringify(counts));
+  }
+
+  // 日英併記: 作成した議事録をもう一方の言語に翻訳して並べる
+  let translation: MinutesTranslation | null = null;
+  if (language.output === "bilingual") {
+    const to = otherLanguage(primary);
+    emit({ type: "translating", language: to });
+    translation = await cached(stages, "translation", () =>
+      translateMinutes(
+        llm,
+        {
+          content: pickMinutesContent(result),
+          from: primary,
+          to,
+          headings: { from: templateSections(template, primary), to: templateSections(template, to) },
+          keepTerms: glossary.map((e) => e.term),
+        },
+        signal
+      )
+    );
+    console.log("翻訳完了:", to, "本文長さ:", translation.content.minutes.length);
+  }
+
+  const redaction = redactor?.report() ?? null;
+  if (redaction) console.log("伏せ字:", redaction.total, "件", JSON.stringify(redaction.byCategory));
+  const usageSummary = usage.summary();
+  console.log(
+    "使用量:",
+    usageSummary.calls.length,
+    "回, 入力",
+    usageSummary.promptTokens,
+    "/ 出力",
+    usageSummary.completionTokens,
+    "トークン, 費用:",
+    usageSummary.costUSD === null ? "不明" : `$${usageSummary.costUSD.toFixed(4)}`
+  );
+
+  const models = { style: llm.modelFor("style"), minutes: llm.modelFor("minutes") };
+  const meetingId = await saveMeeting({
+    workspaceId,
+    aiDraft: pickMinutesContent(result),
+    transcript: result.transcript,
+    styleGuidelines,
+    styleProfileId: styleProfile?.id,
+    templateId: template.id,
+    meeting,
+    provider: llm.name,
+    models,
+    summary: result.summary,
+    minutes: result.minutes,
+    attendees: result.attendees,
+    agenda: result.agenda,
+    decisions: result.decisions,
+    actionItems: result.actionItems,
+    openQuestions: result.openQuestions,
+    grounding: result.grounding,
+    redaction: redaction ?? undefined,
+    glossaryCorrections,
+    usage: usageSummary,
+    validation: result.validation,
+    language: primary,
+    sourceLanguage: language.source,
+    translation: translation ?? undefined,
+    seriesId: series?.seriesId,
+    previousMeetingId: series?.previousMeetingId,
+    carryOver: series ? carryOver : undefined,
+  });
+
+  return {
+    meetingId,
+    meeting,
+    transcript: result.transcript,
+    summary: result.summary,
+    minutes: result.minutes, // 議事録本文を正しく返す
+    attendees: result.attendees,
+    agenda: result.agenda,
+    decisions: result.decisions,
+    actionItems: result.actionItems,
+    openQuestions: result.openQuestions,
+    chunking: result.chunking,
+    grounding: result.grounding,
+    validation: result.validation,
+    language: primary,
+    sourceLanguage: language.source,
+    translation,
+    series: series ? { seriesId: series.seriesId, previousMeetingId: series.previousMeetingId } : null,
+    carryOver,
+    redaction,
+    glossaryCorrections,
+    usage: usageSummary,
+    styleGuidelines,
+    // 以前のジョブに保存したスタイルファイルには警告がない
+    styleWarnings: styleSource?.warnings ?? [],
+    styleProfileId: styleProfile?.id ?? null,
+    templateId: template.id,
+    usedAI: llm.name !== "mock",
+    provider: llm.name,
+    models,
+  };
+}
+
+/**
+ * 生成結果を履歴に保存し、採番した ID を返す。
+ * 保存に失敗しても生成結果は返したいので、エラーはログに残して null を返す。
+ */
+async function saveMeeting(record: Omit<MeetingRecord, "id" | "createdAt" | "updatedAt">): Promise<string | null> {
+  const now = new Date().toISOString();
+  const id = randomUUID();
+  try {
+    await getMeetingStore().save({ ...record, id, createdAt: now, updatedAt: now });
+    console.log("履歴に保存:", id);
+    return id;
+  } catch (e) {
+    console.error("履歴の保存に失敗しました:", e);
+    return null;
+  }
+}
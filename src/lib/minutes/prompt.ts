@@ -0,0 +1,95 @@
+import { buildGlossaryPrompt } from "../glossary/apply";
+import { renderPromptTemplate, type PromptTemplate } from "../prompts";
+import type { GlossaryEntry } from "../storage/types";
+import type { MinutesLanguage } from "./language";
+import { MINUTES_FIELD_GUIDE, type MeetingInfo } from "./schema";
+import type { CarryOverItem } from "./series";
+
+export type SystemPromptInput = {
+  template: PromptTemplate;
+  meeting: MeetingInfo;
+  /** 文字起こしから読み取った話者名 */
+  participants: string[];
+  styleGuidelines: string;
+  /** 表記を指定する社内用語（書き起こしに出てくるものだけ） */
+  glossary?: GlossaryEntry[];
+  /** 議事録を書く言語（既定 ja） */
+  language?: MinutesLanguage;
+  /** 書き起こしの言語（既定は language と同じ） */
+  sourceLanguage?: MinutesLanguage;
+  /** 定例会議で前回までの会議から持ち越した宿題事項・未決事項 */
+  carryOver?: CarryOverItem[];
+};
+
+/** 前回からの持ち越し事項。今回の会議での進捗を本文に書かせる（状況の判定は minutes/carry-over.ts で別に行う） */
+function buildCarryOverPrompt(items: CarryOverItem[]): string {
+  if (items.length === 0) return "";
+  const lines = items.map((item) => {
+    const detail = [item.owner && `担当: ${item.owner}`, item.dueDate && `期限: ${item.dueDate}`, `${item.fromDate} の会議から`]
+      .filter(Boolean)
+      .join("、");
+    return `- [${item.kind === "action" ? "宿題" : "未決"}] ${item.task}（${detail}）`;
+  });
+  return [
+    "この会議は定例会議の続きです。前回までの会議から次の宿題事項・未決事項を持ち越しています:",
+    ...lines,
+    "今回の会議でこれらの進捗（完了・対応中）が話されていれば、本文に記載してください。話されていない事項は書かないでください。",
+    "actionItems・openQuestions には、今回の会議で新たに挙がったもの（担当・期限が変わったものを含む）だけを入れてください。",
+  ].join("\n");
+}
+
+/** テンプレートなどの指示は日本語なので、英語で書かせる場合は英語で念を押す */
+function buildLanguagePrompt(language: MinutesLanguage, sourceLanguage: MinutesLanguage): string {
+  if (language === "en") {
+    return [
+      "Output language: English.",
+      "Write summary, minutes, agenda, decisions, action item tasks and open questions in English, even though the instructions above are in Japanese" +
+        (sourceLanguage === "ja" ? " and the transcript is in Japanese." : "."),
+      "Keep proper nouns (people, companies, products, projects) exactly as they appear in the transcript. Do not translate or romanize them.",
+      "If an action item owner cannot be identified, write \"TBD\".",
+      "Quotes in citations must be copied verbatim from the transcript in its original language.",
+    ].join("\n");
+  }
+  if (sourceLanguage === "en") {
+    return [
+      "書き起こしは英語ですが、議事録はすべて日本語で作成してください。",
+      "人名・社名・製品名・プロジェクト名などの固有名詞は、書き起こしの表記のまま残してください（カタカナに直さない）。",
+      "citations の引用は書き起こしの原文（英語）をそのまま写してください。",
+    ].join("\n");
+  }
+  return "";
+}
+
+/** 議事録の生成・部分的な再生成で共通のシステムプロンプト */
+export function buildSystemPrompt({
+  template,
+  meeting,
+  participants,
+  styleGuidelines,
+  glossary = [],
+  language = "ja",
+  sourceLanguage = language,
+  carryOver = [],
+}: SystemPromptInput): string {
+  return [
+    renderPromptTemplate(
+      template,
+      {
+        title: meeting.title || "（未設定）",
+        date: meeting.date || "（未設定）",
+        attendees: participants.length ? participants.join("、") : "（文字起こしから判断してください）",
+      },
+      language
+    ),
+    MINUTES_FIELD_GUIDE,
+    participants.length
+      ? `会議の発言者: ${participants.join("、")}\n出席者や宿題事項の担当者には、この名前を使ってください。`
+      : "",
+    buildGlossaryPrompt(glossary),
+    buildCarryOverPrompt(carryOver),
+    styleGuidelines ? `以下のスタイル指針に合わせて記述してください:\n${styleGuidelines}` : "",
+    buildLanguagePrompt(language, sourceLanguage),
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
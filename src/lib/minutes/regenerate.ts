@@ -0,0 +1,109 @@
+/**
+ * 作成済みの議事録の一部（要約・各フィールド・本文の見出し1つ）だけを、追加の指示つきで作り直す。
+ */
+import type { JsonSchemaFormat, LLMProvider } from "../llm/types";
+import { SINGLE_PASS_LIMIT } from "./chunk";
+import { splitMarkdownSections } from "./markdown";
+import { buildSystemPrompt, type SystemPromptInput } from "./prompt";
+import { MINUTES_SCHEMA, normalizeMinutesContent, type MinutesContent } from "./schema";
+
+export class RegenerateError extends Error {}
+
+export type MinutesField = keyof MinutesContent;
+
+export const FIELD_LABELS: Record<MinutesField, string> = {
+  summary: "要約",
+  minutes: "議事録本文",
+  attendees: "出席者",
+  agenda: "議題",
+  decisions: "決定事項",
+  actionItems: "宿題事項",
+  openQuestions: "未決事項",
+};
+
+/** フィールド全体か、議事録本文の「## 見出し」1つ */
+export type RegenerateTarget = { field: MinutesField } | { heading: string };
+
+export type RegeneratedValue = MinutesContent[MinutesField];
+
+export type RegenerateInput = SystemPromptInput & {
+  transcript: string;
+  /** 画面で編集中の議事録 */
+  document: MinutesContent;
+  target: RegenerateTarget;
+  /** 例: 「決定事項をもっと具体的に」 */
+  instruction: string;
+};
+
+function isMinutesField(value: unknown): value is MinutesField {
+  return typeof value === "string" && value in FIELD_LABELS;
+}
+
+/** リクエストの target を検証する。不正なら null */
+export function parseRegenerateTarget(value: unknown): RegenerateTarget | null {
+  if (typeof value !== "object" || value === null) return null;
+  const target = value as Record<string, unknown>;
+  if (isMinutesField(target.field)) return { field: target.field };
+  if (typeof target.heading === "string" && target.heading.trim()) return { heading: target.heading.trim() };
+  return null;
+}
+
+/** モックの応答もこの名前で引く（llm/mock.ts） */
+function schemaFor(target: RegenerateTarget): JsonSchemaFormat {
+  const properties = MINUTES_SCHEMA.schema.properties as Record<MinutesField, unknown>;
+  return {
+    name: "field" in target ? `Regenerate_${target.field}` : "Regenerate_section",
+    schema: {
+      type: "object",
+      properties: { value: "field" in target ? properties[target.field] : { type: "string" } },
+      required: ["value"],
+      additionalProperties: false,
+    },
+  };
+}
+
+export async function regenerateSection(llm: LLMProvider, input: RegenerateInput, signal?: AbortSignal): Promise<RegeneratedValue> {
+  const { transcript, document, target, instruction } = input;
+  const label = "field" in target ? FIELD_LABELS[target.field] : `議事録本文の見出し「${target.heading}」`;
+  const current =
+    "field" in target
+      ? JSON.stringify(document[target.field], null, 1)
+      : (splitMarkdownSections(document.minutes).find((s) => s.heading === target.heading)?.body ?? "（なし）");
+
+  const user = [
+    `作成済みの議事録のうち「${label}」だけを書き直してください。`,
+    instruction ? `追加の指示: ${instruction}` : "",
+    "field" in target
+      ? `value には ${target.field} フィールドの新しい値を入れてください。`
+      : "value には見出し行を含めず、その見出しの下に入る本文だけを Markdown で書いてください。",
+    "議事録全体は参照用です。書き起こしにない事実は補わないでください。",
+    `## 書き直す部分（現在の内容）\n${current}`,
+    `## 議事録全体（参照用）\n${JSON.stringify(document, null, 1)}`,
+    `## 書き起こし\n${transcript.slice(0, SINGLE_PASS_LIMIT)}`,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+
+  const content = await llm.chat({
+    stage: "minutes",
+    messages: [
+      { role: "system", content: buildSystemPrompt(input) },
+      { role: "user", content: user },
+    ],
+    jsonSchema: schemaFor(target),
+    signal,
+  });
+
+  let value: unknown;
+  try {
+    value = JSON.parse(content || "{}").value;
+  } catch {
+    throw new RegenerateError("再生成の結果を解析できませんでした");
+  }
+  if (value === undefined) throw new RegenerateError("再生成の結果が空でした");
+  if ("heading" in target) {
+    if (typeof value !== "string") throw new RegenerateError("再生成の結果の形式が不正です");
+    return value.trim();
+  }
+  return normalizeMinutesContent({ [target.field]: value })[target.field];
+}
@@ -0,0 +1,129 @@
+/**
+ * 構造化された議事録の型と、LLM に渡す JSON Schema。
+ * クライアント（page.tsx）からも型として参照する。
+ */
+
+export type ActionItem = {
+  task: string;
+  owner: string;
+  /** YYYY-MM-DD。発言から読み取れない場合は空文字 */
+  dueDate: string;
+  /** 根拠となる書き起こし中の発言（原文のまま） */
+  sourceQuote: string;
+};
+
+export type MinutesContent = {
+  summary: string;
+  minutes: string;
+  attendees: string[];
+  agenda: string[];
+  decisions: string[];
+  actionItems: ActionItem[];
+  openQuestions: string[];
+};
+
+/** 出力（Word など）のヘッダー・表紙に使う会議情報 */
+export type MeetingInfo = {
+  title: string;
+  /** YYYY-MM-DD */
+  date: string;
+};
+
+/** エクスポート対象の議事録一式 */
+export type MinutesDocument = MinutesContent & {
+  meeting: MeetingInfo;
+};
+
+const stringArray = { type: "array", items: { type: "string" } };
+
+export const MINUTES_SCHEMA = {
+  name: "MinutesSchema",
+  schema: {
+    type: "object",
+    properties: {
+      summary: { type: "string" },
+      minutes: { type: "string" },
+      attendees: stringArray,
+      agenda: stringArray,
+      decisions: stringArray,
+      actionItems: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            task: { type: "string" },
+            owner: { type: "string" },
+            dueDate: { type: "string" },
+            sourceQuote: { type: "string" },
+          },
+          required: ["task", "owner", "dueDate", "sourceQuote"],
+          additionalProperties: false,
+        },
+      },
+      openQuestions: stringArray,
+      citations: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            claim: { type: "string" },
+            quotes: stringArray,
+          },
+          required: ["claim", "quotes"],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ["summary", "minutes", "attendees", "agenda", "decisions", "actionItems", "openQuestions", "citations"],
+    additionalProperties: false,
+  },
+};
+
+// 各フィールドの書き方の指示。システムプロンプトに追記する
+export const MINUTES_FIELD_GUIDE = [
+  "出力フィールド:",
+  "- summary: 会議全体の要約（段落1つ）",
+  "- minutes: 議事録本文（見出し・箇条書き中心）",
+  "- attendees: 出席者名",
+  "- agenda: 議題",
+  "- decisions: 決定事項（1件1文）",
+  "- actionItems: 宿題事項。task=内容, owner=担当者（発言から特定できない場合は「未定」）, dueDate=期限（YYYY-MM-DD、不明なら空文字）, sourceQuote=根拠となる発言の原文",
+  "- openQuestions: 未決事項・持ち越し課題",
+  "- citations: 本文の箇条書きと決定事項の1行ごとの根拠。claim=その行の文言（そのまま）, quotes=根拠となる発言の原文（書き起こしから一字一句そのまま抜き出す。複数可。根拠が見当たらない行は空配列）",
+  "書き起こしで実際に述べられていない決定事項や宿題事項は作らないでください。",
+].join("\n");
+
+export function emptyMinutesContent(): MinutesContent {
+  return { summary: "", minutes: "", attendees: [], agenda: [], decisions: [], actionItems: [], openQuestions: [] };
+}
+
+/** 追加のプロパティを持つオブジェクト（生成結果など）から議事録のフィールドだけを取り出す */
+export function pickMinutesContent(value: MinutesContent): MinutesContent {
+  const { summary, minutes, attendees, agenda, decisions, actionItems, openQuestions } = value;
+  return { summary, minutes, attendees, agenda, decisions, actionItems, openQuestions };
+}
+
+function toStringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === "string") : [];
+}
+
+/** LLM の出力（JSON.parse 済み）を MinutesContent に整える。欠けたフィールドは空で埋める */
+export function normalizeMinutesContent(parsed: Record<string, unknown>): MinutesContent {
+  const actionItems = Array.isArray(parsed.actionItems) ? parsed.actionItems : [];
+  return {
+    summary: typeof parsed.summary === "string" ? parsed.summary : "",
+    minutes: typeof parsed.minutes === "string" ? parsed.minutes : "",
+    attendees: toStringArray(parsed.attendees),
+    agenda: toStringArray(parsed.agenda),
+    decisions: toStringArray(parsed.decisions),
+    actionItems: actionItems
+      .filter((a): a is Record<string, unknown> => typeof a === "object" && a !== null)
+      .map((a) => ({
+        task: String(a.task ?? ""),
+        owner: String(a.owner ?? ""),
+        dueDate: String(a.dueDate ?? ""),
+        sourceQuote: String(a.sourceQuote ?? ""),
+      })),
+    openQuestions: toStringArray(parsed.openQuestions),
+  };
+}
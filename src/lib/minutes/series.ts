@@ -0,0 +1,140 @@
+/**
+ * 定例会議のシリーズ（前回の会議を指定して生成した会議のつながり）。
+ * 前回までの未完了の宿題事項・未決事項を持ち越し、シリーズ全体の宿題事項の経過をまとめる。
+ * サーバー・クライアントの両方から使う。
+ */
+import type { MeetingRecord } from "../storage/types";
+
+/** 持ち越した事項の今回の状況 */
+export type CarryOverStatus = "done" | "in_progress" | "not_mentioned";
+
+export const CARRY_OVER_STATUS_LABELS: Record<CarryOverStatus, string> = {
+  done: "完了",
+  in_progress: "対応中",
+  not_mentioned: "言及なし",
+};
+
+/** 前回までの会議から持ち越した宿題事項（action）・未決事項（question） */
+export type CarryOverItem = {
+  kind: "action" | "question";
+  task: string;
+  /** 未決事項・担当者不明の場合は空文字 */
+  owner: string;
+  dueDate: string;
+  /** 最初に挙がった会議 */
+  fromMeetingId: string;
+  fromDate: string;
+};
+
+export type CarryOverResult = CarryOverItem & {
+  status: CarryOverStatus;
+  /** 今回の会議での進捗の説明 */
+  note: string;
+  /** 根拠となる発言の原文（言及なしの場合は空文字） */
+  sourceQuote: string;
+};
+
+/** 生成時に渡すシリーズの情報 */
+export type SeriesContext = {
+  seriesId: string;
+  previousMeetingId: string;
+  items: CarryOverItem[];
+};
+
+/** シリーズの最初の会議は自分の ID をシリーズの ID にする（保存し直さない） */
+export function seriesIdOf(record: Pick<MeetingRecord, "id" | "seriesId">): string {
+  return record.seriesId ?? record.id;
+}
+
+function meetingDate(record: Pick<MeetingRecord, "meeting" | "createdAt">): string {
+  return record.meeting.date || record.createdAt.slice(0, 10);
+}
+
+// 表記ゆれ（空白・句読点・大文字小文字）で同じ事項が重ならないようにする
+function itemKey(task: string): string {
+  return task.toLowerCase().replace(/[\s　、。,.・「」『』（）()]/g, "");
+}
+
+/** 会議で新しく挙がった宿題事項・未決事項 */
+function newItemsOf(record: MeetingRecord): CarryOverItem[] {
+  const from = { fromMeetingId: record.id, fromDate: meetingDate(record) };
+  return [
+    ...record.actionItems.map((a): CarryOverItem => ({ kind: "action", task: a.task, owner: a.owner, dueDate: a.dueDate, ...from })),
+    ...record.openQuestions.map((q): CarryOverItem => ({ kind: "question", task: q, owner: "", dueDate: "", ...from })),
+  ].filter((item) => item.task.trim());
+}
+
+/**
+ * 次の会議に持ち越す事項。この会議で完了しなかった持ち越し事項と、この会議で挙がった宿題事項・未決事項。
+ * 同じ事項が再び挙がった場合は最初に挙がった会議を残し、担当・期限は新しいほうにする。
+ */
+export function openItemsOf(record: MeetingRecord): CarryOverItem[] {
+  const items = new Map<string, CarryOverItem>();
+  const carried = (record.carryOver ?? []).filter((c) => c.status !== "done");
+  for (const { kind, task, owner, dueDate, fromMeetingId, fromDate } of carried) {
+    items.set(itemKey(task), { kind, task, owner, dueDate, fromMeetingId, fromDate });
+  }
+  for (const item of newItemsOf(record)) {
+    const existing = items.get(itemKey(item.task));
+    items.set(
+      itemKey(item.task),
+      existing ? { ...existing, owner: item.owner || existing.owner, dueDate: item.dueDate || existing.dueDate } : item
+    );
+  }
+  return [...items.values()];
+}
+
+/** シリーズの宿題事項の状況。open は挙がったまま次の会議がまだない */
+export type SeriesItemStatus = CarryOverStatus | "open";
+
+export const SERIES_ITEM_STATUS_LABELS: Record<SeriesItemStatus, string> = {
+  ...CARRY_OVER_STATUS_LABELS,
+  open: "未完了",
+};
+
+export type SeriesItem = CarryOverItem & {
+  status: SeriesItemStatus;
+  /** 会議ごとの状況（挙がった会議から順に） */
+  history: { meetingId: string; date: string; status: SeriesItemStatus; note: string }[];
+};
+
+export type SeriesView = {
+  seriesId: string;
+  /** 古い順 */
+  meetings: { id: string; title: string; date: string }[];
+  items: SeriesItem[];
+};
+
+/** シリーズの会議（順不同）から、宿題事項・未決事項ごとの経過をまとめる */
+export function summarizeSeries(seriesId: string, records: MeetingRecord[]): SeriesView {
+  const sorted = [...records].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const items = new Map<string, SeriesItem>();
+  for (const record of sorted) {
+    const date = meetingDate(record);
+    for (const result of record.carryOver ?? []) {
+      const key = itemKey(result.task);
+      const { kind, task, owner, dueDate, fromMeetingId, fromDate, status, note } = result;
+      const entry: SeriesItem = items.get(key) ?? { kind, task, owner, dueDate, fromMeetingId, fromDate, status, history: [] };
+      entry.status = status;
+      entry.history.push({ meetingId: record.id, date, status, note });
+      items.set(key, entry);
+    }
+    for (const item of newItemsOf(record)) {
+      const key = itemKey(item.task);
+      const existing = items.get(key);
+      if (existing?.history.some((h) => h.meetingId === record.id)) continue;
+      const entry: SeriesItem = existing ?? { ...item, status: "open", history: [] };
+      // 完了した事項が再び挙がった場合は未完了に戻す
+      entry.status = "open";
+      entry.owner = item.owner || entry.owner;
+      entry.dueDate = item.dueDate || entry.dueDate;
+      entry.history.push({ meetingId: record.id, date, status: "open", note: "" });
+      items.set(key, entry);
+    }
+  }
+  return {
+    seriesId,
+    meetings: sorted.map((r) => ({ id: r.id, title: r.meeting.title, date: meetingDate(r) })),
+    items: [...items.values()],
+  };
+}
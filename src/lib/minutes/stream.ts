@@ -0,0 +1,128 @@
+/**
+ * POST /api/minutes?stream=1 が返す NDJSON（1行1イベント）の型と、その読み書き。
+ * サーバー・クライアントの両方から使う。
+ */
+import type { UsageSummary } from "../llm/cost";
+import type { LLMStage, ProviderName } from "../llm/types";
+import type { ChunkReport } from "./chunk";
+import type { RedactionReport } from "../redaction/types";
+import type { GlossaryCorrection } from "../glossary/apply";
+import type { IngestWarning } from "../ingest";
+import type { GroundedClaim } from "./grounding";
+import type { MeetingInfo, MinutesContent } from "./schema";
+import type { MinutesLanguage, MinutesTranslation } from "./language";
+import type { CarryOverResult } from "./series";
+import type { MinutesIssue, MinutesIssueCode, MinutesValidation } from "./validate";
+
+export type MinutesResponse = MinutesContent & {
+  /** 履歴に保存した ID（保存に失敗した場合は null） */
+  meetingId: string | null;
+  meeting: MeetingInfo;
+  transcript: string;
+  chunking: ChunkReport;
+  /** 本文の箇条書き・決定事項・宿題事項ごとの根拠（transcript 中の位置） */
+  grounding: GroundedClaim[];
+  /** 出力の検証で修正を依頼した回数と、直らずに残った問題 */
+  validation: MinutesValidation;
+  /** 議事録を書いた言語と、判定（または指定）した書き起こしの言語 */
+  language: MinutesLanguage;
+  sourceLanguage: MinutesLanguage;
+  /** 日英併記の場合のもう一方の言語の議事録 */
+  translation: MinutesTranslation | null;
+  /** 定例会議のシリーズ（前回の会議を指定しなかった場合は null） */
+  series: { seriesId: string; previousMeetingId: string } | null;
+  /** 前回までの会議から持ち越した事項の、今回の会議での状況 */
+  carryOver: CarryOverResult[];
+  /** LLM に送る前に伏せ字にした内容（伏せ字にしなかった場合は null） */
+  redaction: RedactionReport | null;
+  /** 用語集で書き起こしを直した箇所 */
+  glossaryCorrections: GlossaryCorrection[];
+  /** LLM 呼び出しごとのトークン数・費用・所要時間 */
+  usage: UsageSummary;
+  styleGuidelines: string;
+  /** スタイルファイルのうち読めなかった・一部だけ読めたもの */
+  styleWarnings: IngestWarning[];
+  /** 使用した文体プロファイル */
+  styleProfileId: string | null;
+  /** 使用したプロンプトテンプレート（会議の種類） */
+  templateId: string;
+  usedAI: boolean;
+  provider: ProviderName;
+  models: Record<LLMStage, string>;
+};
+
+export type MinutesStreamEvent =
+  /** warnings: 読めなかった・一部だけ読めたファイル */
+  | { type: "style_parsed"; files: number; chars: number; warnings?: IngestWarning[] }
+  /** reused: 文体プロファイルの保存済みガイドラインを使った（作り直していない） */
+  | { type: "guidelines_built"; chars: number; profile?: string; reused?: boolean }
+  | { type: "chunk"; index: number; total: number }
+  | { type: "merging"; total: number }
+  /** 前回までの会議から持ち越した事項の状況を判定している */
+  | { type: "carry_over"; items: number }
+  /** 日英併記のため、作成した議事録を翻訳している */
+  | { type: "translating"; language: MinutesLanguage }
+  /** 出力に問題があったため修正を依頼した（label は minutes / chunk-0 / merge など） */
+  | { type: "repairing"; label: string; attempt: number; issues: MinutesIssue[] }
+  /** 生成途中の議事録本文（その時点までの全文。受け取ったら表示を置き換える） */
+  | { type: "partial"; minutes: string }
+  | { type: "result"; data: MinutesResponse }
+  /** code: 出力の検証で失敗した場合の問題の種類 */
+  | { type: "error"; error: string; code?: MinutesIssueCode };
+
+export type EmitEvent = (event: MinutesStreamEvent) => void;
+
+export const NDJSON_CONTENT_TYPE = "application/x-ndjson; charset=utf-8";
+
+export function encodeEvent(event: MinutesStreamEvent): string {
+  return JSON.stringify(event) + "\n";
+}
+
+/** fetch のレスポンスボディを1イベントずつ読み出す */
+export async function* readEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<MinutesStreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    let newline: number;
+    while ((newline = buffer.indexOf("\n")) >= 0) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (line) yield JSON.parse(line) as MinutesStreamEvent;
+    }
+  }
+  if (buffer.trim()) yield JSON.parse(buffer) as MinutesStreamEvent;
+}
+
+/**
+ * ストリーミング中の不完全な JSON から、指定した文字列フィールドのそこまでの値を取り出す。
+ * 例: `{"summary":"…","minutes":"## 議題\n- 予` → `## 議題\n- 予`
+ */
+export function extractPartialString(json: string, field: string): string {
+  const match = new RegExp(`"${field}"\\s*:\\s*"`).exec(json);
+  if (!match) return "";
+  let raw = "";
+  let i = match.index + match[0].length;
+  while (i < json.length) {
+    const c = json[i];
+    if (c === '"') break;
+    if (c === "\\") {
+      // 途中で切れたエスケープシーケンスは次の受信まで待つ
+      const size = json[i + 1] === "u" ? 6 : 2;
+      if (i + size > json.length) break;
+      raw += json.slice(i, i + size);
+      i += size;
+      continue;
+    }
+    raw += c;
+    i++;
+  }
+  try {
+    return JSON.parse(`"${raw}"`);
+  } catch {
+    return "";
+  }
+}
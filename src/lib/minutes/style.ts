@@ -0,0 +1,57 @@
+/**
+ * 過去の議事録（スタイルファイル）から文体ガイドラインを作る。
+ * 文体プロファイルは抽出元の内容ハッシュを持ち、ファイルが変わったときだけ作り直す。
+ */
+import { createHash } from "crypto";
+import { ingestDocuments, type IngestWarning } from "../ingest";
+import type { LLMProvider } from "../llm/types";
+
+/** 過去の議事録を読み込み、1つのテキストにつなげる。読めなかったファイルは警告として返す */
+export async function readStyleFiles(styleFiles: File[]): Promise<{ corpus: string; warnings: IngestWarning[] }> {
+  const { documents, warnings } = await ingestDocuments(styleFiles);
+  return { corpus: documents.map((d) => d.text).join("\n\n"), warnings };
+}
+
+/** 読み込んだスタイルファイル。ジョブに保存できるよう File ではなく内容で持つ */
+export type StyleSource = {
+  files: string[];
+  hash: string;
+  corpus: string;
+  /** 読めなかった・一部だけ読めたファイル */
+  warnings: IngestWarning[];
+};
+
+export async function readStyleSource(styleFiles: File[]): Promise<StyleSource | null> {
+  if (styleFiles.length === 0) return null;
+  return {
+    files: styleFiles.map((f) => f.name),
+    hash: await hashStyleFiles(styleFiles),
+    ...(await readStyleFiles(styleFiles)),
+  };
+}
+
+export async function buildStyleGuidelines(llm: LLMProvider, corpus: string, signal?: AbortSignal): Promise<string> {
+  if (!corpus || corpus.length < 200) return "";
+  const prompt = `以下は過去の議事録の一部です。文体・言い回し・構成上の特徴を抽出し、今後の生成に使える日本語ガイドラインを箇条書きで10項目前後に要約してください。見出し・箇条書き・表は Markdown の記法で示しているので、構成の特徴も含めてください。過去の議事録が英語の場合は、英語の議事録としての特徴（時制・定型表現など）もその旨を明記して含めてください。\n\n---\n${corpus.slice(0, 15000)}\n---`;
+  return llm.chat({
+    stage: "style",
+    label: "guidelines",
+    messages: [
+      { role: "system", content: "あなたはプロのテクニカルライターです。文章スタイルを抽出し、具体的で再現可能な指針にまとめます。" },
+      { role: "user", content: prompt },
+    ],
+    signal,
+  });
+}
+
+/** ファイル名と内容のハッシュ。アップロード順には左右されない */
+export async function hashStyleFiles(styleFiles: File[]): Promise<string> {
+  const entries = await Promise.all(
+    styleFiles.map(async (f) => ({ name: f.name, content: Buffer.from(await f.arrayBuffer()) }))
+  );
+  const hash = createHash("sha256");
+  for (const { name, content } of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    hash.update(name).update("\0").update(content).update("\0");
+  }
+  return hash.digest("hex");
+}
@@ -0,0 +1,117 @@
+/**
+ * 作成済みの議事録を日本語⇔英語に翻訳する。日英併記での生成と、画面の「翻訳」で使う。
+ * 見出し・箇条書きの構成と各項目の数・順序を保ち、出席者・担当者・期限は原文のまま残す。
+ */
+import type { JsonSchemaFormat, LLMProvider } from "../llm/types";
+import { LANGUAGE_LABELS, type MinutesLanguage, type MinutesTranslation } from "./language";
+import { splitMarkdownSections } from "./markdown";
+import type { MinutesContent } from "./schema";
+
+export class TranslateError extends Error {}
+
+export type TranslateInput = {
+  content: MinutesContent;
+  from: MinutesLanguage;
+  to: MinutesLanguage;
+  /** 本文の見出しの対応（テンプレートの sections / sectionsEn）。わからなければ空 */
+  headings?: { from: string[]; to: string[] };
+  /** 訳さずにそのまま残す用語（用語集の表記） */
+  keepTerms?: string[];
+};
+
+const stringArray = { type: "array", items: { type: "string" } };
+
+/** モックの応答もこの名前で引く（llm/mock.ts） */
+export const TRANSLATION_SCHEMA: JsonSchemaFormat = {
+  name: "TranslatedMinutes",
+  schema: {
+    type: "object",
+    properties: {
+      summary: { type: "string" },
+      minutes: { type: "string" },
+      agenda: stringArray,
+      decisions: stringArray,
+      actionItems: stringArray,
+      openQuestions: stringArray,
+    },
+    required: ["summary", "minutes", "agenda", "decisions", "actionItems", "openQuestions"],
+    additionalProperties: false,
+  },
+};
+
+/** 翻訳に渡す部分（宿題事項は内容だけ） */
+function translatable(content: MinutesContent) {
+  return {
+    summary: content.summary,
+    minutes: content.minutes,
+    agenda: content.agenda,
+    decisions: content.decisions,
+    actionItems: content.actionItems.map((a) => a.task),
+    openQuestions: content.openQuestions,
+  };
+}
+
+export async function translateMinutes(llm: LLMProvider, input: TranslateInput, signal?: AbortSignal): Promise<MinutesTranslation> {
+  const { content, from, to, headings, keepTerms = [] } = input;
+  const source = translatable(content);
+  const headingMap =
+    headings && headings.from.length === headings.to.length
+      ? headings.from.map((h, i) => `## ${h} → ## ${headings.to[i]}`)
+      : [];
+
+  const system = [
+    `あなたは会議の議事録の翻訳者です。${LANGUAGE_LABELS[from]}の議事録を${LANGUAGE_LABELS[to]}に翻訳してください。`,
+    "- Markdown の構成（見出し・箇条書き・表）はそのまま保ってください。",
+    "- 各配列の項目の数と順序を原文と同じにしてください（まとめたり分けたりしない）。",
+    "- 人名・社名・製品名・プロジェクト名などの固有名詞は原文の表記のまま残してください。数値・日付・金額も変えないでください。",
+    "- 原文にない内容を加えたり、原文の内容を省いたりしないでください。",
+    headingMap.length ? `- 本文の見出しは次のとおりに置き換えてください:\n${headingMap.join("\n")}` : "",
+    keepTerms.length ? `- 次の社内用語は訳さずにこの表記のまま使ってください: ${keepTerms.join("、")}` : "",
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  const raw = await llm.chat({
+    stage: "minutes",
+    label: `translate-${to}`,
+    messages: [
+      { role: "system", content: system },
+      { role: "user", content: `次の議事録（JSON）を翻訳し、同じ形の JSON で返してください。\n\n${JSON.stringify(source, null, 1)}` },
+    ],
+    jsonSchema: TRANSLATION_SCHEMA,
+    signal,
+  });
+
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(raw || "{}");
+  } catch {
+    throw new TranslateError("翻訳の結果を解析できませんでした");
+  }
+  const text = (key: "summary" | "minutes") => (typeof parsed[key] === "string" ? (parsed[key] as string).trim() : "");
+  const list = (key: "agenda" | "decisions" | "actionItems" | "openQuestions") => {
+    const value = parsed[key];
+    const items = Array.isArray(value) ? value.filter((v): v is string => typeof v === "string") : [];
+    // 項目の対応が崩れると併記できない
+    if (items.length !== source[key].length) {
+      throw new TranslateError(`翻訳の結果の ${key} の項目数が原文と違います（${items.length} / ${source[key].length}）`);
+    }
+    return items.map((v) => v.trim());
+  };
+
+  const translated: MinutesContent = {
+    summary: text("summary"),
+    minutes: text("minutes"),
+    attendees: content.attendees,
+    agenda: list("agenda"),
+    decisions: list("decisions"),
+    actionItems: list("actionItems").map((task, i) => ({ ...content.actionItems[i], task })),
+    openQuestions: list("openQuestions"),
+  };
+  const sourceHeadings = splitMarkdownSections(content.minutes).filter((s) => s.heading).length;
+  const translatedHeadings = splitMarkdownSections(translated.minutes).filter((s) => s.heading).length;
+  if (sourceHeadings !== translatedHeadings) {
+    console.log("翻訳で本文の見出しの数が変わりました:", sourceHeadings, "→", translatedHeadings);
+  }
+  return { language: to, content: translated };
+}
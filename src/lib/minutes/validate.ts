@@ -0,0 +1,158 @@
+/**
+ * LLM が返した議事録の検証。JSON として読めてスキーマどおりか（形式）と、
+ * 要約・本文が空でないか・テンプレートの見出しがそろっているか・担当者が空の宿題事項がないか・
+ * 途中で切れていないか（内容）を確かめる。問題があれば修正を依頼するプロンプトを作る。
+ * 問題の種類（code）と表示用の文言はクライアントからも使う。
+ */
+import { normalizeCitations, type Citation } from "./grounding";
+import { splitMarkdownSections } from "./markdown";
+import { MINUTES_SCHEMA, normalizeMinutesContent, type MinutesContent } from "./schema";
+
+export type MinutesIssueCode =
+  | "invalid_json"
+  | "schema_mismatch"
+  | "truncated"
+  | "empty_minutes"
+  | "missing_section"
+  | "empty_owner";
+
+export type MinutesIssue = {
+  code: MinutesIssueCode;
+  message: string;
+};
+
+/** 生成結果に残った問題と、修正を依頼した回数 */
+export type MinutesValidation = {
+  repairs: number;
+  issues: MinutesIssue[];
+};
+
+/** LLM の出力そのもの（引用つき） */
+export type MinutesDraft = MinutesContent & { citations: Citation[] };
+
+export type ValidationRules = {
+  /** 本文に必要な見出し（「## 見出し」）。長い会議の部分議事録では確かめない */
+  sections: string[];
+};
+
+export type CheckedOutput = {
+  /** 読み取れた内容。JSON として読めない・スキーマと違う場合は null */
+  draft: MinutesDraft | null;
+  issues: MinutesIssue[];
+};
+
+export const ISSUE_LABELS: Record<MinutesIssueCode, string> = {
+  invalid_json: "JSON として読めない応答",
+  schema_mismatch: "項目の欠落・形式の違い",
+  truncated: "途中で切れた出力",
+  empty_minutes: "要約・本文が空",
+  missing_section: "見出しの不足",
+  empty_owner: "担当者が空の宿題事項",
+};
+
+/** 生成が失敗したときに画面で示す対処 */
+export const ISSUE_HINTS: Record<MinutesIssueCode, string> = {
+  invalid_json: "モデルが JSON の出力に対応していない可能性があります。別のモデルを選ぶか、互換サーバーでは LLM_STRUCTURED_OUTPUT=json_object を試してください。",
+  schema_mismatch: "モデルが指定した形式に従いませんでした。別のモデルを試してください。",
+  truncated: "出力が長すぎて途中で切れた可能性があります。出力の上限が大きいモデルを使うか、会議を分けて作成してください。",
+  empty_minutes: "書き起こしから内容を読み取れませんでした。書き起こしが短すぎないか確認してください。",
+  missing_section: "テンプレートの見出しの一部が本文にありません。必要なら見出しを追加して編集してください。",
+  empty_owner: "担当者を確認して入力してください。",
+};
+
+// モデルが自分で出力を打ち切ったときの書き方。末尾の「…」は普通の文にもあるので含めない
+// （出力の上限で切れたことはプロバイダーの finish_reason で確かめる）
+const TRUNCATION_MARKERS = /(?:[（(]?(?:以下(?:省)?略|後略)[）)]?|[（(]続く[）)]|\[truncated\]|<truncated>)\s*$/i;
+
+const EXPECTED_TYPES = MINUTES_SCHEMA.schema.properties as Record<string, { type: string }>;
+
+function schemaProblems(parsed: unknown): string[] {
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) return ["JSON オブジェクトではありません"];
+  const record = parsed as Record<string, unknown>;
+  return MINUTES_SCHEMA.schema.required.flatMap((field) => {
+    const value = record[field];
+    if (value === undefined) return [`${field} がありません`];
+    const type = EXPECTED_TYPES[field].type;
+    const ok = type === "array" ? Array.isArray(value) : typeof value === type;
+    return ok ? [] : [`${field} の形式が違います（${type} ではありません）`];
+  });
+}
+
+/** 内容の決まりに沿っているかを確かめる */
+export function validateMinutes(content: MinutesContent, { sections }: ValidationRules): MinutesIssue[] {
+  const issues: MinutesIssue[] = [];
+  if (!content.summary.trim() || !content.minutes.trim()) {
+    issues.push({ code: "empty_minutes", message: `${content.summary.trim() ? "本文（minutes）" : "要約（summary）"}が空です` });
+  }
+
+  const headings = new Set(splitMarkdownSections(content.minutes).map((s) => s.heading.trim()));
+  const missing = sections.filter((s) => !headings.has(s));
+  if (content.minutes.trim() && missing.length) {
+    issues.push({ code: "missing_section", message: `本文に見出しがありません: ${missing.map((s) => `「## ${s}」`).join("、")}` });
+  }
+
+  const ownerless = content.actionItems.filter((a) => a.task.trim() && !a.owner.trim());
+  if (ownerless.length) {
+    issues.push({ code: "empty_owner", message: `担当者が空の宿題事項があります: ${ownerless.map((a) => `「${a.task}」`).join("、")}` });
+  }
+
+  const truncated = (["summary", "minutes"] as const).filter((field) => TRUNCATION_MARKERS.test(content[field].trim()));
+  if (truncated.length) {
+    issues.push({ code: "truncated", message: `${truncated.join("・")} が途中で打ち切られています` });
+  }
+  return issues;
+}
+
+/**
+ * LLM の応答を読み取り、形式と内容を確かめる。
+ * cutOff はプロバイダーが出力の上限で打ち切ったと伝えた場合（JSON として読めても最後まで書けていない）。
+ */
+export function checkMinutesOutput(raw: string, rules: ValidationRules, { cutOff = false }: { cutOff?: boolean } = {}): CheckedOutput {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    // 出力の上限で切れた JSON は閉じていない
+    const text = raw.trim();
+    return text.startsWith("{") && !text.endsWith("}")
+      ? { draft: null, issues: [{ code: "truncated", message: "応答の JSON が途中で切れています" }] }
+      : { draft: null, issues: [{ code: "invalid_json", message: "応答を JSON として読み取れません" }] };
+  }
+
+  const problems = schemaProblems(parsed);
+  if (problems.length) return { draft: null, issues: [{ code: "schema_mismatch", message: problems.join("、") }] };
+
+  const record = parsed as Record<string, unknown>;
+  const draft: MinutesDraft = { ...normalizeMinutesContent(record), citations: normalizeCitations(record.citations) };
+  const issues = validateMinutes(draft, rules);
+  if (cutOff && !issues.some((i) => i.code === "truncated")) {
+    issues.push({ code: "truncated", message: "出力の上限に達して応答が打ち切られました" });
+  }
+  return { draft, issues };
+}
+
+/** 直前の出力の問題を伝え、同じ形式で出し直させる */
+export function buildRepairPrompt(issues: MinutesIssue[]): string {
+  return [
+    "直前の出力には次の問題がありました。問題を直した議事録を、同じ JSON 形式で最初から出力し直してください。",
+    ...issues.map((i) => `- ${i.message}`),
+    issues.some((i) => i.code === "empty_owner")
+      ? "担当者は書き起こしから特定し、特定できない場合は「未定」としてください。"
+      : "",
+    issues.some((i) => i.code === "truncated" || i.code === "invalid_json")
+      ? "JSON 以外の文章は書かず、本文は簡潔にして最後まで出力してください。"
+      : "",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+/** 修正を依頼しても直らなかった場合のエラー。問題の種類（issues[0].code）を画面に返す */
+export class MinutesValidationError extends Error {
+  issues: MinutesIssue[];
+
+  constructor(issues: MinutesIssue[]) {
+    super(`議事録の出力が不正です: ${issues.map((i) => i.message).join(" / ")}`);
+    this.issues = issues;
+  }
+}
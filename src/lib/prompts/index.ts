@@ -0,0 +1,145 @@
+/**
+ * 会議の種類ごとのプロンプトテンプレート。
+ * prompts/<id>.md に、先頭の「---」で囲んだヘッダー（label, description, sections, sectionsEn）と
+ * システムプロンプト本文を書く。起動時（instrumentation.ts）にすべて読み込んで検証する。
+ *
+ * 環境変数:
+ *  - PROMPTS_DIR: テンプレートの置き場所（既定 ./prompts）
+ */
+import { readFile, readdir } from "fs/promises";
+import { join } from "path";
+import type { MinutesLanguage } from "../minutes/language";
+import type { PromptTemplate, PromptTemplateSummary, TemplateVariables } from "./types";
+
+export type { PromptTemplate, PromptTemplateSummary, TemplateVariables } from "./types";
+
+export class PromptTemplateError extends Error {}
+
+/** テンプレート未指定時に使う */
+export const DEFAULT_TEMPLATE_ID = "general";
+
+const VARIABLE = /\{\{\s*([^}\s]*)\s*\}\}/g;
+const VARIABLE_NAMES: (keyof TemplateVariables)[] = ["title", "date", "attendees"];
+const HEADER = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+
+/** 「key: value」と「key:」に続く「  - 項目」だけを読む簡易的なヘッダーの解析 */
+function parseHeader(header: string): Record<string, string | string[]> {
+  const fields: Record<string, string | string[]> = {};
+  let listKey: string | null = null;
+  for (const line of header.split(/\r?\n/)) {
+    if (!line.trim() || line.trim().startsWith("#")) continue;
+    const item = /^\s+-\s+(.*)$/.exec(line);
+    if (item && listKey) {
+      (fields[listKey] as string[]).push(item[1].trim());
+      continue;
+    }
+    const field = /^([A-Za-z]+):\s*(.*)$/.exec(line);
+    if (!field) throw new Error(`ヘッダーの行を解釈できません: ${line.trim()}`);
+    listKey = field[2] ? null : field[1];
+    fields[field[1]] = field[2] ? field[2].trim() : [];
+  }
+  return fields;
+}
+
+/** 1ファイル分を読み、問題があれば理由の一覧を返す */
+function parseTemplate(id: string, source: string): PromptTemplate | string[] {
+  const match = HEADER.exec(source);
+  if (!match) return ["先頭に「---」で囲んだヘッダーがありません"];
+
+  let fields: Record<string, string | string[]>;
+  try {
+    fields = parseHeader(match[1]);
+  } catch (e) {
+    return [(e as Error).message];
+  }
+  const text = (key: string) => (typeof fields[key] === "string" ? (fields[key] as string) : "");
+  const template: PromptTemplate = {
+    id,
+    label: text("label"),
+    description: text("description"),
+    sections: Array.isArray(fields.sections) ? fields.sections.filter(Boolean) : [],
+    sectionsEn: Array.isArray(fields.sectionsEn) ? fields.sectionsEn.filter(Boolean) : [],
+    system: source.slice(match[0].length).trim(),
+  };
+
+  const problems: string[] = [];
+  if (!template.label) problems.push("label がありません");
+  if (template.sections.length === 0) problems.push("sections（見出し構成）がありません");
+  if (new Set(template.sections).size !== template.sections.length) problems.push("sections に重複があります");
+  if (template.sectionsEn.length && template.sectionsEn.length !== template.sections.length) {
+    problems.push("sectionsEn は sections と同じ数にしてください");
+  }
+  if (!template.system) problems.push("システムプロンプト本文がありません");
+  for (const [, name] of template.system.matchAll(VARIABLE)) {
+    if (!VARIABLE_NAMES.includes(name as keyof TemplateVariables)) {
+      problems.push(`未知の変数 {{${name}}}（使えるのは ${VARIABLE_NAMES.map((v) => `{{${v}}}`).join(" ")}）`);
+    }
+  }
+  return problems.length ? problems : template;
+}
+
+/** ディレクトリ内のテンプレートをすべて読み込んで検証する。問題があればまとめて PromptTemplateError にする */
+export async function readPromptTemplates(dir: string): Promise<PromptTemplate[]> {
+  let files: string[];
+  try {
+    files = (await readdir(dir)).filter((f) => f.endsWith(".md")).sort();
+  } catch (e) {
+    throw new PromptTemplateError(`プロンプトテンプレートのディレクトリを読めません: ${dir} (${(e as Error).message})`);
+  }
+
+  const templates: PromptTemplate[] = [];
+  const problems: string[] = [];
+  for (const file of files) {
+    const result = parseTemplate(file.replace(/\.md$/, ""), await readFile(join(dir, file), "utf-8"));
+    if (Array.isArray(result)) {
+      problems.push(...result.map((p) => `${file}: ${p}`));
+    } else {
+      templates.push(result);
+    }
+  }
+  if (!files.includes(`${DEFAULT_TEMPLATE_ID}.md`)) problems.push(`既定のテンプレート ${DEFAULT_TEMPLATE_ID}.md がありません`);
+  if (problems.length) {
+    throw new PromptTemplateError(`プロンプトテンプレートに問題があります:\n${problems.join("\n")}`);
+  }
+  return templates;
+}
+
+let loaded: Promise<PromptTemplate[]> | null = null;
+
+/** 読み込み結果はプロセス内で使い回す（失敗した場合は次回読み直す） */
+export function loadPromptTemplates(): Promise<PromptTemplate[]> {
+  loaded ??= readPromptTemplates(process.env.PROMPTS_DIR || join(process.cwd(), "prompts")).catch((e) => {
+    loaded = null;
+    throw e;
+  });
+  return loaded;
+}
+
+/** 見つからなければ null */
+export async function getPromptTemplate(id: string = DEFAULT_TEMPLATE_ID): Promise<PromptTemplate | null> {
+  return (await loadPromptTemplates()).find((t) => t.id === id) ?? null;
+}
+
+export function summarizeTemplate({ id, label, description, sections, sectionsEn }: PromptTemplate): PromptTemplateSummary {
+  return { id, label, description, sections, sectionsEn };
+}
+
+/** 出力する言語での見出し構成 */
+export function templateSections(template: Pick<PromptTemplate, "sections" | "sectionsEn">, language: MinutesLanguage): string[] {
+  return language === "en" && template.sectionsEn.length ? template.sectionsEn : template.sections;
+}
+
+/** 変数を差し込み、見出し構成の指示を加えたシステムプロンプトを返す */
+export function renderPromptTemplate(
+  template: PromptTemplate,
+  variables: TemplateVariables,
+  language: MinutesLanguage = "ja"
+): string {
+  const body = template.system.replace(VARIABLE, (_, name: keyof TemplateVariables) => variables[name]);
+  return [
+    body,
+    "議事録本文（minutes）は次の見出しをこの順に「## 見出し」の形で使って構成してください。" +
+      (language === "en" ? "該当する発言がない見出しは本文を「None」としてください。" : "該当する発言がない見出しは本文を「特になし」としてください。"),
+    templateSections(template, language).map((s) => `## ${s}`).join("\n"),
+  ].join("\n\n");
+}
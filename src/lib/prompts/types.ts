@@ -0,0 +1,22 @@
+/** 会議の種類ごとのプロンプトテンプレート */
+export type PromptTemplate = {
+  /** ファイル名（拡張子なし） */
+  id: string;
+  label: string;
+  description: string;
+  /** 議事録本文の見出し構成（この順に出力させる） */
+  sections: string[];
+  /** 英語で出力する場合の見出し（sections と同じ順・同じ数）。省略時は sections を使う */
+  sectionsEn: string[];
+  /** システムプロンプト本文。{{title}} {{date}} {{attendees}} を差し込める */
+  system: string;
+};
+
+/** 画面の選択肢に使う情報 */
+export type PromptTemplateSummary = Omit<PromptTemplate, "system">;
+
+export type TemplateVariables = {
+  title: string;
+  date: string;
+  attendees: string;
+};
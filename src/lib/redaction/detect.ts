@@ -0,0 +1,88 @@
+/**
+ * 伏せ字にする箇所の検出。正規表現と辞書による簡易的なもので、
+ * 氏名は話者名・辞書のほかは「〜さん」「〜様」などの敬称の前だけを対象にする。
+ */
+import type { RedactionCategory, RedactionOptions } from "./types";
+
+export type Detection = {
+  start: number;
+  end: number;
+  category: RedactionCategory;
+};
+
+const EMAIL = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+// マイナンバー（12桁）。電話番号より先に調べる
+const MY_NUMBER = /(?<![\d-])\d{4}[-\s]?\d{4}[-\s]?\d{4}(?![\d-])/g;
+const PHONE = /(?<![\d-])(?:\+81[-\s]?\d{1,4}|0\d{1,4})[-\s(]?\d{1,4}[-\s)]?\d{3,4}(?![\d-])/g;
+const AMOUNT =
+  /[¥￥$]\s?\d[\d,]*(?:\.\d+)?[兆億万千]*|\d[\d,]*(?:\.\d+)?\s?[兆億万千]*\s?(?:円|ドル)|[〇一二三四五六七八九十百千万億兆]+円/g;
+// 漢字1文字（「皆様」「お客様」の「皆」「客」など）は人名でない語が多いので2文字以上にする。
+// 1文字の姓（林さん・森さんなど）は話者名・辞書に含まれていれば伏せる
+const HONORIFIC_NAME = /([一-龯々]{2,4}|[ァ-ヶー]{2,8})(?=さん|様|さま|氏|くん|君|ちゃん|先生)/g;
+// 敬称がついても人名ではない語
+const NOT_NAMES = new Set([
+  "親御",
+  "相手",
+  "先方",
+  "担当",
+  "顧客",
+  "得意",
+  "取引",
+  "皆々",
+  "奥方",
+  "神々",
+  "ユーザー",
+  "オーナー",
+  "ゲスト",
+  "メンバー",
+  "スタッフ",
+  "クライアント",
+  "ドクター",
+]);
+// 「患者様」「利用者様」「部長さん」「取引先様」のような立場を表す語の語尾
+const ROLE_SUFFIX = /(?:者|員|長|先)$/;
+
+function isLikelyName(word: string): boolean {
+  return !NOT_NAMES.has(word) && !ROLE_SUFFIX.test(word);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function collect(text: string, pattern: RegExp, category: RedactionCategory, accept?: (value: string) => boolean): Detection[] {
+  return [...text.matchAll(pattern)]
+    .filter((m) => !accept || accept(m[1] ?? m[0]))
+    .map((m) => {
+      const value = m[1] ?? m[0];
+      const start = m.index + m[0].indexOf(value);
+      return { start, end: start + value.length, category };
+    });
+}
+
+function dictionaryPattern(words: string[]): RegExp | null {
+  const unique = [...new Set(words.map((w) => w.trim()).filter(Boolean))].sort((a, b) => b.length - a.length);
+  return unique.length ? new RegExp(unique.map(escapeRegExp).join("|"), "g") : null;
+}
+
+/** 伏せる箇所を重なりなく返す。重なる場合は先に挙げた種類を優先する（辞書は長い語から照合する） */
+export function detectSensitive(text: string, { names = [], terms = [] }: RedactionOptions): Detection[] {
+  const termPattern = dictionaryPattern(terms);
+  const namePattern = dictionaryPattern(names);
+  const candidates = [
+    ...collect(text, EMAIL, "email"),
+    ...collect(text, MY_NUMBER, "myNumber"),
+    ...collect(text, PHONE, "phone"),
+    ...(termPattern ? collect(text, termPattern, "term") : []),
+    ...(namePattern ? collect(text, namePattern, "name") : []),
+    ...collect(text, AMOUNT, "amount"),
+    ...collect(text, HONORIFIC_NAME, "name", isLikelyName),
+  ];
+
+  const taken: Detection[] = [];
+  for (const c of candidates) {
+    if (taken.some((t) => c.start < t.end && t.start < c.end)) continue;
+    taken.push(c);
+  }
+  return taken.sort((a, b) => a.start - b.start);
+}
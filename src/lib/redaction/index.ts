@@ -0,0 +1,140 @@
+/**
+ * LLM に送る前に個人情報・秘匿語を伏せ字（〔氏名1〕など）に置き換え、応答を受け取ったら手元で元に戻す。
+ * withRedaction で LLMProvider を包むと、スタイル抽出・議事録生成・部分的な再生成のすべての送信に効く。
+ *
+ * 環境変数:
+ *  - REDACTION_ENABLED: 1 にすると既定で伏せ字にする（リクエストの redact で上書きできる）
+ *  - REDACTION_TERMS_FILE: 常に伏せる語の辞書（1行1語、# から始まる行は無視）
+ */
+import { readFile } from "fs/promises";
+import type { ChatMessage, LLMProvider } from "../llm/types";
+import { detectSensitive } from "./detect";
+import { REDACTION_LABELS } from "./labels";
+import type { RedactionCategory, RedactionEntry, RedactionOptions, RedactionReport } from "./types";
+
+export type { RedactionCategory, RedactionEntry, RedactionOptions, RedactionReport } from "./types";
+export { REDACTION_LABELS } from "./labels";
+
+const PLACEHOLDER = new RegExp(`〔(?:${Object.values(REDACTION_LABELS).join("|")})\\d+〕`, "g");
+
+export type Redactor = {
+  redact(text: string): string;
+  /** json: JSON 文字列の中に戻す場合は元の値をエスケープする */
+  restore(text: string, options?: { json?: boolean }): string;
+  report(): RedactionReport;
+};
+
+/**
+ * 同じ値には同じ伏せ字を使う。1回の生成（複数回の LLM 呼び出し）で1つ作る。
+ * restored に前回の report().entries を渡すと、同じ伏せ字の対応を引き継ぐ（ジョブの再開用）。
+ */
+export function createRedactor(options: RedactionOptions = {}, restored: RedactionEntry[] = []): Redactor {
+  const byOriginal = new Map<string, RedactionEntry>();
+  const byPlaceholder = new Map<string, RedactionEntry>();
+  const counters: Partial<Record<RedactionCategory, number>> = {};
+  for (const entry of restored) {
+    const copy = { ...entry };
+    byOriginal.set(`${copy.category}\0${copy.original}`, copy);
+    byPlaceholder.set(copy.placeholder, copy);
+    counters[copy.category] = Math.max(counters[copy.category] ?? 0, Number(/\d+(?=〕$)/.exec(copy.placeholder)?.[0] ?? 0));
+  }
+
+  function placeholderFor(original: string, category: RedactionCategory): string {
+    const key = `${category}\0${original}`;
+    let entry = byOriginal.get(key);
+    if (!entry) {
+      counters[category] = (counters[category] ?? 0) + 1;
+      entry = { placeholder: `〔${REDACTION_LABELS[category]}${counters[category]}〕`, category, original, count: 0 };
+      byOriginal.set(key, entry);
+      byPlaceholder.set(entry.placeholder, entry);
+    }
+    entry.count++;
+    return entry.placeholder;
+  }
+
+  return {
+    redact(text) {
+      let result = "";
+      let cursor = 0;
+      for (const d of detectSensitive(text, options)) {
+        result += text.slice(cursor, d.start) + placeholderFor(text.slice(d.start, d.end), d.category);
+        cursor = d.end;
+      }
+      return result + text.slice(cursor);
+    },
+    restore(text, { json = false } = {}) {
+      return text.replace(PLACEHOLDER, (placeholder) => {
+        const original = byPlaceholder.get(placeholder)?.original;
+        if (original === undefined) return placeholder;
+        return json ? JSON.stringify(original).slice(1, -1) : original;
+      });
+    },
+    report() {
+      const entries = [...byPlaceholder.values()].map((e) => ({ ...e }));
+      const byCategory: RedactionReport["byCategory"] = {};
+      for (const e of entries) byCategory[e.category] = (byCategory[e.category] ?? 0) + 1;
+      return { total: entries.length, byCategory, entries };
+    },
+  };
+}
+
+const INSTRUCTION =
+  "入力中の〔氏名N〕〔金額N〕のような伏せ字は、個人情報などを置き換えたものです。" +
+  "伏せ字は出力でも一字一句そのまま使い、中身を推測したり書き換えたりしないでください。";
+
+function redactMessages(messages: ChatMessage[], redactor: Redactor): ChatMessage[] {
+  const redacted = messages.map((m) => ({ ...m, content: redactor.redact(m.content) }));
+  const system = redacted.findIndex((m) => m.role === "system");
+  if (system >= 0) {
+    redacted[system] = { ...redacted[system], content: `${redacted[system].content}\n\n${INSTRUCTION}` };
+  } else {
+    redacted.unshift({ role: "system", content: INSTRUCTION });
+  }
+  return redacted;
+}
+
+/** 送信するメッセージを伏せ字にし、応答（ストリーミングの差分を含む）を元に戻すプロバイダー */
+export function withRedaction(llm: LLMProvider, redactor: Redactor): LLMProvider {
+  return {
+    ...llm,
+    async chat(request) {
+      const json = Boolean(request.jsonSchema);
+      let pending = "";
+      // 伏せ字が差分の境目で分かれることがあるので、閉じていない「〔」以降は次の差分まで持ち越す
+      const onDelta = request.onDelta
+        ? (delta: string) => {
+            pending += delta;
+            const open = pending.lastIndexOf("〔");
+            const cut = open >= 0 && !pending.includes("〕", open) ? open : pending.length;
+            if (cut > 0) request.onDelta?.(redactor.restore(pending.slice(0, cut), { json }));
+            pending = pending.slice(cut);
+          }
+        : undefined;
+
+      const content = await llm.chat({ ...request, messages: redactMessages(request.messages, redactor), onDelta });
+      if (pending) request.onDelta?.(redactor.restore(pending, { json }));
+      return redactor.restore(content, { json });
+    },
+  };
+}
+
+/** 1行1語の辞書（# から始まる行は無視） */
+export function parseTerms(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("#"));
+}
+
+/** REDACTION_TERMS_FILE の辞書と、リクエストで指定された語を合わせる */
+export async function loadRedactionTerms(requestTerms: unknown = ""): Promise<string[]> {
+  const path = process.env.REDACTION_TERMS_FILE;
+  const fileTerms = path ? parseTerms(await readFile(path, "utf-8")) : [];
+  return [...fileTerms, ...(typeof requestTerms === "string" ? parseTerms(requestTerms) : [])];
+}
+
+/** リクエストの指定（"1" / "0" / true / false）がなければ REDACTION_ENABLED に従う */
+export function isRedactionRequested(value: unknown): boolean {
+  if (value === undefined || value === null || value === "") return process.env.REDACTION_ENABLED === "1";
+  return value === true || value === "1" || value === "true";
+}
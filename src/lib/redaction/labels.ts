@@ -0,0 +1,11 @@
+import type { RedactionCategory } from "./types";
+
+/** 伏せ字の表記（〔氏名1〕など）と画面表示に使う名前。クライアントからも使う */
+export const REDACTION_LABELS: Record<RedactionCategory, string> = {
+  name: "氏名",
+  phone: "電話番号",
+  email: "メール",
+  myNumber: "個人番号",
+  amount: "金額",
+  term: "秘匿語",
+};
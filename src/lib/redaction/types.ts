@@ -0,0 +1,24 @@
+export type RedactionCategory = "name" | "phone" | "email" | "myNumber" | "amount" | "term";
+
+export type RedactionEntry = {
+  placeholder: string;
+  category: RedactionCategory;
+  original: string;
+  /** 置き換えた回数（複数回の送信の合計） */
+  count: number;
+};
+
+/** 伏せ字にした内容の一覧。レスポンスに含めて画面に表示する */
+export type RedactionReport = {
+  /** 伏せ字にした値の数（同じ値は1つと数える） */
+  total: number;
+  byCategory: Partial<Record<RedactionCategory, number>>;
+  entries: RedactionEntry[];
+};
+
+export type RedactionOptions = {
+  /** 氏名として必ず伏せる語（文字起こしの話者名など） */
+  names?: string[];
+  /** 利用者が指定した NG ワード・顧客名など */
+  terms?: string[];
+};
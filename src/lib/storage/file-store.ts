@@ -0,0 +1,61 @@
+import { mkdir, readdir, readFile, rename, rm, stat, writeFile } from "fs/promises";
+import { join } from "path";
+import type { RecordStore } from "./types";
+
+/** ローカルのディレクトリに1件1ファイル（<id>.json）で保存する */
+export function createFileRecordStore<T extends { id: string }>(dir: string): RecordStore<T> {
+  const pathFor = (id: string) => join(dir, `${id}.json`);
+
+  async function readRecord(path: string): Promise<T | null> {
+    try {
+      return JSON.parse(await readFile(path, "utf-8"));
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw e;
+    }
+  }
+
+  async function listFiles(): Promise<string[]> {
+    try {
+      return (await readdir(dir)).filter((f) => f.endsWith(".json"));
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw e;
+    }
+  }
+
+  return {
+    async all() {
+      const records: (T | null)[] = await Promise.all((await listFiles()).map((f) => readRecord(join(dir, f))));
+      return records.filter((r): r is T => r !== null);
+    },
+    async versions() {
+      const versions = new Map<string, string>();
+      for (const file of await listFiles()) {
+        try {
+          const { mtimeMs, size } = await stat(join(dir, file));
+          versions.set(file.slice(0, -".json".length), `${mtimeMs}:${size}`);
+        } catch (e) {
+          // 一覧を取ってから削除されたもの
+          if ((e as NodeJS.ErrnoException).code !== "ENOENT") throw e;
+        }
+      }
+      return versions;
+    },
+    get(id) {
+      return readRecord(pathFor(id));
+    },
+    async save(record) {
+      await mkdir(dir, { recursive: true });
+      // 書き込み途中のファイルを読まれないよう、一時ファイルに書いてから置き換える
+      const tmp = `${pathFor(record.id)}.tmp`;
+      await writeFile(tmp, JSON.stringify(record, null, 2), "utf-8");
+      await rename(tmp, pathFor(record.id));
+    },
+    async delete(id) {
+      const exists = (await readRecord(pathFor(id))) !== null;
+      if (exists) await rm(pathFor(id));
+      return exists;
+    },
+  };
+}
@@ -0,0 +1,141 @@
+/**
+ * 会議（生成結果）・文体プロファイル・用語集の保存先。
+ *
+ * 環境変数:
+ *  - STORAGE_BACKEND: file | s3（既定 file）
+ *  - MEETINGS_DIR: file 用の会議の保存先（既定 ./data/meetings）
+ *  - MEETINGS_INDEX_DIR: file 用の会議の一覧・検索用の索引の保存先（既定 ./data/meetings-index）
+ *  - STYLE_PROFILES_DIR: file 用の文体プロファイルの保存先（既定 ./data/style-profiles）
+ *  - GLOSSARY_DIR: file 用の用語集の保存先（既定 ./data/glossary）
+ *  - JOBS_DIR: file 用のバックグラウンドジョブの保存先（既定 ./data/jobs）
+ *  - S3_BUCKET, S3_ENDPOINT: s3 用。認証情報と AWS_REGION は AWS SDK の既定の方法で読む
+ *  - S3_PREFIX（既定 minutes-studio/meetings/）, S3_MEETINGS_INDEX_PREFIX（既定 minutes-studio/meetings-index/）,
+ *    S3_STYLE_PROFILES_PREFIX（既定 minutes-studio/style-profiles/）,
+ *    S3_GLOSSARY_PREFIX（既定 minutes-studio/glossary/）, S3_JOBS_PREFIX（既定 minutes-studio/jobs/）
+ */
+import { join } from "path";
+import { S3Client } from "@aws-sdk/client-s3";
+import { createFileRecordStore } from "./file-store";
+import { createS3RecordStore } from "./s3-store";
+import { createMeetingIndex, type MeetingIndexRecord } from "./meeting-index";
+import { filterEntries, seriesEntryIds } from "./search";
+import type {
+  GlossaryEntry,
+  GlossaryStore,
+  JobStore,
+  MeetingRecord,
+  MeetingStore,
+  MinutesJob,
+  RecordStore,
+  StyleProfile,
+  StyleProfileStore,
+} from "./types";
+
+export type {
+  GlossaryEntry,
+  GlossaryStore,
+  JobStatus,
+  JobStore,
+  ListOptions,
+  MeetingIndexEntry,
+  MeetingRecord,
+  MeetingStore,
+  MeetingSummary,
+  MinutesJob,
+  MinutesJobInput,
+  RecordStore,
+  StyleProfile,
+  StyleProfileStore,
+} from "./types";
+
+export { DEFAULT_WORKSPACE_ID, inWorkspace } from "./search";
+
+export class StorageConfigError extends Error {}
+
+// 保存時に採番する UUID 以外はファイル名・キーに使わせない
+const ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+export function isValidRecordId(id: string): boolean {
+  return ID_PATTERN.test(id);
+}
+
+/** STORAGE_BACKEND に応じたストアを作る。dir は file 用、prefix は s3 用 */
+function createRecordStore<T extends { id: string }>(dir: string, prefix: string): RecordStore<T> {
+  const backend = process.env.STORAGE_BACKEND || "file";
+  switch (backend) {
+    case "file":
+      return createFileRecordStore<T>(dir);
+    case "s3": {
+      const bucket = process.env.S3_BUCKET;
+      if (!bucket) throw new StorageConfigError("S3_BUCKET が設定されていません");
+      const endpoint = process.env.S3_ENDPOINT;
+      return createS3RecordStore<T>({
+        client: new S3Client(endpoint ? { endpoint, forcePathStyle: true } : {}),
+        bucket,
+        prefix,
+      });
+    }
+    default:
+      throw new StorageConfigError(`STORAGE_BACKEND が不正です: ${backend}`);
+  }
+}
+
+let meetingStore: MeetingStore | null = null;
+
+export function getMeetingStore(): MeetingStore {
+  if (meetingStore) return meetingStore;
+  const records = createRecordStore<MeetingRecord>(
+    process.env.MEETINGS_DIR || join(process.cwd(), "data", "meetings"),
+    process.env.S3_PREFIX ?? "minutes-studio/meetings/"
+  );
+  // 一覧・検索は索引だけを読む（記録を全件読まない）
+  const index = createMeetingIndex(
+    records,
+    createRecordStore<MeetingIndexRecord>(
+      process.env.MEETINGS_INDEX_DIR || join(process.cwd(), "data", "meetings-index"),
+      process.env.S3_MEETINGS_INDEX_PREFIX ?? "minutes-studio/meetings-index/"
+    )
+  );
+  meetingStore = {
+    get: records.get,
+    save: records.save,
+    delete: records.delete,
+    list: async (options) => filterEntries(await index.entries(), options),
+    series: async (seriesId, workspaceId) => {
+      const ids = seriesEntryIds(await index.entries(), seriesId, workspaceId);
+      const found = await Promise.all(ids.map((id) => records.get(id)));
+      return found.filter((r): r is MeetingRecord => r !== null);
+    },
+  };
+  return meetingStore;
+}
+
+let styleProfileStore: StyleProfileStore | null = null;
+
+export function getStyleProfileStore(): StyleProfileStore {
+  styleProfileStore ??= createRecordStore<StyleProfile>(
+    process.env.STYLE_PROFILES_DIR || join(process.cwd(), "data", "style-profiles"),
+    process.env.S3_STYLE_PROFILES_PREFIX ?? "minutes-studio/style-profiles/"
+  );
+  return styleProfileStore;
+}
+
+let glossaryStore: GlossaryStore | null = null;
+
+export function getGlossaryStore(): GlossaryStore {
+  glossaryStore ??= createRecordStore<GlossaryEntry>(
+    process.env.GLOSSARY_DIR || join(process.cwd(), "data", "glossary"),
+    process.env.S3_GLOSSARY_PREFIX ?? "minutes-studio/glossary/"
+  );
+  return glossaryStore;
+}
+
+let jobStore: JobStore | null = null;
+
+export function getJobStore(): JobStore {
+  jobStore ??= createRecordStore<MinutesJob>(
+    process.env.JOBS_DIR || join(process.cwd(), "data", "jobs"),
+    process.env.S3_JOBS_PREFIX ?? "minutes-studio/jobs/"
+  );
+  return jobStore;
+}
@@ -0,0 +1,66 @@
+/**
+ * 会議の一覧・検索用の索引。一覧表示と検索に使う項目だけを1つのレコードにまとめて保存し、
+ * 一覧や検索のたびに全件（S3 では1件ごとに GET）を読まずに済ませる。
+ *
+ * 索引は記録の写しなので、使う前に RecordStore.versions（ファイルの更新時刻、S3 の ETag）と突き合わせ、
+ * 追加・変更された記録だけを読み直し、削除された記録を外す。複数台で保存しても索引が古いまま残ることはない。
+ */
+import { toIndexEntry } from "./search";
+import type { MeetingIndexEntry, MeetingRecord, RecordStore } from "./types";
+
+export type MeetingIndexRecord = {
+  id: string;
+  /** 索引の項目の作り方の版。変えたときは保存済みの索引を捨てて作り直す */
+  format?: number;
+  entries: MeetingIndexEntry[];
+};
+
+const INDEX_ID = "meetings";
+// 2: 検索用の文字列から書き起こしを外し、上限で切るようにした
+const INDEX_FORMAT = 2;
+
+export type MeetingIndex = {
+  /** 最新の記録に合わせた索引 */
+  entries(): Promise<MeetingIndexEntry[]>;
+};
+
+export function createMeetingIndex(records: RecordStore<MeetingRecord>, indexStore: RecordStore<MeetingIndexRecord>): MeetingIndex {
+  let cache: Map<string, MeetingIndexEntry> | null = null;
+  // 同時に呼ばれても、読み直しと索引の保存は1つずつ行う
+  let queue: Promise<unknown> = Promise.resolve();
+
+  async function refresh(): Promise<MeetingIndexEntry[]> {
+    const versions = await records.versions();
+    if (!cache) {
+      const saved = await indexStore.get(INDEX_ID);
+      cache = new Map((saved?.format === INDEX_FORMAT ? saved.entries : []).map((e) => [e.id, e]));
+    }
+    const index = cache;
+
+    let changed = false;
+    for (const id of index.keys()) {
+      if (!versions.has(id)) {
+        index.delete(id);
+        changed = true;
+      }
+    }
+    const stale = [...versions].filter(([id, version]) => index.get(id)?.version !== version);
+    if (stale.length) console.log("会議の索引を更新:", stale.length, "件");
+    const fetched = await Promise.all(stale.map(async ([id, version]) => ({ record: await records.get(id), version })));
+    for (const { record, version } of fetched) {
+      if (record) index.set(record.id, toIndexEntry(record, version));
+      changed = true;
+    }
+
+    if (changed) await indexStore.save({ id: INDEX_ID, format: INDEX_FORMAT, entries: [...index.values()] });
+    return [...index.values()];
+  }
+
+  return {
+    entries() {
+      const result = queue.then(refresh);
+      queue = result.catch(() => {});
+      return result;
+    },
+  };
+}
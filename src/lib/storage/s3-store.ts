@@ -0,0 +1,79 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  ListObjectsV2Command,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import type { RecordStore } from "./types";
+
+export type S3RecordStoreOptions = {
+  client: S3Client;
+  bucket: string;
+  /** 例: "minutes-studio/meetings/" */
+  prefix: string;
+};
+
+/** S3（互換ストレージを含む）に1件1オブジェクトで保存する */
+export function createS3RecordStore<T extends { id: string }>({
+  client,
+  bucket,
+  prefix,
+}: S3RecordStoreOptions): RecordStore<T> {
+  const keyFor = (id: string) => `${prefix}${id}.json`;
+
+  async function readRecord(key: string): Promise<T | null> {
+    try {
+      const resp = await client.send(new GetObjectCommand({ Bucket: bucket, Key: key }));
+      return JSON.parse((await resp.Body?.transformToString("utf-8")) ?? "null");
+    } catch (e) {
+      if (e instanceof NoSuchKey) return null;
+      throw e;
+    }
+  }
+
+  /** キーと ETag（内容が変われば変わる）。1回の一覧で 1000 件ずつ取れる */
+  async function listObjects(): Promise<{ key: string; etag: string }[]> {
+    const objects: { key: string; etag: string }[] = [];
+    let token: string | undefined;
+    do {
+      const resp = await client.send(
+        new ListObjectsV2Command({ Bucket: bucket, Prefix: prefix, ContinuationToken: token })
+      );
+      for (const o of resp.Contents ?? []) {
+        if (o.Key?.endsWith(".json")) objects.push({ key: o.Key, etag: o.ETag ?? "" });
+      }
+      token = resp.NextContinuationToken;
+    } while (token);
+    return objects;
+  }
+
+  return {
+    async all() {
+      const records: (T | null)[] = await Promise.all((await listObjects()).map((o) => readRecord(o.key)));
+      return records.filter((r): r is T => r !== null);
+    },
+    async versions() {
+      return new Map((await listObjects()).map((o) => [o.key.slice(prefix.length, -".json".length), o.etag]));
+    },
+    get(id) {
+      return readRecord(keyFor(id));
+    },
+    async save(record) {
+      await client.send(
+        new PutObjectCommand({
+          Bucket: bucket,
+          Key: keyFor(record.id),
+          Body: JSON.stringify(record),
+          ContentType: "application/json; charset=utf-8",
+        })
+      );
+    },
+    async delete(id) {
+      const exists = (await readRecord(keyFor(id))) !== null;
+      if (exists) await client.send(new DeleteObjectCommand({ Bucket: bucket, Key: keyFor(id) }));
+      return exists;
+    },
+  };
+}
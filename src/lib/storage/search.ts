@@ -0,0 +1,87 @@
+import { seriesIdOf } from "../minutes/series";
+import type { ListOptions, MeetingIndexEntry, MeetingRecord, MeetingSummary } from "./types";
+
+export const DEFAULT_LIST_LIMIT = 50;
+
+/** ワークスペースを記録していない（認証を入れる前の）会議・文体プロファイル・用語集・ジョブの所属先 */
+export const DEFAULT_WORKSPACE_ID = "default";
+
+export function inWorkspace(record: { workspaceId?: string }, workspaceId: string): boolean {
+  return (record.workspaceId ?? DEFAULT_WORKSPACE_ID) === workspaceId;
+}
+
+// 索引は全件で1つのレコードなので、1件あたりの検索用の文字列は上限で切る
+const MAX_SEARCH_TEXT_CHARS = 4000;
+
+/**
+ * 検索の対象にする文字列。会議名・要約・出席者・決定事項などを先に並べ、議事録の本文は上限までの抜粋にする
+ * （書き起こしは入れない）。日本語は単語区切りがないので、形態素解析はせず部分一致で探す。
+ */
+export function searchableText(record: MeetingRecord): string {
+  return [
+    record.meeting.title,
+    record.meeting.date,
+    ...record.attendees,
+    record.summary,
+    ...record.agenda,
+    ...record.decisions,
+    ...record.actionItems.flatMap((a) => [a.task, a.owner]),
+    ...record.openQuestions,
+    record.minutes,
+  ]
+    .join("\n")
+    .slice(0, MAX_SEARCH_TEXT_CHARS)
+    .toLowerCase();
+}
+
+export function matchesQuery(entry: Pick<MeetingIndexEntry, "searchText">, query: string | undefined): boolean {
+  const terms = (query ?? "").toLowerCase().split(/[\s　]+/).filter(Boolean);
+  return terms.every((t) => entry.searchText.includes(t));
+}
+
+export function toSummary(record: MeetingRecord): MeetingSummary {
+  return {
+    id: record.id,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+    meeting: record.meeting,
+    provider: record.provider,
+    seriesId: record.seriesId,
+    snippet: record.summary.slice(0, 120),
+  };
+}
+
+/** 索引に入れる、一覧表示と検索に使う項目 */
+export function toIndexEntry(record: MeetingRecord, version: string): MeetingIndexEntry {
+  return { ...toSummary(record), workspaceId: record.workspaceId, searchText: searchableText(record), version };
+}
+
+/** 索引から検索・並べ替え・件数制限をまとめて行う */
+export function filterEntries(
+  entries: MeetingIndexEntry[],
+  { query, workspaceId, limit = DEFAULT_LIST_LIMIT }: ListOptions = {}
+): MeetingSummary[] {
+  return entries
+    .filter((e) => workspaceId === undefined || inWorkspace(e, workspaceId))
+    .filter((e) => matchesQuery(e, query))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, limit)
+    .map(({ id, createdAt, updatedAt, meeting, provider, seriesId, snippet }) => ({
+      id,
+      createdAt,
+      updatedAt,
+      meeting,
+      provider,
+      seriesId,
+      snippet,
+    }));
+}
+
+/** シリーズの会議の id を古い順に返す */
+export function seriesEntryIds(entries: MeetingIndexEntry[], seriesId: string, workspaceId?: string): string[] {
+  return entries
+    .filter((e) => seriesIdOf(e) === seriesId)
+    .filter((e) => workspaceId === undefined || inWorkspace(e, workspaceId))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .map((e) => e.id);
+}
@@ -0,0 +1,177 @@
+import type { LLMCallUsage, UsageSummary } from "../llm/cost";
+import type { LLMStage, ProviderConfig } from "../llm/types";
+import type { GroundedClaim } from "../minutes/grounding";
+import type { MinutesIssueCode, MinutesValidation } from "../minutes/validate";
+import type { RedactionEntry, RedactionReport } from "../redaction/types";
+import type { GlossaryCorrection } from "../glossary/apply";
+import type { MinutesLanguage, MinutesTranslation, OutputLanguage } from "../minutes/language";
+import type { MeetingInfo, MinutesContent, MinutesDocument } from "../minutes/schema";
+import type { CarryOverResult, SeriesContext } from "../minutes/series";
+import type { StyleSource } from "../minutes/style";
+import type { MinutesResponse, MinutesStreamEvent } from "../minutes/stream";
+
+/** id を持つ JSON レコードを1件1ファイル（オブジェクト）で保存するストア */
+export type RecordStore<T extends { id: string }> = {
+  all(): Promise<T[]>;
+  /** id ごとの更新の目印（保存し直すと変わる）。中身を読まずに追加・変更・削除を見つけるのに使う */
+  versions(): Promise<Map<string, string>>;
+  get(id: string): Promise<T | null>;
+  /** 同じ id があれば上書きする */
+  save(record: T): Promise<void>;
+  /** 削除できたら true */
+  delete(id: string): Promise<boolean>;
+};
+
+/** 保存された1回分の生成結果（会議1件） */
+export type MeetingRecord = MinutesDocument & {
+  id: string;
+  /** 所属するワークスペース（以前の記録にはない。その場合は既定のワークスペース） */
+  workspaceId?: string;
+  /** ISO 8601 */
+  createdAt: string;
+  updatedAt: string;
+  transcript: string;
+  styleGuidelines: string;
+  /** 文体プロファイルを使った場合の ID */
+  styleProfileId?: string;
+  /** 使用したプロンプトテンプレート（会議の種類） */
+  templateId?: string;
+  /** 生成直後の内容。画面での編集との差分表示に使う（編集で変わらない） */
+  aiDraft?: MinutesContent;
+  /** 生成時の根拠。編集後の行は文言で照合する */
+  grounding?: GroundedClaim[];
+  redaction?: RedactionReport;
+  /** 用語集で書き起こしを直した箇所 */
+  glossaryCorrections?: GlossaryCorrection[];
+  /** 生成時の出力の検証結果 */
+  validation?: MinutesValidation;
+  /** 議事録の言語と書き起こしの言語（以前の記録にはない。その場合は日本語） */
+  language?: MinutesLanguage;
+  sourceLanguage?: MinutesLanguage;
+  /** 日英併記・画面での翻訳によるもう一方の言語の議事録 */
+  translation?: MinutesTranslation;
+  /** 生成時の LLM 呼び出しごとのトークン数・費用・所要時間 */
+  usage?: UsageSummary;
+  /** 定例会議のシリーズ（前回の会議を指定して生成した場合。最初の会議にはなく、その ID がシリーズの ID になる） */
+  seriesId?: string;
+  previousMeetingId?: string;
+  /** 前回までの会議から持ち越した事項の、この会議での状況 */
+  carryOver?: CarryOverResult[];
+  provider: string;
+  models: Record<LLMStage, string>;
+};
+
+/** 一覧表示用の要約情報 */
+export type MeetingSummary = Pick<MeetingRecord, "id" | "createdAt" | "updatedAt" | "meeting" | "provider" | "seriesId"> & {
+  snippet: string;
+};
+
+/** 一覧・検索用の索引の1件（meeting-index.ts） */
+export type MeetingIndexEntry = MeetingSummary & {
+  workspaceId?: string;
+  /** 検索の対象にする文字列（小文字にしたもの） */
+  searchText: string;
+  /** 索引に入れたときの記録の更新の目印（RecordStore.versions） */
+  version: string;
+};
+
+export type ListOptions = {
+  /** 空白区切りの検索語（すべてを含むものに絞り込む） */
+  query?: string;
+  /** 指定したワークスペースの会議だけにする */
+  workspaceId?: string;
+  limit?: number;
+};
+
+export type MeetingStore = Omit<RecordStore<MeetingRecord>, "all" | "versions"> & {
+  /** 新しい順に返す */
+  list(options?: ListOptions): Promise<MeetingSummary[]>;
+  /** シリーズの会議を古い順に返す */
+  series(seriesId: string, workspaceId?: string): Promise<MeetingRecord[]>;
+};
+
+/** 過去の議事録から抽出した文体ガイドラインを名前をつけて保存したもの */
+export type StyleProfile = {
+  id: string;
+  /** 所属するワークスペース（以前のプロファイルにはない。その場合は既定のワークスペース） */
+  workspaceId?: string;
+  name: string;
+  guidelines: string;
+  /** 抽出元ファイルの内容ハッシュ。変わったときだけガイドラインを作り直す */
+  sourceHash: string;
+  sourceFiles: string[];
+  /** ガイドラインが手で編集されているか */
+  edited: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type StyleProfileStore = RecordStore<StyleProfile>;
+
+/** 用語集の1語。文字起こしの誤変換を正しい表記に直し、LLM にも表記を指示する */
+export type GlossaryEntry = {
+  id: string;
+  /** 所属するワークスペース（以前の用語にはない。その場合は既定のワークスペース） */
+  workspaceId?: string;
+  /** 正しい表記 */
+  term: string;
+  /** 読み（ひらがな・カタカナ） */
+  yomi: string;
+  /** 文字起こしでよくある誤変換。見つけたら term に置き換える */
+  variants: string[];
+  note: string;
+  updatedAt: string;
+};
+
+export type GlossaryStore = RecordStore<GlossaryEntry>;
+
+export type JobStatus = "queued" | "running" | "succeeded" | "failed" | "cancelled";
+
+/** ジョブの実行に必要な入力。アップロードされたファイルは読み込んだ内容で持つ */
+export type MinutesJobInput = {
+  /** 正規化・用語集での修正を済ませた文字起こし */
+  transcript: string;
+  participants: string[];
+  meeting: MeetingInfo;
+  templateId: string;
+  styleProfileId: string | null;
+  styleSource: StyleSource | null;
+  /** 伏せ字にする場合の辞書の語（伏せ字にしない場合は null） */
+  redactTerms: string[] | null;
+  glossary: GlossaryEntry[];
+  glossaryCorrections: GlossaryCorrection[];
+  /** 以前のジョブにはない（日本語で出力する） */
+  language?: { source: MinutesLanguage; output: OutputLanguage };
+  /** 結果を保存するワークスペース（以前のジョブにはない。その場合は既定のワークスペース） */
+  workspaceId?: string;
+  /** 前回の会議を指定した場合の持ち越し事項（登録時点のもの） */
+  series?: SeriesContext | null;
+  provider: Partial<ProviderConfig>;
+};
+
+/** バックグラウンドで実行する議事録の生成 */
+export type MinutesJob = {
+  id: string;
+  status: JobStatus;
+  createdAt: string;
+  updatedAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  /** 実行した回数（再試行・サーバー再起動後の再開を含む） */
+  attempts: number;
+  input: MinutesJobInput;
+  /** 完了した段階の出力（ガイドライン・チャンクごとの部分議事録など）。再実行時はここから再開する */
+  stages: Record<string, unknown>;
+  /** 伏せ字の対応。再開しても同じ伏せ字を使う */
+  redactionEntries: RedactionEntry[];
+  /** これまでの LLM 呼び出し（失敗した回の分を含む）。再開後も合計して費用を出す */
+  usage: LLMCallUsage[];
+  /** 進捗イベント（生成途中の本文は含めない） */
+  events: MinutesStreamEvent[];
+  result: MinutesResponse | null;
+  error: string | null;
+  /** 出力の検証で失敗した場合の問題の種類 */
+  errorCode?: MinutesIssueCode | null;
+};
+
+export type JobStore = RecordStore<MinutesJob>;
@@ -0,0 +1,207 @@
+/**
+ * 文字起こしテキストを話者・時刻つきの発言リストに正規化する。
+ * 対応形式: WebVTT（Zoom / Teams）、SRT、Otter 形式（「Speaker 1  0:01:02」+ 本文）、
+ * 「[00:01:02] 発言」（/api/transcribe の出力）、「名前: 発言」、それ以外はプレーンテキスト。
+ * クライアント（話者名の割り当て画面）とサーバーの両方で使う。
+ */
+
+export type Utterance = {
+  /** 話者ラベル。不明な場合は空文字 */
+  speaker: string;
+  /** 開始時刻（秒） */
+  start?: number;
+  text: string;
+};
+
+export type TranscriptFormat = "vtt" | "srt" | "otter" | "timestamped" | "colon" | "plain";
+
+export type ParsedTranscript = {
+  format: TranscriptFormat;
+  utterances: Utterance[];
+};
+
+export type SpeakerStat = {
+  speaker: string;
+  count: number;
+  generic: boolean;
+};
+
+const TIME = String.raw`(?:\d{1,2}:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?`;
+const CUE_TIMING = new RegExp(`^(${TIME})\\s*-->\\s*(${TIME})`);
+const OTTER_HEADER = new RegExp(`^(.{1,40}?)\\s+(${TIME})\\s*$`);
+const BRACKET_LINE = new RegExp(`^\\[(${TIME})\\]\\s*(.*)$`);
+const COLON_LINE = /^((?:speaker|話者|スピーカー)\s*\d+|[^\s:：「」()（）]{1,20})\s*[:：]\s*(.*)$/i;
+const VOICE_TAG = /^<v(?:\.[^\s>]+)*\s+([^>]+)>([\s\S]*?)(?:<\/v>)?$/;
+const GENERIC_SPEAKER = /^(?:speaker|話者|スピーカー|発言者)\s*[0-9０-９]+$/i;
+
+/** 「01:02:03.456」「1:02」などを秒に変換する */
+export function parseTime(value: string): number {
+  const [hms, fraction = "0"] = value.replace(",", ".").split(".");
+  const parts = hms.split(":").map(Number);
+  const seconds = parts.reduce((acc, n) => acc * 60 + n, 0);
+  return seconds + Number(`0.${fraction}`);
+}
+
+export function isGenericSpeaker(speaker: string): boolean {
+  return GENERIC_SPEAKER.test(speaker.trim());
+}
+
+function splitColon(line: string): { speaker: string; text: string } {
+  const m = COLON_LINE.exec(line);
+  return m ? { speaker: m[1].trim(), text: m[2].trim() } : { speaker: "", text: line.trim() };
+}
+
+/** 字幕形式は1文ごとに区切られているので、同じ話者が続く場合はまとめる */
+function mergeConsecutive(utterances: Utterance[]): Utterance[] {
+  const merged: Utterance[] = [];
+  for (const u of utterances) {
+    const last = merged[merged.length - 1];
+    if (last && u.speaker && last.speaker === u.speaker) {
+      last.text += " " + u.text;
+    } else {
+      merged.push({ ...u });
+    }
+  }
+  return merged;
+}
+
+function parseCues(lines: string[]): Utterance[] {
+  const utterances: Utterance[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const timing = CUE_TIMING.exec(lines[i].trim());
+    if (!timing) {
+      i++;
+      continue;
+    }
+    const body: string[] = [];
+    for (i++; i < lines.length && lines[i].trim() !== ""; i++) body.push(lines[i].trim());
+    const text = body.join(" ");
+    const voice = VOICE_TAG.exec(text);
+    const { speaker, text: spoken } = voice
+      ? { speaker: voice[1].trim(), text: voice[2].replace(/<[^>]+>/g, "").trim() }
+      : splitColon(text.replace(/<[^>]+>/g, ""));
+    if (spoken) utterances.push({ speaker, start: parseTime(timing[1]), text: spoken });
+  }
+  return mergeConsecutive(utterances);
+}
+
+function parseOtter(lines: string[]): Utterance[] {
+  const utterances: Utterance[] = [];
+  let current: Utterance | null = null;
+  for (const raw of lines) {
+    const line = raw.trim();
+    const header = OTTER_HEADER.exec(line);
+    if (header) {
+      if (current?.text) utterances.push(current);
+      current = { speaker: header[1].trim(), start: parseTime(header[2]), text: "" };
+    } else if (line && current) {
+      current.text = current.text ? `${current.text} ${line}` : line;
+    }
+  }
+  if (current?.text) utterances.push(current);
+  return utterances;
+}
+
+function parseTimestamped(lines: string[]): Utterance[] {
+  const utterances: Utterance[] = [];
+  for (const raw of lines) {
+    const line = raw.trim();
+    if (!line) continue;
+    const m = BRACKET_LINE.exec(line);
+    if (m) {
+      utterances.push({ ...splitColon(m[2]), start: parseTime(m[1]) });
+    } else if (utterances.length) {
+      utterances[utterances.length - 1].text += " " + line;
+    }
+  }
+  return utterances;
+}
+
+function parseColon(lines: string[]): Utterance[] {
+  const utterances: Utterance[] = [];
+  for (const raw of lines) {
+    const line = raw.trim();
+    if (!line) continue;
+    const { speaker, text } = splitColon(line);
+    const last = utterances[utterances.length - 1];
+    // 話者のない行は直前の発言の続き
+    if (!speaker && last) {
+      last.text += "\n" + text;
+    } else {
+      utterances.push({ speaker, text });
+    }
+  }
+  return utterances;
+}
+
+function ratio(lines: string[], pattern: RegExp): number {
+  const nonBlank = lines.filter((l) => l.trim());
+  if (nonBlank.length === 0) return 0;
+  return nonBlank.filter((l) => pattern.test(l.trim())).length / nonBlank.length;
+}
+
+export function detectFormat(text: string): TranscriptFormat {
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/);
+  if (lines[0]?.trim().startsWith("WEBVTT")) return "vtt";
+  if (lines.some((l) => CUE_TIMING.test(l.trim()))) return "srt";
+  if (ratio(lines, BRACKET_LINE) >= 0.5) return "timestamped";
+  if (lines.filter((l) => OTTER_HEADER.test(l.trim())).length >= 2 && ratio(lines, OTTER_HEADER) >= 0.2) return "otter";
+  if (ratio(lines, COLON_LINE) >= 0.5) return "colon";
+  return "plain";
+}
+
+export function parseTranscript(text: string): ParsedTranscript {
+  const format = detectFormat(text);
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/);
+  switch (format) {
+    case "vtt":
+    case "srt":
+      return { format, utterances: parseCues(lines) };
+    case "otter":
+      return { format, utterances: parseOtter(lines) };
+    case "timestamped":
+      return { format, utterances: parseTimestamped(lines) };
+    case "colon":
+      return { format, utterances: parseColon(lines) };
+    case "plain":
+      return { format, utterances: [{ speaker: "", text: text.trim() }] };
+  }
+}
+
+/** 登場順の話者一覧（発言回数つき） */
+export function listSpeakers(utterances: Utterance[]): SpeakerStat[] {
+  const stats = new Map<string, SpeakerStat>();
+  for (const u of utterances) {
+    if (!u.speaker) continue;
+    const stat = stats.get(u.speaker) ?? { speaker: u.speaker, count: 0, generic: isGenericSpeaker(u.speaker) };
+    stat.count++;
+    stats.set(u.speaker, stat);
+  }
+  return [...stats.values()];
+}
+
+/** 「Speaker 1」→「田中」のような割り当てを反映する。空の割り当ては無視する */
+export function applySpeakerNames(utterances: Utterance[], names: Record<string, string>): Utterance[] {
+  return utterances.map((u) => {
+    const name = names[u.speaker]?.trim();
+    return name ? { ...u, speaker: name } : u;
+  });
+}
+
+export function formatTimestamp(seconds: number): string {
+  const total = Math.floor(seconds);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${pad(Math.floor(total / 3600))}:${pad(Math.floor((total % 3600) / 60))}:${pad(total % 60)}`;
+}
+
+/** 「[00:01:02] 名前: 発言」形式のテキストに戻す（LLM に渡す形） */
+export function renderTranscript(utterances: Utterance[]): string {
+  return utterances
+    .map((u) => {
+      const time = u.start !== undefined ? `[${formatTimestamp(u.start)}] ` : "";
+      const speaker = u.speaker ? `${u.speaker}: ` : "";
+      return `${time}${speaker}${u.text}`;
+    })
+    .join("\n");
+}
@@ -0,0 +1,8 @@
+// クライアント（アップロード欄）からも使うので Node の API に依存しないこと
+// Zoom / Teams の字幕ファイル（.vtt）や .srt もそのまま読み込める
+export const TRANSCRIPT_EXTENSIONS = [".txt", ".vtt", ".srt"];
+
+export function isTranscriptFile(name: string): boolean {
+  const lower = name.toLowerCase();
+  return TRANSCRIPT_EXTENSIONS.some((ext) => lower.endsWith(ext));
+}
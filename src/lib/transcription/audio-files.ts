@@ -0,0 +1,7 @@
+// クライアント（アップロード欄）からも使うので Node の API に依存しないこと
+export const AUDIO_EXTENSIONS = [".mp3", ".m4a", ".wav", ".webm"];
+
+export function isAudioFile(name: string): boolean {
+  const lower = name.toLowerCase();
+  return AUDIO_EXTENSIONS.some((ext) => lower.endsWith(ext));
+}
@@ -0,0 +1,94 @@
+/**
+ * 音声ファイルの文字起こし。
+ *
+ * 環境変数:
+ *  - TRANSCRIBE_BACKEND: openai | whisper-cpp（未指定なら OPENAI_API_KEY があれば openai、なければ whisper-cpp）
+ *  - TRANSCRIBE_MODEL: openai 用のモデル（既定 whisper-1）
+ *  - TRANSCRIBE_BASE_URL, TRANSCRIBE_API_KEY: OpenAI 互換の文字起こしサーバーを使う場合
+ *  - WHISPER_CPP_BIN, WHISPER_CPP_MODEL, WHISPER_CPP_THREADS: whisper-cpp 用
+ *  - TRANSCRIBE_LANGUAGE: 既定の言語（既定 ja）
+ *  - TRANSCRIBE_SEGMENT_SECONDS: 長い音声を分割する長さ（既定 600 秒）
+ *  - FFMPEG_PATH: 変換・分割に使う ffmpeg
+ */
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { extname, join } from "path";
+import OpenAI from "openai";
+import { renderTranscript } from "../transcript/parse";
+import { createOpenAIWhisperTranscriber } from "./openai-whisper";
+import { splitAudio, type AudioSegment } from "./segment";
+import { createWhisperCppTranscriber } from "./whisper-cpp";
+import type { TranscribedSegment, Transcriber, TranscriberName } from "./types";
+
+export type { TranscribedSegment, Transcriber, TranscriberName } from "./types";
+export { AUDIO_EXTENSIONS, isAudioFile } from "./audio-files";
+
+export class TranscriptionConfigError extends Error {}
+
+export function resolveTranscriber(): Transcriber {
+  const name = (process.env.TRANSCRIBE_BACKEND as TranscriberName | undefined) ??
+    (process.env.OPENAI_API_KEY || process.env.TRANSCRIBE_BASE_URL ? "openai" : "whisper-cpp");
+
+  switch (name) {
+    case "openai": {
+      const apiKey = process.env.TRANSCRIBE_API_KEY || process.env.OPENAI_API_KEY;
+      const baseURL = process.env.TRANSCRIBE_BASE_URL;
+      if (!apiKey && !baseURL) throw new TranscriptionConfigError("OPENAI_API_KEY が設定されていません");
+      return createOpenAIWhisperTranscriber(
+        new OpenAI({ apiKey: apiKey || "local", baseURL }),
+        process.env.TRANSCRIBE_MODEL || "whisper-1"
+      );
+    }
+    case "whisper-cpp": {
+      const binary = process.env.WHISPER_CPP_BIN;
+      const model = process.env.WHISPER_CPP_MODEL;
+      if (!binary || !model) {
+        throw new TranscriptionConfigError("音声の文字起こしが設定されていません（OPENAI_API_KEY または WHISPER_CPP_BIN / WHISPER_CPP_MODEL）");
+      }
+      return createWhisperCppTranscriber({ binary, model, threads: Number(process.env.WHISPER_CPP_THREADS) || undefined });
+    }
+    default:
+      throw new TranscriptionConfigError(`TRANSCRIBE_BACKEND が不正です: ${name}`);
+  }
+}
+
+export type TranscribeAudioOptions = {
+  language?: string;
+  signal?: AbortSignal;
+  /** 分割した区間ごとに進捗を通知する */
+  onSegment?: (index: number, total: number) => void;
+};
+
+/** 音声ファイルを文字起こしし、音声全体の時刻に揃えた区間の一覧を返す */
+export async function transcribeAudio(
+  transcriber: Transcriber,
+  file: File,
+  { language = process.env.TRANSCRIBE_LANGUAGE || "ja", signal, onSegment }: TranscribeAudioOptions = {}
+): Promise<TranscribedSegment[]> {
+  const workDir = await mkdtemp(join(tmpdir(), "minutes-studio-"));
+  try {
+    const input = join(workDir, `input${extname(file.name).toLowerCase()}`);
+    await writeFile(input, Buffer.from(await file.arrayBuffer()));
+
+    const segmentSeconds = Number(process.env.TRANSCRIBE_SEGMENT_SECONDS) || 600;
+    const segments: AudioSegment[] =
+      transcriber.requiresWav || file.size > transcriber.maxBytes
+        ? await splitAudio(input, workDir, segmentSeconds, signal)
+        : [{ path: input, offset: 0 }];
+
+    const result: TranscribedSegment[] = [];
+    for (const [i, segment] of segments.entries()) {
+      onSegment?.(i, segments.length);
+      const parts = await transcriber.transcribe(segment.path, { language, signal });
+      result.push(...parts.map((p) => ({ ...p, start: p.start + segment.offset, end: p.end + segment.offset })));
+    }
+    return result;
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
+
+/** 「[00:01:02] 発言」形式の文字起こしテキストにする */
+export function formatTranscript(segments: TranscribedSegment[]): string {
+  return renderTranscript(segments.map((s) => ({ speaker: "", start: s.start, text: s.text })));
+}
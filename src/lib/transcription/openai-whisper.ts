@@ -0,0 +1,31 @@
+import { createReadStream } from "fs";
+import OpenAI from "openai";
+import type { Transcriber } from "./types";
+
+// Whisper API のアップロード上限は 25MB
+const WHISPER_API_MAX_BYTES = 25 * 1024 * 1024;
+
+/** OpenAI Whisper API（または互換の文字起こしサーバー）を使うバックエンド */
+export function createOpenAIWhisperTranscriber(client: OpenAI, model = "whisper-1"): Transcriber {
+  return {
+    name: "openai",
+    requiresWav: false,
+    maxBytes: WHISPER_API_MAX_BYTES,
+    async transcribe(path, { language, signal }) {
+      const resp = await client.audio.transcriptions.create(
+        {
+          file: createReadStream(path),
+          model,
+          language,
+          response_format: "verbose_json",
+          timestamp_granularities: ["segment"],
+        },
+        { signal }
+      );
+      if (!resp.segments?.length) {
+        return resp.text ? [{ start: 0, end: resp.duration ?? 0, text: resp.text.trim() }] : [];
+      }
+      return resp.segments.map((s) => ({ start: s.start, end: s.end, text: s.text.trim() }));
+    },
+  };
+}
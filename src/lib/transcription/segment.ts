@@ -0,0 +1,41 @@
+import { execFile } from "child_process";
+import { readdir } from "fs/promises";
+import { join } from "path";
+import { promisify } from "util";
+
+const execFileAsync = promisify(execFile);
+
+export type AudioSegment = {
+  path: string;
+  /** 元の音声先頭からのオフセット（秒） */
+  offset: number;
+};
+
+/**
+ * ffmpeg で音声を 16kHz モノラル WAV に変換し、segmentSeconds ごとに分割する。
+ * PCM に再エンコードするので分割位置は正確で、オフセットは index * segmentSeconds になる。
+ */
+export async function splitAudio(
+  input: string,
+  outDir: string,
+  segmentSeconds: number,
+  signal?: AbortSignal
+): Promise<AudioSegment[]> {
+  const ffmpeg = process.env.FFMPEG_PATH || "ffmpeg";
+  const pattern = join(outDir, "segment_%04d.wav");
+  try {
+    await execFileAsync(
+      ffmpeg,
+      ["-hide_banner", "-loglevel", "error", "-i", input, "-ar", "16000", "-ac", "1", "-f", "segment", "-segment_time", String(segmentSeconds), pattern],
+      { signal, maxBuffer: 16 * 1024 * 1024 }
+    );
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new Error("音声の変換に ffmpeg が必要です（FFMPEG_PATH で場所を指定できます）");
+    }
+    throw e;
+  }
+
+  const files = (await readdir(outDir)).filter((f) => /^segment_\d+\.wav$/.test(f)).sort();
+  return files.map((f, i) => ({ path: join(outDir, f), offset: i * segmentSeconds }));
+}
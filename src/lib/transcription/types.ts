@@ -0,0 +1,24 @@
+/** 音声の文字起こしバックエンドの共通インターフェース */
+
+export type TranscribedSegment = {
+  /** 音声先頭からの秒数 */
+  start: number;
+  end: number;
+  text: string;
+};
+
+export type TranscriberName = "openai" | "whisper-cpp";
+
+export type TranscribeOptions = {
+  language?: string;
+  signal?: AbortSignal;
+};
+
+export type Transcriber = {
+  name: TranscriberName;
+  /** true の場合、入力は 16kHz モノラル WAV に変換してから渡す */
+  requiresWav: boolean;
+  /** 1回の呼び出しで受け付ける最大バイト数。超える場合は分割する */
+  maxBytes: number;
+  transcribe(path: string, options: TranscribeOptions): Promise<TranscribedSegment[]>;
+};
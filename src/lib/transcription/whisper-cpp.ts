@@ -0,0 +1,39 @@
+import { execFile } from "child_process";
+import { readFile } from "fs/promises";
+import { promisify } from "util";
+import type { Transcriber } from "./types";
+
+const execFileAsync = promisify(execFile);
+
+// whisper.cpp の -oj で出力される JSON のうち使う部分
+type WhisperCppOutput = {
+  transcription?: { offsets: { from: number; to: number }; text: string }[];
+};
+
+export type WhisperCppOptions = {
+  /** whisper.cpp の実行ファイル（whisper-cli / main） */
+  binary: string;
+  /** ggml モデルファイル */
+  model: string;
+  threads?: number;
+};
+
+/** ローカルの whisper.cpp を使うバックエンド。音声を外部に送らない */
+export function createWhisperCppTranscriber({ binary, model, threads }: WhisperCppOptions): Transcriber {
+  return {
+    name: "whisper-cpp",
+    requiresWav: true,
+    maxBytes: Number.POSITIVE_INFINITY,
+    async transcribe(path, { language, signal }) {
+      const outBase = `${path}.whisper`;
+      const args = ["-m", model, "-f", path, "-oj", "-of", outBase, "-l", language || "auto"];
+      if (threads) args.push("-t", String(threads));
+      await execFileAsync(binary, args, { signal, maxBuffer: 64 * 1024 * 1024 });
+
+      const output: WhisperCppOutput = JSON.parse(await readFile(`${outBase}.json`, "utf-8"));
+      return (output.transcription ?? [])
+        .map((t) => ({ start: t.offsets.from / 1000, end: t.offsets.to / 1000, text: t.text.trim() }))
+        .filter((t) => t.text);
+    },
+  };
+}
@@ -0,0 +1,193 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { after, test } from "node:test";
+import { NextRequest } from "next/server";
+import { POST as login } from "@/app/api/auth/login/route";
+import { GET as oidcCallback } from "@/app/api/auth/oidc/callback/route";
+import { authorize, checkRequestSize, clientAddress, consumeRateLimit, hasRole, hashPassword } from "@/lib/auth";
+import { SESSION_COOKIE, sealValue, unsealValue } from "@/lib/auth/session";
+import type { AuthContext } from "@/lib/auth/types";
+import { setupTestEnv } from "./helpers/env";
+
+const env = setupTestEnv();
+const dir = mkdtempSync(join(tmpdir(), "minutes-auth-"));
+after(() => {
+  rmSync(dir, { recursive: true, force: true });
+  env.cleanup();
+});
+
+const SECRET = "s".repeat(32);
+
+function request(headers: Record<string, string> = {}, init: { method?: string; body?: string } = {}): NextRequest {
+  return new NextRequest("http://localhost/api/meetings", { ...init, headers });
+}
+
+function sessionHeader(id: string, maxAge = 3600): Record<string, string> {
+  return { cookie: `${SESSION_COOKIE}=${sealValue({ id, name: id, via: "local" }, maxAge)}` };
+}
+
+test("sealValue / unsealValue: 署名が正しく期限内の値だけを読む", () => {
+  process.env.AUTH_SECRET = SECRET;
+  const sealed = sealValue({ id: "tanaka" }, 60);
+  assert.equal(unsealValue<{ id: string }>(sealed)?.id, "tanaka");
+
+  const [body, signature] = sealed.split(".");
+  const forged = Buffer.from(JSON.stringify({ id: "admin", exp: Math.floor(Date.now() / 1000) + 60 })).toString("base64url");
+  assert.equal(unsealValue(`${forged}.${signature}`), null, "中身を書き換えると署名が合わない");
+  assert.equal(unsealValue(`${body}.${signature.slice(0, -1)}`), null);
+  assert.equal(unsealValue(body), null);
+  assert.equal(unsealValue(undefined), null);
+  assert.equal(unsealValue(sealValue({ id: "tanaka" }, -1)), null, "期限切れ");
+
+  process.env.AUTH_SECRET = "t".repeat(32);
+  assert.equal(unsealValue(sealed), null, "鍵を変えると以前の Cookie は使えない");
+  process.env.AUTH_SECRET = "short";
+  assert.throws(() => sealValue({ id: "tanaka" }, 60), /AUTH_SECRET/);
+});
+
+test("hasRole: viewer < editor < admin", () => {
+  assert.ok(hasRole("admin", "editor"));
+  assert.ok(hasRole("editor", "editor"));
+  assert.ok(!hasRole("viewer", "editor"));
+  assert.ok(!hasRole("editor", "admin"));
+});
+
+test("authorize: ログイン・参加しているワークスペース・権限を確かめる", async () => {
+  const configFile = join(dir, "auth.json");
+  writeFileSync(
+    configFile,
+    JSON.stringify({
+      workspaces: [
+        { id: "sales", name: "営業部" },
+        { id: "dev", name: "開発部" },
+      ],
+      users: [
+        { id: "tanaka", roles: { sales: "editor", dev: "viewer" } },
+        { id: "suzuki", roles: { dev: "admin" } },
+      ],
+    })
+  );
+  process.env.AUTH_MODE = "local";
+  process.env.AUTH_SECRET = SECRET;
+  process.env.AUTH_CONFIG_FILE = configFile;
+
+  assert.equal(((await authorize(request(), "viewer")) as Response).status, 401);
+  assert.equal(((await authorize(request(sessionHeader("removed")), "viewer")) as Response).status, 401, "設定ファイルにない利用者");
+  assert.equal(((await authorize(request(sessionHeader("tanaka", -1)), "viewer")) as Response).status, 401, "期限切れ");
+
+  const auth = (await authorize(request(sessionHeader("tanaka")), "editor")) as AuthContext;
+  assert.equal(auth.workspace.id, "sales", "指定がなければ最初に参加しているワークスペース");
+  assert.equal(auth.role, "editor");
+
+  const viewer = await authorize(request({ ...sessionHeader("tanaka"), "x-workspace": "dev" }), "editor");
+  assert.equal((viewer as Response).status, 403, "閲覧者は編集できない");
+  const outsider = await authorize(request({ ...sessionHeader("suzuki"), "x-workspace": "sales" }), "viewer");
+  assert.equal((outsider as Response).status, 403, "参加していないワークスペース");
+  const admin = (await authorize(request({ ...sessionHeader("suzuki"), "x-workspace": "dev" }), "admin")) as AuthContext;
+  assert.equal(admin.role, "admin");
+
+  process.env.AUTH_MODE = "none";
+  const anonymous = (await authorize(request(), "admin")) as AuthContext;
+  assert.equal(anonymous.workspace.id, "default");
+});
+
+test("consumeRateLimit: 期間内の回数を数え、最初の1回が期間から外れるまでの秒数を返す", () => {
+  process.env.RATE_LIMIT_MAX = "2";
+  process.env.RATE_LIMIT_WINDOW_SEC = "60";
+  const now = 1_000_000;
+
+  assert.equal(consumeRateLimit("user:a", { now }), null);
+  assert.equal(consumeRateLimit("user:a", { now: now + 10_000 }), null);
+  assert.equal(consumeRateLimit("user:a", { now: now + 20_000 }), 40);
+  assert.equal(consumeRateLimit("user:a", { now: now + 60_001 }), null, "期間を過ぎた分は数えない");
+  assert.equal(consumeRateLimit("user:b", { now }), null, "利用者ごとに数える");
+
+  process.env.RATE_LIMIT_MAX = "0";
+  assert.equal(consumeRateLimit("user:a", { now }), null, "0 は制限しない");
+});
+
+test("authorize: rateLimit を指定した操作は、期間内の上限を超えたら retry-after つきの 429", async () => {
+  process.env.AUTH_MODE = "none";
+  process.env.RATE_LIMIT_MAX = "2";
+  const headers = { "x-forwarded-for": `203.0.113.${Date.now() % 200}` };
+  process.env.TRUST_PROXY = "1";
+
+  assert.ok(!((await authorize(request(headers), "editor", { rateLimit: true })) instanceof Response));
+  assert.ok(!((await authorize(request(headers), "editor", { rateLimit: true })) instanceof Response));
+  assert.ok(!((await authorize(request(headers), "editor")) instanceof Response), "rateLimit なしは数えない");
+  const limited = (await authorize(request(headers), "editor", { rateLimit: true })) as Response;
+  assert.equal(limited.status, 429);
+  assert.ok(Number(limited.headers.get("retry-after")) > 0);
+  process.env.RATE_LIMIT_MAX = "0";
+  delete process.env.TRUST_PROXY;
+});
+
+test("checkRequestSize: 長さのない本文は 411、上限を超えれば 413", () => {
+  process.env.MAX_REQUEST_MB = "1";
+  assert.equal(checkRequestSize(request()), null, "本文のない GET");
+  assert.equal(checkRequestSize(request({}, { method: "POST", body: "x" }))?.status, 411);
+  assert.equal(checkRequestSize(request({ "content-length": "1" }, { method: "POST", body: "x" })), null);
+  assert.equal(checkRequestSize(request({ "content-length": String(2 * 1024 * 1024) }, { method: "POST", body: "x" }))?.status, 413);
+});
+
+test("clientAddress: プロキシのヘッダーは TRUST_PROXY=1 のときだけ使い、末尾の値を取る", () => {
+  const headers = { "x-forwarded-for": "203.0.113.9, 198.51.100.7", "x-real-ip": "192.0.2.1" };
+  assert.equal(clientAddress(request(headers)), "local");
+  process.env.TRUST_PROXY = "1";
+  assert.equal(clientAddress(request(headers)), "198.51.100.7");
+  assert.equal(clientAddress(request({ "x-real-ip": "192.0.2.1" })), "192.0.2.1");
+  delete process.env.TRUST_PROXY;
+});
+
+test("POST /api/auth/login: 試行回数はログイン名と接続元の組で数え、ほかの接続元からはログインできる", async () => {
+  const configFile = join(dir, "login.json");
+  writeFileSync(
+    configFile,
+    JSON.stringify({
+      workspaces: [{ id: "sales", name: "営業部" }],
+      users: [{ id: "tanaka", password: await hashPassword("correct"), roles: { sales: "editor" } }],
+    })
+  );
+  process.env.AUTH_MODE = "local";
+  process.env.AUTH_SECRET = SECRET;
+  process.env.AUTH_CONFIG_FILE = configFile;
+  process.env.TRUST_PROXY = "1";
+  process.env.LOGIN_RATE_LIMIT_MAX = "2";
+  const attempt = (address: string, password: string) => {
+    const body = JSON.stringify({ username: "tanaka", password });
+    return login(
+      new NextRequest("http://localhost/api/auth/login", {
+        method: "POST",
+        body,
+        headers: { "content-type": "application/json", "content-length": String(Buffer.byteLength(body)), "x-forwarded-for": address },
+      })
+    );
+  };
+
+  try {
+    assert.equal((await attempt("203.0.113.1", "wrong")).status, 401);
+    assert.equal((await attempt("203.0.113.1", "wrong")).status, 401);
+    const limited = await attempt("203.0.113.1", "correct");
+    assert.equal(limited.status, 429);
+    assert.ok(Number(limited.headers.get("retry-after")) > 0);
+
+    const other = await attempt("198.51.100.2", "correct");
+    assert.equal(other.status, 200, "ほかの接続元からの試行では本人が締め出されない");
+    assert.match(other.headers.get("set-cookie") ?? "", new RegExp(`^${SESSION_COOKIE}=`));
+  } finally {
+    delete process.env.TRUST_PROXY;
+    delete process.env.LOGIN_RATE_LIMIT_MAX;
+  }
+});
+
+test("GET /api/auth/oidc/callback: AUTH_MODE が oidc でなければセッションを作らずに画面へ戻す", async () => {
+  process.env.AUTH_MODE = "local";
+  process.env.AUTH_SECRET = SECRET;
+  const res = await oidcCallback(new NextRequest("http://localhost/api/auth/oidc/callback?code=abc&state=xyz"));
+
+  assert.equal(res.status, 302);
+  assert.match(new URL(res.headers.get("location")!).searchParams.get("authError") ?? "", /OIDC でのログインは有効になっていません/);
+  assert.ok(!res.headers.getSetCookie().some((c) => c.startsWith(`${SESSION_COOKIE}=`)));
+});
@@ -0,0 +1,105 @@
+import assert from "node:assert/strict";
+import { after, test } from "node:test";
+import { NextRequest } from "next/server";
+import PizZip from "pizzip";
+import { POST } from "@/app/api/minutes/batch/route";
+import { BatchSourceError, readSourceZip } from "@/lib/batch";
+import { getJobStore, type MinutesJob } from "@/lib/storage";
+import { setupTestEnv } from "./helpers/env";
+
+const env = setupTestEnv();
+after(() => env.cleanup());
+
+function zipOf(files: Record<string, string>, compression: "DEFLATE" | "STORE" = "DEFLATE"): Buffer {
+  const zip = new PizZip();
+  for (const [name, text] of Object.entries(files)) zip.file(name, text);
+  return zip.generate({ type: "nodebuffer", compression });
+}
+
+async function post(files: File[]): Promise<Response> {
+  const form = new FormData();
+  for (const file of files) form.append("files", file);
+  const encoded = new Response(form);
+  const body = Buffer.from(await encoded.arrayBuffer());
+  const headers = { "content-type": encoded.headers.get("content-type") ?? "", "content-length": String(body.length) };
+  return POST(new NextRequest("http://localhost/api/minutes/batch", { method: "POST", body, headers }));
+}
+
+async function waitForJob(id: string): Promise<MinutesJob> {
+  for (const deadline = Date.now() + 10_000; Date.now() < deadline; ) {
+    const job = await getJobStore().get(id);
+    if (job && job.status !== "queued" && job.status !== "running") return job;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  throw new Error(`ジョブが終わらない: ${id}`);
+}
+
+test("readSourceZip: 文字起こしだけを名前順に読み、隠しファイル・__MACOSX は無視する", () => {
+  for (const compression of ["DEFLATE", "STORE"] as const) {
+    const zip = zipOf(
+      {
+        "定例/2024-05-10_定例.vtt": "WEBVTT\n\n00:00:01.000 --> 00:00:02.000\n<v 佐藤>始めます。",
+        "a.txt": "田中: こんにちは",
+        "notes.docx": "x",
+        ".hidden.txt": "x",
+        "__MACOSX/a.txt": "x",
+      },
+      compression
+    );
+    const sources = readSourceZip(zip);
+    assert.deepEqual(sources.map((s) => s.name), ["a.txt", "定例/2024-05-10_定例.vtt"], compression);
+    assert.equal(sources[0].text, "田中: こんにちは");
+  }
+});
+
+test("readSourceZip: 展開した大きさが上限を超えれば展開をやめて 413、壊れた zip は 400", () => {
+  process.env.BATCH_MAX_UNZIPPED_MB = "0.01";
+  try {
+    // 圧縮すると 1KB に満たないが、展開すると 1MB になる
+    const bomb = zipOf({ "bomb.txt": "あ".repeat(350_000) });
+    assert.ok(bomb.length < 10 * 1024);
+    assert.throws(() => readSourceZip(bomb), (e) => e instanceof BatchSourceError && e.status === 413);
+    assert.throws(
+      () => readSourceZip(zipOf({ "bomb.txt": "あ".repeat(350_000) }, "STORE")),
+      (e) => e instanceof BatchSourceError && e.status === 413
+    );
+  } finally {
+    delete process.env.BATCH_MAX_UNZIPPED_MB;
+  }
+  const broken = zipOf({ "a.txt": "田中: こんにちは" }).subarray(0, 40);
+  assert.throws(() => readSourceZip(broken), (e) => e instanceof BatchSourceError && e.status === 400);
+});
+
+test("POST /api/minutes/batch: RATE_LIMIT_MAX より多い件数も1回のリクエストとして受け付け、件ごとのジョブにする", async () => {
+  process.env.RATE_LIMIT_MAX = "2";
+  try {
+    const names = ["2024-05-10_定例.txt", "2024-05-17_定例.txt", "振り返り.txt"];
+    const zip = zipOf(Object.fromEntries(names.map((name) => [name, `田中: ${name} の議題を確認します。`])));
+    const res = await post([new File([new Uint8Array(zip)], "meetings.zip")]);
+    const data: { jobs: { file: string; jobId: string; status: string }[] } = await res.json();
+
+    assert.equal(res.status, 202, JSON.stringify(data));
+    assert.deepEqual(data.jobs.map((j) => j.file), names);
+    assert.ok(data.jobs.every((j) => j.status === "queued"));
+
+    const jobs = await Promise.all(data.jobs.map((j) => waitForJob(j.jobId)));
+    assert.deepEqual(jobs.map((j) => j.status), ["succeeded", "succeeded", "succeeded"]);
+    assert.deepEqual(jobs[0].input.meeting, { title: "定例", date: "2024-05-10" }, "会議名と開催日はファイル名から");
+  } finally {
+    process.env.RATE_LIMIT_MAX = "0";
+  }
+});
+
+test("POST /api/minutes/batch: BATCH_MAX_FILES を超える件数は 413 でジョブを登録しない", async () => {
+  process.env.BATCH_MAX_FILES = "2";
+  try {
+    const before = (await getJobStore().all()).length;
+    const files = ["a.txt", "b.txt", "c.txt"].map((name) => new File(["田中: こんにちは"], name));
+    const res = await post(files);
+    assert.equal(res.status, 413);
+    assert.match((await res.json()).error, /2 件まで/);
+    assert.equal((await getJobStore().all()).length, before);
+  } finally {
+    delete process.env.BATCH_MAX_FILES;
+  }
+});
@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { splitTranscript } from "@/lib/minutes/chunk";
+
+// 1発言 = 「話者N: 」+ 本文 40 文字 +「。\n」（47 文字）
+function turns(count: number): string {
+  return Array.from({ length: count }, (_, i) => `話者${i}: ${"あ".repeat(40)}。\n`).join("");
+}
+
+test("splitTranscript: 話者の切り替わりで区切り、前のチャンクの末尾の発言を重ねる", () => {
+  const text = turns(10);
+  const { chunks, droppedChars } = splitTranscript(text, { maxChars: 120, overlapChars: 60 });
+
+  assert.equal(droppedChars, 0);
+  assert.equal(chunks[0].start, 0);
+  assert.equal(chunks.at(-1)!.end, text.length, "最後まで含める");
+  for (const [i, chunk] of chunks.entries()) {
+    assert.equal(chunk.index, i);
+    assert.equal(chunk.text, text.slice(chunk.start, chunk.end));
+    assert.ok(chunk.text.length <= 120, `チャンク ${i} が上限を超えている`);
+    assert.match(chunk.text, /^話者\d+: /, "発言の途中から始めない");
+    assert.ok(chunk.text.endsWith("\n"), "発言の途中で終えない");
+  }
+  for (let i = 1; i < chunks.length; i++) {
+    const overlap = chunks[i - 1].end - chunks[i].start;
+    assert.ok(overlap > 0 && overlap <= 60, `チャンク ${i} の重なり ${overlap}`);
+    assert.ok(chunks[i].end > chunks[i - 1].end, "新しい発言を必ず含む");
+  }
+});
+
+test("splitTranscript: 上限ちょうどの発言の並びは1つにまとめ、1文字でも超えれば分ける", () => {
+  const text = turns(2);
+  assert.equal(splitTranscript(text, { maxChars: text.length }).chunks.length, 1);
+  assert.equal(splitTranscript(text, { maxChars: text.length - 1, overlapChars: 0 }).chunks.length, 2);
+});
+
+test("splitTranscript: 上限を超える1発言は文末で分ける", () => {
+  const text = `議長: ${"い".repeat(50)}。${"う".repeat(50)}。${"え".repeat(50)}。`;
+  const { chunks } = splitTranscript(text, { maxChars: 80, overlapChars: 0 });
+
+  assert.ok(chunks.length > 1);
+  for (const chunk of chunks.slice(0, -1)) assert.ok(chunk.text.endsWith("。"), `文の途中で切れている: ${chunk.text}`);
+  assert.equal(chunks.map((c) => c.text).join(""), text, "重なりなしなら元の文字列に戻る");
+});
+
+test("splitTranscript: maxChunks を超えた分は切り捨て、未処理の文字数を返す", () => {
+  const text = turns(10);
+  const { chunks, droppedChars } = splitTranscript(text, { maxChars: 100, overlapChars: 0, maxChunks: 3 });
+
+  assert.equal(chunks.length, 3);
+  assert.equal(droppedChars, text.slice(chunks[2].end).trim().length);
+  assert.ok(droppedChars > 0);
+});
+
+test("splitTranscript: 空白だけのテキストはチャンクなし", () => {
+  assert.deepEqual(splitTranscript(" \n\n "), { chunks: [], droppedChars: 0 });
+});
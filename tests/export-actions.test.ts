@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { parseCsv } from "@/lib/csv";
+import { extractActionPlan, parseDateText, parseTimeText } from "@/lib/export/actions";
+import { renderActionPlanIcs } from "@/lib/export/ics";
+import { actionPlanToCsv } from "@/lib/export/tracker";
+import type { MinutesDocument } from "@/lib/minutes/schema";
+
+function minutesDocument(fields: Partial<MinutesDocument>): MinutesDocument {
+  return {
+    summary: "",
+    minutes: "",
+    attendees: [],
+    agenda: [],
+    decisions: [],
+    actionItems: [],
+    openQuestions: [],
+    meeting: { title: "週次定例", date: "2026-12-20" },
+    ...fields,
+  };
+}
+
+test("parseDateText: 年のない日付は開催日の年とし、開催日より前なら翌年にする", () => {
+  const base = "2026-12-20";
+  assert.equal(parseDateText("2027/1/5 まで", base), "2027-01-05");
+  assert.equal(parseDateText("２０２７年１月５日", base), "2027-01-05", "全角も読む");
+  assert.equal(parseDateText("12月25日", base), "2026-12-25");
+  assert.equal(parseDateText("1/10", base), "2027-01-10");
+  assert.equal(parseDateText("Jan 3rd", base), "2027-01-03");
+  assert.equal(parseDateText("12/20", base), "2026-12-20", "開催日当日は同じ年");
+});
+
+test("parseDateText / parseTimeText: 存在しない日付・読めない書き方は null", () => {
+  assert.equal(parseDateText("2026-02-30", "2026-01-01"), null);
+  assert.equal(parseDateText("2/29", "2026-01-01"), null, "平年の2月29日");
+  assert.equal(parseDateText("来週中", "2026-01-01"), null);
+  assert.equal(parseDateText("手順 1/2/3", "2026-01-01"), null, "3つ以上の数字の並びは日付にしない");
+
+  assert.equal(parseTimeText("午後2時半"), "14:30");
+  assert.equal(parseTimeText("９：０５開始"), "09:05");
+  assert.equal(parseTimeText("12pm"), "12:00");
+  assert.equal(parseTimeText("25:00"), null);
+});
+
+test("renderActionPlanIcs: 期限は終日、次回の会議は時刻つきの1時間の予定にし、読めない期限は数える", () => {
+  const doc = minutesDocument({
+    minutes: "## 次回\n- 次回は1月8日 15:00 から",
+    actionItems: [
+      { task: "見積もりの再提出", owner: "佐藤", dueDate: "12/31", sourceQuote: "年内に出します" },
+      { task: "議事録の共有", owner: "", dueDate: "次回まで", sourceQuote: "" },
+    ],
+  });
+  const plan = extractActionPlan(doc);
+  assert.deepEqual(plan.nextMeeting, { date: "2027-01-08", time: "15:00", source: "次回は1月8日 15:00 から" });
+
+  const { ics, events, skipped } = renderActionPlanIcs(plan, new Date("2026-12-20T03:04:05Z"));
+  assert.equal(events, 2);
+  assert.equal(skipped, 1);
+  assert.ok(ics.endsWith("\r\n") && !/[^\r]\n/.test(ics), "改行は CRLF");
+  const lines = ics.replace(/\r\n /g, "").split("\r\n");
+  assert.ok(lines.includes("DTSTAMP:20261220T030405Z"));
+  assert.ok(lines.includes("DTSTART;VALUE=DATE:20261231"));
+  assert.ok(lines.includes("DTEND;VALUE=DATE:20270101"), "年をまたいでも翌日を終了日にする");
+  assert.ok(lines.includes("DTSTART:20270108T150000"));
+  assert.ok(lines.includes("DTEND:20270108T160000"));
+});
+
+test("actionPlanToCsv: 書かれたままの期限と、読めた日付を並べて書き出す", () => {
+  const plan = extractActionPlan(
+    minutesDocument({
+      actionItems: [
+        { task: "見積もり, 再提出", owner: "佐藤", dueDate: "1/15", sourceQuote: "" },
+        { task: "共有", owner: "鈴木", dueDate: "未定", sourceQuote: "" },
+      ],
+    })
+  );
+  const rows = parseCsv(actionPlanToCsv(plan));
+
+  assert.deepEqual(rows[0].slice(0, 5), ["No.", "内容", "担当", "期限", "期限（日付）"]);
+  assert.deepEqual(rows[1].slice(0, 5), ["1", "見積もり, 再提出", "佐藤", "1/15", "2027-01-15"]);
+  assert.deepEqual(rows[2].slice(0, 5), ["2", "共有", "鈴木", "未定", ""]);
+  assert.deepEqual(rows[1].slice(6), ["週次定例", "2026-12-20"]);
+});
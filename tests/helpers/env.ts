@@ -0,0 +1,50 @@
+/**
+ * テストの実行環境。保存先を一時ディレクトリにし、認証・回数制限・API キーなど手元の設定の影響を受けないようにする。
+ * ストアは最初に使ったときの保存先を覚えるので、テストファイルの先頭（ストアを使う前）で呼ぶ。
+ */
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+export function setupTestEnv(): { cleanup(): void } {
+  // 生成の各段階のログは多いので TEST_LOG=1 のときだけ標準エラーに出す
+  // （Node 20 のテストランナーは子プロセスの標準出力で結果を受け取るため、ログが混ざると読み取れなくなることがある）
+  console.log = process.env.TEST_LOG === "1" ? console.error : () => {};
+  const root = mkdtempSync(join(tmpdir(), "minutes-test-"));
+  process.env.STORAGE_BACKEND = "file";
+  process.env.MEETINGS_DIR = join(root, "meetings");
+  process.env.MEETINGS_INDEX_DIR = join(root, "meetings-index");
+  process.env.STYLE_PROFILES_DIR = join(root, "style-profiles");
+  process.env.GLOSSARY_DIR = join(root, "glossary");
+  process.env.JOBS_DIR = join(root, "jobs");
+  process.env.RATE_LIMIT_MAX = "0";
+  for (const name of [
+    "AUTH_MODE",
+    "AUTH_SECRET",
+    "AUTH_CONFIG_FILE",
+    "AUTH_SESSION_HOURS",
+    "TRUST_PROXY",
+    "MAX_REQUEST_MB",
+    "RATE_LIMIT_WINDOW_SEC",
+    "LOGIN_RATE_LIMIT_MAX",
+    "BATCH_MAX_FILES",
+    "BATCH_MAX_UNZIPPED_MB",
+    "LLM_PROVIDER",
+    "LLM_BASE_URL",
+    "LLM_MODEL",
+    "LLM_MODEL_STYLE",
+    "LLM_MODEL_MINUTES",
+    "LLM_STRUCTURED_OUTPUT",
+    "LLM_STREAM_USAGE",
+    "LLM_PRICES",
+    "LLM_ALLOWED_PROVIDERS",
+    "LLM_ALLOWED_MODELS",
+    "WEBHOOK_URL",
+    "WEBHOOK_FORMAT",
+  ]) {
+    delete process.env[name];
+  }
+  // 録音時は転送に使うので残す
+  if (process.env.LLM_RECORD !== "1") delete process.env.OPENAI_API_KEY;
+  return { cleanup: () => rmSync(root, { recursive: true, force: true }) };
+}
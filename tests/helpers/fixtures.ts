@@ -0,0 +1,22 @@
+/** tests/fixtures のサンプル（日本語の書き起こし・過去の議事録）を読む */
+import { readFileSync } from "fs";
+import { basename, join } from "path";
+
+const FIXTURE_DIR = join(__dirname, "..", "fixtures");
+
+export function readFixture(path: string): string {
+  return readFileSync(join(FIXTURE_DIR, path), "utf8");
+}
+
+const MIME_TYPES: Record<string, string> = {
+  ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".html": "text/html",
+  ".txt": "text/plain",
+  ".vtt": "text/vtt",
+};
+
+/** アップロードされたファイルとして読む */
+export function fixtureFile(path: string): File {
+  const ext = path.slice(path.lastIndexOf("."));
+  return new File([readFileSync(join(FIXTURE_DIR, path))], basename(path), { type: MIME_TYPES[ext] ?? "" });
+}
@@ -0,0 +1,21 @@
+/**
+ * ゴールデンファイル（tests/fixtures/golden）との比較。
+ * 出力を意図して変えた場合は UPDATE_GOLDEN=1 npm test で書き直し、差分を確かめてからコミットする。
+ */
+import assert from "node:assert/strict";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+
+const GOLDEN_DIR = join(__dirname, "..", "fixtures", "golden");
+
+/** 文字列はそのまま、それ以外は整形した JSON で比べる */
+export function assertGolden(name: string, actual: unknown) {
+  const text = typeof actual === "string" ? actual : JSON.stringify(actual, null, 2) + "\n";
+  const path = join(GOLDEN_DIR, name);
+  if (process.env.UPDATE_GOLDEN === "1" || !existsSync(path)) {
+    writeFileSync(path, text);
+    if (process.env.UPDATE_GOLDEN !== "1") assert.fail(`ゴールデンファイルがなかったため作成しました: ${name}`);
+    return;
+  }
+  assert.equal(text, readFileSync(path, "utf8"), `ゴールデンファイルと一致しません: ${name}（意図した変更なら UPDATE_GOLDEN=1）`);
+}
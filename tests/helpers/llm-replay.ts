@@ -0,0 +1,167 @@
+/**
+ * LLM の応答の録音・再生。OpenAI 互換の /chat/completions をローカルに立て、
+ * LLM_PROVIDER=openai-compatible と LLM_BASE_URL でこのサーバーに向ける（プロバイダーの実装もそのまま通す）。
+ *
+ * 録音（カセット）は tests/fixtures/llm/<名前>.json。リクエストのモデル・メッセージ・応答形式のハッシュで引き、
+ * 見つからなければ 400 を返してテストを失敗させる。プロンプトを変えた場合は録音し直す。
+ *
+ * 録音し直すには: LLM_RECORD=1 OPENAI_API_KEY=... npm test
+ *  - LLM_RECORD_BASE_URL: 録音時の転送先（既定 https://api.openai.com/v1）
+ * 録音時は使ったリクエストの分だけでカセットを書き直す。1つのカセットは1つのサーバーだけで使う。
+ */
+import { createHash } from "crypto";
+import { readFileSync, writeFileSync } from "fs";
+import { createServer, type IncomingMessage, type ServerResponse } from "http";
+import type { AddressInfo } from "net";
+import { join } from "path";
+
+const CASSETTE_DIR = join(__dirname, "..", "fixtures", "llm");
+
+type Usage = { prompt_tokens: number; completion_tokens: number; total_tokens: number };
+
+/** 録音した1回分の呼び出し */
+export type Interaction = {
+  key: string;
+  model: string;
+  /** JSON Schema の名前（JSON 指定なしの呼び出しは空文字） */
+  responseFormat: string;
+  /** 最後のメッセージの冒頭（カセットを読むときの目印） */
+  preview: string;
+  content: string;
+  usage: Usage;
+};
+
+type Cassette = { interactions: Interaction[] };
+
+type ChatBody = {
+  model: string;
+  messages: { role: string; content: string }[];
+  response_format?: { type: string; json_schema?: { name: string } };
+  stream?: boolean;
+  stream_options?: { include_usage?: boolean };
+};
+
+export type ReplayServer = {
+  /** LLM_BASE_URL に設定する URL */
+  url: string;
+  /** 受け付けたリクエスト（順番どおり） */
+  requests: ChatBody[];
+  close(): Promise<void>;
+};
+
+function requestKey({ model, messages, response_format }: ChatBody): string {
+  return createHash("sha256").update(JSON.stringify({ model, messages, response_format })).digest("hex").slice(0, 16);
+}
+
+function loadCassette(name: string): Cassette {
+  try {
+    return JSON.parse(readFileSync(join(CASSETTE_DIR, `${name}.json`), "utf8"));
+  } catch {
+    return { interactions: [] };
+  }
+}
+
+async function readBody(req: IncomingMessage): Promise<ChatBody> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+}
+
+/** 録音時: ストリーミングをやめて転送し、応答本文と使用量を受け取る */
+async function forward(body: ChatBody): Promise<Pick<Interaction, "content" | "usage">> {
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey) throw new Error("録音には OPENAI_API_KEY が必要です");
+  const baseUrl = process.env.LLM_RECORD_BASE_URL || "https://api.openai.com/v1";
+  const res = await fetch(`${baseUrl}/chat/completions`, {
+    method: "POST",
+    headers: { "content-type": "application/json", authorization: `Bearer ${apiKey}` },
+    body: JSON.stringify({ ...body, stream: undefined, stream_options: undefined }),
+  });
+  const data = await res.json();
+  if (!res.ok) throw new Error(`録音先のエラー（HTTP ${res.status}）: ${JSON.stringify(data)}`);
+  return { content: data.choices[0]?.message?.content ?? "", usage: data.usage };
+}
+
+function sendCompletion(res: ServerResponse, body: ChatBody, { content, usage }: Pick<Interaction, "content" | "usage">) {
+  const base = { id: "chatcmpl-replay", created: 0, model: body.model };
+  if (!body.stream) {
+    res.writeHead(200, { "content-type": "application/json" });
+    res.end(
+      JSON.stringify({
+        ...base,
+        object: "chat.completion",
+        choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+        usage,
+      })
+    );
+    return;
+  }
+  // ストリーミングは本文を数十文字ずつに分け、求められていれば最後に使用量だけのチャンクを送る（OpenAI と同じ順序）
+  res.writeHead(200, { "content-type": "text/event-stream" });
+  const chunk = (choices: unknown[], extra: object = {}) =>
+    res.write(`data: ${JSON.stringify({ ...base, object: "chat.completion.chunk", choices, ...extra })}\n\n`);
+  for (let i = 0; i < content.length; i += 40) {
+    chunk([{ index: 0, delta: { content: content.slice(i, i + 40) }, finish_reason: null }]);
+  }
+  chunk([{ index: 0, delta: {}, finish_reason: "stop" }]);
+  if (body.stream_options?.include_usage) chunk([], { usage });
+  res.end("data: [DONE]\n\n");
+}
+
+/** カセットを再生する（LLM_RECORD=1 なら録音する）サーバーを立てる */
+export async function startReplayServer(cassetteName: string): Promise<ReplayServer> {
+  const recording = process.env.LLM_RECORD === "1";
+  const cassette = loadCassette(cassetteName);
+  const recorded: Interaction[] = [];
+  const requests: ChatBody[] = [];
+
+  const server = createServer(async (req, res) => {
+    try {
+      const body = await readBody(req);
+      requests.push(body);
+      const key = requestKey(body);
+      let interaction = recording ? recorded.find((i) => i.key === key) : cassette.interactions.find((i) => i.key === key);
+      if (!interaction && recording) {
+        interaction = {
+          key,
+          model: body.model,
+          responseFormat: body.response_format?.json_schema?.name ?? "",
+          preview: body.messages[body.messages.length - 1]?.content.slice(0, 80) ?? "",
+          ...(await forward(body)),
+        };
+        recorded.push(interaction);
+      }
+      if (!interaction) {
+        // 400 にして SDK に再試行させない
+        res.writeHead(400, { "content-type": "application/json" });
+        res.end(JSON.stringify({ error: { message: `録音がありません（${cassetteName}: ${key}）。LLM_RECORD=1 で録音し直してください` } }));
+        return;
+      }
+      sendCompletion(res, body, interaction);
+    } catch (e) {
+      res.writeHead(400, { "content-type": "application/json" });
+      res.end(JSON.stringify({ error: { message: e instanceof Error ? e.message : String(e) } }));
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/v1`,
+    requests,
+    async close() {
+      await new Promise<void>((resolve, reject) => server.close((e) => (e ? reject(e) : resolve())));
+      if (recording) {
+        writeFileSync(join(CASSETTE_DIR, `${cassetteName}.json`), JSON.stringify({ interactions: recorded }, null, 2) + "\n");
+      }
+    },
+  };
+}
+
+/** LLM の呼び出しをこのサーバーに向ける（resolveProvider が読む環境変数） */
+export function useReplayProvider(server: ReplayServer) {
+  process.env.LLM_PROVIDER = "openai-compatible";
+  process.env.LLM_BASE_URL = server.url;
+  process.env.LLM_MODEL = "gpt-4o-mini";
+  process.env.LLM_STREAM_USAGE = "1";
+}
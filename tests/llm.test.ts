@@ -0,0 +1,43 @@
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import { ProviderConfigError, resolveProvider } from "@/lib/llm";
+import { setupTestEnv } from "./helpers/env";
+import { startReplayServer, useReplayProvider, type ReplayServer } from "./helpers/llm-replay";
+
+const env = setupTestEnv();
+let server: ReplayServer;
+
+before(async () => {
+  // 録音は使わない（送ったリクエストだけを確かめる。応答は 400 になる）
+  server = await startReplayServer("llm-requests");
+  useReplayProvider(server);
+});
+
+after(async () => {
+  await server.close();
+  env.cleanup();
+});
+
+/** ストリーミングで1回呼び、サーバーが受け取ったリクエストを返す */
+async function streamedRequest() {
+  const llm = resolveProvider();
+  await assert.rejects(llm.chat({ stage: "minutes", messages: [{ role: "user", content: "こんにちは" }], onDelta: () => {} }));
+  return server.requests[server.requests.length - 1];
+}
+
+test("resolveProvider: LLM_STRUCTURED_OUTPUT は json_schema / json_object だけを受け付ける", () => {
+  process.env.LLM_STRUCTURED_OUTPUT = "json";
+  try {
+    assert.throws(() => resolveProvider(), (e) => e instanceof ProviderConfigError && /LLM_STRUCTURED_OUTPUT/.test(e.message));
+    process.env.LLM_STRUCTURED_OUTPUT = "json_object";
+    assert.equal(resolveProvider().name, "openai-compatible");
+  } finally {
+    delete process.env.LLM_STRUCTURED_OUTPUT;
+  }
+});
+
+test("openai-compatible: stream_options は LLM_STREAM_USAGE=1 のときだけ送る", async () => {
+  assert.deepEqual((await streamedRequest()).stream_options, { include_usage: true });
+  delete process.env.LLM_STREAM_USAGE;
+  assert.equal((await streamedRequest()).stream_options, undefined, "未対応のサーバーで拒否されないよう既定は送らない");
+});
@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+import { randomUUID } from "crypto";
+import { readFileSync, readdirSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { after, test } from "node:test";
+import { getMeetingStore, type MeetingRecord } from "@/lib/storage";
+import { setupTestEnv } from "./helpers/env";
+
+const env = setupTestEnv();
+after(() => env.cleanup());
+
+function meetingRecord(fields: Partial<MeetingRecord> & Pick<MeetingRecord, "meeting" | "createdAt">): MeetingRecord {
+  return {
+    id: randomUUID(),
+    updatedAt: fields.createdAt,
+    summary: "",
+    minutes: "",
+    attendees: [],
+    agenda: [],
+    decisions: [],
+    actionItems: [],
+    openQuestions: [],
+    transcript: "",
+    styleGuidelines: "",
+    provider: "mock",
+    models: { style: "mock", minutes: "mock" },
+    ...fields,
+  };
+}
+
+test("一覧・検索は索引だけを読み、ほかのプロセスでの保存・削除も反映する", async () => {
+  const store = getMeetingStore();
+  const first = meetingRecord({
+    meeting: { title: "週次定例", date: "2026-10-09" },
+    createdAt: "2026-10-09T01:00:00.000Z",
+    summary: "リリース日程を確認した。",
+    minutes: "## 進捗\n- 結合テストの残件は5件",
+    transcript: "佐藤: 性能試験は来週から始めます。",
+  });
+  const second = meetingRecord({
+    meeting: { title: "週次定例", date: "2026-10-16" },
+    createdAt: "2026-10-16T01:00:00.000Z",
+    seriesId: first.id,
+    previousMeetingId: first.id,
+    summary: "リリース日を決定した。",
+    workspaceId: "sales",
+  });
+  await store.save(first);
+  await store.save(second);
+
+  assert.deepEqual((await store.list()).map((m) => m.id), [second.id, first.id], "新しい順");
+  assert.deepEqual((await store.list({ query: "結合テスト" })).map((m) => m.id), [first.id], "議事録の本文も検索する");
+  assert.deepEqual(await store.list({ query: "性能試験" }), [], "書き起こしは索引に入れない");
+  assert.deepEqual((await store.list({ workspaceId: "default" })).map((m) => m.id), [first.id]);
+  assert.equal((await store.list())[0].snippet, "リリース日を決定した。");
+
+  // 索引の更新を通さずに記録を書き換える・消す（ほかのサーバーでの保存の代わり）
+  const dir = process.env.MEETINGS_DIR!;
+  writeFileSync(join(dir, `${first.id}.json`), JSON.stringify({ ...first, summary: "議題を変更した。", minutes: "" }));
+  assert.deepEqual((await store.list({ query: "議題を変更" })).map((m) => m.id), [first.id]);
+  assert.deepEqual(await store.list({ query: "結合テスト" }), []);
+
+  rmSync(join(dir, `${second.id}.json`));
+  assert.deepEqual((await store.list()).map((m) => m.id), [first.id]);
+});
+
+test("索引の検索用の文字列は、議事録が長くても上限で切る", async () => {
+  const store = getMeetingStore();
+  const long = meetingRecord({
+    meeting: { title: "長時間の会議", date: "2026-10-20" },
+    createdAt: "2026-10-20T01:00:00.000Z",
+    decisions: ["予算案を承認"],
+    minutes: `${"議論の記録。".repeat(2000)}末尾の補足`,
+  });
+  await store.save(long);
+
+  assert.deepEqual((await store.list({ query: "予算案" })).map((m) => m.id), [long.id], "決定事項は本文より先に入れる");
+  assert.deepEqual(await store.list({ query: "末尾の補足" }), []);
+  const [index] = readdirSync(process.env.MEETINGS_INDEX_DIR!);
+  assert.ok(readFileSync(join(process.env.MEETINGS_INDEX_DIR!, index), "utf8").length < 20_000);
+});
+
+test("索引がなければ記録から作り直し、シリーズは索引で絞ってから記録を読む", async () => {
+  const store = getMeetingStore();
+  for (const file of readdirSync(process.env.MEETINGS_INDEX_DIR!)) rmSync(join(process.env.MEETINGS_INDEX_DIR!, file));
+
+  const base = meetingRecord({ meeting: { title: "定例", date: "2026-10-01" }, createdAt: "2026-10-01T01:00:00.000Z" });
+  const next = meetingRecord({
+    meeting: { title: "定例", date: "2026-10-08" },
+    createdAt: "2026-10-08T01:00:00.000Z",
+    seriesId: base.id,
+  });
+  await store.save(next);
+  await store.save(base);
+
+  const series = await store.series(base.id);
+  assert.deepEqual(series.map((r) => r.id), [base.id, next.id], "古い順");
+  assert.equal(series[1].transcript, "", "記録をそのまま返す");
+  assert.deepEqual(await store.series(base.id, "sales"), []);
+  assert.equal(readdirSync(process.env.MEETINGS_INDEX_DIR!).length, 1, "索引は1件にまとめて保存する");
+});
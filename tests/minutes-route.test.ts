@@ -0,0 +1,136 @@
+import assert from "node:assert/strict";
+import { after, before, describe, test } from "node:test";
+import { NextRequest } from "next/server";
+import { POST } from "@/app/api/minutes/route";
+import { readEvents, type MinutesResponse, type MinutesStreamEvent } from "@/lib/minutes/stream";
+import { getMeetingStore, isValidRecordId } from "@/lib/storage";
+import { setupTestEnv } from "./helpers/env";
+import { fixtureFile, readFixture } from "./helpers/fixtures";
+import { assertGolden } from "./helpers/golden";
+import { startReplayServer, useReplayProvider, type ReplayServer } from "./helpers/llm-replay";
+
+const env = setupTestEnv();
+let server: ReplayServer;
+
+before(async () => {
+  server = await startReplayServer("minutes-route");
+});
+
+after(async () => {
+  await server.close();
+  env.cleanup();
+});
+
+function minutesForm(fields: Record<string, string | File | File[]>): FormData {
+  const form = new FormData();
+  for (const [key, value] of Object.entries(fields)) {
+    for (const v of Array.isArray(value) ? value : [value]) form.append(key, v);
+  }
+  return form;
+}
+
+// ブラウザと同じく content-length をつける（長さのない本文は 411 で拒否される）
+async function post(form: FormData, query = ""): Promise<Response> {
+  const encoded = new Response(form);
+  const body = Buffer.from(await encoded.arrayBuffer());
+  const headers = { "content-type": encoded.headers.get("content-type") ?? "", "content-length": String(body.length) };
+  return POST(new NextRequest(`http://localhost/api/minutes${query}`, { method: "POST", body, headers }));
+}
+
+const weeklySync = () => ({
+  transcript: readFixture("transcripts/weekly-sync.vtt"),
+  title: "週次定例",
+  date: "2026-10-16",
+  style: [fixtureFile("style/past-minutes.docx"), fixtureFile("style/past-minutes.html")],
+});
+
+/** 実行ごとに変わる値（ID・所要時間）を除く */
+function stable(data: MinutesResponse) {
+  const { usage } = data;
+  return { ...data, meetingId: null, usage: { ...usage, latencyMs: 0, calls: usage.calls.map((c) => ({ ...c, latencyMs: 0 })) } };
+}
+
+describe("POST /api/minutes（録音した LLM の応答）", () => {
+  before(() => useReplayProvider(server));
+
+  test("成功: 過去の議事録からガイドラインを作って議事録を生成し、履歴に保存する", async () => {
+    const res = await post(minutesForm(weeklySync()));
+    const data: MinutesResponse = await res.json();
+    assert.equal(res.status, 200, JSON.stringify(data));
+
+    assert.equal(data.provider, "openai-compatible");
+    assert.equal(data.usedAI, true);
+    assert.deepEqual(data.usage.calls.map((c) => c.label), ["guidelines", "minutes"]);
+    assert.ok(data.meetingId && isValidRecordId(data.meetingId));
+    const saved = await getMeetingStore().get(data.meetingId);
+    assert.equal(saved?.minutes, data.minutes);
+    assertGolden("minutes-route.response.json", stable(data));
+  });
+
+  test("成功（stream=1）: 進捗を NDJSON で返し、最後に同じ結果を返す", async () => {
+    const res = await post(minutesForm(weeklySync()), "?stream=1");
+    assert.equal(res.status, 200);
+    assert.match(res.headers.get("content-type") ?? "", /application\/x-ndjson/);
+
+    const events: MinutesStreamEvent[] = [];
+    for await (const event of readEvents(res.body!)) events.push(event);
+    const types = [...new Set(events.map((e) => e.type))];
+    assert.deepEqual(types, ["style_parsed", "guidelines_built", "partial", "result"]);
+    const result = events[events.length - 1];
+    assert.ok(result.type === "result");
+    assert.deepEqual(stable(result.data), JSON.parse(readFixture("golden/minutes-route.response.json")));
+  });
+
+  test("出力の検証: 修正を依頼しても JSON が途中で切れる場合は 502 と問題の種類を返す", async () => {
+    const res = await post(minutesForm({ transcript: readFixture("transcripts/kickoff.txt"), title: "キックオフ" }));
+    const data = await res.json();
+    assert.equal(res.status, 502);
+    assert.equal(data.code, "truncated");
+    assert.equal(data.issues[0].code, "truncated");
+    assert.equal((await getMeetingStore().list()).filter((m) => m.meeting.title === "キックオフ").length, 0);
+  });
+});
+
+describe("POST /api/minutes（API キー未設定）", () => {
+  test("モック: 外部に通信せずにダミーの議事録を返す", async () => {
+    delete process.env.LLM_PROVIDER;
+    const apiKey = process.env.OPENAI_API_KEY;
+    delete process.env.OPENAI_API_KEY;
+    try {
+      const requests = server.requests.length;
+      const res = await post(minutesForm({ transcript: readFixture("transcripts/kickoff.txt") }));
+      const data: MinutesResponse = await res.json();
+      assert.equal(res.status, 200);
+      assert.equal(data.provider, "mock");
+      assert.equal(data.usedAI, false);
+      assert.match(data.summary, /モック/);
+      assert.equal(server.requests.length, requests);
+    } finally {
+      if (apiKey) process.env.OPENAI_API_KEY = apiKey;
+    }
+  });
+});
+
+describe("POST /api/minutes（不正なリクエスト）", () => {
+  const cases: [string, Record<string, string>, RegExp][] = [
+    ["文字起こしがない", { transcript: "  " }, /文字起こしテキストが必要です/],
+    ["speakerNames が JSON でない", { transcript: "田中: こんにちは", speakerNames: "{田中" }, /speakerNames が不正です/],
+    ["provider が不正", { transcript: "田中: こんにちは", provider: "unknown" }, /provider が不正です/],
+    ["outputLanguage が不正", { transcript: "田中: こんにちは", outputLanguage: "fr" }, /outputLanguage が不正です/],
+    ["会議の種類が存在しない", { transcript: "田中: こんにちは", template: "no-such-template" }, /会議の種類/],
+    [
+      "前回の会議が存在しない",
+      { transcript: "田中: こんにちは", previousMeetingId: "00000000-0000-0000-0000-000000000000" },
+      /前回の会議が見つかりません/,
+    ],
+  ];
+  for (const [name, fields, message] of cases) {
+    test(`400: ${name}`, async () => {
+      const requests = server.requests.length;
+      const res = await post(minutesForm(fields));
+      assert.equal(res.status, 400);
+      assert.match((await res.json()).error, message);
+      assert.equal(server.requests.length, requests, "LLM を呼ばない");
+    });
+  }
+});
@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { LLMProvider } from "@/lib/llm/types";
+import { createRedactor, withRedaction } from "@/lib/redaction";
+
+test("createRedactor: 同じ値には同じ伏せ字を使い、応答の伏せ字を元に戻す", () => {
+  const redactor = createRedactor({ names: ["佐藤"], terms: ["極秘案件"] });
+  const redacted = redactor.redact("佐藤: 極秘案件の見積もりは120万円です。連絡は sato@example.com か 03-1234-5678 へ。佐藤より");
+
+  assert.equal(redacted, "〔氏名1〕: 〔秘匿語1〕の見積もりは〔金額1〕です。連絡は 〔メール1〕 か 〔電話番号1〕 へ。〔氏名1〕より");
+  assert.equal(redactor.restore("〔氏名1〕さんが〔秘匿語1〕を担当（〔金額1〕）"), "佐藤さんが極秘案件を担当（120万円）");
+  assert.equal(redactor.restore("〔氏名9〕は不明"), "〔氏名9〕は不明", "知らない伏せ字はそのまま");
+
+  const report = redactor.report();
+  assert.equal(report.total, 5);
+  assert.equal(report.entries.find((e) => e.original === "佐藤")?.count, 2);
+});
+
+test("createRedactor: JSON の中に戻すときは元の値をエスケープする", () => {
+  const redactor = createRedactor({ terms: ['A"社\\B'] });
+  redactor.redact('A"社\\B');
+  const restored = redactor.restore(JSON.stringify({ owner: "〔秘匿語1〕" }), { json: true });
+  assert.deepEqual(JSON.parse(restored), { owner: 'A"社\\B' });
+});
+
+test("createRedactor: 前回の対応を引き継ぎ、新しい値には続きの番号を振る", () => {
+  const first = createRedactor({ names: ["佐藤", "鈴木"] });
+  first.redact("佐藤と鈴木");
+  const resumed = createRedactor({ names: ["田中"] }, first.report().entries);
+
+  assert.equal(resumed.redact("田中"), "〔氏名3〕");
+  assert.equal(resumed.restore("〔氏名1〕・〔氏名2〕・〔氏名3〕"), "佐藤・鈴木・田中");
+});
+
+test("withRedaction: 差分の境目で分かれた伏せ字もまとめて元に戻す", async () => {
+  const sent: string[] = [];
+  const llm: LLMProvider = {
+    name: "mock",
+    modelFor: () => "mock",
+    async chat({ messages, onDelta }) {
+      sent.push(...messages.map((m) => m.content));
+      for (const delta of ["担当は〔氏", "名1〕さん", "です"]) onDelta?.(delta);
+      return "担当は〔氏名1〕さんです";
+    },
+  };
+  const deltas: string[] = [];
+  const content = await withRedaction(llm, createRedactor({ names: ["佐藤"] })).chat({
+    stage: "minutes",
+    messages: [{ role: "user", content: "担当は佐藤さん" }],
+    onDelta: (delta) => deltas.push(delta),
+  });
+
+  assert.ok(!sent.some((m) => m.includes("佐藤")), "送信する内容に元の値を含めない");
+  assert.equal(content, "担当は佐藤さんです");
+  assert.equal(deltas.join(""), "担当は佐藤さんです");
+  assert.ok(!deltas.some((d) => d.includes("〔")), "伏せ字のまま画面に出さない");
+});
+
+test("createRedactor: 敬称の前の人名を伏せ、「お客様」「皆様」「部長さん」のような語は伏せない", () => {
+  const redactor = createRedactor({ names: ["林"] });
+  const ordinary = "お客様と皆様、お子様、患者様、利用者様、担当者様、取引先様、部長さん、先方様、ユーザーさんへ。";
+  assert.equal(redactor.redact(ordinary), ordinary);
+
+  assert.equal(
+    redactor.redact("田中さんと佐々木様、タナカさん、林さんが出席。"),
+    "〔氏名1〕さんと〔氏名2〕様、〔氏名3〕さん、〔氏名4〕さんが出席。",
+    "1文字の姓は話者名にあるものだけ"
+  );
+  assert.equal(redactor.redact("森さん"), "森さん");
+});
@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import { resolveProvider } from "@/lib/llm";
+import { buildStyleGuidelines, readStyleFiles } from "@/lib/minutes/style";
+import { setupTestEnv } from "./helpers/env";
+import { fixtureFile } from "./helpers/fixtures";
+import { assertGolden } from "./helpers/golden";
+import { startReplayServer, useReplayProvider, type ReplayServer } from "./helpers/llm-replay";
+
+const env = setupTestEnv();
+let server: ReplayServer;
+
+before(async () => {
+  server = await startReplayServer("style");
+  useReplayProvider(server);
+});
+
+after(async () => {
+  await server.close();
+  env.cleanup();
+});
+
+const styleFiles = () => [fixtureFile("style/past-minutes.docx"), fixtureFile("style/past-minutes.html")];
+
+test("readStyleFiles: .docx と .html の過去の議事録を見出し・箇条書き・表つきのテキストにする", async () => {
+  const { corpus, warnings } = await readStyleFiles(styleFiles());
+  assert.deepEqual(warnings, []);
+  assertGolden("style-corpus.md", corpus);
+});
+
+test("readStyleFiles: 読めないファイルは警告にして残りを使う", async () => {
+  const broken = new File([Buffer.from("PK\u0003\u0004壊れたファイル")], "broken.docx");
+  const { corpus, warnings } = await readStyleFiles([broken, fixtureFile("style/past-minutes.html")]);
+  assert.equal(warnings.length, 1);
+  assert.equal(warnings[0].file, "broken.docx");
+  assert.match(corpus, /第12回 週次定例 議事録/);
+});
+
+test("buildStyleGuidelines: 過去の議事録が短すぎる場合は LLM を呼ばない", async () => {
+  const before = server.requests.length;
+  assert.equal(await buildStyleGuidelines(resolveProvider(), "短い議事録"), "");
+  assert.equal(server.requests.length, before);
+});
+
+test("buildStyleGuidelines: 録音した応答からガイドラインを作る", async () => {
+  const { corpus } = await readStyleFiles(styleFiles());
+  const guidelines = await buildStyleGuidelines(resolveProvider(), corpus);
+  assertGolden("style-guidelines.md", guidelines);
+
+  const request = server.requests[server.requests.length - 1];
+  assert.equal(request.model, "gpt-4o-mini");
+  assert.ok(request.messages[1].content.includes("| 結合テストの残件を解消する | 鈴木 | 10月14日 |"));
+});
@@ -0,0 +1,121 @@
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import { createMockProvider, resolveProvider } from "@/lib/llm";
+import { MOCK_MINUTES } from "@/lib/llm/mock";
+import { prepareMinutesInput, summarize, type SummarizeInput } from "@/lib/minutes/pipeline";
+import type { MinutesStreamEvent } from "@/lib/minutes/stream";
+import { MinutesValidationError, validateMinutes } from "@/lib/minutes/validate";
+import { getPromptTemplate, type PromptTemplate } from "@/lib/prompts";
+import { setupTestEnv } from "./helpers/env";
+import { readFixture } from "./helpers/fixtures";
+import { assertGolden } from "./helpers/golden";
+import { startReplayServer, useReplayProvider, type ReplayServer } from "./helpers/llm-replay";
+
+const env = setupTestEnv();
+let server: ReplayServer;
+let template: PromptTemplate;
+
+before(async () => {
+  server = await startReplayServer("summarize");
+  useReplayProvider(server);
+  template = (await getPromptTemplate("general"))!;
+});
+
+after(async () => {
+  await server.close();
+  env.cleanup();
+});
+
+const meeting = { title: "週次定例", date: "2026-10-16" };
+
+async function weeklySyncInput(): Promise<SummarizeInput> {
+  const input = await prepareMinutesInput({
+    transcript: readFixture("transcripts/weekly-sync.vtt"),
+    template,
+    meeting,
+    redactTerms: null,
+    glossary: false,
+  });
+  return { ...input, styleGuidelines: "", language: "ja", sourceLanguage: input.language.source };
+}
+
+test("prepareMinutesInput: WebVTT の書き起こしを「[時刻] 名前: 発言」にそろえ、話者を読み取る", async () => {
+  const input = await weeklySyncInput();
+  assert.deepEqual(input.participants, ["佐藤", "鈴木", "高橋"]);
+  assert.equal(input.sourceLanguage, "ja");
+  assertGolden("weekly-sync.transcript.txt", input.transcript);
+});
+
+test("summarize: 録音した応答から議事録を作り、根拠の位置を確かめる", async () => {
+  const events: MinutesStreamEvent[] = [];
+  const result = await summarize(resolveProvider(), await weeklySyncInput(), (e) => events.push(e));
+
+  assert.deepEqual(result.validation, { repairs: 0, issues: [] });
+  assert.ok(result.grounding.length > 0);
+  assert.ok(result.grounding.every((c) => c.supported), "すべての行の根拠が書き起こしにある");
+  assert.ok(events.some((e) => e.type === "partial"), "生成途中の本文を送る");
+  assertGolden("weekly-sync.minutes.json", result);
+
+  // システムプロンプトに会議情報・話者・テンプレートの見出しが入る
+  const system = server.requests[0].messages[0].content;
+  for (const text of ["週次定例", "2026-10-16", "佐藤、鈴木、高橋", "## 今後の対応"]) assert.ok(system.includes(text), text);
+});
+
+test("summarize: 壊れた JSON は修正を依頼し、直った出力を使う", async () => {
+  let calls = 0;
+  const llm = createMockProvider({
+    MinutesSchema: (request) => {
+      calls++;
+      if (calls === 1) return '{"summary": "途中で切れた';
+      assert.match(request.messages[request.messages.length - 1].content, /途中で切れています/);
+      return JSON.stringify({ ...MOCK_MINUTES, minutes: template.sections.map((s) => `## ${s}\n- 内容`).join("\n\n") });
+    },
+  });
+  const events: MinutesStreamEvent[] = [];
+  const result = await summarize(llm, await weeklySyncInput(), (e) => events.push(e));
+
+  assert.equal(calls, 2);
+  assert.equal(result.validation.repairs, 1);
+  assert.deepEqual(
+    events.filter((e) => e.type === "repairing").map((e) => e.type === "repairing" && e.issues[0].code),
+    ["truncated"]
+  );
+});
+
+test("summarize: 出力の上限で打ち切られた応答は、JSON として読めても修正を依頼する", async () => {
+  const minutes = template.sections.map((s) => `## ${s}\n- 内容`).join("\n\n");
+  let calls = 0;
+  const llm = createMockProvider({
+    MinutesSchema: (request) => {
+      if (++calls === 1) request.onTruncated?.();
+      return JSON.stringify({ ...MOCK_MINUTES, minutes });
+    },
+  });
+  const events: MinutesStreamEvent[] = [];
+  const result = await summarize(llm, await weeklySyncInput(), (e) => events.push(e));
+
+  assert.equal(calls, 2);
+  assert.equal(result.validation.repairs, 1);
+  const repairing = events.find((e) => e.type === "repairing");
+  assert.ok(repairing?.type === "repairing" && repairing.issues[0].code === "truncated");
+});
+
+test("validateMinutes: 末尾の「…」は打ち切りとみなさず、明示的な印だけを打ち切りとする", () => {
+  const minutes = template.sections.map((s) => `## ${s}\n- 検討を続ける…`).join("\n\n");
+  const rules = { sections: template.sections };
+  assert.deepEqual(validateMinutes({ ...MOCK_MINUTES, summary: "結論は次回に持ち越し…", minutes }, rules), []);
+  assert.deepEqual(validateMinutes({ ...MOCK_MINUTES, summary: "詳細は...", minutes }, rules), []);
+  assert.deepEqual(
+    validateMinutes({ ...MOCK_MINUTES, minutes: `${minutes}\n\n（以下略）` }, rules).map((i) => i.code),
+    ["truncated"]
+  );
+});
+
+test("summarize: 修正を依頼しても JSON として読めなければ MinutesValidationError", async () => {
+  const llm = createMockProvider({ MinutesSchema: "議事録は以下のとおりです。" });
+  await assert.rejects(summarize(llm, await weeklySyncInput(), () => {}), (e) => {
+    assert.ok(e instanceof MinutesValidationError);
+    assert.equal(e.issues[0].code, "invalid_json");
+    return true;
+  });
+});
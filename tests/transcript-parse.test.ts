@@ -0,0 +1,75 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { applySpeakerNames, listSpeakers, parseTranscript, renderTranscript } from "@/lib/transcript/parse";
+
+test("parseTranscript: WebVTT の話者タグを読み、同じ話者の続くキューはまとめる", () => {
+  const vtt = [
+    "\uFEFFWEBVTT",
+    "",
+    "1",
+    "00:00:01.000 --> 00:00:04.000",
+    "<v 佐藤>おはようございます。</v>",
+    "",
+    "2",
+    "00:00:04.500 --> 00:00:06.000",
+    "<v 佐藤>始めます。</v>",
+    "",
+    "3",
+    "01:02:03.500 --> 01:02:05.000",
+    "<v.loud 鈴木>了解です。",
+  ].join("\r\n");
+  const { format, utterances } = parseTranscript(vtt);
+
+  assert.equal(format, "vtt");
+  assert.deepEqual(utterances, [
+    { speaker: "佐藤", start: 1, text: "おはようございます。 始めます。" },
+    { speaker: "鈴木", start: 3723.5, text: "了解です。" },
+  ]);
+});
+
+test("parseTranscript: SRT はカンマ区切りのミリ秒と「名前: 発言」を読む", () => {
+  const srt = [
+    "1",
+    "00:00:02,250 --> 00:00:05,000",
+    "Speaker 1: 見積もりを確認しました。",
+    "",
+    "2",
+    "00:00:05,000 --> 00:00:07,000",
+    "<i>Speaker 2：</i>複数行の",
+    "字幕です。",
+  ].join("\n");
+  const { format, utterances } = parseTranscript(srt);
+
+  assert.equal(format, "srt");
+  assert.deepEqual(utterances, [
+    { speaker: "Speaker 1", start: 2.25, text: "見積もりを確認しました。" },
+    { speaker: "Speaker 2", start: 5, text: "複数行の 字幕です。" },
+  ]);
+});
+
+test("parseTranscript: 「名前: 発言」形式は話者のない行を直前の発言の続きにする", () => {
+  const { format, utterances } = parseTranscript("田中：資料を共有します。\n補足です。\n話者 2: 承知しました。");
+
+  assert.equal(format, "colon");
+  assert.deepEqual(utterances, [
+    { speaker: "田中", text: "資料を共有します。\n補足です。" },
+    { speaker: "話者 2", text: "承知しました。" },
+  ]);
+});
+
+test("parseTranscript: 話者のないテキストはそのまま1つの発言にする", () => {
+  const { format, utterances } = parseTranscript("  本日は定例会議です。\n議題は3つあります。  ");
+  assert.equal(format, "plain");
+  assert.deepEqual(utterances, [{ speaker: "", text: "本日は定例会議です。\n議題は3つあります。" }]);
+});
+
+test("listSpeakers / applySpeakerNames: 汎用の話者ラベルを判定し、空の割り当ては無視する", () => {
+  const { utterances } = parseTranscript("[00:00:01] Speaker 1: 始めます。\n[00:00:05] 佐藤: はい。\n[00:01:10] Speaker 1: 次へ。");
+
+  assert.deepEqual(listSpeakers(utterances), [
+    { speaker: "Speaker 1", count: 2, generic: true },
+    { speaker: "佐藤", count: 1, generic: false },
+  ]);
+  const renamed = applySpeakerNames(utterances, { "Speaker 1": " 田中 ", 佐藤: "  " });
+  assert.equal(renderTranscript(renamed), "[00:00:01] 田中: 始めます。\n[00:00:05] 佐藤: はい。\n[00:01:10] 田中: 次へ。");
+});
@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import { createServer } from "http";
+import type { AddressInfo } from "net";
+import { after, test } from "node:test";
+import { WebhookError, buildWebhookPayload, resolveWebhookConfig, sendWebhook } from "@/lib/export/webhook";
+import type { MinutesDocument } from "@/lib/minutes/schema";
+import { setupTestEnv } from "./helpers/env";
+
+const env = setupTestEnv();
+after(() => env.cleanup());
+
+const doc: MinutesDocument = {
+  summary: "A&B 社との契約 <!channel>",
+  minutes: "",
+  attendees: [],
+  agenda: [],
+  decisions: ["<https://example.com|資料> を共有する"],
+  actionItems: [],
+  openQuestions: [],
+  meeting: { title: "週次定例 <3>", date: "2026-10-16" },
+};
+
+test("buildWebhookPayload: Slack の mrkdwn では &, <, > をエスケープし、メンションやリンクにしない", () => {
+  const payload = buildWebhookPayload(doc, "slack") as { text: string; blocks: { text: { text: string } }[] };
+  const text = payload.blocks.map((b) => b.text.text).join("\n");
+
+  assert.ok(text.includes("A&amp;B 社との契約 &lt;!channel&gt;"));
+  assert.ok(text.includes("&lt;https://example.com|資料&gt; を共有する"));
+  assert.equal(payload.text, "議事録: 週次定例 &lt;3&gt; 2026-10-16");
+  assert.equal(payload.blocks[0].text.text, "週次定例 <3> 2026-10-16", "見出し（plain_text）はそのまま");
+});
+
+test("resolveWebhookConfig / sendWebhook: 投稿先の URL と応答本文はエラーメッセージに含めない", async () => {
+  process.env.WEBHOOK_URL = "ftp://hooks.example.com/services/SECRET-TOKEN";
+  assert.throws(resolveWebhookConfig, (e) => e instanceof WebhookError && !e.message.includes("SECRET-TOKEN"));
+  delete process.env.WEBHOOK_URL;
+
+  const server = createServer((_, res) => res.writeHead(500).end("internal detail: SECRET-TOKEN"));
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const logError = console.error;
+  console.error = () => {};
+  try {
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/services/SECRET-TOKEN`;
+    await assert.rejects(sendWebhook({ url, format: "slack" }, {}), (e) => {
+      assert.ok(e instanceof WebhookError);
+      assert.equal(e.message, "Webhook がエラーを返しました（HTTP 500）");
+      return true;
+    });
+  } finally {
+    console.error = logError;
+    await new Promise((resolve) => server.close(resolve));
+  }
+});